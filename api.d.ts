@@ -4,6 +4,7 @@ export type ChannelId = number;
 export type ServiceId = number;
 export type NetworkId = number;
 export type ProgramId = number;
+export type SeriesId = number;
 export type RuleId = number;
 export type ReserveId = number;
 export type RecordedId = number;
@@ -14,6 +15,11 @@ export type ThumbnailId = number;
 export type DropLogFileId = number;
 export type RecordedTagId = number;
 export type EncodeId = number;
+export type UserId = number;
+export type UserTokenId = number;
+export type UserRole = 'viewer' | 'reserver' | 'admin';
+export type WebhookDeliveryId = number;
+export type WebhookDeliveryState = 'pending' | 'retrying' | 'success' | 'failed';
 export type ChannelType = 'GR' | 'BS' | 'CS' | 'SKY';
 export type ProgramGenreLv1 = number;
 export type ProgramGenreLv2 = number;
@@ -45,11 +51,27 @@ export interface ChannelItem {
  */
 export interface EditManualReserveOption {
     allowEndLack: boolean; // 末尾切れを許すか
+    priority?: ReservePriority; // 未指定の場合は 0
+    startPadding?: ReservePadding; // 番組開始前の録画パディング 未指定の場合は 0
+    endPadding?: ReservePadding; // 番組終了後の録画パディング 未指定の場合は 0
     tags?: RecordedTagId[];
     saveOption?: ReserveSaveOption;
     encodeOption?: ReserveEncodedOption;
 }
 
+/**
+ * 予約の優先度
+ * チューナーの割り当て時に値が大きいものが優先される
+ */
+export type ReservePriority = number;
+
+/**
+ * 番組予約の前後に付与する録画パディング (秒)
+ * 時刻指定予約では使用されない
+ * 他のチャンネルの予約とチューナーが不足する場合は自動で縮められる
+ */
+export type ReservePadding = number;
+
 /**
  * 手動予約オプション
  */
@@ -87,6 +109,17 @@ export interface Reserves {
     total: number;
 }
 
+/**
+ * 番組のシリーズ情報
+ */
+export interface ProgramSeries {
+    id: SeriesId;
+    repeat: number; // 再放送番号 (0 は初回放送)
+    episode?: number; // 話数
+    lastEpisode?: number; // 最終話の話数
+    name?: string; // シリーズ名
+}
+
 /**
  * 予約番組情報
  */
@@ -101,6 +134,14 @@ export interface ReserveItem {
     isOverlap: boolean;
     allowEndLack: boolean;
     isTimeSpecified: boolean;
+    priority: ReservePriority;
+    displacedBy?: DisplacingReserveItem[]; // 競合している場合のみ存在する
+    substituteReserveId?: ReserveId; // 競合した予約の代替予約の場合は元の予約 id
+    rerecordRecordedId?: RecordedId; // 再録画予約の場合は元の録画 id
+    startPadding: ReservePadding; // 設定された開始パディング
+    endPadding: ReservePadding; // 設定された終了パディング
+    appliedStartPadding: ReservePadding; // 競合回避のため縮めた後の実際の開始パディング
+    appliedEndPadding: ReservePadding; // 競合回避のため縮めた後の実際の終了パディング
     tags?: RecordedTagId[];
     /**
      * 保存オプション
@@ -144,6 +185,17 @@ export interface ReserveItem {
     videoComponentType?: number;
     audioSamplingRate?: ProgramAudioSamplingRate;
     audioComponentType?: number;
+    series?: ProgramSeries;
+}
+
+/**
+ * 競合の原因となっている優先度の高い予約
+ */
+export interface DisplacingReserveItem {
+    id: ReserveId;
+    ruleId?: RuleId;
+    name: string;
+    priority: ReservePriority;
 }
 
 /**
@@ -212,6 +264,116 @@ export interface RuleKeywordInfo {
     items: RuleKeywordItem[];
 }
 
+/**
+ * ルール検索クエリの構文エラー
+ */
+export interface RuleKeywordQueryError {
+    position: number; // エラー箇所の開始位置 (0 始まり)
+    length: number; // エラー箇所の長さ
+    message: string;
+}
+
+/**
+ * ルール検索クエリの検証オプション
+ */
+export interface ValidateRuleKeywordQueryOption {
+    query: string;
+}
+
+/**
+ * ルール検索クエリの検証結果
+ */
+export interface RuleKeywordQueryValidationResult {
+    isValid: boolean;
+    errors: RuleKeywordQueryError[];
+}
+
+/**
+ * ルールの判定項目
+ * broadcast: 放送終了前か, duplicate: 録画済み番組と重複していないか
+ * anotherRule: 他のルールで同じ番組が予約されていないか, skip: スキップされていないか, conflict: 競合していないか
+ * それ以外は RuleSearchOption の各検索条件
+ */
+export type RuleMatchFilterName =
+    | 'broadcast'
+    | 'keyword'
+    | 'ignoreKeyword'
+    | 'keywordQuery'
+    | 'channel'
+    | 'genre'
+    | 'time'
+    | 'isFree'
+    | 'durationMin'
+    | 'durationMax'
+    | 'searchPeriod'
+    | 'series'
+    | 'duplicate'
+    | 'anotherRule'
+    | 'skip'
+    | 'conflict';
+
+/**
+ * ルールの判定項目ごとの結果
+ */
+export interface RuleMatchFilterResult {
+    name: RuleMatchFilterName;
+    isPassed: boolean;
+}
+
+/**
+ * ルール dry run オプション
+ * rule を指定した場合は未保存のルールとして扱い, ruleId も指定した場合は保存済みのルールの変更として扱う
+ * ruleId のみの場合は保存済みのルールを使用する
+ */
+export interface DryRunRuleOption {
+    ruleId?: RuleId;
+    rule?: AddRuleOption;
+}
+
+/**
+ * ルールと番組の判定オプション
+ */
+export interface RuleMatchOption extends DryRunRuleOption {
+    programId: ProgramId;
+}
+
+/**
+ * ルールと番組の判定結果
+ */
+export interface RuleMatchExplanation {
+    programId: ProgramId;
+    isMatched: boolean; // 検索条件を全て満たすか (録画済み番組との重複は除く)
+    isReserved: boolean; // ルール予約として録画されるか
+    filters: RuleMatchFilterResult[];
+}
+
+/**
+ * dry run で計算された予約情報
+ */
+export interface DryRunReserveItem {
+    id?: ReserveId; // 新規追加される予約には存在しない
+    ruleId?: RuleId; // 未保存のルールの予約には存在しない
+    programId?: ProgramId;
+    channelId: ChannelId;
+    startAt: UnixtimeMS;
+    endAt: UnixtimeMS;
+    name: string;
+    isSkip: boolean;
+    isConflict: boolean;
+    isOverlap: boolean;
+    isTimeSpecified: boolean;
+}
+
+/**
+ * ルール dry run 結果
+ */
+export interface RuleDryRunResult {
+    insert: DryRunReserveItem[];
+    update: DryRunReserveItem[];
+    delete: DryRunReserveItem[];
+    conflicts: DryRunReserveItem[]; // insert, update のうち競合する予約
+}
+
 /**
  * Rule 追加オプション
  */
@@ -282,6 +444,9 @@ export interface RuleSearchOption {
     durationMin?: number; // 番組最小時間
     durationMax?: number; // 番組最大時間
     searchPeriods?: SearchPeriod[]; // 検索対象期間
+    seriesId?: SeriesId; // シリーズ id (キーワードの代わりにシリーズで番組を検索する)
+    seriesNetworkId?: NetworkId; // シリーズの network id (シリーズ id はネットワーク毎に割り当てられるため合わせて指定する)
+    keywordQuery?: string; // 検索クエリ (AND, OR, NOT, 括弧, フレーズ, フィールド指定が可能)
 }
 
 /**
@@ -293,6 +458,10 @@ export interface RuleReserveOption {
     avoidDuplicate: boolean; // 録画済みの重複番組を排除するか
     periodToAvoidDuplicate?: number; // 重複を避ける期間
     tags?: RecordedTagId[]; // 録画完了後に付与する tag 設定
+    disableAfterLastEpisode?: boolean; // シリーズ最終話の録画後にルールを無効化するか
+    priority?: ReservePriority; // ルール予約の優先度 未指定の場合は 0
+    startPadding?: ReservePadding; // 番組開始前の録画パディング 未指定の場合は 0
+    endPadding?: ReservePadding; // 番組終了後の録画パディング 未指定の場合は 0
 }
 
 /**
@@ -372,6 +541,7 @@ export interface RecordedItem {
     videoComponentType?: number;
     audioSamplingRate?: ProgramAudioSamplingRate;
     audioComponentType?: number;
+    series?: ProgramSeries;
     isRecording: boolean;
     thumbnails?: ThumbnailId[];
     videoFiles?: VideoFile[];
@@ -379,6 +549,17 @@ export interface RecordedItem {
     tags?: RecordedTag[];
     isEncoding: boolean;
     isProtected: boolean;
+    gaps?: RecordedGap[]; // 録画中に stream が途切れた場合のみ存在する
+    supersededBy?: RecordedId; // 再録画の結果ドロップの少ない録画で置き換えられた場合のみ存在する
+    rerecordedBy?: RecordedId; // 再録画で置き換えるか判断できず確認が必要な場合のみ存在する
+}
+
+/**
+ * 録画中に stream が途切れて映像が欠落している区間
+ */
+export interface RecordedGap {
+    startAt: UnixtimeMS; // 途切れた時刻
+    duration: number; // 欠落している時間 (ms)
 }
 
 /**
@@ -399,6 +580,59 @@ export interface DropLogFile {
     scramblingCnt: number;
 }
 
+/**
+ * ドロップログ詳細
+ */
+export interface DropLogDetail {
+    startAt: UnixtimeMS; // ドロップチェック開始時刻 (再生位置の基準)
+    endAt: UnixtimeMS; // ドロップチェック終了時刻
+    pids: DropLogPidItem[];
+    events: DropLogEvent[];
+    isTruncated: boolean; // events が上限を超えたため以降のイベントを記録していない
+}
+
+/**
+ * pid ごとのドロップ情報
+ */
+export interface DropLogPidItem {
+    pid: number;
+    name: string;
+    error: number;
+    drop: number;
+    scrambling: number;
+    packet: number;
+}
+
+export type DropLogEventType = 'error' | 'drop' | 'scrambling';
+
+/**
+ * ドロップイベント
+ * 同じ pid, 種類のイベントは 1 秒単位でまとめられる
+ */
+export interface DropLogEvent {
+    type: DropLogEventType;
+    pid: number;
+    cnt: number;
+    time: UnixtimeMS; // 発生時刻
+    position: number; // ストリームの PCR から算出した先頭からの経過時間 (ms) 録画ファイルの再生位置に相当する
+}
+
+/**
+ * ドロップチェックの状態
+ * waiting: 実行待ち
+ * running: 実行中
+ */
+export type DropCheckState = 'waiting' | 'running';
+
+/**
+ * ビデオファイルのドロップチェック進捗
+ */
+export interface DropCheckProgress {
+    videoFileId: VideoFileId;
+    state: DropCheckState;
+    progress: number; // 0 ~ 1
+}
+
 /**
  * Recorded tag
  */
@@ -426,6 +660,7 @@ export interface GetRecordedOption {
     genre?: ProgramGenreLv1;
     keyword?: string;
     hasOriginalFile?: boolean;
+    sortByRelevance?: boolean; // 全文検索が有効な場合に関連度順で返す
 }
 
 /**
@@ -462,6 +697,72 @@ export interface GetRecordedTagOption {
     excludeTagId?: RecordedTagId[];
 }
 
+/**
+ * 録画履歴 (重複番組の判定に使用する)
+ */
+export interface RecordedHistoryItem {
+    id: RecordedHistoryId;
+    name: string; // 番組名 (括弧除去済み半角文字)
+    channelId: ChannelId;
+    endAt: UnixtimeMS;
+    recordedId?: RecordedId; // 記録元の録画 id
+}
+
+export interface RecordedHistories {
+    histories: RecordedHistoryItem[];
+    total: number;
+}
+
+/**
+ * 録画履歴取得オプション
+ */
+export interface GetRecordedHistoryOption {
+    offset?: number;
+    limit?: number;
+    name?: string;
+    channelId?: ChannelId;
+}
+
+/**
+ * 受信品質の集計単位
+ */
+export type ReceptionQualityGroupBy = 'channel' | 'tuner';
+
+/**
+ * 受信品質取得オプション
+ */
+export interface GetReceptionQualityOption {
+    days: number;
+    groupBy?: ReceptionQualityGroupBy; // 省略時は channel
+}
+
+/**
+ * 日毎の受信品質
+ */
+export interface ReceptionQualityItem {
+    date: UnixtimeMS; // 集計日の 0 時
+    channelId?: ChannelId; // groupBy が channel の場合のみ存在する
+    tunerName?: string; // groupBy が tuner の場合のみ存在する (EPGStation が予約に割り当てたチューナーであり, Mirakurun が実際に使用したチューナーとは異なる場合がある. 不明な場合は存在しない)
+    recordingCnt: number; // 録画数
+    packetCnt: number;
+    errorCnt: number;
+    dropCnt: number;
+    scramblingCnt: number;
+    dropRate: number; // dropCnt / packetCnt
+}
+
+export interface ReceptionQualityItems {
+    items: ReceptionQualityItem[];
+}
+
+/**
+ * 予約の重複判定の理由
+ */
+export interface ReserveOverlap {
+    isOverlap: boolean;
+    histories: RecordedHistoryItem[]; // 重複と判定した録画履歴
+}
+
 /**
  * URL Scheme 情報
  */
@@ -590,6 +891,7 @@ export interface ScheduleProgramItem {
     videoComponentType?: number;
     audioSamplingRate?: ProgramAudioSamplingRate;
     audioComponentType?: number;
+    series?: ProgramSeries;
 }
 
 /**
@@ -607,6 +909,7 @@ export interface ScheduleSearchOption {
     option: RuleSearchOption;
     isHalfWidth: boolean;
     limit?: number;
+    sortByRelevance?: boolean; // 全文検索が有効な場合に関連度順で返す
 }
 
 /**
@@ -619,12 +922,17 @@ export interface ScheduleSearchOption {
 export interface EncodeInfo {
     runningItems: EncodeProgramItem[]; // エンコード中
     waitItems: EncodeProgramItem[]; // エンコード待ち
+    isPaused: boolean; // queue が一時停止中か
 }
 
 export interface EncodeProgramItem {
     id: EncodeId;
     mode: string;
     recorded: RecordedItem;
+    priority: number;
+    isPaused: boolean; // エンコードプロセスが一時停止中か
+    isScheduled: boolean; // 時間帯や負荷などの開始条件を満たすまで待機中か
+    scheduledStartAt?: UnixtimeMS; // 開始予定時刻 (予測できない場合は undefined)
     percent?: number;
     log?: string;
 }
@@ -639,6 +947,7 @@ export interface AddEncodeProgramOption {
     directory?: string; // 親ディレクトリ以下のディレクトリ設定
     mode: string; // config encode の name
     removeOriginal: boolean;
+    priority?: number; // 優先度 大きいほど先にエンコードされる (default 0)
 }
 
 export interface AddManualEncodeProgramOption {
@@ -649,6 +958,14 @@ export interface AddManualEncodeProgramOption {
     isSaveSameDirectory?: boolean; // ソースビデオファイルと同じ場所に保存する
     mode: string; // config encode の name
     removeOriginal: boolean;
+    priority?: number; // 優先度 大きいほど先にエンコードされる (default 0)
+}
+
+/**
+ * エンコード待ち queue 内の位置変更オプション
+ */
+export interface EncodeQueuePositionOption {
+    position: number; // 移動先の位置 (0 が先頭)
 }
 
 /**
@@ -720,6 +1037,33 @@ export interface CreateNewRecordedOption {
     subGenre3?: ProgramGenreLv2;
 }
 
+/**
+ * 録画番組情報編集オプション
+ * 省略した項目は未設定となる
+ */
+export interface EditRecordedOption {
+    channelId: ChannelId;
+    name: string;
+    description?: string;
+    extended?: string;
+    genre1?: ProgramGenreLv1;
+    subGenre1?: ProgramGenreLv2;
+    genre2?: ProgramGenreLv1;
+    subGenre2?: ProgramGenreLv2;
+    genre3?: ProgramGenreLv1;
+    subGenre3?: ProgramGenreLv2;
+}
+
+/**
+ * 録画番組情報を番組表から再取得するオプション
+ * programId が指定されていない場合は channelId と startAt から番組を探す
+ */
+export interface UpdateRecordedProgramOption {
+    programId?: ProgramId;
+    channelId?: ChannelId; // 省略時は録画番組の channelId
+    startAt?: UnixtimeMS; // 省略時は録画番組の startAt
+}
+
 /**
  * ストリーム情報
  */
@@ -756,3 +1100,284 @@ export interface StorageInfo {
 export interface VersionInfo {
     version: string;
 }
+
+/**
+ * ユーザー情報
+ */
+export interface UserItem {
+    id: UserId;
+    name: string;
+    role: UserRole;
+}
+
+export interface Users {
+    users: UserItem[];
+}
+
+/**
+ * ユーザー追加オプション
+ */
+export interface AddUserOption {
+    name: string;
+    password: string;
+    role: UserRole;
+}
+
+/**
+ * パスワード更新オプション
+ */
+export interface UpdateUserPasswordOption {
+    password: string;
+}
+
+/**
+ * ログイン中のユーザーのパスワード変更オプション
+ */
+export interface ChangePasswordOption {
+    currentPassword: string;
+    password: string;
+}
+
+/**
+ * 権限更新オプション
+ */
+export interface UpdateUserRoleOption {
+    role: UserRole;
+}
+
+/**
+ * ログインオプション
+ */
+export interface LoginOption {
+    name: string;
+    password: string;
+}
+
+/**
+ * ログイン結果
+ */
+export interface LoginResult {
+    token: string;
+    expiresAt: UnixtimeMS;
+    user: UserItem;
+}
+
+/**
+ * ログイン中のユーザー情報
+ */
+export interface CurrentUserInfo {
+    isEnabledAuthentication: boolean;
+    user?: UserItem; // 認証が無効な場合は undefined
+    permissions: UserRole[]; // 実行可能な操作の権限
+}
+
+/**
+ * API トークン情報
+ */
+export interface ApiTokenItem {
+    id: UserTokenId;
+    name: string;
+    createdAt: UnixtimeMS;
+    expiresAt?: UnixtimeMS; // undefined の場合は無期限
+}
+
+export interface ApiTokens {
+    tokens: ApiTokenItem[];
+}
+
+/**
+ * API トークン発行オプション
+ */
+export interface AddApiTokenOption {
+    name: string;
+    expiresAt?: UnixtimeMS;
+}
+
+/**
+ * API トークン発行結果
+ */
+export interface AddedApiToken {
+    tokenId: UserTokenId;
+    token: string; // 発行時のみ取得可能
+}
+
+/**
+ * ストリーミング用トークン発行オプション
+ */
+export interface AddStreamTokenOption {
+    expiresAt?: UnixtimeMS; // 未指定の場合は streamTokenExpirationHours 後
+}
+
+/**
+ * ストリーミング用トークン
+ * query の token にのみ使用でき, 動画, ストリーミング, プレイリスト等の取得にのみ使用できる
+ */
+export interface StreamToken {
+    token: string;
+    expiresAt: UnixtimeMS;
+}
+
+/**
+ * webhook 送信ログ
+ */
+export interface WebhookDeliveryItem {
+    id: WebhookDeliveryId;
+    url: string;
+    event: string;
+    payload: string; // 送信した JSON
+    state: WebhookDeliveryState;
+    attempts: number; // 送信試行回数
+    statusCode?: number; // 最後に受信した http status code
+    errorMessage?: string; // 最後に発生したエラー
+    nextRetryAt?: UnixtimeMS; // 次回の再送予定時刻
+    createdAt: UnixtimeMS;
+    updatedAt: UnixtimeMS;
+}
+
+export interface WebhookDeliveries {
+    deliveries: WebhookDeliveryItem[];
+    total: number;
+}
+
+/**
+ * webhook 送信ログ取得オプション
+ */
+export interface GetWebhookDeliveriesOption {
+    offset?: number;
+    limit?: number;
+    event?: string;
+    state?: WebhookDeliveryState;
+}
+
+/**
+ * リアルタイムイベントの種類
+ * socket.io の /events namespace の room 名, SSE の購読対象として使用する
+ */
+export type ServerEventCategory = 'reserve' | 'recording' | 'recorded' | 'rule' | 'tag' | 'encode' | 'stream';
+
+/**
+ * 予約情報更新イベント
+ */
+export interface ReserveServerEvent {
+    category: 'reserve';
+    type: 'updated';
+    insert: ReserveId[];
+    update: ReserveId[];
+    delete: ReserveId[];
+}
+
+/**
+ * 録画状態変更イベント
+ */
+export interface RecordingServerEvent {
+    category: 'recording';
+    type:
+        | 'prepStarted'
+        | 'prepCanceled'
+        | 'prepFailed'
+        | 'started'
+        | 'finished'
+        | 'failed'
+        | 'dropUpdated'
+        | 'dropThreshold';
+    reserveId: ReserveId;
+    recordedId?: RecordedId; // 録画開始後のイベントのみ
+    dropCnts?: RecordingDropCnts; // dropUpdated, dropThreshold のみ
+}
+
+/**
+ * 録画中のエラー, ドロップ, スクランブル数
+ */
+export interface RecordingDropCnts {
+    errorCnt: number;
+    dropCnt: number;
+    scramblingCnt: number;
+    recentErrorCnt: number; // 直近 1 分間のエラー数
+    recentDropCnt: number; // 直近 1 分間のドロップ数
+    recentScramblingCnt: number; // 直近 1 分間のスクランブル数
+}
+
+/**
+ * 録画済み番組更新イベント
+ */
+export interface RecordedServerEvent {
+    category: 'recorded';
+    type:
+        | 'added'
+        | 'deleted'
+        | 'protectChanged'
+        | 'updated'
+        | 'videoFileAdded'
+        | 'videoFileUpdated'
+        | 'videoFileDeleted'
+        | 'thumbnailAdded'
+        | 'thumbnailDeleted';
+    recordedId?: RecordedId;
+    videoFileId?: VideoFileId;
+}
+
+/**
+ * ルール更新イベント
+ */
+export interface RuleServerEvent {
+    category: 'rule';
+    type: 'added' | 'updated' | 'enabled' | 'disabled' | 'deleted';
+    ruleId: RuleId;
+}
+
+/**
+ * タグ更新イベント
+ */
+export interface TagServerEvent {
+    category: 'tag';
+    type: 'created' | 'updated' | 'deleted' | 'related' | 'unrelated';
+    tagId: RecordedTagId;
+    recordedId?: RecordedId; // related, unrelated のみ
+}
+
+/**
+ * エンコード状態変更イベント
+ */
+export interface EncodeServerEvent {
+    category: 'encode';
+    type: 'added' | 'canceled' | 'finished' | 'failed' | 'updated';
+    encodeId?: EncodeId;
+    recordedId?: RecordedId;
+}
+
+/**
+ * エンコード進捗
+ */
+export interface EncodeProgressItem {
+    encodeId: EncodeId;
+    percent: number;
+    log: string;
+}
+
+/**
+ * エンコード進捗更新イベント
+ */
+export interface EncodeProgressServerEvent {
+    category: 'encode';
+    type: 'progress';
+    items: EncodeProgressItem[];
+}
+
+/**
+ * ストリーム状態変更イベント
+ */
+export interface StreamServerEvent {
+    category: 'stream';
+    type: 'started' | 'stopped' | 'enabled';
+    streamId: StreamId;
+}
+
+export type ServerEvent =
+    | ReserveServerEvent
+    | RecordingServerEvent
+    | RecordedServerEvent
+    | RuleServerEvent
+    | TagServerEvent
+    | EncodeServerEvent
+    | EncodeProgressServerEvent
+    | StreamServerEvent;
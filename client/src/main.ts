@@ -4,6 +4,7 @@ import smoothscroll from 'smoothscroll-polyfill';
 import Vue from 'vue';
 import DatetimePicker from 'vuetify-datetime-picker';
 import App from './App.vue';
+import IAuthModel from './model/auth/IAuthModel';
 import IChannelModel from './model/channels/IChannelModel';
 import container from './model/ModelContainer';
 import setter from './model/ModelContainerSetter';
@@ -17,22 +18,43 @@ setter(container);
 smoothscroll.polyfill();
 
 (async (): Promise<void> => {
-    // server config の取得
-    const serverConfiModel = container.get<IServerConfigModel>('IServerConfigModel');
-    await serverConfiModel.fetchConfig().catch(err => {
-        console.error('get server config error');
+    // ログイン状態の取得
+    const authModel = container.get<IAuthModel>('IAuthModel');
+    await authModel.fetchCurrentUser().catch(err => {
+        console.error('get current user error');
         console.error(err);
     });
 
-    // Web app 設定
-    container.get<IPWAConfigModel>('IPWAConfigModel').setting();
+    if (authModel.isLoginRequired() === true) {
+        // 未ログインの場合はログイン画面のみ表示する
+        router.beforeEach((to, _from, next) => {
+            if (to.name === 'login') {
+                next();
+            } else {
+                next({ name: 'login' });
+            }
+        });
+        if (router.currentRoute.name !== 'login') {
+            await router.replace({ name: 'login' }).catch(() => {});
+        }
+    } else {
+        // server config の取得
+        const serverConfiModel = container.get<IServerConfigModel>('IServerConfigModel');
+        await serverConfiModel.fetchConfig().catch(err => {
+            console.error('get server config error');
+            console.error(err);
+        });
 
-    // 放送局情報の取得
-    const channelModel = container.get<IChannelModel>('IChannelModel');
-    await channelModel.fetchChannels().catch(err => {
-        console.error('get channels error');
-        console.error(err);
-    });
+        // Web app 設定
+        container.get<IPWAConfigModel>('IPWAConfigModel').setting();
+
+        // 放送局情報の取得
+        const channelModel = container.get<IChannelModel>('IChannelModel');
+        await channelModel.fetchChannels().catch(err => {
+            console.error('get channels error');
+            console.error(err);
+        });
+    }
 
     Vue.config.productionTip = false;
 
@@ -1,4 +1,6 @@
 import { Container } from 'inversify';
+import AuthApiModel from './api/auth/AuthApiModel';
+import IAuthApiModel from './api/auth/IAuthApiModel';
 import ChannelsApiModel from './api/channels/ChannelsApiModel';
 import IChannelsApiModel from './api/channels/IChannelsApiModel';
 import ConfigApiModel from './api/config/ConfigApiModel';
@@ -8,6 +10,8 @@ import IDropLogApiModel from './api/dropLog/IDropLogApiModel';
 import EncodeApiModel from './api/encode/EncodeApiModel';
 import IEncodeApiModel from './api/encode/IEncodeApiModel';
 import IRepositoryModel from './api/IRepositoryModel';
+import IReceptionQualityApiModel from './api/receptionQuality/IReceptionQualityApiModel';
+import ReceptionQualityApiModel from './api/receptionQuality/ReceptionQualityApiModel';
 import IRecordedApiModel from './api/recorded/IRecordedApiModel';
 import RecordedApiModel from './api/recorded/RecordedApiModel';
 import IRecordingApiModel from './api/recording/IRecordingApiModel';
@@ -27,6 +31,8 @@ import IThumbnailApiModel from './api/thumbnail/IThumbnailApiModel';
 import ThumbnailApiModel from './api/thumbnail/ThumbnailApiModel';
 import IVideoApiModel from './api/video/IVideoApiModel';
 import VideoApiModel from './api/video/VideoApiModel';
+import AuthModel from './auth/AuthModel';
+import IAuthModel from './auth/IAuthModel';
 import ChannelModel from './channels/ChannelModel';
 import IChannelModel from './channels/IChannelModel';
 import IPWAConfigModel from './pwa/IPWAConfigModel';
@@ -37,6 +43,8 @@ import ISocketIOModel from './socketio/ISocketIOModel';
 import SocketIOModel from './socketio/SocketIOModel';
 import DashboardState from './state/dashboard/DashboardState';
 import IDashboardState from './state/dashboard/IDashboardState';
+import IReceptionQualityState from './state/dashboard/IReceptionQualityState';
+import ReceptionQualityState from './state/dashboard/ReceptionQualityState';
 import DropLogDialogState from './state/dropLog/DropLogDialogState';
 import IDropLogDialogState from './state/dropLog/IDropLogDialogState';
 import AddEncodeState from './state/encode/AddEncodeState';
@@ -60,9 +68,11 @@ import OnAirSelectStreamState from './state/onair/OnAirSelectStreamState';
 import OnAirState from './state/onair/OnAirState';
 import IWatchOnAirInfoState from './state/onair/watch/IWatchOnAirInfoState';
 import WatchOnAirInfoState from './state/onair/watch/WatchOnAirInfoState';
+import IRecordedDetailEditState from './state/recorded/detail/IRecordedDetailEditState';
 import IRecordedDetailSelectStreamState from './state/recorded/detail/IRecordedDetailSelectStreamState';
 import IRecordedDetailState from './state/recorded/detail/IRecordedDetailState';
 import ISendVideoFileToKodiState from './state/recorded/detail/ISendVideoFileToKodiState';
+import RecordedDetailEditState from './state/recorded/detail/RecordedDetailEditState';
 import RecordedDetailSelectStreamState from './state/recorded/detail/RecordedDetailSelectStreamState';
 import RecordedDetailState from './state/recorded/detail/RecordedDetailState';
 import SendVideoFileToKodiState from './state/recorded/detail/SendVideoFileToKodiState';
@@ -99,6 +109,8 @@ import ISnackbarState from './state/snackbar/ISnackbarState';
 import SnackbarState from './state/snackbar/SnackbarState';
 import IStorageState from './state/storage/IStorageState';
 import StorageState from './state/storage/StorageState';
+import AuthTokenStorageModel from './storage/auth/AuthTokenStorageModel';
+import { IAuthTokenStorageModel } from './storage/auth/IAuthTokenStorageModel';
 import AddEncodeSettingStorageModel from './storage/encode/AddEncodeSettingStorageModel';
 import { IAddEncodeSettingStorageModel } from './storage/encode/IAddEncodeSettingStorageModel';
 import GuideGenreSettingStorageModel from './storage/guide/GuideGenreSettingStorageModel';
@@ -158,10 +170,14 @@ export default (container: Container): void => {
 
     container.bind<IStorageApiModel>('IStorageApiModel').to(StorageApiModel).inSingletonScope();
 
+    container.bind<IReceptionQualityApiModel>('IReceptionQualityApiModel').to(ReceptionQualityApiModel).inSingletonScope();
+
     container.bind<IVersionApiModel>('IVersionApiModel').to(VersionApiModel).inSingletonScope();
 
     container.bind<IThumbnailApiModel>('IThumbnailApiModel').to(ThumbnailApiModel).inSingletonScope();
 
+    container.bind<IAuthApiModel>('IAuthApiModel').to(AuthApiModel).inSingletonScope();
+
     container.bind<IStorageOperationModel>('IStorageOperationModel').to(StorageOperationModel).inSingletonScope();
 
     container.bind<ISettingStorageModel>('ISettingStorageModel').to(SettingStorageModel).inSingletonScope();
@@ -182,6 +198,10 @@ export default (container: Container): void => {
 
     container.bind<IVideoPlayerSettingModel>('IVideoPlayerSettingModel').to(VideoPlayerSettingModel).inSingletonScope();
 
+    container.bind<IAuthTokenStorageModel>('IAuthTokenStorageModel').to(AuthTokenStorageModel).inSingletonScope();
+
+    container.bind<IAuthModel>('IAuthModel').to(AuthModel).inSingletonScope();
+
     container.bind<IServerConfigModel>('IServerConfigModel').to(ServerConfigModel).inSingletonScope();
 
     container.bind<IChannelModel>('IChannelModel').to(ChannelModel).inSingletonScope();
@@ -196,6 +216,8 @@ export default (container: Container): void => {
 
     container.bind<IDashboardState>('IDashboardState').to(DashboardState).inSingletonScope();
 
+    container.bind<IReceptionQualityState>('IReceptionQualityState').to(ReceptionQualityState).inSingletonScope();
+
     container.bind<IOnAirState>('IOnAirState').to(OnAirState).inSingletonScope();
 
     container.bind<IOnAirSelectStreamState>('IOnAirSelectStreamState').to(OnAirSelectStreamState).inSingletonScope();
@@ -226,6 +248,8 @@ export default (container: Container): void => {
 
     container.bind<IRecordedDetailSelectStreamState>('IRecordedDetailSelectStreamState').to(RecordedDetailSelectStreamState).inSingletonScope();
 
+    container.bind<IRecordedDetailEditState>('IRecordedDetailEditState').to(RecordedDetailEditState).inSingletonScope();
+
     container.bind<IB24RenderState>('IB24RenderState').to(B24RenderState);
 
     container.bind<IRecordedStreamingVideoState>('IRecordedStreamingVideoState').to(RecordedStreamingVideoState).inSingletonScope();
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, CancelTokenSource } from 'axios';
-import { injectable } from 'inversify';
+import { inject, injectable } from 'inversify';
 import stringify from 'json-stable-stringify';
+import { IAuthTokenStorageModel } from '../storage/auth/IAuthTokenStorageModel';
 import IRepositoryModel from './IRepositoryModel';
 
 type MethodType = 'GET' | 'DELETE' | 'POST' | 'PUT';
@@ -14,8 +15,11 @@ class RepositoryModel implements IRepositoryModel {
     private repo: AxiosInstance;
     private textRepo: AxiosInstance;
     private cancelSourceIndex: { [key: string]: CancelTokenSource } = {};
+    private tokenStorage: IAuthTokenStorageModel;
+
+    constructor(@inject('IAuthTokenStorageModel') tokenStorage: IAuthTokenStorageModel) {
+        this.tokenStorage = tokenStorage;
 
-    constructor() {
         this.repo = axios.create({
             baseURL: RepositoryModel.BASE_API,
             headers: {
@@ -31,6 +35,35 @@ class RepositoryModel implements IRepositoryModel {
             },
             responseType: 'text',
         });
+
+        this.setAuthInterceptors(this.repo);
+        this.setAuthInterceptors(this.textRepo);
+    }
+
+    /**
+     * 認証用の interceptor を設定する
+     * リクエストにトークンを付加し、トークンが無効になっていた場合は破棄して再読み込みする
+     * @param instance: AxiosInstance
+     */
+    private setAuthInterceptors(instance: AxiosInstance): void {
+        instance.interceptors.request.use(config => {
+            const token = this.tokenStorage.getSavedValue().token;
+            if (token !== null) {
+                config.headers.Authorization = `Bearer ${token}`;
+            }
+
+            return config;
+        });
+
+        instance.interceptors.response.use(undefined, err => {
+            if (typeof err.response !== 'undefined' && err.response.status === 401 && err.config.url !== '/auth/login' && this.tokenStorage.getSavedValue().token !== null) {
+                this.tokenStorage.tmp.token = null;
+                this.tokenStorage.save();
+                location.reload();
+            }
+
+            return Promise.reject(err);
+        });
     }
 
     /**
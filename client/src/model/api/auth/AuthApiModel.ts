@@ -0,0 +1,62 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../../api';
+import IRepositoryModel from '../IRepositoryModel';
+import IAuthApiModel from './IAuthApiModel';
+
+@injectable()
+export default class AuthApiModel implements IAuthApiModel {
+    private repository: IRepositoryModel;
+
+    constructor(@inject('IRepositoryModel') repository: IRepositoryModel) {
+        this.repository = repository;
+    }
+
+    /**
+     * ログイン
+     * @param option: apid.LoginOption
+     * @return Promise<apid.LoginResult>
+     */
+    public async login(option: apid.LoginOption): Promise<apid.LoginResult> {
+        const result = await this.repository.post('/auth/login', option);
+
+        return result.data;
+    }
+
+    /**
+     * ログアウト
+     * @return Promise<void>
+     */
+    public async logout(): Promise<void> {
+        await this.repository.post('/auth/logout');
+    }
+
+    /**
+     * ログイン中のユーザー情報の取得
+     * @return Promise<apid.CurrentUserInfo>
+     */
+    public async getCurrentUser(): Promise<apid.CurrentUserInfo> {
+        const result = await this.repository.get('/auth/me');
+
+        return result.data;
+    }
+
+    /**
+     * ログイン中のユーザーのパスワード変更
+     * @param option: apid.ChangePasswordOption
+     * @return Promise<void>
+     */
+    public async changePassword(option: apid.ChangePasswordOption): Promise<void> {
+        await this.repository.put('/auth/password', option);
+    }
+
+    /**
+     * ストリーミング用トークンの発行
+     * @return Promise<apid.StreamToken>
+     */
+    public async addStreamToken(): Promise<apid.StreamToken> {
+        const option: apid.AddStreamTokenOption = {};
+        const result = await this.repository.post('/auth/streamToken', option);
+
+        return result.data;
+    }
+}
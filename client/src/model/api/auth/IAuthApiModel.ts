@@ -0,0 +1,9 @@
+import * as apid from '../../../../../api';
+
+export default interface IAuthApiModel {
+    login(option: apid.LoginOption): Promise<apid.LoginResult>;
+    logout(): Promise<void>;
+    getCurrentUser(): Promise<apid.CurrentUserInfo>;
+    changePassword(option: apid.ChangePasswordOption): Promise<void>;
+    addStreamToken(): Promise<apid.StreamToken>;
+}
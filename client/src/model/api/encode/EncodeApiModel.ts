@@ -45,4 +45,51 @@ export default class EncodeApiModel implements IEncodeApiModel {
     public async cancel(encodeId: apid.EncodeId): Promise<void> {
         await this.repository.delete(`/encode/${encodeId.toString(10)}`);
     }
+
+    /**
+     * 指定した id のエンコードをエンコード待ち queue 内の指定した位置へ移動
+     * @param encodeId: apid.EncodeId
+     * @param position: number 移動先の位置 (0 が先頭)
+     * @return Promise<void>
+     */
+    public async move(encodeId: apid.EncodeId, position: number): Promise<void> {
+        const option: apid.EncodeQueuePositionOption = {
+            position: position,
+        };
+        await this.repository.put(`/encode/${encodeId.toString(10)}/position`, option);
+    }
+
+    /**
+     * 指定した id のエンコードを一時停止
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async pause(encodeId: apid.EncodeId): Promise<void> {
+        await this.repository.put(`/encode/${encodeId.toString(10)}/pause`);
+    }
+
+    /**
+     * 指定した id のエンコードを再開
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async resume(encodeId: apid.EncodeId): Promise<void> {
+        await this.repository.put(`/encode/${encodeId.toString(10)}/resume`);
+    }
+
+    /**
+     * エンコード queue を一時停止
+     * @return Promise<void>
+     */
+    public async pauseQueue(): Promise<void> {
+        await this.repository.put('/encode/pause');
+    }
+
+    /**
+     * エンコード queue を再開
+     * @return Promise<void>
+     */
+    public async resumeQueue(): Promise<void> {
+        await this.repository.put('/encode/resume');
+    }
 }
@@ -4,4 +4,9 @@ export default interface IEncodeApiModel {
     gets(isHalfWidth: boolean): Promise<apid.EncodeInfo>;
     addEncode(option: apid.AddManualEncodeProgramOption): Promise<apid.EncodeId>;
     cancel(encodeId: apid.EncodeId): Promise<void>;
+    move(encodeId: apid.EncodeId, position: number): Promise<void>;
+    pause(encodeId: apid.EncodeId): Promise<void>;
+    resume(encodeId: apid.EncodeId): Promise<void>;
+    pauseQueue(): Promise<void>;
+    resumeQueue(): Promise<void>;
 }
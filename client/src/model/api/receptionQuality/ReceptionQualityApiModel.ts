@@ -0,0 +1,26 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../../api';
+import IRepositoryModel from '../IRepositoryModel';
+import IReceptionQualityApiModel from './IReceptionQualityApiModel';
+
+@injectable()
+export default class ReceptionQualityApiModel implements IReceptionQualityApiModel {
+    private repository: IRepositoryModel;
+
+    constructor(@inject('IRepositoryModel') repository: IRepositoryModel) {
+        this.repository = repository;
+    }
+
+    /**
+     * 日毎の受信品質の取得
+     * @param option: apid.GetReceptionQualityOption
+     * @return Promise<apid.ReceptionQualityItems>
+     */
+    public async getDaily(option: apid.GetReceptionQualityOption): Promise<apid.ReceptionQualityItems> {
+        const result = await this.repository.get('/receptionQualities', {
+            params: option,
+        });
+
+        return result.data;
+    }
+}
@@ -4,10 +4,12 @@ export default interface IRecordedApiModel {
     gets(option: apid.GetRecordedOption): Promise<apid.Records>;
     get(recordedId: apid.RecordedId, isHalfWidth: boolean): Promise<apid.RecordedItem>;
     getSearchOptionList(): Promise<apid.RecordedSearchOptions>;
-    delete(recordedId: apid.RecordedId): Promise<void>;
+    delete(recordedId: apid.RecordedId, isForgetHistory?: boolean): Promise<void>;
     stopEncode(recordedId: apid.RecordedId): Promise<void>;
     protect(recordedId: apid.RecordedId): Promise<void>;
     unprotect(recordedId: apid.RecordedId): Promise<void>;
     createNewRecorded(option: apid.CreateNewRecordedOption): Promise<apid.RecordedId>;
+    edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void>;
+    updateProgramInfo(recordedId: apid.RecordedId, option: apid.UpdateRecordedProgramOption): Promise<void>;
     cleanup(): Promise<void>;
 }
@@ -53,10 +53,15 @@ export default class RecordedApiModel implements IRecordedApiModel {
     /**
      * 録画番組の削除
      * @param recordedId: RecordedId
+     * @param isForgetHistory: boolean 録画履歴も削除するか
      * @return Promise<void>
      */
-    public async delete(recordedId: apid.RecordedId): Promise<void> {
-        await this.repository.delete(`/recorded/${recordedId}`);
+    public async delete(recordedId: apid.RecordedId, isForgetHistory: boolean = false): Promise<void> {
+        await this.repository.delete(`/recorded/${recordedId}`, {
+            params: {
+                forgetHistory: isForgetHistory,
+            },
+        });
     }
 
     /**
@@ -97,6 +102,26 @@ export default class RecordedApiModel implements IRecordedApiModel {
         return result.data.recordedId;
     }
 
+    /**
+     * 録画番組情報の編集
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.EditRecordedOption
+     * @return Promise<void>
+     */
+    public async edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void> {
+        await this.repository.put(`/recorded/${recordedId}`, option);
+    }
+
+    /**
+     * 番組表から録画番組情報を再取得
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.UpdateRecordedProgramOption
+     * @return Promise<void>
+     */
+    public async updateProgramInfo(recordedId: apid.RecordedId, option: apid.UpdateRecordedProgramOption): Promise<void> {
+        await this.repository.put(`/recorded/${recordedId}/program`, option);
+    }
+
     /**
      * 録画のクリーンアップ
      * @return Promise<void>
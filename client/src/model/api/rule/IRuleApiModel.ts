@@ -4,6 +4,7 @@ export default interface IRuleApiModel {
     get(ruleId: apid.RuleId): Promise<apid.Rule>;
     gets(option: apid.GetRuleOption): Promise<apid.Rules>;
     searchKeyword(option: apid.GetRuleOption): Promise<apid.RuleKeywordItem[]>;
+    validateKeywordQuery(query: string): Promise<apid.RuleKeywordQueryValidationResult>;
     add(rule: apid.AddRuleOption): Promise<apid.RuleId>;
     update(ruleId: apid.RuleId, rule: apid.AddRuleOption): Promise<void>;
     enable(ruleId: apid.RuleId): Promise<void>;
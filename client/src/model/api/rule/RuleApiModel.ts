@@ -48,6 +48,20 @@ export default class RuleApiModel implements IRuleApiModel {
         return result.data.items;
     }
 
+    /**
+     * ルール検索クエリの構文チェック
+     * @param query: string
+     * @return Promise<apid.RuleKeywordQueryValidationResult>
+     */
+    public async validateKeywordQuery(query: string): Promise<apid.RuleKeywordQueryValidationResult> {
+        const option: apid.ValidateRuleKeywordQueryOption = {
+            query: query,
+        };
+        const result = await this.repository.post('/rules/query/validation', option);
+
+        return result.data;
+    }
+
     /**
      * ルールの追加
      * @param rule: apid.AddRuleOption
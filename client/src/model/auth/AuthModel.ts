@@ -0,0 +1,169 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import IAuthApiModel from '../api/auth/IAuthApiModel';
+import { IAuthTokenStorageModel } from '../storage/auth/IAuthTokenStorageModel';
+import IAuthModel from './IAuthModel';
+
+@injectable()
+class AuthModel implements IAuthModel {
+    private authApiModel: IAuthApiModel;
+    private tokenStorage: IAuthTokenStorageModel;
+    private currentUser: apid.CurrentUserInfo | null = null;
+    private streamToken: apid.StreamToken | null = null;
+    private streamTokenTimerId: number | null = null;
+
+    constructor(@inject('IAuthApiModel') authApiModel: IAuthApiModel, @inject('IAuthTokenStorageModel') tokenStorage: IAuthTokenStorageModel) {
+        this.authApiModel = authApiModel;
+        this.tokenStorage = tokenStorage;
+    }
+
+    /**
+     * ログイン中のユーザー情報を取得する
+     * 未ログインで認証が必要な場合はユーザー情報が空になる
+     * @return Promise<void>
+     */
+    public async fetchCurrentUser(): Promise<void> {
+        try {
+            this.currentUser = await this.authApiModel.getCurrentUser();
+            if (typeof this.currentUser.user !== 'undefined' && this.currentUser.isEnabledAuthentication === true) {
+                await this.refreshStreamToken();
+            }
+        } catch (err: any) {
+            if (typeof err.response === 'undefined' || err.response.status !== 401) {
+                throw err;
+            }
+
+            this.currentUser = {
+                isEnabledAuthentication: true,
+                permissions: [],
+            };
+        }
+    }
+
+    /**
+     * 取得したユーザー情報を返す
+     * @return apid.CurrentUserInfo | null
+     */
+    public getCurrentUser(): apid.CurrentUserInfo | null {
+        return this.currentUser;
+    }
+
+    /**
+     * ログインが必要か
+     * @return boolean
+     */
+    public isLoginRequired(): boolean {
+        return this.currentUser !== null && this.currentUser.isEnabledAuthentication === true && typeof this.currentUser.user === 'undefined';
+    }
+
+    /**
+     * 指定した権限が必要な操作を実行可能か
+     * ユーザー情報が取得できていない場合は true を返す (権限はサーバー側で検証される)
+     * @param permission: apid.UserRole
+     * @return boolean
+     */
+    public hasPermission(permission: apid.UserRole): boolean {
+        return this.currentUser === null || this.currentUser.permissions.includes(permission);
+    }
+
+    /**
+     * ログインしてトークンを保存する
+     * @param option: apid.LoginOption
+     * @return Promise<void>
+     */
+    public async login(option: apid.LoginOption): Promise<void> {
+        const result = await this.authApiModel.login(option);
+
+        this.tokenStorage.tmp.token = result.token;
+        this.tokenStorage.save();
+        await this.fetchCurrentUser();
+    }
+
+    /**
+     * ログアウトしてトークンを削除する
+     * @return Promise<void>
+     */
+    public async logout(): Promise<void> {
+        try {
+            await this.authApiModel.logout();
+        } finally {
+            this.tokenStorage.tmp.token = null;
+            this.tokenStorage.save();
+            this.currentUser = null;
+            this.clearStreamToken();
+        }
+    }
+
+    /**
+     * パスワードを変更する
+     * 変更するとサーバー側でログイントークンが無効になるため保存しているトークンも削除する
+     * @param option: apid.ChangePasswordOption
+     * @return Promise<void>
+     */
+    public async changePassword(option: apid.ChangePasswordOption): Promise<void> {
+        await this.authApiModel.changePassword(option);
+
+        this.tokenStorage.tmp.token = null;
+        this.tokenStorage.save();
+        this.currentUser = null;
+        this.clearStreamToken();
+    }
+
+    /**
+     * ストリーミング用トークンを発行する
+     * 有効期限の半分が経過したら再発行する
+     * @return Promise<void>
+     */
+    private async refreshStreamToken(): Promise<void> {
+        this.clearStreamToken();
+        this.streamToken = await this.authApiModel.addStreamToken();
+
+        const timeout = Math.max((this.streamToken.expiresAt - new Date().getTime()) / 2, AuthModel.MIN_STREAM_TOKEN_REFRESH_INTERVAL);
+        this.streamTokenTimerId = window.setTimeout(() => {
+            this.streamTokenTimerId = null;
+            this.refreshStreamToken().catch(err => {
+                console.error('refresh stream token error');
+                console.error(err);
+            });
+        }, timeout);
+    }
+
+    /**
+     * ストリーミング用トークンを破棄する
+     */
+    private clearStreamToken(): void {
+        if (this.streamTokenTimerId !== null) {
+            clearTimeout(this.streamTokenTimerId);
+            this.streamTokenTimerId = null;
+        }
+        this.streamToken = null;
+    }
+
+    /**
+     * 保存されているトークンを返す
+     * @return string | null
+     */
+    public getToken(): string | null {
+        return this.tokenStorage.getSavedValue().token;
+    }
+
+    /**
+     * url の query にストリーミング用トークンを付加する
+     * video タグ等ヘッダーを付加できない url で使用する
+     * @param url: string
+     * @return string
+     */
+    public addTokenQuery(url: string): string {
+        if (this.streamToken === null) {
+            return url;
+        }
+
+        return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(this.streamToken.token)}`;
+    }
+}
+
+namespace AuthModel {
+    export const MIN_STREAM_TOKEN_REFRESH_INTERVAL = 60 * 1000;
+}
+
+export default AuthModel;
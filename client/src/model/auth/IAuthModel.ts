@@ -0,0 +1,13 @@
+import * as apid from '../../../../api';
+
+export default interface IAuthModel {
+    fetchCurrentUser(): Promise<void>;
+    getCurrentUser(): apid.CurrentUserInfo | null;
+    isLoginRequired(): boolean;
+    hasPermission(permission: apid.UserRole): boolean;
+    login(option: apid.LoginOption): Promise<void>;
+    logout(): Promise<void>;
+    changePassword(option: apid.ChangePasswordOption): Promise<void>;
+    getToken(): string | null;
+    addTokenQuery(url: string): string;
+}
@@ -1,4 +1,5 @@
 import * as socketIo from 'socket.io-client';
+import * as apid from '../../../../api';
 
 export const UPDATE_EVENT = 'updateStatus';
 
@@ -9,4 +10,6 @@ export default interface ISocketIOModel {
     offUpdateState(callback: () => void): void;
     onUpdateEncodeState(callback: () => void): void;
     offUpdateEncodeState(callback: () => void): void;
+    onServerEvent(callback: (event: apid.ServerEvent) => void): void;
+    offServerEvent(callback: (event: apid.ServerEvent) => void): void;
 }
@@ -1,16 +1,21 @@
 import { inject, injectable } from 'inversify';
 import * as socketIo from 'socket.io-client';
+import * as apid from '../../../../api';
 import Util from '../../util/Util';
+import IAuthModel from '../auth/IAuthModel';
 import IServerConfigModel from '../serverConfig/IServerConfigModel';
 import ISocketIOModel from './ISocketIOModel';
 
 @injectable()
 class SocketIOModel implements ISocketIOModel {
     private serverConfiModel: IServerConfigModel;
+    private authModel: IAuthModel;
     private io: socketIo.Socket | null = null;
+    private eventIO: socketIo.Socket | null = null; // 変更内容を受信する namespace
 
-    constructor(@inject('IServerConfigModel') serverConfiModel: IServerConfigModel) {
+    constructor(@inject('IServerConfigModel') serverConfiModel: IServerConfigModel, @inject('IAuthModel') authModel: IAuthModel) {
         this.serverConfiModel = serverConfiModel;
+        this.authModel = authModel;
     }
 
     /**
@@ -22,9 +27,16 @@ class SocketIOModel implements ISocketIOModel {
             throw new Error('InitializationSocketIOError');
         }
 
-        this.io = socketIo.io(`${location.protocol}//${location.hostname}:${config.socketIOPort}`, {
+        const url = `${location.protocol}//${location.hostname}:${config.socketIOPort}`;
+        const option: Partial<socketIo.ManagerOptions & socketIo.SocketOptions> = {
             path: `${Util.getSubDirectory()}/socket.io`,
-        });
+            auth: cb => {
+                // 再接続時も最新のトークンを使用する
+                cb({ token: this.authModel.getToken() });
+            },
+        };
+        this.io = socketIo.io(url, option);
+        this.eventIO = socketIo.io(`${url}${SocketIOModel.EVENT_NAMESPACE}`, option);
     }
 
     /**
@@ -81,11 +93,37 @@ class SocketIOModel implements ISocketIOModel {
 
         this.io.off(SocketIOModel.UPDATE_ENCODE_STATUS_EVENT, callback);
     }
+
+    /**
+     * 変更内容を受信するイベントへのコールバック追加
+     * @param callback: (event: apid.ServerEvent) => void
+     */
+    public onServerEvent(callback: (event: apid.ServerEvent) => void): void {
+        if (this.eventIO === null) {
+            throw new Error('IOIsNull');
+        }
+
+        this.eventIO.on(SocketIOModel.SERVER_EVENT, callback);
+    }
+
+    /**
+     * 変更内容を受信するイベントへのコールバック削除
+     * @param callback: (event: apid.ServerEvent) => void
+     */
+    public offServerEvent(callback: (event: apid.ServerEvent) => void): void {
+        if (this.eventIO === null) {
+            throw new Error('IOIsNull');
+        }
+
+        this.eventIO.off(SocketIOModel.SERVER_EVENT, callback);
+    }
 }
 
 namespace SocketIOModel {
     export const UPDATE_STATUS_EVENT = 'updateStatus';
     export const UPDATE_ENCODE_STATUS_EVENT = 'updateEncode';
+    export const EVENT_NAMESPACE = '/events';
+    export const SERVER_EVENT = 'event';
 }
 
 export default SocketIOModel;
@@ -0,0 +1,21 @@
+import * as apid from '../../../../../api';
+
+export type ReceptionQualityLevel = 'none' | 'good' | 'warning' | 'bad';
+
+export interface ReceptionQualityCell {
+    date: string;
+    text: string | null; // 録画がない日は null
+    level: ReceptionQualityLevel;
+}
+
+export interface ReceptionQualityRow {
+    name: string;
+    cells: ReceptionQualityCell[];
+}
+
+export default interface IReceptionQualityState {
+    clearData(): void;
+    fetchData(groupBy: apid.ReceptionQualityGroupBy, isHalfWidth: boolean): Promise<void>;
+    getDates(): string[];
+    getRows(): ReceptionQualityRow[];
+}
@@ -0,0 +1,143 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../../api';
+import DateUtil from '../../../util/DateUtil';
+import IReceptionQualityApiModel from '../../api/receptionQuality/IReceptionQualityApiModel';
+import IChannelModel from '../../channels/IChannelModel';
+import IReceptionQualityState, { ReceptionQualityCell, ReceptionQualityLevel, ReceptionQualityRow } from './IReceptionQualityState';
+
+@injectable()
+class ReceptionQualityState implements IReceptionQualityState {
+    private receptionQualityApiModel: IReceptionQualityApiModel;
+    private channelModel: IChannelModel;
+
+    private dates: string[] = [];
+    private rows: ReceptionQualityRow[] = [];
+
+    constructor(@inject('IReceptionQualityApiModel') receptionQualityApiModel: IReceptionQualityApiModel, @inject('IChannelModel') channelModel: IChannelModel) {
+        this.receptionQualityApiModel = receptionQualityApiModel;
+        this.channelModel = channelModel;
+    }
+
+    /**
+     * 取得した受信品質をクリア
+     */
+    public clearData(): void {
+        this.dates = [];
+        this.rows = [];
+    }
+
+    /**
+     * 直近 DAYS 日分の受信品質を取得する
+     * @param groupBy: apid.ReceptionQualityGroupBy
+     * @param isHalfWidth: boolean
+     * @return Promise<void>
+     */
+    public async fetchData(groupBy: apid.ReceptionQualityGroupBy, isHalfWidth: boolean): Promise<void> {
+        const result = await this.receptionQualityApiModel.getDaily({
+            days: ReceptionQualityState.DAYS,
+            groupBy: groupBy,
+        });
+
+        // 日付一覧
+        const now = new Date();
+        const dates: apid.UnixtimeMS[] = [];
+        for (let i = ReceptionQualityState.DAYS - 1; i >= 0; i--) {
+            dates.push(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i).getTime());
+        }
+        this.dates = dates.map(date => {
+            return DateUtil.format(DateUtil.getJaDate(new Date(date)), 'MM/dd');
+        });
+
+        // 放送局 or チューナー毎にまとめる
+        const index: { [name: string]: apid.ReceptionQualityItem[] } = {};
+        const names: string[] = [];
+        for (const item of result.items) {
+            const name = this.getName(item, isHalfWidth);
+            if (typeof index[name] === 'undefined') {
+                index[name] = [];
+                names.push(name);
+            }
+            index[name].push(item);
+        }
+
+        this.rows = names.map(name => {
+            return {
+                name: name,
+                cells: dates.map((date, i) => {
+                    return this.createCell(
+                        this.dates[i],
+                        index[name].find(item => {
+                            return item.date === date;
+                        }),
+                    );
+                }),
+            };
+        });
+    }
+
+    /**
+     * 行の名前を返す
+     * @param item: apid.ReceptionQualityItem
+     * @param isHalfWidth: boolean
+     * @return string
+     */
+    private getName(item: apid.ReceptionQualityItem, isHalfWidth: boolean): string {
+        if (typeof item.channelId !== 'undefined') {
+            const channel = this.channelModel.findChannel(item.channelId, isHalfWidth);
+
+            return channel === null ? item.channelId.toString(10) : channel.name;
+        }
+
+        return typeof item.tunerName === 'undefined' ? '不明' : item.tunerName;
+    }
+
+    /**
+     * セル情報を生成する
+     * @param date: string
+     * @param item: apid.ReceptionQualityItem | undefined
+     * @return ReceptionQualityCell
+     */
+    private createCell(date: string, item: apid.ReceptionQualityItem | undefined): ReceptionQualityCell {
+        if (typeof item === 'undefined') {
+            return {
+                date: date,
+                text: null,
+                level: 'none',
+            };
+        }
+
+        let level: ReceptionQualityLevel = 'good';
+        if (item.dropCnt > 0) {
+            level = item.dropRate < ReceptionQualityState.BAD_DROP_RATE ? 'warning' : 'bad';
+        }
+
+        return {
+            date: date,
+            text: `${(item.dropRate * 100).toFixed(4)}% (drop: ${item.dropCnt}, 録画数: ${item.recordingCnt})`,
+            level: level,
+        };
+    }
+
+    /**
+     * 取得した日付一覧を返す
+     * @return string[]
+     */
+    public getDates(): string[] {
+        return this.dates;
+    }
+
+    /**
+     * 取得した受信品質を返す
+     * @return ReceptionQualityRow[]
+     */
+    public getRows(): ReceptionQualityRow[] {
+        return this.rows;
+    }
+}
+
+namespace ReceptionQualityState {
+    export const DAYS = 7;
+    export const BAD_DROP_RATE = 0.0001; // この値以上のドロップ率を受信不良とする
+}
+
+export default ReceptionQualityState;
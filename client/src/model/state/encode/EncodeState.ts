@@ -2,6 +2,7 @@ import { inject, injectable } from 'inversify';
 import * as apid from '../../../../../api';
 import DateUtil from '../../../util/DateUtil';
 import IEncodeApiModel from '../../api/encode/IEncodeApiModel';
+import IAuthModel from '../../auth/IAuthModel';
 import IChannelModel from '../../channels/IChannelModel';
 import IEncodeState, { EncodeInfoDisplayData, EncodeInfoDisplayItem } from './IEncodeState';
 
@@ -12,12 +13,14 @@ interface SelectedIndex {
 export default class EncodeState implements IEncodeState {
     private encodeApiModel: IEncodeApiModel;
     private channelModel: IChannelModel;
+    private authModel: IAuthModel;
 
     private encodeInfo: EncodeInfoDisplayData | null = null;
 
-    constructor(@inject('IEncodeApiModel') encodeApiModel: IEncodeApiModel, @inject('IChannelModel') channelModel: IChannelModel) {
+    constructor(@inject('IEncodeApiModel') encodeApiModel: IEncodeApiModel, @inject('IChannelModel') channelModel: IChannelModel, @inject('IAuthModel') authModel: IAuthModel) {
         this.encodeApiModel = encodeApiModel;
         this.channelModel = channelModel;
+        this.authModel = authModel;
     }
 
     /**
@@ -45,6 +48,7 @@ export default class EncodeState implements IEncodeState {
         this.encodeInfo = {
             runningItems: [],
             waitItems: [],
+            isPaused: info.isPaused,
         };
 
         this.encodeInfo.runningItems = info.runningItems.map(i => {
@@ -76,7 +80,7 @@ export default class EncodeState implements IEncodeState {
                 topThumbnailPath:
                     typeof item.recorded.thumbnails === 'undefined' || item.recorded.thumbnails.length === 0
                         ? './img/noimg.png'
-                        : `./api/thumbnails/${item.recorded.thumbnails[0]}`,
+                        : this.authModel.addTokenQuery(`./api/thumbnails/${item.recorded.thumbnails[0]}`),
                 mode: item.mode,
             },
             encodeItem: item,
@@ -84,13 +88,54 @@ export default class EncodeState implements IEncodeState {
         };
 
         if (typeof item.percent !== 'undefined' && typeof item.log !== 'undefined') {
-            result.display.encodeInfo = `${Math.floor(item.percent * 100)}% ${item.log}`;
-            result.display.percent = item.percent * 100;
+            this.setProgress(result, item.percent, item.log);
+        }
+
+        if (item.isScheduled === true) {
+            result.display.scheduleInfo =
+                typeof item.scheduledStartAt === 'undefined' ? '開始条件待ち' : DateUtil.format(DateUtil.getJaDate(new Date(item.scheduledStartAt)), 'MM/dd(w) hh:mm 開始予定');
         }
 
         return result;
     }
 
+    /**
+     * 進捗情報を表示用データにセットする
+     * @param item: EncodeInfoDisplayItem
+     * @param percent: number
+     * @param log: string
+     */
+    private setProgress(item: EncodeInfoDisplayItem, percent: number, log: string): void {
+        item.display.encodeInfo = `${Math.floor(percent * 100)}% ${log}`;
+        item.display.percent = percent * 100;
+    }
+
+    /**
+     * 受信した進捗情報で実行中のエンコード情報を更新する
+     * @param items: apid.EncodeProgressItem[]
+     * @return boolean 全ての進捗情報を反映できた場合は true, 取得済みの情報に存在しないエンコードが含まれる場合は false
+     */
+    public updateProgress(items: apid.EncodeProgressItem[]): boolean {
+        if (this.encodeInfo === null) {
+            return false;
+        }
+
+        let isUpdatedAll = true;
+        for (const item of items) {
+            const runningItem = this.encodeInfo.runningItems.find(r => {
+                return r.encodeItem.id === item.encodeId;
+            });
+            if (typeof runningItem === 'undefined') {
+                isUpdatedAll = false;
+                continue;
+            }
+
+            this.setProgress(runningItem, item.percent, item.log);
+        }
+
+        return isUpdatedAll;
+    }
+
     /**
      * 取得したエンコード情報を返す
      * @return EncodeInfoDisplayData[]
@@ -100,6 +145,7 @@ export default class EncodeState implements IEncodeState {
             ? {
                   runningItems: [],
                   waitItems: [],
+                  isPaused: false,
               }
             : this.encodeInfo;
     }
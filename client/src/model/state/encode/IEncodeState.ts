@@ -10,6 +10,7 @@ export interface EncodeInfoDisplayItem {
         mode: string;
         percent?: number;
         encodeInfo?: string;
+        scheduleInfo?: string; // 開始条件待ちの場合の開始予定
     };
     encodeItem: apid.EncodeProgramItem;
     isSelected: boolean;
@@ -18,12 +19,14 @@ export interface EncodeInfoDisplayItem {
 export interface EncodeInfoDisplayData {
     runningItems: EncodeInfoDisplayItem[];
     waitItems: EncodeInfoDisplayItem[];
+    isPaused: boolean; // queue が一時停止中か
 }
 
 export default interface IEncodeState {
     clearData(): void;
     fetchData(isHalfWidth: boolean): Promise<void>;
     getEncodeInfo(): EncodeInfoDisplayData;
+    updateProgress(items: apid.EncodeProgressItem[]): boolean;
     getSelectedCnt(): number;
     select(encodeId: apid.EncodeId): void;
     selectAll(): void;
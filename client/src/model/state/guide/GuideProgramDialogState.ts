@@ -19,6 +19,7 @@ export default class GuideProgramDialogState implements IGuideProgramDialogState
     private setting: IGuideProgramDialogSettingStorageModel;
     private programId: apid.ProgramId | null = null;
     private program: apid.ScheduleProgramItem | null = null;
+    private channel: apid.ScheduleChannleItem | null = null;
 
     constructor(
         @inject('IReservesApiModel') reservesApiModel: IReservesApiModel,
@@ -37,6 +38,7 @@ export default class GuideProgramDialogState implements IGuideProgramDialogState
     public open(option: ProgramDialogOpenOption): void {
         this.isOpen = true;
         this.program = option.program;
+        this.channel = option.channel;
         this.setProgramData(option);
         this.reserve = typeof option.reserve === 'undefined' ? null : option.reserve;
         this.programId = option.program.id;
@@ -188,6 +190,14 @@ export default class GuideProgramDialogState implements IGuideProgramDialogState
         return this.program;
     }
 
+    /**
+     * 放送局情報を返す
+     * @return apid.ScheduleChannleItem | null
+     */
+    public getChannel(): apid.ScheduleChannleItem | null {
+        return this.channel;
+    }
+
     /**
      * エンコードリストを返す
      * @return string
@@ -34,6 +34,7 @@ export default interface IGuideProgramDialogState {
     close(): void;
     getProgramId(): apid.ProgramId | null;
     getProgram(): apid.ScheduleProgramItem | null;
+    getChannel(): apid.ScheduleChannleItem | null;
     getEncodeList(): string[];
     updateReserve(reserve: ProgramDialogReseveItem | null): void;
     addReserve(): Promise<void>;
@@ -2,6 +2,7 @@ import { inject, injectable } from 'inversify';
 import * as apid from '../../../../../api';
 import UaUtil from '../../../util/UaUtil';
 import Util from '../../../util/Util';
+import IAuthModel from '../../auth/IAuthModel';
 import IServerConfigModel from '../../serverConfig/IServerConfigModel';
 import { IOnAirSelectStreamSettingStorageModel } from '../../storage/onair/IOnAirSelectStreamSettingStorageModel';
 import { ISettingStorageModel } from '../../storage/setting/ISettingStorageModel';
@@ -19,6 +20,7 @@ export default class OnAirSelectStreamState implements IOnAirSelectStreamState {
     private serverConfig: IServerConfigModel;
     private settingModel: ISettingStorageModel;
     private streamSelectSetting: IOnAirSelectStreamSettingStorageModel;
+    private authModel: IAuthModel;
     private channelItem: apid.ScheduleChannleItem | null = null;
     private streamConfig: { [type: string]: string[] } = {};
 
@@ -26,10 +28,12 @@ export default class OnAirSelectStreamState implements IOnAirSelectStreamState {
         @inject('IServerConfigModel') serverConfig: IServerConfigModel,
         @inject('ISettingStorageModel') settingModel: ISettingStorageModel,
         @inject('IOnAirSelectStreamSettingStorageModel') streamSelectSetting: IOnAirSelectStreamSettingStorageModel,
+        @inject('IAuthModel') authModel: IAuthModel,
     ) {
         this.serverConfig = serverConfig;
         this.settingModel = settingModel;
         this.streamSelectSetting = streamSelectSetting;
+        this.authModel = authModel;
     }
 
     /**
@@ -191,7 +195,7 @@ export default class OnAirSelectStreamState implements IOnAirSelectStreamState {
         }
 
         // URL Schemeの準備
-        let viewURL = location.host + Util.getSubDirectory() + `/api/streams/live/${channel.id.toString(10)}/m2ts?mode=${this.selectedStreamConfig}`;
+        let viewURL = this.authModel.addTokenQuery(location.host + Util.getSubDirectory() + `/api/streams/live/${channel.id.toString(10)}/m2ts?mode=${this.selectedStreamConfig}`);
         if (urlScheme.match(/vlc-x-callback/)) {
             viewURL = encodeURIComponent(viewURL);
         }
@@ -209,6 +213,6 @@ export default class OnAirSelectStreamState implements IOnAirSelectStreamState {
             return null;
         }
 
-        return `/api/streams/live/${channel.id.toString(10)}/m2ts/playlist?mode=${this.selectedStreamConfig}`;
+        return this.authModel.addTokenQuery(`/api/streams/live/${channel.id.toString(10)}/m2ts/playlist?mode=${this.selectedStreamConfig}`);
     }
 }
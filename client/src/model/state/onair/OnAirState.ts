@@ -1,3 +1,4 @@
+import IAuthModel from '@/model/auth/IAuthModel';
 import IServerConfigModel from '@/model/serverConfig/IServerConfigModel';
 import DateUtil from '@/util/DateUtil';
 import { inject, injectable } from 'inversify';
@@ -12,6 +13,7 @@ export default class OnAirState implements IOnAirState {
 
     private scheduleApiModel: IScheduleApiModel;
     private reserveUtil: IGuideReserveUtil;
+    private authModel: IAuthModel;
     private schedules: OnAirDisplayData[] = [];
     private reserveIndex: ReserveStateItemIndex = {};
     private tabs: apid.ChannelType[] = [];
@@ -20,9 +22,11 @@ export default class OnAirState implements IOnAirState {
         @inject('IServerConfigModel') serverConfigModel: IServerConfigModel,
         @inject('IScheduleApiModel') scheduleApiModel: IScheduleApiModel,
         @inject('IGuideReserveUtil') reserveUtil: IGuideReserveUtil,
+        @inject('IAuthModel') authModel: IAuthModel,
     ) {
         this.scheduleApiModel = scheduleApiModel;
         this.reserveUtil = reserveUtil;
+        this.authModel = authModel;
 
         // tab 設定
         const config = serverConfigModel.getConfig();
@@ -91,7 +95,7 @@ export default class OnAirState implements IOnAirState {
         };
 
         if (schedule.channel.hasLogoData === true) {
-            result.display.logoSrc = `./api/channels/${schedule.channel.id.toString(10)}/logo`;
+            result.display.logoSrc = this.authModel.addTokenQuery(`./api/channels/${schedule.channel.id.toString(10)}/logo`);
         }
 
         return result;
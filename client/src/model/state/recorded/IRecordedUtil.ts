@@ -17,6 +17,7 @@ export interface RecordedDisplayData {
         drop?: string;
         dropSimple?: string;
         hasDrop: boolean;
+        gaps?: string[]; // 録画が途切れていた区間
     };
     recordedItem: apid.RecordedItem;
     isSelected: boolean;
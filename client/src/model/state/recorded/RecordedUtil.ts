@@ -2,6 +2,7 @@ import { inject, injectable } from 'inversify';
 import * as apid from '../../../../../api';
 import DateUtil from '../../../util/DateUtil';
 import GenreUtil from '../../../util/GenreUtil';
+import IAuthModel from '../../auth/IAuthModel';
 import IChannelModel from '../../channels/IChannelModel';
 import IServerConfigModel from '../../serverConfig/IServerConfigModel';
 import Util from '../../../util/Util';
@@ -11,10 +12,16 @@ import IRecordedUtil, { RecordedDisplayData } from './IRecordedUtil';
 export default class RecordedUtil implements IRecordedUtil {
     private serverConfigModel: IServerConfigModel;
     private channelModel: IChannelModel;
+    private authModel: IAuthModel;
 
-    constructor(@inject('IServerConfigModel') serverConfigModel: IServerConfigModel, @inject('IChannelModel') channelModel: IChannelModel) {
+    constructor(
+        @inject('IServerConfigModel') serverConfigModel: IServerConfigModel,
+        @inject('IChannelModel') channelModel: IChannelModel,
+        @inject('IAuthModel') authModel: IAuthModel,
+    ) {
         this.serverConfigModel = serverConfigModel;
         this.channelModel = channelModel;
+        this.authModel = authModel;
     }
 
     public convertRecordedItemToDisplayData(item: apid.RecordedItem, isHalfWidth: boolean): RecordedDisplayData {
@@ -31,7 +38,10 @@ export default class RecordedUtil implements IRecordedUtil {
                 duration: Math.floor((item.endAt - item.startAt) / 1000 / 60),
                 description: item.description,
                 extended: item.extended,
-                topThumbnailPath: typeof item.thumbnails === 'undefined' || item.thumbnails.length === 0 ? './img/noimg.png' : `./api/thumbnails/${item.thumbnails[0]}`,
+                topThumbnailPath:
+                    typeof item.thumbnails === 'undefined' || item.thumbnails.length === 0
+                        ? './img/noimg.png'
+                        : this.authModel.addTokenQuery(`./api/thumbnails/${item.thumbnails[0]}`),
                 thumbnails: item.thumbnails,
                 videoFiles: item.videoFiles,
                 hasDrop: false,
@@ -64,20 +74,32 @@ export default class RecordedUtil implements IRecordedUtil {
             result.display.genre = genres;
         }
 
-        if (item.isRecording !== true && typeof item.dropLogFile !== 'undefined') {
-            let fileSize = 0;
-            if (typeof item.videoFiles !== 'undefined') {
-                for (const v of item.videoFiles) {
-                    fileSize += v.size;
+        if (typeof item.dropLogFile !== 'undefined') {
+            // 録画中は drop check の途中経過を表示する
+            let fileSizeStr = '';
+            if (item.isRecording !== true) {
+                let fileSize = 0;
+                if (typeof item.videoFiles !== 'undefined') {
+                    for (const v of item.videoFiles) {
+                        fileSize += v.size;
+                    }
                 }
+                fileSizeStr = ` ${Util.getFileSizeStr(fileSize)}`;
             }
-            const fileSizeStr = Util.getFileSizeStr(fileSize);
-            result.display.drop = `drop: ${item.dropLogFile.dropCnt}, error: ${item.dropLogFile.errorCnt}, scrambling: ${item.dropLogFile.scramblingCnt} ${fileSizeStr}`;
-            result.display.dropSimple = `${item.dropLogFile.dropCnt}/${item.dropLogFile.errorCnt}/${item.dropLogFile.scramblingCnt} ${fileSizeStr}`;
+            result.display.drop = `drop: ${item.dropLogFile.dropCnt}, error: ${item.dropLogFile.errorCnt}, scrambling: ${item.dropLogFile.scramblingCnt}${fileSizeStr}`;
+            result.display.dropSimple = `${item.dropLogFile.dropCnt}/${item.dropLogFile.errorCnt}/${item.dropLogFile.scramblingCnt}${fileSizeStr}`;
 
             result.display.hasDrop = item.dropLogFile.dropCnt > 0 || item.dropLogFile.errorCnt > 0 || item.dropLogFile.scramblingCnt > 0;
         }
 
+        if (typeof item.gaps !== 'undefined' && item.gaps.length > 0) {
+            result.display.gaps = item.gaps.map(gap => {
+                const gapStartAt = DateUtil.getJaDate(new Date(gap.startAt));
+
+                return `${DateUtil.format(gapStartAt, 'hh:mm:ss')} から ${Math.ceil(gap.duration / 1000)} 秒間の欠落`;
+            });
+        }
+
         return result;
     }
 }
@@ -0,0 +1,28 @@
+import * as apid from '../../../../../../api';
+
+export interface SelectorItem {
+    text: string;
+    value: number;
+}
+
+export interface EditProgramOption {
+    channelId: apid.ChannelId | undefined;
+    name: string | null;
+    description: string | null;
+    extended: string | null;
+    genre1: apid.ProgramGenreLv1 | undefined;
+    subGenre1: apid.ProgramGenreLv2 | undefined;
+    programId: apid.ProgramId | null; // 番組表からの再取得用
+}
+
+export default interface IRecordedDetailEditState {
+    programOption: EditProgramOption;
+    init(): void;
+    fetchData(recordedId: apid.RecordedId): Promise<void>;
+    getChannelItems(): SelectorItem[];
+    getGenreItems(): SelectorItem[];
+    getSubGenreItems(): SelectorItem[];
+    checkInput(): boolean;
+    save(): Promise<void>;
+    updateProgramInfo(): Promise<void>;
+}
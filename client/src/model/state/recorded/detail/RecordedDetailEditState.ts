@@ -0,0 +1,211 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../../../api';
+import GenreUtil from '../../../../util/GenreUtil';
+import IRecordedApiModel from '../../../api/recorded/IRecordedApiModel';
+import IChannelModel from '../../../channels/IChannelModel';
+import { ISettingStorageModel } from '../../../storage/setting/ISettingStorageModel';
+import IRecordedDetailEditState, { EditProgramOption, SelectorItem } from './IRecordedDetailEditState';
+
+@injectable()
+export default class RecordedDetailEditState implements IRecordedDetailEditState {
+    public programOption: EditProgramOption = {
+        channelId: undefined,
+        name: null,
+        description: null,
+        extended: null,
+        genre1: undefined,
+        subGenre1: undefined,
+        programId: null,
+    };
+
+    private settingModel: ISettingStorageModel;
+    private channelModel: IChannelModel;
+    private recordedApiModel: IRecordedApiModel;
+
+    private recordedItem: apid.RecordedItem | null = null;
+    private channelItems: SelectorItem[] = [];
+    private genreItems: SelectorItem[] = [];
+    private subGemreItems: SelectorItem[][] = [];
+
+    constructor(
+        @inject('ISettingStorageModel') settingModel: ISettingStorageModel,
+        @inject('IChannelModel') channelModel: IChannelModel,
+        @inject('IRecordedApiModel') recordedApiModel: IRecordedApiModel,
+    ) {
+        this.settingModel = settingModel;
+        this.channelModel = channelModel;
+        this.recordedApiModel = recordedApiModel;
+
+        this.genreItems = GenreUtil.getGenreListItems();
+        for (let i = 0; i < GenreUtil.GENRE_MAX_NUM; i++) {
+            this.subGemreItems.push(GenreUtil.getSubGenreListItems(i));
+        }
+    }
+
+    /**
+     * 各種変数初期化
+     */
+    public init(): void {
+        this.recordedItem = null;
+        this.programOption = {
+            channelId: undefined,
+            name: null,
+            description: null,
+            extended: null,
+            genre1: undefined,
+            subGenre1: undefined,
+            programId: null,
+        };
+
+        if (this.channelItems.length === 0) {
+            const channels = this.channelModel.getChannels(this.settingModel.getSavedValue().isHalfWidthDisplayed);
+            for (const c of channels) {
+                this.channelItems.push({
+                    text: c.name,
+                    value: c.id,
+                });
+            }
+        }
+    }
+
+    /**
+     * 編集対象の録画番組情報を取得する
+     * 半角変換された値で上書きしないようにオリジナルの値を取得する
+     * @param recordedId: apid.RecordedId
+     * @return Promise<void>
+     */
+    public async fetchData(recordedId: apid.RecordedId): Promise<void> {
+        this.recordedItem = await this.recordedApiModel.get(recordedId, false);
+
+        this.programOption = {
+            channelId: this.recordedItem.channelId,
+            name: this.recordedItem.name,
+            description: typeof this.recordedItem.description === 'undefined' ? null : this.recordedItem.description,
+            extended: typeof this.recordedItem.extended === 'undefined' ? null : this.recordedItem.extended,
+            genre1: this.recordedItem.genre1,
+            subGenre1: this.recordedItem.subGenre1,
+            programId: typeof this.recordedItem.programId === 'undefined' ? null : this.recordedItem.programId,
+        };
+    }
+
+    /**
+     * 放送局 item を返す
+     * @return SelectorItem[]
+     */
+    public getChannelItems(): SelectorItem[] {
+        return this.channelItems;
+    }
+
+    /**
+     * ジャンル item を返す
+     * @return SelectorItem[]
+     */
+    public getGenreItems(): SelectorItem[] {
+        return this.genreItems;
+    }
+
+    /**
+     * サブジャンル items を返す
+     * @return SelectorItem[]
+     */
+    public getSubGenreItems(): SelectorItem[] {
+        return typeof this.programOption.genre1 === 'undefined' || this.programOption.genre1 < 0 || this.programOption.genre1 > GenreUtil.GENRE_MAX_NUM
+            ? []
+            : this.subGemreItems[this.programOption.genre1];
+    }
+
+    /**
+     * 入力値のチェック
+     * @return true 入力値に問題なければ true を返す
+     */
+    public checkInput(): boolean {
+        if (this.recordedItem === null) {
+            return false;
+        }
+
+        if (typeof this.programOption.channelId !== 'number') {
+            return false;
+        }
+
+        if (typeof this.programOption.name !== 'string' || this.programOption.name.length === 0) {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * 編集内容を保存する
+     * @return Promise<void>
+     */
+    public async save(): Promise<void> {
+        if (this.checkInput() === false || this.recordedItem === null) {
+            throw new Error('InputError');
+        }
+
+        await this.recordedApiModel.edit(this.recordedItem.id, this.createEditOption(this.recordedItem));
+    }
+
+    /**
+     * 編集オプションを生成する
+     * genre2, genre3 はフォームで扱わないため元の値を引き継ぐ
+     * @param recordedItem: apid.RecordedItem
+     * @return apid.EditRecordedOption
+     */
+    private createEditOption(recordedItem: apid.RecordedItem): apid.EditRecordedOption {
+        if (typeof this.programOption.channelId === 'undefined' || typeof this.programOption.name !== 'string') {
+            throw new Error('ProgramError');
+        }
+
+        const option: apid.EditRecordedOption = {
+            channelId: this.programOption.channelId,
+            name: this.programOption.name,
+        };
+
+        if (typeof this.programOption.description === 'string' && this.programOption.description.length > 0) {
+            option.description = this.programOption.description;
+        }
+
+        if (typeof this.programOption.extended === 'string' && this.programOption.extended.length > 0) {
+            option.extended = this.programOption.extended;
+        }
+
+        if (typeof this.programOption.genre1 === 'number') {
+            option.genre1 = this.programOption.genre1;
+        }
+
+        if (typeof this.programOption.subGenre1 === 'number') {
+            option.subGenre1 = this.programOption.subGenre1;
+        }
+
+        option.genre2 = recordedItem.genre2;
+        option.subGenre2 = recordedItem.subGenre2;
+        option.genre3 = recordedItem.genre3;
+        option.subGenre3 = recordedItem.subGenre3;
+
+        return option;
+    }
+
+    /**
+     * 番組表から録画番組情報を再取得する
+     * programId が未指定の場合は選択中の放送局と録画開始時刻から番組を探す
+     * @return Promise<void>
+     */
+    public async updateProgramInfo(): Promise<void> {
+        if (this.recordedItem === null) {
+            throw new Error('RecordedIsNull');
+        }
+
+        const option: apid.UpdateRecordedProgramOption = {};
+        if (typeof this.programOption.programId === 'number') {
+            option.programId = this.programOption.programId;
+        } else {
+            if (typeof this.programOption.channelId === 'number') {
+                option.channelId = this.programOption.channelId;
+            }
+            option.startAt = this.recordedItem.startAt;
+        }
+
+        await this.recordedApiModel.updateProgramInfo(this.recordedItem.id, option);
+    }
+}
@@ -3,6 +3,7 @@ import * as apid from '../../../../../../api';
 import UaUtil from '../../../../util/UaUtil';
 import Util from '../../../../util/Util';
 import IRecordedApiModel from '../../../api/recorded/IRecordedApiModel';
+import IAuthModel from '../../../auth/IAuthModel';
 import IServerConfigModel from '../../../serverConfig/IServerConfigModel';
 import { ISettingStorageModel } from '../../../storage/setting/ISettingStorageModel';
 import IRecordedUtil, { RecordedDisplayData } from '../IRecordedUtil';
@@ -14,6 +15,7 @@ export default class RecordedDetailState implements IRecordedDetailState {
     private recordedUtil: IRecordedUtil;
     private config: apid.Config | null;
     private settingModel: ISettingStorageModel;
+    private authModel: IAuthModel;
 
     private recordedItem: apid.RecordedItem | null = null;
     private displayData: RecordedDisplayData | null = null;
@@ -23,11 +25,13 @@ export default class RecordedDetailState implements IRecordedDetailState {
         @inject('IRecordedUtil') recordedUtil: IRecordedUtil,
         @inject('IServerConfigModel') serverConfigModel: IServerConfigModel,
         @inject('ISettingStorageModel') settingModel: ISettingStorageModel,
+        @inject('IAuthModel') authModel: IAuthModel,
     ) {
         this.recordedApiModel = recordedApiModel;
         this.recordedUtil = recordedUtil;
         this.config = serverConfigModel.getConfig();
         this.settingModel = settingModel;
+        this.authModel = authModel;
     }
 
     /**
@@ -92,13 +96,22 @@ export default class RecordedDetailState implements IRecordedDetailState {
             .replace(/FILENAME/g, video.filename);
     }
 
+    /**
+     * token を含まない video の URL を返す
+     * @param video: apid.VideoFile
+     * @return string
+     */
+    private getVideoBaseURL(video: apid.VideoFile): string {
+        return Util.getSubDirectory() + `/api/videos/${video.id}`;
+    }
+
     /**
      * get cideo url
      * @param video: apid.VideoFile
      * @return string
      */
     public getVideoRawURL(video: apid.VideoFile): string {
-        return Util.getSubDirectory() + `/api/videos/${video.id}`;
+        return this.authModel.addTokenQuery(this.getVideoBaseURL(video));
     }
 
     /**
@@ -148,7 +161,7 @@ export default class RecordedDetailState implements IRecordedDetailState {
      * @return sting
      */
     public getVideoDownloadRawURL(video: apid.VideoFile): string {
-        return this.getVideoRawURL(video) + '?isDownload=true';
+        return this.authModel.addTokenQuery(this.getVideoBaseURL(video) + '?isDownload=true');
     }
 
     /**
@@ -157,7 +170,7 @@ export default class RecordedDetailState implements IRecordedDetailState {
      * @return string
      */
     public getVideoPlayListURL(video: apid.VideoFile): string {
-        return this.getVideoRawURL(video) + '/playlist';
+        return this.authModel.addTokenQuery(this.getVideoBaseURL(video) + '/playlist');
     }
 
     /**
@@ -40,6 +40,8 @@ export interface TimeSpecifiedOption {
  */
 export interface ManualReserveOption {
     allowEndLack: boolean; // 末尾切れを許可するか
+    startPadding: number | null; // 番組開始前の録画パディング (秒)
+    endPadding: number | null; // 番組終了後の録画パディング (秒)
 }
 
 /**
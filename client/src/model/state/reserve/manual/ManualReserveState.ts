@@ -21,6 +21,8 @@ export default class ManualReserveState implements IManualReserveState {
     };
     public reserveOption: ManualReserveOption = {
         allowEndLack: true,
+        startPadding: null,
+        endPadding: null,
     };
     public saveOption: ManualSaveOption = {
         parentDirectoryName: null,
@@ -79,6 +81,8 @@ export default class ManualReserveState implements IManualReserveState {
 
         this.reserveOption = {
             allowEndLack: true,
+            startPadding: null,
+            endPadding: null,
         };
 
         this.saveOption = {
@@ -135,6 +139,8 @@ export default class ManualReserveState implements IManualReserveState {
         }
 
         this.reserveOption.allowEndLack = reserveItem.allowEndLack;
+        this.reserveOption.startPadding = reserveItem.startPadding > 0 ? reserveItem.startPadding : null;
+        this.reserveOption.endPadding = reserveItem.endPadding > 0 ? reserveItem.endPadding : null;
         if (typeof reserveItem.parentDirectoryName !== 'undefined') {
             this.saveOption.parentDirectoryName = reserveItem.parentDirectoryName;
         }
@@ -424,6 +430,7 @@ export default class ManualReserveState implements IManualReserveState {
             }
             // program id 予約
             result.programId = this.programInfo.programItem.id;
+            this.setPaddingOption(result);
         }
 
         // 保存オプション
@@ -451,6 +458,9 @@ export default class ManualReserveState implements IManualReserveState {
         const result: apid.EditManualReserveOption = {
             allowEndLack: this.reserveOption.allowEndLack,
         };
+        if (this.isTimeSpecification === false) {
+            this.setPaddingOption(result);
+        }
 
         // 保存オプション
         const saveOption = this.getSaveOption();
@@ -469,6 +479,20 @@ export default class ManualReserveState implements IManualReserveState {
         return result;
     }
 
+    /**
+     * 録画パディングを予約オプションにセットする
+     * 時刻指定予約では使用されない
+     * @param option: apid.EditManualReserveOption
+     */
+    private setPaddingOption(option: apid.EditManualReserveOption): void {
+        if (this.reserveOption.startPadding !== null && (this.reserveOption.startPadding as any) !== '') {
+            option.startPadding = parseInt(this.reserveOption.startPadding as any, 10);
+        }
+        if (this.reserveOption.endPadding !== null && (this.reserveOption.endPadding as any) !== '') {
+            option.endPadding = parseInt(this.reserveOption.endPadding as any, 10);
+        }
+    }
+
     /**
      * apid.ReserveSaveOption を生成する
      * @return apid.ReserveSaveOption | null
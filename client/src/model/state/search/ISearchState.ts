@@ -62,6 +62,9 @@ export interface SearchOption {
     startPeriod: Date | null;
     endPeriod: Date | null;
     isFree: boolean;
+    seriesId: apid.SeriesId | null;
+    seriesNetworkId: apid.NetworkId | null;
+    keywordQuery: string | null;
 }
 
 /**
@@ -117,6 +120,10 @@ export interface ReserveOption {
     allowEndLack: boolean; // 末尾切れを許可するか
     avoidDuplicate: boolean; // 録画済みの重複番組を排除するか
     periodToAvoidDuplicate: number | null; // 重複を避ける期間
+    disableAfterLastEpisode: boolean; // シリーズ最終話の録画後にルールを無効化するか
+    priority: number | null; // 予約の優先度
+    startPadding: number | null; // 番組開始前の録画パディング (秒)
+    endPadding: number | null; // 番組終了後の録画パディング (秒)
 }
 
 /**
@@ -149,6 +156,8 @@ export interface QuerySearchOption {
     channelId?: apid.ChannelId;
     genre?: apid.ProgramGenreLv1;
     subGenre?: apid.ProgramGenreLv2;
+    seriesId?: apid.SeriesId;
+    seriesNetworkId?: apid.NetworkId;
 }
 
 export default interface ISearchState {
@@ -161,6 +170,7 @@ export default interface ISearchState {
     isShowPeriod: boolean;
     optionPanel: number[];
     genreSelect: number;
+    keywordQueryErrors: string[];
     init(ruleId?: apid.RuleId): Promise<void>;
     setQueryOption(query: QuerySearchOption): void;
     clear(): void;
@@ -171,6 +181,7 @@ export default interface ISearchState {
     onClickGenre(genre: apid.ProgramGenreLv1): void;
     onClickSubGenre(genre: apid.ProgramGenreLv1, subGenre: apid.ProgramGenreLv2): void;
     clearGenres(): void;
+    validateKeywordQuery(): Promise<void>;
     prepSearch(): void;
     fetchSearchResult(): Promise<void>;
     getSearchResult(): SearchResultItem[] | null;
@@ -44,6 +44,8 @@ export default class SearchState implements ISearchState {
     public optionPanel: number[] = [];
     // ジャンル絞り込みプルダウン値
     public genreSelect: number = -1;
+    // 検索クエリの構文エラー
+    public keywordQueryErrors: string[] = [];
 
     private channelModel: IChannelModel;
     private serverConfig: IServerConfigModel;
@@ -214,7 +216,11 @@ export default class SearchState implements ISearchState {
             startPeriod: null,
             endPeriod: null,
             isFree: false,
+            seriesId: null,
+            seriesNetworkId: null,
+            keywordQuery: null,
         };
+        this.keywordQueryErrors = [];
 
         // 放送波の表示をサーバの設定と合わせる
         const config = this.serverConfig.getConfig();
@@ -281,6 +287,10 @@ export default class SearchState implements ISearchState {
             allowEndLack: true,
             avoidDuplicate: this.settingModel.getSavedValue().isCheckAvoidDuplicate,
             periodToAvoidDuplicate: null,
+            disableAfterLastEpisode: false,
+            priority: null,
+            startPadding: null,
+            endPadding: null,
         };
     }
 
@@ -317,17 +327,17 @@ export default class SearchState implements ISearchState {
      * パネルの開閉を初期化する
      */
     private initOptionPanel(): void {
-        this.optionPanel = [0, 1, 2, 3, 4, 7];
+        this.optionPanel = [0, 1, 2, 3, 4, 5, 6, 9];
 
         if (this.encodeOption !== null) {
             // encode2 が空でない場合は開く
             if (this.encodeOption.mode2) {
-                this.optionPanel.push(5);
+                this.optionPanel.push(7);
             }
 
             // encode3 が空でない場合は開く
             if (this.encodeOption.mode3) {
-                this.optionPanel.push(6);
+                this.optionPanel.push(8);
             }
         }
     }
@@ -469,6 +479,19 @@ export default class SearchState implements ISearchState {
 
         // 無料放送か
         this.searchOption.isFree = !!searchOption.isFree;
+
+        // シリーズ
+        if (typeof searchOption.seriesId !== 'undefined') {
+            this.searchOption.seriesId = searchOption.seriesId;
+        }
+        if (typeof searchOption.seriesNetworkId !== 'undefined') {
+            this.searchOption.seriesNetworkId = searchOption.seriesNetworkId;
+        }
+
+        // 検索クエリ
+        if (typeof searchOption.keywordQuery !== 'undefined') {
+            this.searchOption.keywordQuery = searchOption.keywordQuery;
+        }
     }
 
     /**
@@ -487,6 +510,20 @@ export default class SearchState implements ISearchState {
         if (typeof reserveOption.periodToAvoidDuplicate !== 'undefined') {
             this.reserveOption.periodToAvoidDuplicate = reserveOption.periodToAvoidDuplicate;
         }
+
+        this.reserveOption.disableAfterLastEpisode = !!reserveOption.disableAfterLastEpisode;
+
+        if (typeof reserveOption.priority !== 'undefined') {
+            this.reserveOption.priority = reserveOption.priority;
+        }
+
+        if (typeof reserveOption.startPadding !== 'undefined' && reserveOption.startPadding > 0) {
+            this.reserveOption.startPadding = reserveOption.startPadding;
+        }
+
+        if (typeof reserveOption.endPadding !== 'undefined' && reserveOption.endPadding > 0) {
+            this.reserveOption.endPadding = reserveOption.endPadding;
+        }
     }
 
     /**
@@ -583,6 +620,13 @@ export default class SearchState implements ISearchState {
                 this.searchOption.genres[query.genre].subGenreIndex[query.subGenre] = true;
             }
         }
+
+        if (typeof query.seriesId !== 'undefined') {
+            this.searchOption.seriesId = query.seriesId;
+        }
+        if (typeof query.seriesNetworkId !== 'undefined') {
+            this.searchOption.seriesNetworkId = query.seriesNetworkId;
+        }
     }
 
     /**
@@ -712,6 +756,23 @@ export default class SearchState implements ISearchState {
         }
     }
 
+    /**
+     * 検索クエリの構文チェック
+     * @return Promise<void>
+     */
+    public async validateKeywordQuery(): Promise<void> {
+        if (this.searchOption === null || this.searchOption.keywordQuery === null || this.searchOption.keywordQuery.trim().length === 0) {
+            this.keywordQueryErrors = [];
+
+            return;
+        }
+
+        const result = await this.ruleApiModel.validateKeywordQuery(this.searchOption.keywordQuery);
+        this.keywordQueryErrors = result.errors.map(e => {
+            return `${e.position + 1} 文字目: ${e.message}`;
+        });
+    }
+
     /**
      * 検索準備
      */
@@ -1052,6 +1113,19 @@ export default class SearchState implements ISearchState {
             ];
         }
 
+        // series
+        if (option.seriesId !== null) {
+            ruleOption.seriesId = parseInt(option.seriesId as any, 10);
+            if (option.seriesNetworkId !== null) {
+                ruleOption.seriesNetworkId = parseInt(option.seriesNetworkId as any, 10);
+            }
+        }
+
+        // keyword query
+        if (option.keywordQuery !== null && option.keywordQuery.trim().length > 0) {
+            ruleOption.keywordQuery = option.keywordQuery;
+        }
+
         return ruleOption;
     }
 
@@ -1321,6 +1395,25 @@ export default class SearchState implements ISearchState {
             reserveOption.periodToAvoidDuplicate = parseInt(option.periodToAvoidDuplicate as any, 10);
         }
 
+        // 最終話での無効化はシリーズ指定時のみ有効
+        if (option.disableAfterLastEpisode === true && this.searchOption !== null && this.searchOption.seriesId !== null) {
+            reserveOption.disableAfterLastEpisode = true;
+        }
+
+        if (option.priority !== null && (option.priority as any) !== '') {
+            reserveOption.priority = parseInt(option.priority as any, 10);
+        }
+
+        // パディングは番組予約のみ有効
+        if (this.isTimeSpecification === false) {
+            if (option.startPadding !== null && (option.startPadding as any) !== '') {
+                reserveOption.startPadding = parseInt(option.startPadding as any, 10);
+            }
+            if (option.endPadding !== null && (option.endPadding as any) !== '') {
+                reserveOption.endPadding = parseInt(option.endPadding as any, 10);
+            }
+        }
+
         return reserveOption;
     }
 
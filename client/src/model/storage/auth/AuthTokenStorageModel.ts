@@ -0,0 +1,21 @@
+import { inject, injectable } from 'inversify';
+import AbstractStorageBaseModel from '../AbstractStorageBaseModel';
+import IStorageOperationModel from '../IStorageOperationModel';
+import { IAuthTokenStorageModel, IAuthTokenValue } from './IAuthTokenStorageModel';
+
+@injectable()
+export default class AuthTokenStorageModel extends AbstractStorageBaseModel<IAuthTokenValue> implements IAuthTokenStorageModel {
+    constructor(@inject('IStorageOperationModel') op: IStorageOperationModel) {
+        super(op);
+    }
+
+    public getDefaultValue(): IAuthTokenValue {
+        return {
+            token: null,
+        };
+    }
+
+    public getStorageKey(): string {
+        return 'AuthToken';
+    }
+}
@@ -0,0 +1,7 @@
+import IStorageBaseModel from '../IStorageBaseModel';
+
+export interface IAuthTokenValue {
+    token: string | null;
+}
+
+export type IAuthTokenStorageModel = IStorageBaseModel<IAuthTokenValue>;
@@ -7,6 +7,7 @@ import Dashboard from './views/Dashboard.vue';
 import Encode from './views/Encode.vue';
 import Guide from './views/Guide.vue';
 import GuideSizeSetting from './views/GuideSizeSetting.vue';
+import Login from './views/Login.vue';
 import ManualReserve from './views/ManualReserve.vue';
 import OnAir from './views/OnAir.vue';
 import Recorded from './views/Recorded.vue';
@@ -116,6 +117,11 @@ export default new Router({
             name: 'storages',
             component: Storages,
         },
+        {
+            path: '/login',
+            name: 'login',
+            component: Login,
+        },
     ],
     scrollBehavior: async (_to: Route, _from: Route, savedPosition: Position | void): Promise<Position> => {
         // ページデータが取得されるまで待つ
@@ -35,6 +35,19 @@ declare module 'aribts' {
         ES_info: any;
     }
 
+    export interface AdaptationField {
+        adaptation_field_length: number;
+        PCR_flag?: number;
+        program_clock_reference_base?: number;
+        program_clock_reference_extension?: number;
+    }
+
+    export class TsPacket {
+        public getPid(): number;
+        public getPcrFlag(): number;
+        public decodeAdaptationField(): AdaptationField | null;
+    }
+
     export class TsBase extends EventEmitter {
         public pipe: (pipe: TsBase) => boolean;
     }
@@ -8,6 +8,8 @@ import RecordedHistory from './db/entities/RecordedHistory';
 import RecordedTag from './db/entities/RecordedTag';
 import Reserve from './db/entities/Reserve';
 import Thumbnail from './db/entities/Thumbnail';
+import User from './db/entities/User';
+import UserToken from './db/entities/UserToken';
 import VideoFile from './db/entities/VideoFile';
 import IDBOperator from './model/db/IDBOperator';
 import IDropLogFileDB from './model/db/IDropLogFileDB';
@@ -17,6 +19,8 @@ import IRecordedTagDB from './model/db/IRecordedTagDB';
 import IReserveDB from './model/db/IReserveDB';
 import IRuleDB, { RuleWithCnt } from './model/db/IRuleDB';
 import IThumbnailDB from './model/db/IThumbnailDB';
+import IUserDB from './model/db/IUserDB';
+import IUserTokenDB from './model/db/IUserTokenDB';
 import IVideoFileDB from './model/db/IVideoFileDB';
 import IConnectionCheckModel from './model/IConnectionCheckModel';
 import ILogger from './model/ILogger';
@@ -36,6 +40,8 @@ interface BackupData {
     dropLogFileItems: DropLogFile[];
     recordedHistoryItems: RecordedHistory[];
     recordedTagItems: RecordedTag[];
+    userItems?: User[]; // ユーザー機能追加前のバックアップには存在しない
+    userTokenItems?: UserToken[];
 }
 
 class DBTools {
@@ -53,6 +59,8 @@ class DBTools {
     private ruleDB: IRuleDB;
     private thumbnailDB: IThumbnailDB;
     private videoFileDB: IVideoFileDB;
+    private userDB: IUserDB;
+    private userTokenDB: IUserTokenDB;
 
     constructor() {
         // 引数チェック
@@ -95,6 +103,8 @@ class DBTools {
         this.ruleDB = container.get<IRuleDB>('IRuleDB');
         this.thumbnailDB = container.get<IThumbnailDB>('IThumbnailDB');
         this.videoFileDB = container.get<IVideoFileDB>('IVideoFileDB');
+        this.userDB = container.get<IUserDB>('IUserDB');
+        this.userTokenDB = container.get<IUserTokenDB>('IUserTokenDB');
     }
 
     /**
@@ -161,11 +171,17 @@ class DBTools {
         const videoFileItems = await this.videoFileDB.findAll();
 
         this.log.system.info('recorded history');
-        const recordedHistoryItems = await this.recordedHistoryDB.findAll();
+        const [recordedHistoryItems] = await this.recordedHistoryDB.findAll();
 
         this.log.system.info('recorded tag');
         const [recordedTagItems] = await this.recordedTagDB.findAll({});
 
+        this.log.system.info('user');
+        const userItems = await this.userDB.findAll();
+
+        this.log.system.info('user token');
+        const userTokenItems = await this.userTokenDB.findAll();
+
         const backup: BackupData = {
             ruleItems: ruleItems as RuleWithCnt[],
             reserveItems: reserveItems,
@@ -175,6 +191,8 @@ class DBTools {
             dropLogFileItems: dropLogFileItems,
             recordedHistoryItems: recordedHistoryItems,
             recordedTagItems: recordedTagItems,
+            userItems: userItems,
+            userTokenItems: userTokenItems,
         };
 
         this.log.system.info('--- writing ---');
@@ -236,6 +254,22 @@ class DBTools {
 
         this.log.system.info('recorded tag');
         await this.recordedTagDB.restore(backup.recordedTagItems);
+
+        if (typeof backup.userItems !== 'undefined') {
+            this.log.system.info('user');
+            for (const item of backup.userItems) {
+                // 権限追加前のバックアップは管理者として復元する
+                if (typeof item.role === 'undefined') {
+                    item.role = 'admin';
+                }
+            }
+            await this.userDB.restore(backup.userItems);
+        }
+
+        if (typeof backup.userTokenItems !== 'undefined') {
+            this.log.system.info('user token');
+            await this.userTokenDB.restore(backup.userTokenItems);
+        }
     }
 }
 
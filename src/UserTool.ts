@@ -0,0 +1,122 @@
+import minimist from 'minimist';
+import 'reflect-metadata';
+import { install } from 'source-map-support';
+import * as apid from '../api';
+import IDBOperator from './model/db/IDBOperator';
+import IUserDB from './model/db/IUserDB';
+import IConnectionCheckModel from './model/IConnectionCheckModel';
+import ILogger from './model/ILogger';
+import ILoggerModel from './model/ILoggerModel';
+import container from './model/ModelContainer';
+import * as containerSetter from './model/ModelContainerSetter';
+import IUserManageModel from './model/operator/user/IUserManageModel';
+import AuthUtil from './util/AuthUtil';
+install();
+
+containerSetter.set(container);
+
+/**
+ * ユーザー管理ツール
+ * 認証有効時に最初のユーザーを作成するため DB を直接操作する
+ */
+class UserTool {
+    private mode: 'add' | 'password';
+    private name: string;
+    private password: string;
+    private role: apid.UserRole;
+
+    private log: ILogger;
+    private connectionChecker: IConnectionCheckModel;
+    private dbOperator: IDBOperator;
+    private userDB: IUserDB;
+    private userManage: IUserManageModel;
+
+    constructor() {
+        // 引数チェック
+        const args = minimist(process.argv.slice(2), {
+            alias: {
+                m: 'mode',
+                u: 'user',
+                p: 'password',
+                r: 'role',
+            },
+            string: ['mode', 'user', 'password', 'role'],
+            default: {
+                role: 'admin',
+            },
+        });
+
+        if (
+            typeof args.mode === 'undefined' ||
+            args.mode === '' ||
+            typeof args.user === 'undefined' ||
+            args.user === '' ||
+            typeof args.password === 'undefined' ||
+            args.password === ''
+        ) {
+            console.error('引数が足りません');
+            process.exit(1);
+        }
+
+        if (args.mode !== 'add' && args.mode !== 'password') {
+            console.error('mode の指定が間違っています');
+            process.exit(1);
+        }
+
+        if (AuthUtil.ROLES.includes(args.role) === false) {
+            console.error('role の指定が間違っています');
+            process.exit(1);
+        }
+
+        this.mode = args.mode;
+        this.name = args.user;
+        this.password = args.password;
+        this.role = args.role;
+
+        const logger = container.get<ILoggerModel>('ILoggerModel');
+        logger.initialize();
+        this.log = logger.getLogger();
+        this.connectionChecker = container.get<IConnectionCheckModel>('IConnectionCheckModel');
+        this.dbOperator = container.get<IDBOperator>('IDBOperator');
+        this.userDB = container.get<IUserDB>('IUserDB');
+        this.userManage = container.get<IUserManageModel>('IUserManageModel');
+    }
+
+    /**
+     * run
+     */
+    public async run(): Promise<void> {
+        this.log.system.info('--- run ---');
+
+        // DB との接続確認
+        await this.connectionChecker.checkDB();
+
+        try {
+            if (this.mode === 'add') {
+                await this.userManage.add({
+                    name: this.name,
+                    password: this.password,
+                    role: this.role,
+                });
+            } else {
+                const user = await this.userDB.findName(this.name);
+                if (user === null) {
+                    throw new Error(`${this.name} is not found`);
+                }
+                await this.userManage.updatePassword(user.id, this.password);
+            }
+        } catch (err: any) {
+            console.error(err.message);
+            await this.dbOperator.closeConnection();
+            process.exit(1);
+        }
+
+        // DB 切断
+        await this.dbOperator.closeConnection();
+        this.log.system.info('--- finish ---');
+
+        process.exit(0);
+    }
+}
+
+new UserTool().run();
@@ -568,6 +568,7 @@ class V1MigrationTool {
             newItem.name = oldItem.name;
             newItem.channelId = oldItem.channelId;
             newItem.endAt = oldItem.endAt;
+            newItem.recordedId = null;
             await this.recordedHistoryDB.insertOnce(newItem);
         }
     }
@@ -0,0 +1,60 @@
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export default class EncodeQueueItem extends BaseEntity {
+    @PrimaryGeneratedColumn({
+        type: 'integer',
+    })
+    public id!: number; // encode id として使用する
+
+    @Column({
+        type: 'integer',
+    })
+    public recordedId!: number;
+
+    @Column({
+        type: 'integer',
+    })
+    public sourceVideoFileId!: number;
+
+    @Column({
+        type: 'text',
+    })
+    public parentDir!: string; // 親ディレクトリ config recorded の name
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public directory!: string | null; // 親ディレクトリ以下のディレクトリ設定
+
+    @Column({
+        type: 'text',
+    })
+    public mode!: string; // config encode の name
+
+    @Column()
+    public removeOriginal!: boolean;
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public priority!: number; // 優先度 大きいほど先にエンコードされる
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public position!: number; // エンコード待ち queue 内の位置
+
+    @Column({
+        type: 'text',
+    })
+    public state!: string; // 'wait' | 'running' | 'paused'
+
+    @Column({
+        type: 'bigint',
+    })
+    public createdAt!: number; // queue への追加時刻
+}
@@ -0,0 +1,12 @@
+import { BaseEntity, Column, Entity, PrimaryColumn } from 'typeorm';
+
+@Entity()
+export default class EncodeQueueState extends BaseEntity {
+    @PrimaryColumn({
+        type: 'integer',
+    })
+    public id!: number; // 1 行のみ保存する
+
+    @Column()
+    public isPaused!: boolean; // queue が一時停止中か
+}
@@ -191,4 +191,34 @@ export default class Program extends BaseEntity {
         nullable: true,
     })
     public audioComponentType!: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesId!: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesRepeat!: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesEpisode!: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesLastEpisode!: number | null;
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public seriesName!: string | null;
 }
@@ -0,0 +1,55 @@
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export default class ReceptionQuality extends BaseEntity {
+    @PrimaryGeneratedColumn({
+        type: 'integer',
+    })
+    public id!: number;
+
+    @Column({
+        type: 'bigint',
+    })
+    public channelId!: number;
+
+    @Column({
+        type: 'text',
+    })
+    public channelType!: string;
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public tunerName!: string | null; // EPGStation が予約に割り当てたチューナー (Mirakurun が実際に使用したものとは限らない. 割り当てがなかった場合は null)
+
+    @Column({
+        type: 'bigint',
+    })
+    public startAt!: number; // 録画開始時刻
+
+    @Column({
+        type: 'bigint',
+    })
+    public endAt!: number; // 録画終了時刻
+
+    @Column({
+        type: 'bigint',
+    })
+    public packetCnt!: number;
+
+    @Column({
+        type: 'bigint',
+    })
+    public errorCnt!: number;
+
+    @Column({
+        type: 'bigint',
+    })
+    public dropCnt!: number;
+
+    @Column({
+        type: 'bigint',
+    })
+    public scramblingCnt!: number;
+}
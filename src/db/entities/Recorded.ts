@@ -182,9 +182,57 @@ export default class Recorded extends BaseEntity {
     })
     public audioComponentType?: number | null;
 
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesId?: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesRepeat?: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesEpisode?: number | null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesLastEpisode?: number | null;
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public seriesName?: string | null;
+
     @Column()
     public isRecording!: boolean;
 
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public gaps?: string | null; // 録画中に stream が途切れた区間 (apid.RecordedGap[] の JSON)
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public supersededBy?: number | null; // 再録画で置き換えられた場合は再録画の recorded id
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public rerecordedBy?: number | null; // 再録画で置き換えるか判断できず確認が必要な場合は再録画の recorded id
+
     @OneToMany(() => VideoFile, videoFile => videoFile.recorded)
     public videoFiles?: VideoFile[];
 
@@ -21,4 +21,10 @@ export default class RecordedHistory extends BaseEntity {
         type: 'bigint',
     })
     public endAt!: number; // 終了時刻
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public recordedId!: number | null; // 記録元の recorded id (追加前の履歴は null)
 }
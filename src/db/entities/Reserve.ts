@@ -63,6 +63,54 @@ export default class Reserve extends BaseEntity {
     })
     public isTimeSpecified: boolean = false; // 時刻指定予約か
 
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public priority: number = 0; // 優先度 値が大きいものほどチューナーの割り当てが優先される
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public substituteReserveId: number | null = null; // 競合の代替予約の場合は元の予約 id
+
+    @Column({
+        type: 'bigint',
+        nullable: true,
+    })
+    public substituteOriginalStartAt: number | null = null; // 競合の代替予約の場合は元の予約の開始時刻
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public rerecordRecordedId: number | null = null; // 再録画予約の場合は元の録画 id
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public startPadding: number = 0; // 番組開始前の録画パディング (秒)
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public endPadding: number = 0; // 番組終了後の録画パディング (秒)
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public appliedStartPadding: number = 0; // 競合回避のため縮めた後の実際の開始パディング (秒)
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public appliedEndPadding: number = 0; // 競合回避のため縮めた後の実際の終了パディング (秒)
+
     /**
      * 保存オプション
      */
@@ -311,4 +359,34 @@ export default class Reserve extends BaseEntity {
         nullable: true,
     })
     public audioComponentType: number | null = null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesId: number | null = null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesRepeat: number | null = null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesEpisode: number | null = null;
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesLastEpisode: number | null = null;
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public seriesName: string | null = null;
 }
@@ -162,6 +162,24 @@ export default class Rule extends BaseEntity {
     })
     public searchPeriods: string | null = null; // 検索期間 { startAt: UnixtimeMS, endAt: UnixtimeMS } の array を JSON.stringify したもの
 
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesId: number | null = null; // シリーズ id
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public seriesNetworkId: number | null = null; // シリーズの network id
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public keywordQuery: string | null = null; // 検索クエリ
+
     /**
      * 予約オプション
      */
@@ -192,6 +210,29 @@ export default class Rule extends BaseEntity {
     })
     public tags: string | null = null;
 
+    @Column({
+        default: false,
+    })
+    public disableAfterLastEpisode: boolean = false; // シリーズ最終話の録画後にルールを無効化するか
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public priority: number = 0; // ルール予約の優先度
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public startPadding: number = 0; // 番組開始前の録画パディング (秒)
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public endPadding: number = 0; // 番組終了後の録画パディング (秒)
+
     /**
      * 保存設定
      */
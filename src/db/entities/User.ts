@@ -0,0 +1,30 @@
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export default class User extends BaseEntity {
+    @PrimaryGeneratedColumn({
+        type: 'integer',
+    })
+    public id!: number;
+
+    @Column({
+        type: 'text',
+        unique: true,
+    })
+    public name!: string; // ユーザー名
+
+    @Column({
+        type: 'text',
+    })
+    public passwordHash!: string; // ハッシュ化されたパスワード
+
+    @Column({
+        type: 'text',
+    })
+    public role!: string; // 権限 viewer | reserver | admin
+
+    @Column({
+        type: 'bigint',
+    })
+    public createdAt!: number; // 作成時刻
+}
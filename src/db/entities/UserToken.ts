@@ -0,0 +1,41 @@
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export default class UserToken extends BaseEntity {
+    @PrimaryGeneratedColumn({
+        type: 'integer',
+    })
+    public id!: number;
+
+    @Column({
+        type: 'integer',
+    })
+    public userId!: number;
+
+    @Column({
+        type: 'text',
+    })
+    public tokenHash!: string; // トークンのハッシュ値 (トークン自体は保存しない)
+
+    @Column({
+        type: 'text',
+    })
+    public type!: string; // 'session' | 'api' | 'stream'
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public name!: string | null; // api トークンの名前
+
+    @Column({
+        type: 'bigint',
+    })
+    public createdAt!: number; // 発行時刻
+
+    @Column({
+        type: 'bigint',
+        nullable: true,
+    })
+    public expiresAt!: number | null; // 有効期限 null の場合は無期限
+}
@@ -0,0 +1,63 @@
+import { BaseEntity, Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity()
+export default class WebhookDelivery extends BaseEntity {
+    @PrimaryGeneratedColumn({
+        type: 'integer',
+    })
+    public id!: number;
+
+    @Column({
+        type: 'text',
+    })
+    public url!: string; // 送信先 URL
+
+    @Column({
+        type: 'text',
+    })
+    public event!: string; // WebhookEventType
+
+    @Column({
+        type: 'text',
+    })
+    public payload!: string; // 送信した JSON
+
+    @Column({
+        type: 'text',
+    })
+    public state!: string; // 'pending' | 'retrying' | 'success' | 'failed'
+
+    @Column({
+        type: 'integer',
+        default: 0,
+    })
+    public attempts!: number; // 送信試行回数
+
+    @Column({
+        type: 'integer',
+        nullable: true,
+    })
+    public statusCode!: number | null; // 最後に受信した http status code
+
+    @Column({
+        type: 'text',
+        nullable: true,
+    })
+    public errorMessage!: string | null; // 最後に発生したエラー
+
+    @Column({
+        type: 'bigint',
+        nullable: true,
+    })
+    public nextRetryAt!: number | null; // 次回の再送予定時刻 (state が retrying の場合のみ)
+
+    @Column({
+        type: 'bigint',
+    })
+    public createdAt!: number;
+
+    @Column({
+        type: 'bigint',
+    })
+    public updatedAt!: number;
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUser1792427527462 implements MigrationInterface {
+    name = 'AddUser1792427527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE `user` (`id` int NOT NULL AUTO_INCREMENT, `name` text NOT NULL, `passwordHash` text NOT NULL, `createdAt` bigint NOT NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+        await queryRunner.query(
+            'CREATE TABLE `user_token` (`id` int NOT NULL AUTO_INCREMENT, `userId` int NOT NULL, `tokenHash` text NOT NULL, `type` text NOT NULL, `name` text NULL, `createdAt` bigint NOT NULL, `expiresAt` bigint NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE `user_token`');
+        await queryRunner.query('DROP TABLE `user`');
+    }
+}
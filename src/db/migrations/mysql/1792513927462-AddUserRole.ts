@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserRole1792513927462 implements MigrationInterface {
+    name = 'AddUserRole1792513927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `user` ADD `role` text NULL');
+        // 既存のユーザーは管理者とする
+        await queryRunner.query("UPDATE `user` SET `role` = 'admin'");
+        await queryRunner.query('ALTER TABLE `user` MODIFY `role` text NOT NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `user` DROP COLUMN `role`');
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueItem1792600327462 implements MigrationInterface {
+    name = 'AddEncodeQueueItem1792600327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE `encode_queue_item` (`id` int NOT NULL AUTO_INCREMENT, `recordedId` int NOT NULL, `sourceVideoFileId` int NOT NULL, `parentDir` text NOT NULL, `directory` text NULL, `mode` text NOT NULL, `removeOriginal` tinyint NOT NULL, `state` text NOT NULL, `createdAt` bigint NOT NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE `encode_queue_item`');
+    }
+}
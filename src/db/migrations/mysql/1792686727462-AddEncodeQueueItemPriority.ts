@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueItemPriority1792686727462 implements MigrationInterface {
+    name = 'AddEncodeQueueItemPriority1792686727462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `encode_queue_item` ADD `priority` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `encode_queue_item` ADD `position` int NOT NULL DEFAULT 0');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `encode_queue_item` DROP COLUMN `position`');
+        await queryRunner.query('ALTER TABLE `encode_queue_item` DROP COLUMN `priority`');
+    }
+}
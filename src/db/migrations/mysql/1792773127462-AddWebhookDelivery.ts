@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebhookDelivery1792773127462 implements MigrationInterface {
+    name = 'AddWebhookDelivery1792773127462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE `webhook_delivery` (`id` int NOT NULL AUTO_INCREMENT, `url` text NOT NULL, `event` text NOT NULL, `payload` text NOT NULL, `state` text NOT NULL, `attempts` int NOT NULL DEFAULT 0, `statusCode` int NULL, `errorMessage` text NULL, `createdAt` bigint NOT NULL, `updatedAt` bigint NOT NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE `webhook_delivery`');
+    }
+}
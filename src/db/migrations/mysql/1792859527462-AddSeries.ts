@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSeries1792859527462 implements MigrationInterface {
+    name = 'AddSeries1792859527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `program` ADD `seriesId` int NULL');
+        await queryRunner.query('ALTER TABLE `program` ADD `seriesRepeat` int NULL');
+        await queryRunner.query('ALTER TABLE `program` ADD `seriesEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `program` ADD `seriesLastEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `program` ADD `seriesName` text NULL');
+
+        await queryRunner.query('ALTER TABLE `reserve` ADD `seriesId` int NULL');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `seriesRepeat` int NULL');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `seriesEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `seriesLastEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `seriesName` text NULL');
+
+        await queryRunner.query('ALTER TABLE `recorded` ADD `seriesId` int NULL');
+        await queryRunner.query('ALTER TABLE `recorded` ADD `seriesRepeat` int NULL');
+        await queryRunner.query('ALTER TABLE `recorded` ADD `seriesEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `recorded` ADD `seriesLastEpisode` int NULL');
+        await queryRunner.query('ALTER TABLE `recorded` ADD `seriesName` text NULL');
+
+        await queryRunner.query('ALTER TABLE `rule` ADD `seriesId` int NULL');
+        await queryRunner.query('ALTER TABLE `rule` ADD `disableAfterLastEpisode` tinyint NOT NULL DEFAULT 0');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `disableAfterLastEpisode`');
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `seriesId`');
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `seriesName`');
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `seriesLastEpisode`');
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `seriesEpisode`');
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `seriesRepeat`');
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `seriesId`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `seriesName`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `seriesLastEpisode`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `seriesEpisode`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `seriesRepeat`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `seriesId`');
+        await queryRunner.query('ALTER TABLE `program` DROP COLUMN `seriesName`');
+        await queryRunner.query('ALTER TABLE `program` DROP COLUMN `seriesLastEpisode`');
+        await queryRunner.query('ALTER TABLE `program` DROP COLUMN `seriesEpisode`');
+        await queryRunner.query('ALTER TABLE `program` DROP COLUMN `seriesRepeat`');
+        await queryRunner.query('ALTER TABLE `program` DROP COLUMN `seriesId`');
+    }
+}
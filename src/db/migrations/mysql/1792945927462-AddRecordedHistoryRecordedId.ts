@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecordedHistoryRecordedId1792945927462 implements MigrationInterface {
+    name = 'AddRecordedHistoryRecordedId1792945927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded_history` ADD `recordedId` int NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded_history` DROP COLUMN `recordedId`');
+    }
+}
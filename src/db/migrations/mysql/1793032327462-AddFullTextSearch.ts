@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * program, recorded の全文検索用 FULLTEXT index (ngram parser) を追加する
+ * ngram parser が使用できない環境 (MariaDB 等) では index を作成せず, 従来の like 検索を使用する
+ */
+export class AddFullTextSearch1793032327462 implements MigrationInterface {
+    name = 'AddFullTextSearch1793032327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const plugins = await queryRunner.query(
+            "SELECT PLUGIN_NAME FROM information_schema.PLUGINS WHERE PLUGIN_NAME = 'ngram' AND PLUGIN_STATUS = 'ACTIVE'",
+        );
+        if (plugins.length === 0) {
+            return;
+        }
+
+        // ngram のトークンに stopword が含まれると検索できなくなるため無効化して index を作成する
+        await queryRunner.query('SET SESSION innodb_ft_enable_stopword = 0');
+        for (const table of ['program', 'recorded']) {
+            await queryRunner.query(
+                `CREATE FULLTEXT INDEX \`IDX_${table}_fts_name\` ON \`${table}\` (\`halfWidthName\`) WITH PARSER ngram`,
+            );
+            await queryRunner.query(
+                `CREATE FULLTEXT INDEX \`IDX_${table}_fts_description\` ON \`${table}\` (\`halfWidthDescription\`) WITH PARSER ngram`,
+            );
+            await queryRunner.query(
+                `CREATE FULLTEXT INDEX \`IDX_${table}_fts_extended\` ON \`${table}\` (\`halfWidthExtended\`) WITH PARSER ngram`,
+            );
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        const indexes: { TABLE_NAME: string; INDEX_NAME: string }[] = await queryRunner.query(
+            "SELECT DISTINCT TABLE_NAME, INDEX_NAME FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND INDEX_TYPE = 'FULLTEXT' AND INDEX_NAME LIKE 'IDX\\_%\\_fts\\_%'",
+        );
+        for (const index of indexes) {
+            await queryRunner.query(`DROP INDEX \`${index.INDEX_NAME}\` ON \`${index.TABLE_NAME}\``);
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRuleKeywordQuery1793118727462 implements MigrationInterface {
+    name = 'AddRuleKeywordQuery1793118727462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` ADD `keywordQuery` text NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `keywordQuery`');
+    }
+}
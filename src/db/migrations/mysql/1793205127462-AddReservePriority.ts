@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReservePriority1793205127462 implements MigrationInterface {
+    name = 'AddReservePriority1793205127462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` ADD `priority` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `priority` int NOT NULL DEFAULT 0');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `priority`');
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `priority`');
+    }
+}
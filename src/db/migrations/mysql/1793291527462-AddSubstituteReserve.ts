@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubstituteReserve1793291527462 implements MigrationInterface {
+    name = 'AddSubstituteReserve1793291527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` ADD `substituteReserveId` int NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `substituteReserveId`');
+    }
+}
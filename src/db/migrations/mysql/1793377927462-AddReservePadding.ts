@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReservePadding1793377927462 implements MigrationInterface {
+    name = 'AddReservePadding1793377927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` ADD `startPadding` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `rule` ADD `endPadding` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `startPadding` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `endPadding` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `appliedStartPadding` int NOT NULL DEFAULT 0');
+        await queryRunner.query('ALTER TABLE `reserve` ADD `appliedEndPadding` int NOT NULL DEFAULT 0');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `appliedEndPadding`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `appliedStartPadding`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `endPadding`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `startPadding`');
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `endPadding`');
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `startPadding`');
+    }
+}
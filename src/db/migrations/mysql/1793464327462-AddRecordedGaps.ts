@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecordedGaps1793464327462 implements MigrationInterface {
+    name = 'AddRecordedGaps1793464327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded` ADD `gaps` text NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `gaps`');
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRerecord1793550727462 implements MigrationInterface {
+    name = 'AddRerecord1793550727462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` ADD `rerecordRecordedId` int NULL');
+        await queryRunner.query('ALTER TABLE `recorded` ADD `supersededBy` int NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `supersededBy`');
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `rerecordRecordedId`');
+    }
+}
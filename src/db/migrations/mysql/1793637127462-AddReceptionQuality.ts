@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReceptionQuality1793637127462 implements MigrationInterface {
+    name = 'AddReceptionQuality1793637127462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE `reception_quality` (`id` int NOT NULL AUTO_INCREMENT, `channelId` bigint NOT NULL, `channelType` text NOT NULL, `tunerName` text NULL, `startAt` bigint NOT NULL, `endAt` bigint NOT NULL, `packetCnt` bigint NOT NULL, `errorCnt` bigint NOT NULL, `dropCnt` bigint NOT NULL, `scramblingCnt` bigint NOT NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE `reception_quality`');
+    }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserNameUniqueIndex1793723527462 implements MigrationInterface {
+    name = 'AddUserNameUniqueIndex1793723527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // 重複しているユーザー名は最初に作成されたもの以外を id 付きの名前に変更する
+        await queryRunner.query(
+            "UPDATE `user` SET `name` = CONCAT(`name`, '_', `id`) WHERE `id` NOT IN (SELECT `id` FROM (SELECT MIN(`id`) AS `id` FROM `user` GROUP BY `name`) AS `first_user`)",
+        );
+        // text 型には長さ指定なしで index を張れないため varchar に変更する
+        await queryRunner.query('ALTER TABLE `user` MODIFY `name` varchar(255) NOT NULL');
+        await queryRunner.query('CREATE UNIQUE INDEX `IDX_user_name` ON `user` (`name`)');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP INDEX `IDX_user_name` ON `user`');
+        await queryRunner.query('ALTER TABLE `user` MODIFY `name` text NOT NULL');
+    }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebhookDeliveryNextRetryAt1793809927462 implements MigrationInterface {
+    name = 'AddWebhookDeliveryNextRetryAt1793809927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `webhook_delivery` ADD `nextRetryAt` bigint NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `webhook_delivery` DROP COLUMN `nextRetryAt`');
+    }
+}
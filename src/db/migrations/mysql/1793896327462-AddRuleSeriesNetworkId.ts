@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRuleSeriesNetworkId1793896327462 implements MigrationInterface {
+    name = 'AddRuleSeriesNetworkId1793896327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` ADD `seriesNetworkId` int NULL');
+
+        // 既存のシリーズ指定ルールは番組情報から networkId が一意に定まる場合のみ設定する
+        await queryRunner.query(
+            'UPDATE `rule` SET `seriesNetworkId` = (SELECT MIN(`networkId`) FROM `program` WHERE `program`.`seriesId` = `rule`.`seriesId` HAVING COUNT(DISTINCT `networkId`) = 1) WHERE `seriesId` IS NOT NULL',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `rule` DROP COLUMN `seriesNetworkId`');
+    }
+}
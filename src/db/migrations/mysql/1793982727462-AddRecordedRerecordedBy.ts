@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecordedRerecordedBy1793982727462 implements MigrationInterface {
+    name = 'AddRecordedRerecordedBy1793982727462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded` ADD `rerecordedBy` int NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `recorded` DROP COLUMN `rerecordedBy`');
+    }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubstituteOriginalStartAt1794069127462 implements MigrationInterface {
+    name = 'AddSubstituteOriginalStartAt1794069127462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` ADD `substituteOriginalStartAt` bigint NULL');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('ALTER TABLE `reserve` DROP COLUMN `substituteOriginalStartAt`');
+    }
+}
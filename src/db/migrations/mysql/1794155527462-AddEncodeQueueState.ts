@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueState1794155527462 implements MigrationInterface {
+    name = 'AddEncodeQueueState1794155527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE `encode_queue_state` (`id` int NOT NULL, `isPaused` tinyint NOT NULL, PRIMARY KEY (`id`)) ENGINE=InnoDB',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE `encode_queue_state`');
+    }
+}
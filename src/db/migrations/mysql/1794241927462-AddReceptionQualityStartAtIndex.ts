@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReceptionQualityStartAtIndex1794241927462 implements MigrationInterface {
+    name = 'AddReceptionQualityStartAtIndex1794241927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('CREATE INDEX `IDX_reception_quality_startAt` ON `reception_quality` (`startAt`)');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP INDEX `IDX_reception_quality_startAt` ON `reception_quality`');
+    }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * program, recorded の全文検索用 GIN index (pg_trgm) を追加する
+ * tsvector の標準の parser は日本語を単語に分割できないため, trigram で部分一致検索と関連度の算出を行う
+ * pg_trgm 拡張が使用できない環境では index を作成せず, 従来の like 検索を使用する
+ */
+export class AddFullTextSearch1793032327462 implements MigrationInterface {
+    name = 'AddFullTextSearch1793032327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const extensions = await queryRunner.query("SELECT name FROM pg_available_extensions WHERE name = 'pg_trgm'");
+        if (extensions.length === 0) {
+            return;
+        }
+
+        await queryRunner.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+        for (const table of ['program', 'recorded']) {
+            await queryRunner.query(
+                `CREATE INDEX "IDX_${table}_fts_name" ON "${table}" USING gin ("halfWidthName" gin_trgm_ops)`,
+            );
+            await queryRunner.query(
+                `CREATE INDEX "IDX_${table}_fts_description" ON "${table}" USING gin ("halfWidthDescription" gin_trgm_ops)`,
+            );
+            await queryRunner.query(
+                `CREATE INDEX "IDX_${table}_fts_extended" ON "${table}" USING gin ("halfWidthExtended" gin_trgm_ops)`,
+            );
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ['program', 'recorded']) {
+            for (const key of ['name', 'description', 'extended']) {
+                await queryRunner.query(`DROP INDEX IF EXISTS "IDX_${table}_fts_${key}"`);
+            }
+        }
+    }
+}
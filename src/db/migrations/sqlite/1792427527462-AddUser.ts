@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUser1792427527462 implements MigrationInterface {
+    name = 'AddUser1792427527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE "user" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" text NOT NULL, "passwordHash" text NOT NULL, "createdAt" bigint NOT NULL)',
+        );
+        await queryRunner.query(
+            'CREATE TABLE "user_token" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, "tokenHash" text NOT NULL, "type" text NOT NULL, "name" text, "createdAt" bigint NOT NULL, "expiresAt" bigint)',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE "user_token"');
+        await queryRunner.query('DROP TABLE "user"');
+    }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserRole1792513927462 implements MigrationInterface {
+    name = 'AddUserRole1792513927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // 既存のユーザーは管理者とする
+        await queryRunner.query(`ALTER TABLE "user" ADD COLUMN "role" text NOT NULL DEFAULT ('admin')`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "user" RENAME TO "temporary_user"`);
+        await queryRunner.query(
+            `CREATE TABLE "user" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" text NOT NULL, "passwordHash" text NOT NULL, "createdAt" bigint NOT NULL)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "user"("id", "name", "passwordHash", "createdAt") SELECT "id", "name", "passwordHash", "createdAt" FROM "temporary_user"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_user"`);
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueItem1792600327462 implements MigrationInterface {
+    name = 'AddEncodeQueueItem1792600327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE "encode_queue_item" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "recordedId" integer NOT NULL, "sourceVideoFileId" integer NOT NULL, "parentDir" text NOT NULL, "directory" text, "mode" text NOT NULL, "removeOriginal" boolean NOT NULL, "state" text NOT NULL, "createdAt" bigint NOT NULL)',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE "encode_queue_item"');
+    }
+}
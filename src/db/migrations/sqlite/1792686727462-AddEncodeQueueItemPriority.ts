@@ -0,0 +1,22 @@
+/* eslint-disable max-len */
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueItemPriority1792686727462 implements MigrationInterface {
+    name = 'AddEncodeQueueItemPriority1792686727462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "encode_queue_item" ADD COLUMN "priority" integer NOT NULL DEFAULT (0)`);
+        await queryRunner.query(`ALTER TABLE "encode_queue_item" ADD COLUMN "position" integer NOT NULL DEFAULT (0)`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "encode_queue_item" RENAME TO "temporary_encode_queue_item"`);
+        await queryRunner.query(
+            `CREATE TABLE "encode_queue_item" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "recordedId" integer NOT NULL, "sourceVideoFileId" integer NOT NULL, "parentDir" text NOT NULL, "directory" text, "mode" text NOT NULL, "removeOriginal" boolean NOT NULL, "state" text NOT NULL, "createdAt" bigint NOT NULL)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "encode_queue_item"("id", "recordedId", "sourceVideoFileId", "parentDir", "directory", "mode", "removeOriginal", "state", "createdAt") SELECT "id", "recordedId", "sourceVideoFileId", "parentDir", "directory", "mode", "removeOriginal", "state", "createdAt" FROM "temporary_encode_queue_item"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_encode_queue_item"`);
+    }
+}
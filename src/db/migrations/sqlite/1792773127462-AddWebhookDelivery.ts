@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebhookDelivery1792773127462 implements MigrationInterface {
+    name = 'AddWebhookDelivery1792773127462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE "webhook_delivery" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "url" text NOT NULL, "event" text NOT NULL, "payload" text NOT NULL, "state" text NOT NULL, "attempts" integer NOT NULL DEFAULT (0), "statusCode" integer, "errorMessage" text, "createdAt" bigint NOT NULL, "updatedAt" bigint NOT NULL)',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE "webhook_delivery"');
+    }
+}
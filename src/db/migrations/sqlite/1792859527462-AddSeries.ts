@@ -0,0 +1,64 @@
+/* eslint-disable max-len */
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSeries1792859527462 implements MigrationInterface {
+    name = 'AddSeries1792859527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "program" ADD COLUMN "seriesId" integer`);
+        await queryRunner.query(`ALTER TABLE "program" ADD COLUMN "seriesRepeat" integer`);
+        await queryRunner.query(`ALTER TABLE "program" ADD COLUMN "seriesEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "program" ADD COLUMN "seriesLastEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "program" ADD COLUMN "seriesName" text`);
+
+        await queryRunner.query(`ALTER TABLE "reserve" ADD COLUMN "seriesId" integer`);
+        await queryRunner.query(`ALTER TABLE "reserve" ADD COLUMN "seriesRepeat" integer`);
+        await queryRunner.query(`ALTER TABLE "reserve" ADD COLUMN "seriesEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "reserve" ADD COLUMN "seriesLastEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "reserve" ADD COLUMN "seriesName" text`);
+
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "seriesId" integer`);
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "seriesRepeat" integer`);
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "seriesEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "seriesLastEpisode" integer`);
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "seriesName" text`);
+
+        await queryRunner.query(`ALTER TABLE "rule" ADD COLUMN "seriesId" integer`);
+        await queryRunner.query(`ALTER TABLE "rule" ADD COLUMN "disableAfterLastEpisode" boolean NOT NULL DEFAULT (0)`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "rule" RENAME TO "temporary_rule"`);
+        await queryRunner.query(
+            `CREATE TABLE "rule" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "updateCnt" integer NOT NULL DEFAULT (0), "isTimeSpecification" boolean NOT NULL DEFAULT (0), "keyword" text, "halfWidthKeyword" text, "ignoreKeyword" text, "halfWidthIgnoreKeyword" text, "keyCS" boolean NOT NULL DEFAULT (0), "keyRegExp" boolean NOT NULL DEFAULT (0), "name" boolean NOT NULL DEFAULT (0), "description" boolean NOT NULL DEFAULT (0), "extended" boolean NOT NULL DEFAULT (0), "ignoreKeyCS" boolean NOT NULL DEFAULT (0), "ignoreKeyRegExp" boolean NOT NULL DEFAULT (0), "ignoreName" boolean NOT NULL DEFAULT (0), "ignoreDescription" boolean NOT NULL DEFAULT (0), "ignoreExtended" boolean NOT NULL DEFAULT (0), "GR" boolean NOT NULL DEFAULT (0), "BS" boolean NOT NULL DEFAULT (0), "CS" boolean NOT NULL DEFAULT (0), "SKY" boolean NOT NULL DEFAULT (0), "channelIds" text, "genres" text, "times" text, "isFree" boolean NOT NULL DEFAULT (0), "durationMin" integer, "durationMax" integer, "searchPeriods" text, "enable" boolean NOT NULL DEFAULT (0), "avoidDuplicate" boolean NOT NULL DEFAULT (0), "periodToAvoidDuplicate" integer, "allowEndLack" boolean NOT NULL DEFAULT (1), "tags" text, "parentDirectoryName" text, "directory" text, "recordedFormat" text, "mode1" text, "parentDirectoryName1" text, "directory1" text, "mode2" text, "parentDirectoryName2" text, "directory2" text, "mode3" text, "parentDirectoryName3" text, "directory3" text, "isDeleteOriginalAfterEncode" boolean NOT NULL DEFAULT (0))`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "rule"("id", "updateCnt", "isTimeSpecification", "keyword", "halfWidthKeyword", "ignoreKeyword", "halfWidthIgnoreKeyword", "keyCS", "keyRegExp", "name", "description", "extended", "ignoreKeyCS", "ignoreKeyRegExp", "ignoreName", "ignoreDescription", "ignoreExtended", "GR", "BS", "CS", "SKY", "channelIds", "genres", "times", "isFree", "durationMin", "durationMax", "searchPeriods", "enable", "avoidDuplicate", "periodToAvoidDuplicate", "allowEndLack", "tags", "parentDirectoryName", "directory", "recordedFormat", "mode1", "parentDirectoryName1", "directory1", "mode2", "parentDirectoryName2", "directory2", "mode3", "parentDirectoryName3", "directory3", "isDeleteOriginalAfterEncode") SELECT "id", "updateCnt", "isTimeSpecification", "keyword", "halfWidthKeyword", "ignoreKeyword", "halfWidthIgnoreKeyword", "keyCS", "keyRegExp", "name", "description", "extended", "ignoreKeyCS", "ignoreKeyRegExp", "ignoreName", "ignoreDescription", "ignoreExtended", "GR", "BS", "CS", "SKY", "channelIds", "genres", "times", "isFree", "durationMin", "durationMax", "searchPeriods", "enable", "avoidDuplicate", "periodToAvoidDuplicate", "allowEndLack", "tags", "parentDirectoryName", "directory", "recordedFormat", "mode1", "parentDirectoryName1", "directory1", "mode2", "parentDirectoryName2", "directory2", "mode3", "parentDirectoryName3", "directory3", "isDeleteOriginalAfterEncode" FROM "temporary_rule"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_rule"`);
+        await queryRunner.query(`ALTER TABLE "recorded" RENAME TO "temporary_recorded"`);
+        await queryRunner.query(
+            `CREATE TABLE "recorded" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "reserveId" integer, "ruleId" integer, "programId" bigint, "channelId" bigint NOT NULL, "isProtected" boolean NOT NULL DEFAULT (0), "startAt" bigint NOT NULL, "endAt" bigint NOT NULL, "duration" integer NOT NULL, "name" text NOT NULL, "halfWidthName" text NOT NULL, "description" text, "halfWidthDescription" text, "extended" text, "halfWidthExtended" text, "genre1" integer, "subGenre1" integer, "genre2" integer, "subGenre2" integer, "genre3" integer, "subGenre3" integer, "videoType" text, "videoResolution" text, "videoStreamContent" integer, "videoComponentType" integer, "audioSamplingRate" integer, "audioComponentType" integer, "isRecording" boolean NOT NULL, "dropLogFileId" integer, "rawExtended" text, "rawHalfWidthExtended" text, CONSTRAINT "REL_e0bc5373673ea0f120445830f4" UNIQUE ("dropLogFileId"), CONSTRAINT "FK_e0bc5373673ea0f120445830f4d" FOREIGN KEY ("dropLogFileId") REFERENCES "drop_log_file" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "recorded"("id", "reserveId", "ruleId", "programId", "channelId", "isProtected", "startAt", "endAt", "duration", "name", "halfWidthName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "isRecording", "dropLogFileId", "rawExtended", "rawHalfWidthExtended") SELECT "id", "reserveId", "ruleId", "programId", "channelId", "isProtected", "startAt", "endAt", "duration", "name", "halfWidthName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "isRecording", "dropLogFileId", "rawExtended", "rawHalfWidthExtended" FROM "temporary_recorded"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_recorded"`);
+        await queryRunner.query(`ALTER TABLE "reserve" RENAME TO "temporary_reserve"`);
+        await queryRunner.query(
+            `CREATE TABLE "reserve" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "updateTime" bigint NOT NULL, "ruleId" integer, "ruleUpdateCnt" integer, "isSkip" boolean NOT NULL DEFAULT (0), "isConflict" boolean NOT NULL DEFAULT (0), "allowEndLack" boolean NOT NULL DEFAULT (0), "tags" text, "isOverlap" boolean NOT NULL DEFAULT (0), "isIgnoreOverlap" boolean NOT NULL DEFAULT (0), "isTimeSpecified" boolean NOT NULL DEFAULT (0), "parentDirectoryName" text, "directory" text, "recordedFormat" text, "encodeMode1" text, "encodeParentDirectoryName1" text, "encodeDirectory1" text, "encodeMode2" text, "encodeParentDirectoryName2" text, "encodeDirectory2" text, "encodeMode3" text, "encodeParentDirectoryName3" text, "encodeDirectory3" text, "isDeleteOriginalAfterEncode" boolean NOT NULL DEFAULT (0), "programId" bigint, "programUpdateTime" bigint, "channelId" bigint NOT NULL, "channel" text NOT NULL, "channelType" text NOT NULL, "startAt" bigint NOT NULL, "endAt" bigint NOT NULL, "name" text, "halfWidthName" text, "shortName" text, "description" text, "halfWidthDescription" text, "extended" text, "halfWidthExtended" text, "genre1" integer, "subGenre1" integer, "genre2" integer, "subGenre2" integer, "genre3" integer, "subGenre3" integer, "videoType" text, "videoResolution" text, "videoStreamContent" integer, "videoComponentType" integer, "audioSamplingRate" integer, "audioComponentType" integer, "rawExtended" text, "rawHalfWidthExtended" text)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "reserve"("id", "updateTime", "ruleId", "ruleUpdateCnt", "isSkip", "isConflict", "allowEndLack", "tags", "isOverlap", "isIgnoreOverlap", "isTimeSpecified", "parentDirectoryName", "directory", "recordedFormat", "encodeMode1", "encodeParentDirectoryName1", "encodeDirectory1", "encodeMode2", "encodeParentDirectoryName2", "encodeDirectory2", "encodeMode3", "encodeParentDirectoryName3", "encodeDirectory3", "isDeleteOriginalAfterEncode", "programId", "programUpdateTime", "channelId", "channel", "channelType", "startAt", "endAt", "name", "halfWidthName", "shortName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "rawExtended", "rawHalfWidthExtended") SELECT "id", "updateTime", "ruleId", "ruleUpdateCnt", "isSkip", "isConflict", "allowEndLack", "tags", "isOverlap", "isIgnoreOverlap", "isTimeSpecified", "parentDirectoryName", "directory", "recordedFormat", "encodeMode1", "encodeParentDirectoryName1", "encodeDirectory1", "encodeMode2", "encodeParentDirectoryName2", "encodeDirectory2", "encodeMode3", "encodeParentDirectoryName3", "encodeDirectory3", "isDeleteOriginalAfterEncode", "programId", "programUpdateTime", "channelId", "channel", "channelType", "startAt", "endAt", "name", "halfWidthName", "shortName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "rawExtended", "rawHalfWidthExtended" FROM "temporary_reserve"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_reserve"`);
+        await queryRunner.query(`ALTER TABLE "program" RENAME TO "temporary_program"`);
+        await queryRunner.query(
+            `CREATE TABLE "program" ("id" bigint PRIMARY KEY NOT NULL, "updateTime" bigint NOT NULL, "channelId" bigint NOT NULL, "eventId" bigint NOT NULL, "serviceId" integer NOT NULL, "networkId" integer NOT NULL, "startAt" bigint NOT NULL, "endAt" bigint NOT NULL, "startHour" integer NOT NULL, "week" integer NOT NULL, "duration" integer NOT NULL, "isFree" boolean NOT NULL, "name" text NOT NULL, "halfWidthName" text NOT NULL, "shortName" text NOT NULL, "description" text, "halfWidthDescription" text, "extended" text, "halfWidthExtended" text, "genre1" integer, "subGenre1" integer, "genre2" integer, "subGenre2" integer, "genre3" integer, "subGenre3" integer, "channelType" varchar NOT NULL, "channel" varchar NOT NULL, "videoType" text, "videoResolution" text, "videoStreamContent" integer, "videoComponentType" integer, "audioSamplingRate" integer, "audioComponentType" integer, "rawExtended" text, "rawHalfWidthExtended" text)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "program"("id", "updateTime", "channelId", "eventId", "serviceId", "networkId", "startAt", "endAt", "startHour", "week", "duration", "isFree", "name", "halfWidthName", "shortName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "channelType", "channel", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "rawExtended", "rawHalfWidthExtended") SELECT "id", "updateTime", "channelId", "eventId", "serviceId", "networkId", "startAt", "endAt", "startHour", "week", "duration", "isFree", "name", "halfWidthName", "shortName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "channelType", "channel", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "rawExtended", "rawHalfWidthExtended" FROM "temporary_program"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_program"`);
+    }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecordedHistoryRecordedId1792945927462 implements MigrationInterface {
+    name = 'AddRecordedHistoryRecordedId1792945927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "recorded_history" ADD COLUMN "recordedId" integer`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "recorded_history" RENAME TO "temporary_recorded_history"`);
+        await queryRunner.query(
+            `CREATE TABLE "recorded_history" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" text NOT NULL, "channelId" bigint NOT NULL, "endAt" bigint NOT NULL)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "recorded_history"("id", "name", "channelId", "endAt") SELECT "id", "name", "channelId", "endAt" FROM "temporary_recorded_history"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_recorded_history"`);
+    }
+}
@@ -0,0 +1,38 @@
+/* eslint-disable max-len */
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * program, recorded の全文検索用 FTS5 テーブルを追加する
+ * FTS5 テーブルは external content table として作成し, trigger で元テーブルと同期させる
+ * 元テーブルを再作成する migration では trigger も削除されるため再作成すること
+ */
+export class AddFullTextSearch1793032327462 implements MigrationInterface {
+    name = 'AddFullTextSearch1793032327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ['program', 'recorded']) {
+            await queryRunner.query(
+                `CREATE VIRTUAL TABLE "${table}_fts" USING fts5("halfWidthName", "halfWidthDescription", "halfWidthExtended", content='${table}', content_rowid='id', tokenize='trigram')`,
+            );
+            await queryRunner.query(
+                `CREATE TRIGGER "${table}_fts_ai" AFTER INSERT ON "${table}" BEGIN INSERT INTO "${table}_fts"(rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES (new."id", new."halfWidthName", new."halfWidthDescription", new."halfWidthExtended"); END`,
+            );
+            await queryRunner.query(
+                `CREATE TRIGGER "${table}_fts_ad" AFTER DELETE ON "${table}" BEGIN INSERT INTO "${table}_fts"("${table}_fts", rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES ('delete', old."id", old."halfWidthName", old."halfWidthDescription", old."halfWidthExtended"); END`,
+            );
+            await queryRunner.query(
+                `CREATE TRIGGER "${table}_fts_au" AFTER UPDATE ON "${table}" BEGIN INSERT INTO "${table}_fts"("${table}_fts", rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES ('delete', old."id", old."halfWidthName", old."halfWidthDescription", old."halfWidthExtended"); INSERT INTO "${table}_fts"(rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES (new."id", new."halfWidthName", new."halfWidthDescription", new."halfWidthExtended"); END`,
+            );
+            await queryRunner.query(`INSERT INTO "${table}_fts"("${table}_fts") VALUES ('rebuild')`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ['recorded', 'program']) {
+            await queryRunner.query(`DROP TRIGGER "${table}_fts_au"`);
+            await queryRunner.query(`DROP TRIGGER "${table}_fts_ad"`);
+            await queryRunner.query(`DROP TRIGGER "${table}_fts_ai"`);
+            await queryRunner.query(`DROP TABLE "${table}_fts"`);
+        }
+    }
+}
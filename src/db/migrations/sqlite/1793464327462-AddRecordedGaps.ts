@@ -0,0 +1,31 @@
+/* eslint-disable max-len */
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRecordedGaps1793464327462 implements MigrationInterface {
+    name = 'AddRecordedGaps1793464327462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "recorded" ADD COLUMN "gaps" text`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "recorded" RENAME TO "temporary_recorded"`);
+        await queryRunner.query(
+            `CREATE TABLE "recorded" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "reserveId" integer, "ruleId" integer, "programId" bigint, "channelId" bigint NOT NULL, "isProtected" boolean NOT NULL DEFAULT (0), "startAt" bigint NOT NULL, "endAt" bigint NOT NULL, "duration" integer NOT NULL, "name" text NOT NULL, "halfWidthName" text NOT NULL, "description" text, "halfWidthDescription" text, "extended" text, "halfWidthExtended" text, "genre1" integer, "subGenre1" integer, "genre2" integer, "subGenre2" integer, "genre3" integer, "subGenre3" integer, "videoType" text, "videoResolution" text, "videoStreamContent" integer, "videoComponentType" integer, "audioSamplingRate" integer, "audioComponentType" integer, "isRecording" boolean NOT NULL, "dropLogFileId" integer, "rawExtended" text, "rawHalfWidthExtended" text, "seriesId" integer, "seriesRepeat" integer, "seriesEpisode" integer, "seriesLastEpisode" integer, "seriesName" text, CONSTRAINT "REL_e0bc5373673ea0f120445830f4" UNIQUE ("dropLogFileId"), CONSTRAINT "FK_e0bc5373673ea0f120445830f4d" FOREIGN KEY ("dropLogFileId") REFERENCES "drop_log_file" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "recorded"("id", "reserveId", "ruleId", "programId", "channelId", "isProtected", "startAt", "endAt", "duration", "name", "halfWidthName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "isRecording", "dropLogFileId", "rawExtended", "rawHalfWidthExtended", "seriesId", "seriesRepeat", "seriesEpisode", "seriesLastEpisode", "seriesName") SELECT "id", "reserveId", "ruleId", "programId", "channelId", "isProtected", "startAt", "endAt", "duration", "name", "halfWidthName", "description", "halfWidthDescription", "extended", "halfWidthExtended", "genre1", "subGenre1", "genre2", "subGenre2", "genre3", "subGenre3", "videoType", "videoResolution", "videoStreamContent", "videoComponentType", "audioSamplingRate", "audioComponentType", "isRecording", "dropLogFileId", "rawExtended", "rawHalfWidthExtended", "seriesId", "seriesRepeat", "seriesEpisode", "seriesLastEpisode", "seriesName" FROM "temporary_recorded"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_recorded"`);
+        // 全文検索用の trigger は元テーブルと共に削除されるため再作成する
+        await queryRunner.query(
+            `CREATE TRIGGER "recorded_fts_ai" AFTER INSERT ON "recorded" BEGIN INSERT INTO "recorded_fts"(rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES (new."id", new."halfWidthName", new."halfWidthDescription", new."halfWidthExtended"); END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER "recorded_fts_ad" AFTER DELETE ON "recorded" BEGIN INSERT INTO "recorded_fts"("recorded_fts", rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES ('delete', old."id", old."halfWidthName", old."halfWidthDescription", old."halfWidthExtended"); END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER "recorded_fts_au" AFTER UPDATE ON "recorded" BEGIN INSERT INTO "recorded_fts"("recorded_fts", rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES ('delete', old."id", old."halfWidthName", old."halfWidthDescription", old."halfWidthExtended"); INSERT INTO "recorded_fts"(rowid, "halfWidthName", "halfWidthDescription", "halfWidthExtended") VALUES (new."id", new."halfWidthName", new."halfWidthDescription", new."halfWidthExtended"); END`,
+        );
+    }
+}
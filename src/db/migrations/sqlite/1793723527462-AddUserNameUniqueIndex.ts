@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserNameUniqueIndex1793723527462 implements MigrationInterface {
+    name = 'AddUserNameUniqueIndex1793723527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // 重複しているユーザー名は最初に作成されたもの以外を id 付きの名前に変更する
+        await queryRunner.query(
+            `UPDATE "user" SET "name" = "name" || '_' || "id" WHERE "id" NOT IN (SELECT MIN("id") FROM "user" GROUP BY "name")`,
+        );
+        await queryRunner.query('CREATE UNIQUE INDEX "IDX_user_name" ON "user" ("name") ');
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP INDEX "IDX_user_name"');
+    }
+}
@@ -0,0 +1,21 @@
+/* eslint-disable max-len */
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebhookDeliveryNextRetryAt1793809927462 implements MigrationInterface {
+    name = 'AddWebhookDeliveryNextRetryAt1793809927462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "webhook_delivery" ADD COLUMN "nextRetryAt" bigint`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "webhook_delivery" RENAME TO "temporary_webhook_delivery"`);
+        await queryRunner.query(
+            `CREATE TABLE "webhook_delivery" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "url" text NOT NULL, "event" text NOT NULL, "payload" text NOT NULL, "state" text NOT NULL, "attempts" integer NOT NULL DEFAULT (0), "statusCode" integer, "errorMessage" text, "createdAt" bigint NOT NULL, "updatedAt" bigint NOT NULL)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "webhook_delivery"("id", "url", "event", "payload", "state", "attempts", "statusCode", "errorMessage", "createdAt", "updatedAt") SELECT "id", "url", "event", "payload", "state", "attempts", "statusCode", "errorMessage", "createdAt", "updatedAt" FROM "temporary_webhook_delivery"`,
+        );
+        await queryRunner.query(`DROP TABLE "temporary_webhook_delivery"`);
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEncodeQueueState1794155527462 implements MigrationInterface {
+    name = 'AddEncodeQueueState1794155527462';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            'CREATE TABLE "encode_queue_state" ("id" integer PRIMARY KEY NOT NULL, "isPaused" boolean NOT NULL)',
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query('DROP TABLE "encode_queue_state"');
+    }
+}
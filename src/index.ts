@@ -4,16 +4,19 @@ import 'reflect-metadata';
 import { install } from 'source-map-support';
 import IEPGUpdateExecutorManageModel from './model/epgUpdater/IEPGUpdateExecutorManageModel';
 import IEventSetter from './model/event/IEventSetter';
+import IFakeTunerServerModel from './model/fakeTunerServer/IFakeTunerServerModel';
 import IConfiguration from './model/IConfiguration';
 import IConnectionCheckModel from './model/IConnectionCheckModel';
 import ILoggerModel from './model/ILoggerModel';
-import IMirakurunClientModel from './model/IMirakurunClientModel';
 import IIPCServer from './model/ipc/IIPCServer';
 import container from './model/ModelContainer';
 import * as containerSetter from './model/ModelContainerSetter';
+import IReceptionQualityManageModel from './model/operator/receptionQuality/IReceptionQualityManageModel';
 import IRecordingManageModel from './model/operator/recording/IRecordingManageModel';
 import IReservationManageModel from './model/operator/reservation/IReservationManageModel';
 import IStorageManageModel from './model/operator/storage/IStorageManageModel';
+import ITunerManageModel from './model/operator/tuner/ITunerManageModel';
+import IWebhookManageModel from './model/operator/webhook/IWebhookManageModel';
 install();
 
 containerSetter.set(container);
@@ -60,6 +63,11 @@ const init = async () => {
     // uid, gid が設定されてから再度 log 再設定
     logger.initialize(path.join(__dirname, '..', 'config', 'operatorLogConfig.yml'));
 
+    // 疑似チューナーサーバ起動 (NODE_ENV が development, test の場合のみ設定される)
+    if (typeof config.fakeTunerServer !== 'undefined') {
+        await container.get<IFakeTunerServerModel>('IFakeTunerServerModel').start();
+    }
+
     // 接続確認
     const connectionChecker = container.get<IConnectionCheckModel>('IConnectionCheckModel');
     // wait mirakurun
@@ -73,17 +81,17 @@ const init = async () => {
  * Operator 機能起動処理
  */
 const runOperator = async () => {
-    const client = container.get<IMirakurunClientModel>('IMirakurunClientModel').getClient();
+    // 再起動により中断された webhook の送信を再開する
+    // 新たな送信ログと区別するため event をセットする前に実行する
+    const webhookManageModel = container.get<IWebhookManageModel>('IWebhookManageModel');
+    await webhookManageModel.restoreDeliveries();
 
     const eventSetter = container.get<IEventSetter>('IEventSetter');
     eventSetter.set();
 
-    const reservationManageModel = container.get<IReservationManageModel>('IReservationManageModel');
-    const recordingManager = container.get<IRecordingManageModel>('IRecordingManageModel');
-
-    const tuners = await client.getTuners();
-    reservationManageModel.setTuners(tuners);
-    recordingManager.setTuner(tuners);
+    // 全てのチューナーサーバのチューナーを使用する
+    const tunerManageModel = container.get<ITunerManageModel>('ITunerManageModel');
+    await tunerManageModel.start();
 
     const storageManageModel = container.get<IStorageManageModel>('IStorageManageModel');
     storageManageModel.start();
@@ -138,6 +146,14 @@ const cleanup = async () => {
 
     await recordingManager.cleanup();
     await reservationManageModel.cleanup();
+
+    // 受信品質の履歴が記録される前の録画のドロップログを取り込む
+    const receptionQualityManageModel = container.get<IReceptionQualityManageModel>('IReceptionQualityManageModel');
+    await receptionQualityManageModel.importDropLogs().catch(err => {
+        const log = container.get<ILoggerModel>('ILoggerModel').getLogger();
+        log.system.error('failed to import reception qualities');
+        log.system.error(err);
+    });
 };
 
 /**
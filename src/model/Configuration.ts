@@ -102,6 +102,18 @@ class Configuration implements IConfiguration {
             throw new Error('PortSettingError');
         }
 
+        // 疑似チューナーサーバは開発, テスト時のみ使用し, 接続先を置き換える
+        if (typeof newConfig.fakeTunerServer !== 'undefined') {
+            if (Configuration.FAKE_TUNER_SERVER_ENVS.indexOf(<string>process.env.NODE_ENV) === -1) {
+                this.log.system.warn(
+                    `fakeTunerServer is ignored. NODE_ENV must be ${Configuration.FAKE_TUNER_SERVER_ENVS.join(' or ')}`,
+                );
+                delete newConfig.fakeTunerServer;
+            } else {
+                newConfig.mirakurunPath = `http://127.0.0.1:${newConfig.fakeTunerServer.port}/`;
+            }
+        }
+
         // set apiServes
         if (newConfig.apiServers.length === 0) {
             newConfig.apiServers.push(`http://localhost:${newConfig.port}`);
@@ -214,11 +226,15 @@ namespace Configuration {
     export const CONFIG_FILE_PATH = path.join(__dirname, '..', '..', 'config', 'config.yml');
     export const CONFIG_TEMPLATE_FILE_PATH = path.join(__dirname, '..', '..', 'config', 'config.yml.template');
     export const ROOT_PATH = path.join(__dirname, '..', '..').replace(new RegExp(`\\${path.sep}$`), '');
+    export const FAKE_TUNER_SERVER_ENVS = ['development', 'test']; // 疑似チューナーサーバを使用できる NODE_ENV
 
     export const DEFAULT_VALUE: IConfigFile = {
         mirakurunPath: 'http+unix://%2Fvar%2Frun%2Fmirakurun.sock/',
         apiServers: [],
         isAllowAllCORS: false,
+        isEnabledAuthentication: false,
+        loginTokenExpirationDays: 30,
+        streamTokenExpirationHours: 24,
         dbtype: 'sqlite',
         needToReplaceEnclosingCharacters: true,
         epgUpdateIntervalTime: 10,
@@ -236,6 +252,7 @@ namespace Configuration {
             },
         ],
         recordedHistoryRetentionPeriodDays: 90,
+        receptionQualityRetentionDays: 365,
         storageLimitCheckIntervalTime: 60,
         thumbnail: path.join(__dirname, '..', '..', 'thumbnail'),
         thumbnailCmd:
@@ -245,12 +262,18 @@ namespace Configuration {
         dropLog: path.join(__dirname, '..', '..', 'drop'),
         uploadTempDir: path.join(__dirname, '..', '..', 'data', 'upload'),
         isEnabledDropCheck: false,
+        isEnabledRecordingResume: false,
+        recordingStallTimeout: 10,
         ffmpeg: '/usr/local/bin/ffmpeg',
         ffprobe: '/usr/local/bin/ffprobe',
         encodeProcessNum: 0,
         concurrentEncodeNum: 0,
         encode: [],
         isSuppressReservesUpdateAllLog: false,
+        isEnabledConflictResolver: false,
+        isEnabledAutoRerecord: false,
+        isDeleteSupersededRecorded: false,
+        webhookDeliveryLogRetentionDays: 7,
         urlscheme: {
             m2ts: {
                 ios: 'vlc-x-callback://x-callback-url/stream?url=PROTOCOL%3A%2F%2FADDRESS"',
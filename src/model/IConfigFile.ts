@@ -29,6 +29,62 @@ export interface StreamingCmd {
     cmd?: string;
 }
 
+export interface EncodeWindow {
+    start: string; // 開始時刻 HH:mm
+    end: string; // 終了時刻 HH:mm (start より前の場合は翌日の時刻)
+}
+
+export interface EncodeScheduleConfig {
+    windows?: EncodeWindow[]; // エンコードを開始できる時間帯
+    isHoldWhileRecording?: boolean; // 録画中はエンコードを開始しない
+    isHoldWhileStreaming?: boolean; // ストリーミング中はエンコードを開始しない
+    maxLoadAverage?: number; // 1 分間の load average がこの値以上の場合はエンコードを開始しない
+}
+
+export type WebhookEventType =
+    | 'reserve.add'
+    | 'reserve.update'
+    | 'reserve.delete'
+    | 'recording.prepStart'
+    | 'recording.prepFailed'
+    | 'recording.start'
+    | 'recording.finish'
+    | 'recording.failed'
+    | 'recording.dropThreshold'
+    | 'encode.finish'
+    | 'encode.error'
+    | 'epg.updated'
+    | 'storage.limit';
+
+export interface WebhookConfig {
+    url: string; // 送信先 URL
+    secret?: string; // 署名 (X-EPGStation-Signature) 生成用の鍵
+    events?: WebhookEventType[]; // 送信するイベント 未指定の場合は全て送信する
+    maxRetry?: number; // 送信失敗時の最大リトライ回数
+    timeout?: number; // タイムアウト (秒)
+}
+
+/**
+ * 録画中の受信エラー通知の閾値 (直近 1 分間の数)
+ */
+export interface RecordingDropThresholdConfig {
+    error?: number;
+    drop?: number;
+    scrambling?: number;
+}
+
+export interface TunerServerConfig {
+    name: string;
+    mirakurunPath: string;
+}
+
+export interface FakeTunerServerConfig {
+    port: number;
+    fixture: string; // 番組情報等を定義した fixture ファイルのパス
+    sampleTS: string; // 配信する TS ファイルのパス
+    bitrate?: number; // 配信するビットレート (bps)
+}
+
 export interface KodiInfo {
     name: string;
     host: string;
@@ -44,7 +100,9 @@ export default interface IConfigFile {
     socketioPort?: number;
     clientSocketioPort?: number;
     https?: HttpsConfig;
-    mirakurunPath: string;
+    mirakurunPath: string; // プライマリのチューナーサーバ (番組情報の取得に使用する)
+    tunerServers?: TunerServerConfig[]; // 録画に使用する追加のチューナーサーバ
+    fakeTunerServer?: FakeTunerServerConfig; // 開発, テスト用の疑似チューナーサーバ (mirakurunPath より優先される)
 
     subDirectory?: string;
 
@@ -55,6 +113,11 @@ export default interface IConfigFile {
 
     isAllowAllCORS: boolean;
 
+    // 認証設定
+    isEnabledAuthentication: boolean; // ユーザー認証を有効にするか
+    loginTokenExpirationDays: number; // ログイントークンの有効期間 (日)
+    streamTokenExpirationHours: number; // ストリーミング用トークンの有効期間 (時間)
+
     dbtype: Enums.DBType;
     sqlite?: {
         extensions?: string[];
@@ -112,6 +175,8 @@ export default interface IConfigFile {
 
     // 録画履歴保存期間
     recordedHistoryRetentionPeriodDays: number;
+    // 受信品質の履歴保存期間 (日)
+    receptionQualityRetentionDays: number;
 
     // ストレージ空き容量チェック間隔 (秒)
     storageLimitCheckIntervalTime: number;
@@ -125,6 +190,11 @@ export default interface IConfigFile {
     // drop log
     dropLog: string;
     isEnabledDropCheck: boolean; // drop check を有効にするか
+    recordingDropThreshold?: RecordingDropThresholdConfig; // 超えた場合に録画中の受信エラーを通知する
+
+    // 録画中にストリームが途切れた場合に再接続して録画を継続するか
+    isEnabledRecordingResume: boolean;
+    recordingStallTimeout: number; // データが途絶えてから再接続するまでの秒数 (0 で無効)
 
     // upload
     uploadTempDir: string;
@@ -140,11 +210,21 @@ export default interface IConfigFile {
         cmd: string;
         suffix?: string; // 非エンコードコマンドの場合 undefined
         rate?: number;
+        schedule?: EncodeScheduleConfig; // 設定した場合は encodeSchedule の代わりに使用する
     }[];
+    encodeSchedule?: EncodeScheduleConfig; // エンコード開始条件
 
     // 予約定期更新時のログ出力を抑えるか
     isSuppressReservesUpdateAllLog: boolean;
 
+    // 競合した予約の代替として再放送等を自動で予約するか
+    isEnabledConflictResolver: boolean;
+
+    // 録画に失敗した, もしくはドロップが多かった番組を再放送等で自動的に再録画するか
+    isEnabledAutoRerecord: boolean;
+    autoRerecordDropThreshold?: number; // ドロップ数がこの値を超えた場合に再録画する
+    isDeleteSupersededRecorded: boolean; // 再録画に成功した場合に元の録画を削除するか
+
     // 各種フックコマンド
     reserveNewAddtionCommand?: string; // 予約新規追加
     reserveUpdateCommand?: string; // 予約情報更新
@@ -154,8 +234,13 @@ export default interface IConfigFile {
     recordingStartCommand?: string; // 録画開始
     recordingFinishCommand?: string; // 録画終了
     recordingFailedCommand?: string; // 録画中のエラー
+    recordingDropThresholdCommand?: string; // 録画中の受信エラーが閾値を超えた
     encodingFinishCommand?: string; // エンコード終了
 
+    // webhook
+    webhooks?: WebhookConfig[];
+    webhookDeliveryLogRetentionDays: number; // webhook 送信ログ保存期間 (日)
+
     // 視聴 URL Scheme 設定
     urlscheme: {
         m2ts: URLSchemeInfo;
@@ -1,5 +1,25 @@
 import mirakurun from 'mirakurun';
+import * as mapid from '../../node_modules/mirakurun/api';
+
+/**
+ * チューナーサーバ
+ * id が 0 のサーバは mirakurunPath で指定したプライマリサーバ
+ */
+export interface TunerServer {
+    id: number;
+    name: string;
+    client: mirakurun;
+}
+
+/**
+ * チューナーサーバ ID 付きのチューナー情報
+ */
+export interface ServerTunerDevice extends mapid.TunerDevice {
+    serverId: number;
+}
 
 export default interface IMirakurunClientModel {
     getClient(): mirakurun;
+    getServers(): TunerServer[];
+    getTuners(): Promise<ServerTunerDevice[]>;
 }
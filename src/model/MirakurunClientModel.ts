@@ -5,29 +5,58 @@ import * as path from 'path';
 import * as url from 'url';
 import IConfigFile from './IConfigFile';
 import IConfiguration from './IConfiguration';
-import IMirakurunClientModel from './IMirakurunClientModel';
+import ILogger from './ILogger';
+import ILoggerModel from './ILoggerModel';
+import IMirakurunClientModel, { ServerTunerDevice, TunerServer } from './IMirakurunClientModel';
 
 /**
  * mirakurun client のインスタンスを生成する
  */
 @injectable()
 export default class MirakurunClientModel implements IMirakurunClientModel {
-    private client: mirakurun;
+    private log: ILogger;
     private config: IConfigFile;
+    private servers: TunerServer[] = [];
 
-    constructor(@inject('IConfiguration') conf: IConfiguration) {
-        this.client = new mirakurun();
+    constructor(@inject('ILoggerModel') logger: ILoggerModel, @inject('IConfiguration') conf: IConfiguration) {
+        this.log = logger.getLogger();
         this.config = conf.getConfig();
 
-        this.setClient();
+        this.setServers();
     }
 
     /**
-     * mirakurun client の設定
+     * チューナーサーバの設定
+     * mirakurunPath のサーバを先頭 (id: 0) とする
      */
-    private setClient(): void {
+    private setServers(): void {
+        this.servers.push({
+            id: 0,
+            name: 'primary',
+            client: this.createClient(this.config.mirakurunPath),
+        });
+
+        if (typeof this.config.tunerServers === 'undefined') {
+            return;
+        }
+
+        for (const server of this.config.tunerServers) {
+            this.servers.push({
+                id: this.servers.length,
+                name: server.name,
+                client: this.createClient(server.mirakurunPath),
+            });
+        }
+    }
+
+    /**
+     * mirakurun client の生成
+     * @param mirakurunPath: string
+     * @return mirakurun client
+     */
+    private createClient(mirakurunPath: string): mirakurun {
+        const client = new mirakurun();
         const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json')).toString());
-        const mirakurunPath = this.config.mirakurunPath;
 
         /**
          * Copyright (c) 2016 Yuki KAN and Chinachu Project Contributors
@@ -35,36 +64,69 @@ export default class MirakurunClientModel implements IMirakurunClientModel {
          * http://opensource.org/licenses/mit-license.php
          */
         if (/\\\\.\\pipe/.test(mirakurunPath)) {
-            this.client.socketPath = mirakurunPath;
+            client.socketPath = mirakurunPath;
         } else if (/(?:\/|\+)unix:/.test(mirakurunPath) === true) {
             const standardFormat = /^http\+unix:\/\/([^\/]+)(\/?.*)$/;
             const legacyFormat = /^http:\/\/unix:([^:]+):?(.*)$/;
 
             if (standardFormat.test(mirakurunPath) === true) {
-                this.client.socketPath = mirakurunPath.replace(standardFormat, '$1').replace(/%2F/g, '/');
-                this.client.basePath = path.posix.join(
-                    mirakurunPath.replace(standardFormat, '$2'),
-                    this.client.basePath,
-                );
+                client.socketPath = mirakurunPath.replace(standardFormat, '$1').replace(/%2F/g, '/');
+                client.basePath = path.posix.join(mirakurunPath.replace(standardFormat, '$2'), client.basePath);
             } else {
-                this.client.socketPath = mirakurunPath.replace(legacyFormat, '$1');
-                this.client.basePath = path.posix.join(mirakurunPath.replace(legacyFormat, '$2'), this.client.basePath);
+                client.socketPath = mirakurunPath.replace(legacyFormat, '$1');
+                client.basePath = path.posix.join(mirakurunPath.replace(legacyFormat, '$2'), client.basePath);
             }
         } else {
             const urlObject = url.parse(mirakurunPath);
-            this.client.host = <string>urlObject.hostname;
-            this.client.port = Number(<string>urlObject.port);
-            this.client.basePath = path.posix.join(<string>urlObject.pathname, <string>this.client.basePath);
+            client.host = <string>urlObject.hostname;
+            client.port = Number(<string>urlObject.port);
+            client.basePath = path.posix.join(<string>urlObject.pathname, <string>client.basePath);
         }
 
-        this.client.userAgent = `${pkg.name}/${pkg.version}`;
+        client.userAgent = `${pkg.name}/${pkg.version}`;
+
+        return client;
     }
 
     /**
-     * mirakurun client を返す
+     * プライマリサーバの mirakurun client を返す
      * @return mirakurun client
      */
     public getClient(): mirakurun {
-        return this.client;
+        return this.servers[0].client;
+    }
+
+    /**
+     * 全てのチューナーサーバを返す
+     * @return TunerServer[]
+     */
+    public getServers(): TunerServer[] {
+        return this.servers;
+    }
+
+    /**
+     * 全てのチューナーサーバのチューナー情報を返す
+     * 接続できなかったサーバのチューナーは含まれない
+     * @return Promise<ServerTunerDevice[]>
+     */
+    public async getTuners(): Promise<ServerTunerDevice[]> {
+        const result: ServerTunerDevice[] = [];
+        for (const server of this.servers) {
+            try {
+                const tuners = await server.client.getTuners();
+                for (const tuner of tuners) {
+                    result.push(Object.assign({ serverId: server.id }, tuner));
+                }
+                this.log.system.info(`get tuners: ${server.name}, ${tuners.length}`);
+            } catch (err: any) {
+                if (server.id === 0) {
+                    throw err;
+                }
+                this.log.system.error(`get tuners error: ${server.name}`);
+                this.log.system.error(err);
+            }
+        }
+
+        return result;
     }
 }
@@ -1,6 +1,8 @@
 import { Container } from 'inversify';
 
 import ApiUtil from './api/ApiUtil';
+import AuthApiModel from './api/auth/AuthApiModel';
+import IAuthApiModel from './api/auth/IAuthApiModel';
 import ChannelApiModel from './api/channel/ChannelApiModel';
 import IChannelApiModel from './api/channel/IChannelApiModel';
 import ConfigApiModel from './api/config/ConfigApiModel';
@@ -16,6 +18,10 @@ import IRecordedItemUtil from './api/IRecordedItemUtil';
 import IRecordedApiModel from './api/recorded/IRecordedApiModel';
 import RecordedApiModel from './api/recorded/RecordedApiModel';
 import RecordedItemUtil from './api/RecordedItemUtil';
+import IReceptionQualityApiModel from './api/receptionQuality/IReceptionQualityApiModel';
+import ReceptionQualityApiModel from './api/receptionQuality/ReceptionQualityApiModel';
+import IRecordedHistoryApiModel from './api/recordedHistory/IRecordedHistoryApiModel';
+import RecordedHistoryApiModel from './api/recordedHistory/RecordedHistoryApiModel';
 import IRecordedTagApiModel from './api/recordedTag/IRecordedTagApiModel';
 import RecordedTagApiModel from './api/recordedTag/RecordedTagApiModel';
 import IRecordingApiModel from './api/recording/IRecordingApiModel';
@@ -32,6 +38,10 @@ import IStreamApiModel from './api/stream/IStreamApiModel';
 import StreamApiModel from './api/stream/StreamApiModel';
 import IThumbnailApiModel from './api/thumbnail/IThumbnailApiModel';
 import ThumbnailApiModel from './api/thumbnail/ThumbnailApiModel';
+import IUserApiModel from './api/user/IUserApiModel';
+import UserApiModel from './api/user/UserApiModel';
+import IWebhookApiModel from './api/webhook/IWebhookApiModel';
+import WebhookApiModel from './api/webhook/WebhookApiModel';
 import IVideoApiModel from './api/video/IVideoApiModel';
 import IVideoUtil from './api/video/IVideoUtil';
 import VideoApiModel from './api/video/VideoApiModel';
@@ -41,24 +51,34 @@ import ConnectionCheckModel from './ConnectionCheckModel';
 import ChannelDB from './db/ChannelDB';
 import DBOperator from './db/DBOperator';
 import DropLogFileDB from './db/DropLogFileDB';
+import EncodeQueueItemDB from './db/EncodeQueueItemDB';
 import IChannelDB from './db/IChannelDB';
 import IDBOperator from './db/IDBOperator';
 import IDropLogFileDB from './db/IDropLogFileDB';
+import IEncodeQueueItemDB from './db/IEncodeQueueItemDB';
 import IProgramDB from './db/IProgramDB';
+import IReceptionQualityDB from './db/IReceptionQualityDB';
 import IRecordedDB from './db/IRecordedDB';
 import IRecordedHistoryDB from './db/IRecordedHistoryDB';
 import IRecordedTagDB from './db/IRecordedTagDB';
 import IReserveDB from './db/IReserveDB';
 import IRuleDB from './db/IRuleDB';
 import IThumbnailDB from './db/IThumbnailDB';
+import IUserDB from './db/IUserDB';
+import IUserTokenDB from './db/IUserTokenDB';
 import IVideoFileDB from './db/IVideoFileDB';
 import ProgramDB from './db/ProgramDB';
+import ReceptionQualityDB from './db/ReceptionQualityDB';
 import RecordedDB from './db/RecordedDB';
 import RecordedHistoryDB from './db/RecordedHistoryDB';
 import RecordedTagDB from './db/RecordedTagDB';
 import ReserveDB from './db/ReserveDB';
 import RuleDB from './db/RuleDB';
 import ThumbnailDB from './db/ThumbnailDB';
+import UserDB from './db/UserDB';
+import UserTokenDB from './db/UserTokenDB';
+import IWebhookDeliveryDB from './db/IWebhookDeliveryDB';
+import WebhookDeliveryDB from './db/WebhookDeliveryDB';
 import VideoFileDB from './db/VideoFileDB';
 import EPGUpdateExecutorManageModel from './epgUpdater/EPGUpdateExecutorManageModel';
 import EPGUpdateManageModel from './epgUpdater/EPGUpdateManageModel';
@@ -86,6 +106,8 @@ import RecordingEvent from './event/RecordingEvent';
 import ReserveEvent from './event/ReserveEvent';
 import RuleEvent from './event/RuleEvent';
 import ThumbnailEvent from './event/ThumbnailEvent';
+import FakeTunerServerModel from './fakeTunerServer/FakeTunerServerModel';
+import IFakeTunerServerModel from './fakeTunerServer/IFakeTunerServerModel';
 import ExecutionManagementModel from './ExecutionManagementModel';
 import IConfiguration from './IConfiguration';
 import IConnectionCheckModel from './IConnectionCheckModel';
@@ -100,6 +122,8 @@ import { IPromiseQueue } from './IPromiseQueue';
 import IPromiseRetry from './IPromiseRetry';
 import LoggerModel from './LoggerModel';
 import MirakurunClientModel from './MirakurunClientModel';
+import DropCheckManageModel from './operator/dropCheck/DropCheckManageModel';
+import IDropCheckManageModel from './operator/dropCheck/IDropCheckManageModel';
 import ExternalCommandManageModel from './operator/externalCommand/ExternalCommandManageModel';
 import IExternalCommandManageModel from './operator/externalCommand/IExternalCommandManageModel';
 import IReserveOptionChecker from './operator/IReserveOptionChecker';
@@ -108,8 +132,10 @@ import RecordedManageModel from './operator/recorded/RecordedManageModel';
 import IRecordedTagManadeModel from './operator/recordedTag/IRecordedTagManadeModel';
 import RecordedTagManadeModel from './operator/recordedTag/RecordedTagManadeModel';
 import DropCheckerModel from './operator/recording/DropCheckerModel';
-import IDropCheckerModel from './operator/recording/IDropCheckerModel';
+import IDropCheckerModel, { DropCheckerModelProvider } from './operator/recording/IDropCheckerModel';
 import IRecorderModel, { RecorderModelProvider } from './operator/recording/IRecorderModel';
+import IReceptionQualityManageModel from './operator/receptionQuality/IReceptionQualityManageModel';
+import ReceptionQualityManageModel from './operator/receptionQuality/ReceptionQualityManageModel';
 import IRecordingManageModel from './operator/recording/IRecordingManageModel';
 import IRecordingStreamCreator from './operator/recording/IRecordingStreamCreator';
 import IRecordingUtilModel from './operator/recording/IRecordingUtilModel';
@@ -124,24 +150,36 @@ import IRuleManageModel from './operator/rule/IRuleManageModel';
 import RuleManageModel from './operator/rule/RuleManageModel';
 import IStorageManageModel from './operator/storage/IStorageManageModel';
 import StorageManageModel from './operator/storage/StorageManageModel';
+import ITunerManageModel from './operator/tuner/ITunerManageModel';
+import TunerManageModel from './operator/tuner/TunerManageModel';
 import IThumbnailManageModel from './operator/thumbnail/IThumbnailManageModel';
 import ThumbnailManageModel from './operator/thumbnail/ThumbnailManageModel';
+import IUserManageModel from './operator/user/IUserManageModel';
+import UserManageModel from './operator/user/UserManageModel';
+import IWebhookManageModel from './operator/webhook/IWebhookManageModel';
+import WebhookManageModel from './operator/webhook/WebhookManageModel';
 import PromiseQueue from './PromiseQueue';
 import PromiseRetry from './PromiseRetry';
 import EncodeFileManageModel from './service/encode/EncodeFileManageModel';
 import EncodeFinishModel from './service/encode/EncodeFinishModel';
 import EncodeManageModel from './service/encode/EncodeManageModel';
 import EncodeProcessManageModel from './service/encode/EncodeProcessManageModel';
+import EncodeScheduleModel from './service/encode/EncodeScheduleModel';
 import EncoderModel from './service/encode/EncoderModel';
 import IEncodeFileManageModel from './service/encode/IEncodeFileManageModel';
 import IEncodeFinishModel from './service/encode/IEncodeFinishModel';
 import IEncodeManageModel from './service/encode/IEncodeManageModel';
 import IEncodeProcessManageModel from './service/encode/IEncodeProcessManageModel';
+import IEncodeScheduleModel from './service/encode/IEncodeScheduleModel';
 import { EncoderModelProvider, IEncoderModel } from './service/encode/IEncoderModel';
+import AuthenticationModel from './service/auth/AuthenticationModel';
+import IAuthenticationModel from './service/auth/IAuthenticationModel';
 import IServiceServer from './service/IServiceServer';
 import ServiceServer from './service/ServiceServer';
 import ISocketIOManageModel from './service/socketio/ISocketIOManageModel';
 import SocketIOManageModel from './service/socketio/SocketIOManageModel';
+import ISSEManageModel from './service/sse/ISSEManageModel';
+import SSEManageModel from './service/sse/SSEManageModel';
 import ILiveStreamBaseModel, {
     LiveHLSStreamModelProvider,
     LiveStreamModelProvider,
@@ -201,6 +239,16 @@ export const set = (container: Container): void => {
 
     container.bind<IDropLogFileDB>('IDropLogFileDB').to(DropLogFileDB).inSingletonScope();
 
+    container.bind<IUserDB>('IUserDB').to(UserDB).inSingletonScope();
+
+    container.bind<IUserTokenDB>('IUserTokenDB').to(UserTokenDB).inSingletonScope();
+
+    container.bind<IEncodeQueueItemDB>('IEncodeQueueItemDB').to(EncodeQueueItemDB).inSingletonScope();
+
+    container.bind<IWebhookDeliveryDB>('IWebhookDeliveryDB').to(WebhookDeliveryDB).inSingletonScope();
+
+    container.bind<IReceptionQualityDB>('IReceptionQualityDB').to(ReceptionQualityDB).inSingletonScope();
+
     container.bind<IRuleEvent>('IRuleEvent').to(RuleEvent).inSingletonScope();
 
     container.bind<IThumbnailEvent>('IThumbnailEvent').to(ThumbnailEvent).inSingletonScope();
@@ -226,6 +274,8 @@ export const set = (container: Container): void => {
 
     container.bind<IMirakurunClientModel>('IMirakurunClientModel').to(MirakurunClientModel).inSingletonScope();
 
+    container.bind<IFakeTunerServerModel>('IFakeTunerServerModel').to(FakeTunerServerModel).inSingletonScope();
+
     container.bind<IEPGUpdateManageModel>('IEPGUpdateManageModel').to(EPGUpdateManageModel).inSingletonScope();
 
     container.bind<IEPGUpdater>('IEPGUpdater').to(EPGUpdater).inSingletonScope();
@@ -240,6 +290,21 @@ export const set = (container: Container): void => {
 
     container.bind<IDropCheckerModel>('IDropCheckerModel').to(DropCheckerModel);
 
+    container.bind<DropCheckerModelProvider>('DropCheckerModelProvider').toProvider(context => {
+        return () => {
+            return new Promise<IDropCheckerModel>(
+                (resolve: (model: IDropCheckerModel) => void, reject: (err: Error) => void) => {
+                    try {
+                        const dropCheckerModel = context.container.get<IDropCheckerModel>('IDropCheckerModel');
+                        resolve(dropCheckerModel);
+                    } catch (err: any) {
+                        reject(err);
+                    }
+                },
+            );
+        };
+    });
+
     container.bind<IRecorderModel>('IRecorderModel').to(RecorderModel);
 
     container.bind<RecorderModelProvider>('RecorderModelProvider').toProvider(context => {
@@ -265,17 +330,34 @@ export const set = (container: Container): void => {
 
     container.bind<IThumbnailManageModel>('IThumbnailManageModel').to(ThumbnailManageModel).inSingletonScope();
 
+    container.bind<IDropCheckManageModel>('IDropCheckManageModel').to(DropCheckManageModel).inSingletonScope();
+
     container.bind<IStorageManageModel>('IStorageManageModel').to(StorageManageModel).inSingletonScope();
 
+    container.bind<ITunerManageModel>('ITunerManageModel').to(TunerManageModel).inSingletonScope();
+
+    container.bind<IUserManageModel>('IUserManageModel').to(UserManageModel).inSingletonScope();
+
     container.bind<IEventSetter>('IEventSetter').to(EventSetter).inSingletonScope();
 
     container.bind<ISocketIOManageModel>('ISocketIOManageModel').to(SocketIOManageModel).inSingletonScope();
 
+    container.bind<ISSEManageModel>('ISSEManageModel').to(SSEManageModel).inSingletonScope();
+
     container
         .bind<IExternalCommandManageModel>('IExternalCommandManageModel')
         .to(ExternalCommandManageModel)
         .inSingletonScope();
 
+    container.bind<IWebhookManageModel>('IWebhookManageModel').to(WebhookManageModel).inSingletonScope();
+
+    container
+        .bind<IReceptionQualityManageModel>('IReceptionQualityManageModel')
+        .to(ReceptionQualityManageModel)
+        .inSingletonScope();
+
+    container.bind<IAuthenticationModel>('IAuthenticationModel').to(AuthenticationModel).inSingletonScope();
+
     container.bind<IServiceServer>('IServiceServer').to(ServiceServer).inSingletonScope();
 
     container.bind<IApiUtil>('IApiUtil').to(ApiUtil).inSingletonScope();
@@ -336,6 +418,8 @@ export const set = (container: Container): void => {
         };
     });
 
+    container.bind<IEncodeScheduleModel>('IEncodeScheduleModel').to(EncodeScheduleModel).inSingletonScope();
+
     container.bind<IEncodeManageModel>('IEncodeManageModel').to(EncodeManageModel).inSingletonScope();
 
     container.bind<IEncodeFinishModel>('IEncodeFinishModel').to(EncodeFinishModel).inSingletonScope();
@@ -406,4 +490,17 @@ export const set = (container: Container): void => {
     container.bind<IStreamApiModel>('IStreamApiModel').to(StreamApiModel).inSingletonScope();
 
     container.bind<IStorageApiModel>('IStorageApiModel').to(StorageApiModel).inSingletonScope();
+
+    container.bind<IAuthApiModel>('IAuthApiModel').to(AuthApiModel).inSingletonScope();
+
+    container.bind<IUserApiModel>('IUserApiModel').to(UserApiModel).inSingletonScope();
+
+    container.bind<IWebhookApiModel>('IWebhookApiModel').to(WebhookApiModel).inSingletonScope();
+
+    container.bind<IRecordedHistoryApiModel>('IRecordedHistoryApiModel').to(RecordedHistoryApiModel).inSingletonScope();
+
+    container
+        .bind<IReceptionQualityApiModel>('IReceptionQualityApiModel')
+        .to(ReceptionQualityApiModel)
+        .inSingletonScope();
 };
@@ -21,7 +21,10 @@ export default class ApiUtil implements IApiUtil {
      * @return string
      */
     public createM3U8PlayListStr(option: CreateM3U8Option): string {
-        const fullUrl = urljoin(`${option.isSecure ? 'https' : 'http'}://${this.getHost(option.host)}`, option.baseUrl);
+        let fullUrl = urljoin(`${option.isSecure ? 'https' : 'http'}://${this.getHost(option.host)}`, option.baseUrl);
+        if (typeof option.token !== 'undefined') {
+            fullUrl += `${fullUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(option.token)}`;
+        }
 
         return '#EXTM3U\n' + `#EXTINF: ${option.duration}, ${option.name}\n` + fullUrl;
     }
@@ -6,6 +6,7 @@ export interface CreateM3U8Option {
     name: string;
     duration: number;
     baseUrl: string; // http://host 以下の url
+    token?: string; // ストリーミング用トークン. 指定した場合は url の query に付加する
 }
 
 export default interface IApiUtil {
@@ -2,6 +2,7 @@ import * as path from 'path';
 import { injectable } from 'inversify';
 import * as apid from '../../../api';
 import Recorded from '../../db/entities/Recorded';
+import SeriesUtil from '../../util/SeriesUtil';
 import { EncodeRecordedIdIndex } from '../service/encode/IEncodeManageModel';
 import IRecordedItemUtil from './IRecordedItemUtil';
 
@@ -114,6 +115,23 @@ export default class RecordedItemUtil implements IRecordedItemUtil {
             item.audioComponentType = recorded.audioComponentType;
         }
 
+        if (typeof recorded.gaps === 'string') {
+            item.gaps = JSON.parse(recorded.gaps);
+        }
+
+        if (typeof recorded.supersededBy === 'number') {
+            item.supersededBy = recorded.supersededBy;
+        }
+
+        if (typeof recorded.rerecordedBy === 'number') {
+            item.rerecordedBy = recorded.rerecordedBy;
+        }
+
+        const series = SeriesUtil.toProgramSeries(recorded, isHalfWidth);
+        if (series !== null) {
+            item.series = series;
+        }
+
         if (typeof recorded.thumbnails !== 'undefined') {
             item.thumbnails = recorded.thumbnails.map(t => {
                 return t.id;
@@ -0,0 +1,169 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import AuthUtil from '../../../util/AuthUtil';
+import IUserTokenDB from '../../db/IUserTokenDB';
+import IIPCClient from '../../ipc/IIPCClient';
+import IAuthenticationModel, { AuthInfo } from '../../service/auth/IAuthenticationModel';
+import IAuthApiModel from './IAuthApiModel';
+
+@injectable()
+export default class AuthApiModel implements IAuthApiModel {
+    private ipc: IIPCClient;
+    private authenticationModel: IAuthenticationModel;
+    private userTokenDB: IUserTokenDB;
+    private streamTokenIndex: { [userId: number]: { token: string; reuseUntil: apid.UnixtimeMS } } = {}; // プレイリスト埋め込み用に発行したトークン
+
+    constructor(
+        @inject('IIPCClient') ipc: IIPCClient,
+        @inject('IAuthenticationModel') authenticationModel: IAuthenticationModel,
+        @inject('IUserTokenDB') userTokenDB: IUserTokenDB,
+    ) {
+        this.ipc = ipc;
+        this.authenticationModel = authenticationModel;
+        this.userTokenDB = userTokenDB;
+    }
+
+    /**
+     * ログイン
+     * @param option: apid.LoginOption
+     * @return Promise<apid.LoginResult>
+     */
+    public async login(option: apid.LoginOption): Promise<apid.LoginResult> {
+        return await this.ipc.user.login(option);
+    }
+
+    /**
+     * ログアウト
+     * リクエストに使用したトークンを無効にする
+     * @param authInfo: AuthInfo
+     * @return Promise<void>
+     */
+    public async logout(authInfo: AuthInfo): Promise<void> {
+        await this.ipc.user.logout(authInfo.tokenId);
+    }
+
+    /**
+     * ログイン中のユーザー情報を返す
+     * @param authInfo?: AuthInfo 認証が無効な場合は undefined
+     * @return apid.CurrentUserInfo
+     */
+    public getCurrentUser(authInfo?: AuthInfo): apid.CurrentUserInfo {
+        // 認証が無効な場合は全ての操作が可能
+        const result: apid.CurrentUserInfo = {
+            isEnabledAuthentication: this.authenticationModel.isEnabled(),
+            permissions: AuthUtil.ROLES.slice(),
+        };
+
+        if (typeof authInfo !== 'undefined') {
+            result.user = {
+                id: authInfo.userId,
+                name: authInfo.userName,
+                role: authInfo.role,
+            };
+            result.permissions = AuthUtil.getPermissions(authInfo.role);
+        }
+
+        return result;
+    }
+
+    /**
+     * ログイン中のユーザーのパスワードを変更する
+     * @param userId: apid.UserId
+     * @param option: apid.ChangePasswordOption
+     * @return Promise<void>
+     */
+    public async changePassword(userId: apid.UserId, option: apid.ChangePasswordOption): Promise<void> {
+        await this.ipc.user.changePassword(userId, option);
+    }
+
+    /**
+     * 指定したユーザーの API トークン一覧を返す
+     * @param userId: apid.UserId
+     * @return Promise<apid.ApiTokens>
+     */
+    public async getApiTokens(userId: apid.UserId): Promise<apid.ApiTokens> {
+        const tokens = await this.userTokenDB.findUserApiTokens(userId);
+
+        return {
+            tokens: tokens.map(t => {
+                const item: apid.ApiTokenItem = {
+                    id: t.id,
+                    name: t.name === null ? '' : t.name,
+                    createdAt: t.createdAt,
+                };
+                if (t.expiresAt !== null) {
+                    item.expiresAt = t.expiresAt;
+                }
+
+                return item;
+            }),
+        };
+    }
+
+    /**
+     * API トークン発行
+     * @param userId: apid.UserId
+     * @param option: apid.AddApiTokenOption
+     * @return Promise<apid.AddedApiToken>
+     */
+    public async addApiToken(userId: apid.UserId, option: apid.AddApiTokenOption): Promise<apid.AddedApiToken> {
+        return await this.ipc.user.addApiToken(userId, option);
+    }
+
+    /**
+     * API トークン削除
+     * @param userId: apid.UserId
+     * @param tokenId: apid.UserTokenId
+     * @return Promise<void>
+     */
+    public async deleteApiToken(userId: apid.UserId, tokenId: apid.UserTokenId): Promise<void> {
+        await this.ipc.user.deleteApiToken(userId, tokenId);
+    }
+
+    /**
+     * ストリーミング用トークン発行
+     * @param userId: apid.UserId
+     * @param option: apid.AddStreamTokenOption
+     * @return Promise<apid.StreamToken>
+     */
+    public async addStreamToken(userId: apid.UserId, option: apid.AddStreamTokenOption): Promise<apid.StreamToken> {
+        return await this.ipc.user.addStreamToken(userId, option);
+    }
+
+    /**
+     * プレイリスト等に埋め込むストリーミング用トークンを返す
+     * リクエスト自体がストリーミング用トークンで認証されている場合はそれを再利用する
+     * それ以外の場合はユーザーごとに発行済みのトークンを有効期間の半分が過ぎるまで再利用し, リクエストごとにトークンが増えないようにする
+     * 埋め込まれるトークンは streamTokenExpirationHours で失効するため, 長期間使用するプレイリストは
+     * expiresAt を指定して発行したストリーミング用トークンを query に付加して取得する必要がある
+     * @param authInfo?: AuthInfo 認証が無効な場合は undefined
+     * @return Promise<string | undefined> 認証が無効な場合は undefined を返す
+     */
+    public async getStreamToken(authInfo?: AuthInfo): Promise<string | undefined> {
+        if (typeof authInfo === 'undefined') {
+            return undefined;
+        }
+
+        if (authInfo.tokenType === 'stream') {
+            return authInfo.token;
+        }
+
+        const now = new Date().getTime();
+        const cached = this.streamTokenIndex[authInfo.userId];
+        if (
+            typeof cached !== 'undefined' &&
+            now < cached.reuseUntil &&
+            (await this.authenticationModel.authenticate(cached.token)) !== null
+        ) {
+            return cached.token;
+        }
+
+        const streamToken = await this.addStreamToken(authInfo.userId, {});
+        this.streamTokenIndex[authInfo.userId] = {
+            token: streamToken.token,
+            reuseUntil: now + (streamToken.expiresAt - now) / 2,
+        };
+
+        return streamToken.token;
+    }
+}
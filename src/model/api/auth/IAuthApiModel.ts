@@ -0,0 +1,14 @@
+import * as apid from '../../../../api';
+import { AuthInfo } from '../../service/auth/IAuthenticationModel';
+
+export default interface IAuthApiModel {
+    login(option: apid.LoginOption): Promise<apid.LoginResult>;
+    logout(authInfo: AuthInfo): Promise<void>;
+    getCurrentUser(authInfo?: AuthInfo): apid.CurrentUserInfo;
+    changePassword(userId: apid.UserId, option: apid.ChangePasswordOption): Promise<void>;
+    getApiTokens(userId: apid.UserId): Promise<apid.ApiTokens>;
+    addApiToken(userId: apid.UserId, option: apid.AddApiTokenOption): Promise<apid.AddedApiToken>;
+    deleteApiToken(userId: apid.UserId, tokenId: apid.UserTokenId): Promise<void>;
+    addStreamToken(userId: apid.UserId, option: apid.AddStreamTokenOption): Promise<apid.StreamToken>;
+    getStreamToken(authInfo?: AuthInfo): Promise<string | undefined>;
+}
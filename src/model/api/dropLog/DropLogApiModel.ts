@@ -1,6 +1,7 @@
 import { inject, injectable } from 'inversify';
 import * as path from 'path';
 import * as apid from '../../../../api';
+import DropLogUtil from '../../../util/DropLogUtil';
 import FileUtil from '../../../util/FileUtil';
 import IDropLogFileDB from '../../db/IDropLogFileDB';
 import IConfigFile from '../../IConfigFile';
@@ -41,4 +42,26 @@ export default class DropLogApiModel implements IDropLogApiModel {
 
         return filePath;
     }
+
+    /**
+     * 指定した id のドロップログ詳細を返す
+     * @param dropLogFileId: apid.DropLogFileId
+     * @return Promise<apid.DropLogDetail | null> ドロップログ詳細ファイルが存在しない場合は null を返す
+     */
+    public async getIdDetail(dropLogFileId: apid.DropLogFileId): Promise<apid.DropLogDetail | null> {
+        const dropLogFile = await this.dropLogFileDB.findId(dropLogFileId);
+        if (dropLogFile === null) {
+            return null;
+        }
+
+        const filePath = DropLogUtil.getDetailFilePath(path.join(this.config.dropLog, dropLogFile.filePath));
+        try {
+            await FileUtil.stat(filePath);
+        } catch (err: any) {
+            // 録画中もしくはドロップログ詳細に対応する前のドロップログ
+            return null;
+        }
+
+        return JSON.parse(await FileUtil.readFile(filePath));
+    }
 }
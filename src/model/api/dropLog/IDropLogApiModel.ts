@@ -5,4 +5,5 @@ export namespace DropLogApiErrors {
 }
 export default interface IDropLogApiModel {
     getIdFilePath(dropLogFileId: apid.DropLogFileId, maxSize: number): Promise<string | null>;
+    getIdDetail(dropLogFileId: apid.DropLogFileId): Promise<apid.DropLogDetail | null>;
 }
@@ -33,11 +33,12 @@ export default class EncodeApiModel implements IEncodeApiModel {
      * @return Promise<apid.EncodeInfo>
      */
     public async getAll(isHalfWidth: boolean): Promise<apid.EncodeInfo> {
-        const info = this.encodeManage.getEncodeInfo();
+        const info = await this.encodeManage.getEncodeInfo();
         if (info.runningQueue.length === 0 && info.waitQueue.length === 0) {
             return {
                 runningItems: [],
                 waitItems: [],
+                isPaused: info.isPaused,
             };
         }
 
@@ -63,6 +64,7 @@ export default class EncodeApiModel implements IEncodeApiModel {
         const result: apid.EncodeInfo = {
             runningItems: [],
             waitItems: [],
+            isPaused: info.isPaused,
         };
 
         // エンコード中
@@ -76,6 +78,9 @@ export default class EncodeApiModel implements IEncodeApiModel {
                 id: i.id,
                 mode: i.mode,
                 recorded: this.recordedItemUtil.convertRecordedToRecordedItem(recordedItem, isHalfWidth, {}),
+                priority: i.priority,
+                isPaused: i.isPaused,
+                isScheduled: i.isScheduled,
             };
             if (typeof i.percent !== 'undefined' && typeof i.log !== 'undefined') {
                 info.percent = i.percent;
@@ -91,11 +96,18 @@ export default class EncodeApiModel implements IEncodeApiModel {
                 continue;
             }
 
-            result.waitItems.push({
+            const info: apid.EncodeProgramItem = {
                 id: i.id,
                 mode: i.mode,
                 recorded: this.recordedItemUtil.convertRecordedToRecordedItem(recordedItem, isHalfWidth, {}),
-            });
+                priority: i.priority,
+                isPaused: i.isPaused,
+                isScheduled: i.isScheduled,
+            };
+            if (typeof i.scheduledStartAt !== 'undefined') {
+                info.scheduledStartAt = i.scheduledStartAt;
+            }
+            result.waitItems.push(info);
         }
 
         return result;
@@ -120,6 +132,7 @@ export default class EncodeApiModel implements IEncodeApiModel {
                 directory: addOption.directory,
                 mode: addOption.mode,
                 removeOriginal: addOption.removeOriginal,
+                priority: addOption.priority,
             };
         } else {
             const video = await this.videoFileDB.findId(addOption.sourceVideoFileId);
@@ -138,6 +151,7 @@ export default class EncodeApiModel implements IEncodeApiModel {
                 parentDir: video.parentDirectoryName,
                 mode: addOption.mode,
                 removeOriginal: addOption.removeOriginal,
+                priority: addOption.priority,
             };
 
             if (directory !== null) {
@@ -156,4 +170,48 @@ export default class EncodeApiModel implements IEncodeApiModel {
     public async cancel(encodeId: apid.EncodeId): Promise<void> {
         await this.encodeManage.cancel(encodeId);
     }
+
+    /**
+     * 指定した id のエンコードをエンコード待ち queue 内の指定した位置へ移動する
+     * @param encodeId: apid.EncodeId
+     * @param option: apid.EncodeQueuePositionOption
+     * @return Promise<void>
+     */
+    public async move(encodeId: apid.EncodeId, option: apid.EncodeQueuePositionOption): Promise<void> {
+        await this.encodeManage.move(encodeId, option.position);
+    }
+
+    /**
+     * 指定した id のエンコードを一時停止する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async pause(encodeId: apid.EncodeId): Promise<void> {
+        await this.encodeManage.pause(encodeId);
+    }
+
+    /**
+     * 指定した id のエンコードを再開する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async resume(encodeId: apid.EncodeId): Promise<void> {
+        await this.encodeManage.resume(encodeId);
+    }
+
+    /**
+     * エンコード queue を一時停止する
+     * @return Promise<void>
+     */
+    public async pauseQueue(): Promise<void> {
+        await this.encodeManage.pauseQueue();
+    }
+
+    /**
+     * エンコード queue を再開する
+     * @return Promise<void>
+     */
+    public async resumeQueue(): Promise<void> {
+        await this.encodeManage.resumeQueue();
+    }
 }
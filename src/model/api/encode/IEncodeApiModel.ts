@@ -4,4 +4,9 @@ export default interface IEncodeApiModel {
     getAll(isHalfWidth: boolean): Promise<apid.EncodeInfo>;
     add(addOption: apid.AddManualEncodeProgramOption): Promise<apid.EncodeId>;
     cancel(encodeId: apid.EncodeId): Promise<void>;
+    move(encodeId: apid.EncodeId, option: apid.EncodeQueuePositionOption): Promise<void>;
+    pause(encodeId: apid.EncodeId): Promise<void>;
+    resume(encodeId: apid.EncodeId): Promise<void>;
+    pauseQueue(): Promise<void>;
+    resumeQueue(): Promise<void>;
 }
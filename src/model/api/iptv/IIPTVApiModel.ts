@@ -5,6 +5,7 @@ export default interface IIPTVApiModel {
         mode: number,
         isHalfWidth: boolean,
         subDirectory?: string,
+        token?: string,
     ): Promise<string>;
     getEpg(days: number, isHalfWidth: boolean): Promise<string>;
 }
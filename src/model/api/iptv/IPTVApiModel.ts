@@ -25,6 +25,8 @@ class IPTVApiModel implements IIPTVApiModel {
      * @param isSecure: https か
      * @param mode: transcode mode
      * @param isHalfWidth: 半角で取得するか
+     * @param subDirectory: サブディレクトリ
+     * @param token: ストリーミング用トークン. 指定した場合は各 url に付加する
      * @return Promise<string>
      */
     public async getChannelList(
@@ -33,8 +35,10 @@ class IPTVApiModel implements IIPTVApiModel {
         mode: number,
         isHalfWidth: boolean,
         subDirectory?: string,
+        token?: string,
     ): Promise<string> {
         const channels = await this.channelDB.findAll(true);
+        const tokenQuery = typeof token === 'undefined' ? '' : `token=${encodeURIComponent(token)}`;
 
         const channelIndex: { [key: string]: number } = {};
 
@@ -57,11 +61,15 @@ class IPTVApiModel implements IIPTVApiModel {
             let logo = '';
             const base = subDirectory === undefined ? host : `${host}${subDirectory}`;
             if (channel.hasLogoData) {
-                logo = `tvg-logo="${isSecure ? 'https' : 'http'}://${base}/api/channels/${channel.id}/logo"`;
+                logo = `tvg-logo="${isSecure ? 'https' : 'http'}://${base}/api/channels/${channel.id}/logo${
+                    tokenQuery.length === 0 ? '' : `?${tokenQuery}`
+                }"`;
             }
             str += `#KODIPROP:mimetype=video/mp2t\n`;
             str += `#EXTINF:-1 tvg-id="${channel.id}" ${logo} group-title="${channel.channelType}",${channelName}　\n`;
-            str += `${isSecure ? 'https' : 'http'}://${base}/api/streams/live/${channel.id}/m2ts?mode=${mode}\n`;
+            str += `${isSecure ? 'https' : 'http'}://${base}/api/streams/live/${channel.id}/m2ts?mode=${mode}${
+                tokenQuery.length === 0 ? '' : `&${tokenQuery}`
+            }\n`;
         }
 
         return str;
@@ -0,0 +1,5 @@
+import * as apid from '../../../../api';
+
+export default interface IReceptionQualityApiModel {
+    getDaily(option: apid.GetReceptionQualityOption): Promise<apid.ReceptionQualityItems>;
+}
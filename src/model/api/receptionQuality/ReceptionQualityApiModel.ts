@@ -0,0 +1,93 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import ReceptionQuality from '../../../db/entities/ReceptionQuality';
+import IReceptionQualityDB from '../../db/IReceptionQualityDB';
+import IReceptionQualityApiModel from './IReceptionQualityApiModel';
+
+@injectable()
+export default class ReceptionQualityApiModel implements IReceptionQualityApiModel {
+    private receptionQualityDB: IReceptionQualityDB;
+
+    constructor(@inject('IReceptionQualityDB') receptionQualityDB: IReceptionQualityDB) {
+        this.receptionQualityDB = receptionQualityDB;
+    }
+
+    /**
+     * 直近 option.days 日分の受信品質を日毎に集計して返す
+     * @param option: apid.GetReceptionQualityOption
+     * @return Promise<apid.ReceptionQualityItems>
+     */
+    public async getDaily(option: apid.GetReceptionQualityOption): Promise<apid.ReceptionQualityItems> {
+        const groupBy = typeof option.groupBy === 'undefined' ? 'channel' : option.groupBy;
+        const now = new Date();
+        const endAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+        const startAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() - option.days + 1).getTime();
+
+        const qualities = await this.receptionQualityDB.findTimeRange(startAt, endAt);
+
+        const index: { [key: string]: apid.ReceptionQualityItem } = {};
+        const items: apid.ReceptionQualityItem[] = [];
+        for (const quality of qualities) {
+            const date = this.getDate(quality.startAt);
+            const key = `${date}-${this.getGroupKey(quality, groupBy)}`;
+            let item = index[key];
+            if (typeof item === 'undefined') {
+                item = {
+                    date: date,
+                    recordingCnt: 0,
+                    packetCnt: 0,
+                    errorCnt: 0,
+                    dropCnt: 0,
+                    scramblingCnt: 0,
+                    dropRate: 0,
+                };
+                if (groupBy === 'channel') {
+                    item.channelId = quality.channelId;
+                } else if (quality.tunerName !== null) {
+                    item.tunerName = quality.tunerName;
+                }
+                index[key] = item;
+                items.push(item);
+            }
+
+            item.recordingCnt++;
+            item.packetCnt += quality.packetCnt;
+            item.errorCnt += quality.errorCnt;
+            item.dropCnt += quality.dropCnt;
+            item.scramblingCnt += quality.scramblingCnt;
+        }
+
+        for (const item of items) {
+            item.dropRate = item.packetCnt > 0 ? item.dropCnt / item.packetCnt : 0;
+        }
+
+        return {
+            items: items,
+        };
+    }
+
+    /**
+     * 指定した時刻の日付の 0 時を返す
+     * @param time: apid.UnixtimeMS
+     * @return apid.UnixtimeMS
+     */
+    private getDate(time: apid.UnixtimeMS): apid.UnixtimeMS {
+        const date = new Date(time);
+
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    }
+
+    /**
+     * 集計単位のキーを返す
+     * @param quality: ReceptionQuality
+     * @param groupBy: apid.ReceptionQualityGroupBy
+     * @return string
+     */
+    private getGroupKey(quality: ReceptionQuality, groupBy: apid.ReceptionQualityGroupBy): string {
+        if (groupBy === 'channel') {
+            return quality.channelId.toString(10);
+        }
+
+        return quality.tunerName === null ? '' : quality.tunerName;
+    }
+}
@@ -83,12 +83,13 @@ export default class RecordedApiModel implements IRecordedApiModel {
     /**
      *
      * @param recordedId: ReserveId
+     * @param isForgetHistory: boolean 録画履歴も削除するか
      * @return Promise<void>
      */
-    public async delete(recordedId: apid.RecordedId): Promise<void> {
+    public async delete(recordedId: apid.RecordedId, isForgetHistory: boolean = false): Promise<void> {
         await this.encodeManage.cancelEncodeByRecordedId(recordedId);
 
-        return this.ipc.recorded.delete(recordedId);
+        return this.ipc.recorded.delete(recordedId, isForgetHistory);
     }
 
     /**
@@ -135,4 +136,27 @@ export default class RecordedApiModel implements IRecordedApiModel {
     public async createNewRecorded(option: apid.CreateNewRecordedOption): Promise<apid.RecordedId> {
         return await this.ipc.recorded.createNewRecorded(option);
     }
+
+    /**
+     * 録画番組情報を編集
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.EditRecordedOption
+     * @return Promise<void>
+     */
+    public async edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void> {
+        await this.ipc.recorded.edit(recordedId, option);
+    }
+
+    /**
+     * 番組表から録画番組情報を再取得
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.UpdateRecordedProgramOption
+     * @return Promise<void>
+     */
+    public async updateProgramInfo(
+        recordedId: apid.RecordedId,
+        option: apid.UpdateRecordedProgramOption,
+    ): Promise<void> {
+        await this.ipc.recorded.updateProgramInfo(recordedId, option);
+    }
 }
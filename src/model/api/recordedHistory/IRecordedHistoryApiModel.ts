@@ -0,0 +1,7 @@
+import * as apid from '../../../../api';
+
+export default interface IRecordedHistoryApiModel {
+    gets(option: apid.GetRecordedHistoryOption): Promise<apid.RecordedHistories>;
+    getReserveOverlap(reserveId: apid.ReserveId): Promise<apid.ReserveOverlap | null>;
+    delete(historyId: apid.RecordedHistoryId): Promise<void>;
+}
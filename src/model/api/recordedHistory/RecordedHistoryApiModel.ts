@@ -0,0 +1,112 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import RecordedHistory from '../../../db/entities/RecordedHistory';
+import IRecordedHistoryDB from '../../db/IRecordedHistoryDB';
+import IReserveDB from '../../db/IReserveDB';
+import IRuleDB from '../../db/IRuleDB';
+import IIPCClient from '../../ipc/IIPCClient';
+import IRecordedHistoryApiModel from './IRecordedHistoryApiModel';
+
+@injectable()
+export default class RecordedHistoryApiModel implements IRecordedHistoryApiModel {
+    private ipc: IIPCClient;
+    private recordedHistoryDB: IRecordedHistoryDB;
+    private reserveDB: IReserveDB;
+    private ruleDB: IRuleDB;
+
+    constructor(
+        @inject('IIPCClient') ipc: IIPCClient,
+        @inject('IRecordedHistoryDB') recordedHistoryDB: IRecordedHistoryDB,
+        @inject('IReserveDB') reserveDB: IReserveDB,
+        @inject('IRuleDB') ruleDB: IRuleDB,
+    ) {
+        this.ipc = ipc;
+        this.recordedHistoryDB = recordedHistoryDB;
+        this.reserveDB = reserveDB;
+        this.ruleDB = ruleDB;
+    }
+
+    /**
+     * 録画履歴を返す
+     * @param option: apid.GetRecordedHistoryOption
+     * @return Promise<apid.RecordedHistories>
+     */
+    public async gets(option: apid.GetRecordedHistoryOption): Promise<apid.RecordedHistories> {
+        const [histories, total] = await this.recordedHistoryDB.findAll(option);
+
+        return {
+            histories: histories.map(h => {
+                return this.toHistoryItem(h);
+            }),
+            total: total,
+        };
+    }
+
+    /**
+     * 予約が重複と判定された理由となる録画履歴を返す
+     * @param reserveId: apid.ReserveId
+     * @return Promise<apid.ReserveOverlap | null> 予約が存在しない場合は null を返す
+     */
+    public async getReserveOverlap(reserveId: apid.ReserveId): Promise<apid.ReserveOverlap | null> {
+        const reserve = await this.reserveDB.findId(reserveId);
+        if (reserve === null) {
+            return null;
+        }
+
+        const result: apid.ReserveOverlap = {
+            isOverlap: reserve.isOverlap,
+            histories: [],
+        };
+
+        // 重複判定はルール予約のみ
+        if (reserve.ruleId === null || reserve.shortName === null) {
+            return result;
+        }
+
+        const rule = await this.ruleDB.findId(reserve.ruleId);
+        if (rule === null || rule.reserveOption.avoidDuplicate !== true) {
+            return result;
+        }
+
+        const histories = await this.recordedHistoryDB.findOverlap({
+            name: reserve.shortName,
+            channelId: reserve.channelId,
+            endAt: reserve.endAt,
+            periodToAvoidDuplicate: rule.reserveOption.periodToAvoidDuplicate,
+        });
+        result.histories = histories.map(h => {
+            return this.toHistoryItem(h);
+        });
+
+        return result;
+    }
+
+    /**
+     * 録画履歴を削除する
+     * @param historyId: apid.RecordedHistoryId
+     * @return Promise<void>
+     */
+    public async delete(historyId: apid.RecordedHistoryId): Promise<void> {
+        await this.ipc.recorded.deleteHistory(historyId);
+    }
+
+    /**
+     * RecordedHistory を apid.RecordedHistoryItem に変換する
+     * @param history: RecordedHistory
+     * @return apid.RecordedHistoryItem
+     */
+    private toHistoryItem(history: RecordedHistory): apid.RecordedHistoryItem {
+        const item: apid.RecordedHistoryItem = {
+            id: history.id,
+            name: history.name,
+            channelId: history.channelId,
+            endAt: history.endAt,
+        };
+
+        if (history.recordedId !== null) {
+            item.recordedId = history.recordedId;
+        }
+
+        return item;
+    }
+}
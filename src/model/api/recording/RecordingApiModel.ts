@@ -31,7 +31,7 @@ export default class RecordingApiModel implements IRecordingApiModel {
         const [records, total] = await this.recordedDB.findAll(option, {
             isNeedVideoFiles: true,
             isNeedThumbnails: true,
-            isNeedsDropLog: false,
+            isNeedsDropLog: true, // 録画中の drop check の途中経過
             isNeedTags: false,
         });
 
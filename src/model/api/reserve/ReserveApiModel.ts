@@ -1,6 +1,7 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../../api';
 import Reserve from '../../../db/entities/Reserve';
+import SeriesUtil from '../../../util/SeriesUtil';
 import IReserveDB from '../../db/IReserveDB';
 import IIPCClient from '../../ipc/IIPCClient';
 import IReserveApiModel from './IReserveApiModel';
@@ -42,8 +43,14 @@ export default class ReserveApiModel implements IReserveApiModel {
      */
     public async get(reserveId: apid.ReserveId, isHalfWidth: boolean): Promise<apid.ReserveItem | null> {
         const reserve = await this.reserveDB.findId(reserveId);
+        if (reserve === null) {
+            return null;
+        }
+
+        const item = this.toReserveItem(reserve, isHalfWidth);
+        await this.setDisplacingReserves([item], isHalfWidth);
 
-        return reserve === null ? null : this.toReserveItem(reserve, isHalfWidth);
+        return item;
     }
 
     /**
@@ -54,14 +61,43 @@ export default class ReserveApiModel implements IReserveApiModel {
     public async gets(option: apid.GetReserveOption): Promise<apid.Reserves> {
         const [reserves, total] = await this.reserveDB.findAll(option);
 
+        const items = reserves.map(reserve => {
+            return this.toReserveItem(reserve, option.isHalfWidth);
+        });
+        await this.setDisplacingReserves(items, option.isHalfWidth);
+
         return {
-            reserves: reserves.map(r => {
-                return this.toReserveItem(r, option.isHalfWidth);
-            }),
+            reserves: items,
             total,
         };
     }
 
+    /**
+     * 競合している予約に競合の原因となった予約をセットする
+     * @param items: apid.ReserveItem[]
+     * @param isHalfWidth: boolean 半角文字で返すか
+     * @return Promise<void>
+     */
+    private async setDisplacingReserves(items: apid.ReserveItem[], isHalfWidth: boolean): Promise<void> {
+        const conflictIds = items
+            .filter(item => {
+                return item.isConflict === true;
+            })
+            .map(item => {
+                return item.id;
+            });
+        if (conflictIds.length === 0) {
+            return;
+        }
+
+        const displacingIndex = await this.ipc.reserveation.getDisplacingReserves(conflictIds, isHalfWidth);
+        for (const item of items) {
+            if (typeof displacingIndex[item.id] !== 'undefined') {
+                item.displacedBy = displacingIndex[item.id];
+            }
+        }
+    }
+
     /**
      * Reserve を ReserveItem へ変換する
      * @param reserves: Reserve
@@ -76,6 +112,11 @@ export default class ReserveApiModel implements IReserveApiModel {
             isOverlap: reserve.isOverlap,
             allowEndLack: reserve.allowEndLack,
             isTimeSpecified: reserve.isTimeSpecified,
+            priority: reserve.priority,
+            startPadding: reserve.startPadding,
+            endPadding: reserve.endPadding,
+            appliedStartPadding: reserve.appliedStartPadding,
+            appliedEndPadding: reserve.appliedEndPadding,
             isDeleteOriginalAfterEncode: reserve.isDeleteOriginalAfterEncode,
             channelId: reserve.channelId,
             startAt: reserve.startAt,
@@ -86,6 +127,12 @@ export default class ReserveApiModel implements IReserveApiModel {
         if (reserve.ruleId !== null) {
             item.ruleId = reserve.ruleId;
         }
+        if (reserve.substituteReserveId !== null) {
+            item.substituteReserveId = reserve.substituteReserveId;
+        }
+        if (reserve.rerecordRecordedId !== null) {
+            item.rerecordRecordedId = reserve.rerecordRecordedId;
+        }
         if (reserve.tags !== null) {
             item.tags = JSON.parse(reserve.tags);
         }
@@ -188,6 +235,10 @@ export default class ReserveApiModel implements IReserveApiModel {
         if (reserve.audioSamplingRate !== null) {
             item.audioSamplingRate = <any>reserve.audioSamplingRate;
         }
+        const series = SeriesUtil.toProgramSeries(reserve, isHalfWidth);
+        if (series !== null) {
+            item.series = series;
+        }
 
         return item;
     }
@@ -5,6 +5,9 @@ export default interface IRuleApiModel {
     get(ruleId: apid.RuleId): Promise<apid.Rule | null>;
     gets(option: apid.GetRuleOption): Promise<apid.Rules>;
     searchKeyword(option: apid.GetRuleOption): Promise<apid.RuleKeywordItem[]>;
+    validateKeywordQuery(option: apid.ValidateRuleKeywordQueryOption): apid.RuleKeywordQueryValidationResult;
+    dryRun(option: apid.DryRunRuleOption): Promise<apid.RuleDryRunResult>;
+    explain(option: apid.RuleMatchOption): Promise<apid.RuleMatchExplanation>;
     update(rule: apid.Rule): Promise<void>;
     enable(ruleId: apid.RuleId): Promise<void>;
     disable(ruleId: apid.RuleId): Promise<void>;
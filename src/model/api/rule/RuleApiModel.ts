@@ -1,5 +1,6 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../../api';
+import KeywordQueryUtil from '../../../util/KeywordQueryUtil';
 import IReserveDB from '../../db/IReserveDB';
 import IRuleDB from '../../db/IRuleDB';
 import IIPCClient from '../../ipc/IIPCClient';
@@ -84,6 +85,38 @@ export default class RuleApiModel implements IRuleApiModel {
         return this.ruleDB.findKeyword(option);
     }
 
+    /**
+     * 検索クエリの構文チェック
+     * @param option: apid.ValidateRuleKeywordQueryOption
+     * @return apid.RuleKeywordQueryValidationResult
+     */
+    public validateKeywordQuery(option: apid.ValidateRuleKeywordQueryOption): apid.RuleKeywordQueryValidationResult {
+        const result = KeywordQueryUtil.parse(option.query);
+
+        return {
+            isValid: result.errors.length === 0,
+            errors: result.errors,
+        };
+    }
+
+    /**
+     * ルールの予約情報を DB へ反映せずに計算する
+     * @param option: apid.DryRunRuleOption
+     * @return Promise<apid.RuleDryRunResult>
+     */
+    public dryRun(option: apid.DryRunRuleOption): Promise<apid.RuleDryRunResult> {
+        return this.ipc.reserveation.dryRunRule(option);
+    }
+
+    /**
+     * 指定した番組がルールの各検索条件を満たすか判定する
+     * @param option: apid.RuleMatchOption
+     * @return Promise<apid.RuleMatchExplanation>
+     */
+    public explain(option: apid.RuleMatchOption): Promise<apid.RuleMatchExplanation> {
+        return this.ipc.reserveation.explainRule(option);
+    }
+
     /**
      * ルールの更新
      * @param rule: apid.Rule
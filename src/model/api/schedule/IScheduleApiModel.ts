@@ -5,5 +5,10 @@ export default interface IScheduleApiModel {
     getSchedules(option: apid.ScheduleOption): Promise<apid.Schedule[]>;
     getChannelSchedule(option: apid.ChannelScheduleOption): Promise<apid.Schedule[]>;
     getBroadcastingSchedule(option: apid.BroadcastingScheduleOption): Promise<apid.Schedule[]>;
-    search(option: apid.RuleSearchOption, isHalfWidth: boolean, limit?: number): Promise<apid.ScheduleProgramItem[]>;
+    search(
+        option: apid.RuleSearchOption,
+        isHalfWidth: boolean,
+        limit?: number,
+        sortByRelevance?: boolean,
+    ): Promise<apid.ScheduleProgramItem[]>;
 }
@@ -2,6 +2,7 @@ import { inject, injectable } from 'inversify';
 import * as apid from '../../../../api';
 import Channel from '../../../db/entities/Channel';
 import Program from '../../../db/entities/Program';
+import SeriesUtil from '../../../util/SeriesUtil';
 import IChannelDB from '../../db/IChannelDB';
 import IProgramDB, { ProgramWithOverlap } from '../../db/IProgramDB';
 import IScheduleApiModel from './IScheduleApiModel';
@@ -170,16 +171,19 @@ export default class ScheduleApiModel implements IScheduleApiModel {
      * @param option: RuleSearchOption
      * @param isHalfWidth: boolean true 半角文字で返す, false: オリジナルのまま
      * @param limit?: number 最大取得件数
+     * @param sortByRelevance?: boolean キーワードの関連度順で返すか
      * @return Promise<ScheduleProgramItem[]>
      */
     public async search(
         option: apid.RuleSearchOption,
         isHalfWidth: boolean,
         limit?: number,
+        sortByRelevance?: boolean,
     ): Promise<apid.ScheduleProgramItem[]> {
         const programs = await this.programDB.findRule({
             searchOption: option,
             limit: limit,
+            sortByRelevance: sortByRelevance,
         });
 
         return programs.map(p => {
@@ -286,6 +290,11 @@ export default class ScheduleApiModel implements IScheduleApiModel {
             result.audioComponentType = program.audioComponentType;
         }
 
+        const series = SeriesUtil.toProgramSeries(program, isHalfWidth);
+        if (series !== null) {
+            result.series = series;
+        }
+
         return result;
     }
 
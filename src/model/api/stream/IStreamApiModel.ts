@@ -16,7 +16,12 @@ export default interface IStreamApiModel {
     startRecordedWebMStream(option: apid.RecordedStreanOption): Promise<StreamResponse>;
     startRecordedMp4Stream(option: apid.RecordedStreanOption): Promise<StreamResponse>;
     startRecordedHLSStream(option: apid.RecordedStreanOption): Promise<apid.StreamId>;
-    getLiveM2TsStreamM3u8(host: string, isSecure: boolean, option: apid.LiveStreamOption): Promise<IPlayList | null>;
+    getLiveM2TsStreamM3u8(
+        host: string,
+        isSecure: boolean,
+        option: apid.LiveStreamOption,
+        token?: string,
+    ): Promise<IPlayList | null>;
     stop(streamId: apid.StreamId, isForce?: boolean): Promise<void>;
     stopAll(): Promise<void>;
     keep(streamId: apid.StreamId): void;
@@ -365,12 +365,14 @@ export default class StreamApiModel implements IStreamApiModel {
      * @param host: string host
      * @param isSecure boolean https 通信か
      * @param option: apid.LiveStreamOption
+     * @param token?: string ストリーミング用トークン
      * @return Promise<IPlayList | null>
      */
     public async getLiveM2TsStreamM3u8(
         host: string,
         isSecure: boolean,
         option: apid.LiveStreamOption,
+        token?: string,
     ): Promise<IPlayList | null> {
         const channel = await this.channelDB.findId(option.channelId);
         if (channel === null) {
@@ -385,6 +387,7 @@ export default class StreamApiModel implements IStreamApiModel {
                 name: channel.name,
                 duration: 0,
                 baseUrl: `/api/streams/live/${option.channelId.toString(10)}/m2ts?mode=${option.mode}`,
+                token: token,
             }),
         };
     }
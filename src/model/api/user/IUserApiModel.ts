@@ -0,0 +1,9 @@
+import * as apid from '../../../../api';
+
+export default interface IUserApiModel {
+    gets(): Promise<apid.Users>;
+    add(option: apid.AddUserOption): Promise<apid.UserId>;
+    updatePassword(userId: apid.UserId, password: string): Promise<void>;
+    updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void>;
+    delete(userId: apid.UserId): Promise<void>;
+}
@@ -0,0 +1,72 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import IUserDB from '../../db/IUserDB';
+import IIPCClient from '../../ipc/IIPCClient';
+import IUserApiModel from './IUserApiModel';
+
+@injectable()
+export default class UserApiModel implements IUserApiModel {
+    private ipc: IIPCClient;
+    private userDB: IUserDB;
+
+    constructor(@inject('IIPCClient') ipc: IIPCClient, @inject('IUserDB') userDB: IUserDB) {
+        this.ipc = ipc;
+        this.userDB = userDB;
+    }
+
+    /**
+     * ユーザー一覧を返す
+     * @return Promise<apid.Users>
+     */
+    public async gets(): Promise<apid.Users> {
+        const users = await this.userDB.findAll();
+
+        return {
+            users: users.map(u => {
+                return {
+                    id: u.id,
+                    name: u.name,
+                    role: <apid.UserRole>u.role,
+                };
+            }),
+        };
+    }
+
+    /**
+     * ユーザー追加
+     * @param option: apid.AddUserOption
+     * @return Promise<apid.UserId>
+     */
+    public async add(option: apid.AddUserOption): Promise<apid.UserId> {
+        return await this.ipc.user.add(option);
+    }
+
+    /**
+     * パスワード更新
+     * @param userId: apid.UserId
+     * @param password: string
+     * @return Promise<void>
+     */
+    public async updatePassword(userId: apid.UserId, password: string): Promise<void> {
+        await this.ipc.user.updatePassword(userId, password);
+    }
+
+    /**
+     * 権限更新
+     * @param userId: apid.UserId
+     * @param role: apid.UserRole
+     * @return Promise<void>
+     */
+    public async updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void> {
+        await this.ipc.user.updateRole(userId, role);
+    }
+
+    /**
+     * ユーザー削除
+     * @param userId: apid.UserId
+     * @return Promise<void>
+     */
+    public async delete(userId: apid.UserId): Promise<void> {
+        await this.ipc.user.delete(userId);
+    }
+}
@@ -8,8 +8,16 @@ export interface VideoFilePathInfo {
 
 export default interface IVideoApiModel {
     getFullFilePath(videoFileId: apid.VideoFileId): Promise<VideoFilePathInfo | null>;
-    getM3u8(host: string, isSecure: boolean, videoFileId: apid.VideoFileId): Promise<IPlayList | null>;
+    getM3u8(host: string, isSecure: boolean, videoFileId: apid.VideoFileId, token?: string): Promise<IPlayList | null>;
     deleteVideoFile(videoFileId: apid.VideoFileId): Promise<void>;
     getDuration(videoFileId: apid.VideoFileId): Promise<number>;
-    sendToKodi(host: string, isSecure: boolean, kodiName: string, videoFileId: apid.VideoFileId): Promise<void>;
+    sendToKodi(
+        host: string,
+        isSecure: boolean,
+        kodiName: string,
+        videoFileId: apid.VideoFileId,
+        token?: string,
+    ): Promise<void>;
+    startDropCheck(videoFileId: apid.VideoFileId): Promise<void>;
+    getDropCheckProgress(videoFileId: apid.VideoFileId): Promise<apid.DropCheckProgress | null>;
 }
@@ -77,9 +77,15 @@ export default class VideoApiModel implements IVideoApiModel {
      * @param host: string host
      * @param isSecure: boolean https 通信か
      * @param videoFileId: apid.VideoFileId
+     * @param token?: string ストリーミング用トークン
      * @return Promise<IPlayList | null>
      */
-    public async getM3u8(host: string, isSecure: boolean, videoFileId: apid.VideoFileId): Promise<IPlayList | null> {
+    public async getM3u8(
+        host: string,
+        isSecure: boolean,
+        videoFileId: apid.VideoFileId,
+        token?: string,
+    ): Promise<IPlayList | null> {
         const video = await this.videoFileDB.findId(videoFileId);
         if (video === null || typeof video.recordedId === 'undefined') {
             return null;
@@ -98,6 +104,7 @@ export default class VideoApiModel implements IVideoApiModel {
                 name: recorded.name,
                 duration: Math.floor(recorded.duration / 1000),
                 baseUrl: `/api/videos/${videoFileId}`,
+                token: token,
             }),
         };
     }
@@ -127,11 +134,21 @@ export default class VideoApiModel implements IVideoApiModel {
         return videoInfo.duration;
     }
 
+    /**
+     * kodi へビデオリンクを送信する
+     * @param host: string host
+     * @param isSecure: boolean https 通信か
+     * @param kodiName: string config の kodiHosts の name
+     * @param videoFileId: apid.VideoFileId
+     * @param token?: string ストリーミング用トークン. 指定した場合はビデオリンクに付加する
+     * @return Promise<void>
+     */
     public async sendToKodi(
         host: string,
         isSecure: boolean,
         kodiName: string,
         videoFileId: apid.VideoFileId,
+        token?: string,
     ): Promise<void> {
         host = this.apiUtil.getHost(host);
 
@@ -152,8 +169,29 @@ export default class VideoApiModel implements IVideoApiModel {
             throw new Error('VideoFileIsUndefined');
         }
 
-        const source = `${isSecure ? 'https' : 'http'}://${host}/api/videos/${videoFileId}`;
+        let source = `${isSecure ? 'https' : 'http'}://${host}/api/videos/${videoFileId}`;
+        if (typeof token !== 'undefined') {
+            source += `?token=${encodeURIComponent(token)}`;
+        }
 
         return this.apiUtil.sendToKodi(source, kodi);
     }
+
+    /**
+     * 指定した video file id のファイルのドロップチェックを開始する
+     * @param videoFileId: apid.VideoFileId
+     * @return Promise<void>
+     */
+    public async startDropCheck(videoFileId: apid.VideoFileId): Promise<void> {
+        await this.ipc.dropCheck.add(videoFileId);
+    }
+
+    /**
+     * 指定した video file id のファイルのドロップチェックの進捗を取得する
+     * @param videoFileId: apid.VideoFileId
+     * @return Promise<apid.DropCheckProgress | null> ドロップチェック待ち, 実行中でない場合は null を返す
+     */
+    public async getDropCheckProgress(videoFileId: apid.VideoFileId): Promise<apid.DropCheckProgress | null> {
+        return await this.ipc.dropCheck.getProgress(videoFileId);
+    }
 }
@@ -0,0 +1,5 @@
+import * as apid from '../../../../api';
+
+export default interface IWebhookApiModel {
+    getDeliveries(option: apid.GetWebhookDeliveriesOption): Promise<apid.WebhookDeliveries>;
+}
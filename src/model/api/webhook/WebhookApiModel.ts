@@ -0,0 +1,60 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import WebhookDelivery from '../../../db/entities/WebhookDelivery';
+import IWebhookDeliveryDB from '../../db/IWebhookDeliveryDB';
+import IWebhookApiModel from './IWebhookApiModel';
+
+@injectable()
+export default class WebhookApiModel implements IWebhookApiModel {
+    private webhookDeliveryDB: IWebhookDeliveryDB;
+
+    constructor(@inject('IWebhookDeliveryDB') webhookDeliveryDB: IWebhookDeliveryDB) {
+        this.webhookDeliveryDB = webhookDeliveryDB;
+    }
+
+    /**
+     * webhook 送信ログを返す
+     * @param option: apid.GetWebhookDeliveriesOption
+     * @return Promise<apid.WebhookDeliveries>
+     */
+    public async getDeliveries(option: apid.GetWebhookDeliveriesOption): Promise<apid.WebhookDeliveries> {
+        const [deliveries, total] = await this.webhookDeliveryDB.findAll(option);
+
+        return {
+            deliveries: deliveries.map(d => {
+                return this.toDeliveryItem(d);
+            }),
+            total: total,
+        };
+    }
+
+    /**
+     * WebhookDelivery を apid.WebhookDeliveryItem に変換する
+     * @param delivery: WebhookDelivery
+     * @return apid.WebhookDeliveryItem
+     */
+    private toDeliveryItem(delivery: WebhookDelivery): apid.WebhookDeliveryItem {
+        const item: apid.WebhookDeliveryItem = {
+            id: delivery.id,
+            url: delivery.url,
+            event: delivery.event,
+            payload: delivery.payload,
+            state: <apid.WebhookDeliveryState>delivery.state,
+            attempts: delivery.attempts,
+            createdAt: delivery.createdAt,
+            updatedAt: delivery.updatedAt,
+        };
+
+        if (delivery.statusCode !== null) {
+            item.statusCode = delivery.statusCode;
+        }
+        if (delivery.errorMessage !== null) {
+            item.errorMessage = delivery.errorMessage;
+        }
+        if (delivery.nextRetryAt !== null) {
+            item.nextRetryAt = delivery.nextRetryAt;
+        }
+
+        return item;
+    }
+}
@@ -4,13 +4,14 @@ import IConfigFile from '../IConfigFile';
 import IConfiguration from '../IConfiguration';
 import ILogger from '../ILogger';
 import ILoggerModel from '../ILoggerModel';
-import IDBOperator from './IDBOperator';
+import IDBOperator, { FullTextSearchOption, FullTextSearchQuery } from './IDBOperator';
 
 @injectable()
-export default class DBOperator implements IDBOperator {
+class DBOperator implements IDBOperator {
     private connection: Connection | null = null;
     private config: IConfigFile;
     private log: ILogger;
+    private isEnabledFTS: boolean = false;
 
     constructor(@inject('ILoggerModel') logger: ILoggerModel, @inject('IConfiguration') conf: IConfiguration) {
         this.log = logger.getLogger();
@@ -22,6 +23,7 @@ export default class DBOperator implements IDBOperator {
             const option = await getConnectionOptions();
             this.connection = await createConnection(option);
             await this.setSQLiteExtensions();
+            await this.checkFullTextSearch();
         }
 
         return this.connection;
@@ -78,6 +80,50 @@ export default class DBOperator implements IDBOperator {
         }
     }
 
+    /**
+     * 全文検索用のテーブル, index が存在するか確認する
+     * migration で作成されていない場合 (ngram parser が使用できない MySQL 互換 DB, pg_trgm が使用できない PostgreSQL など) は無効とする
+     */
+    private async checkFullTextSearch(): Promise<void> {
+        if (this.connection === null) {
+            return;
+        }
+
+        try {
+            switch (this.config.dbtype) {
+                case 'mysql': {
+                    const indexes = await this.connection.manager.query(
+                        "SELECT DISTINCT INDEX_NAME FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND INDEX_TYPE = 'FULLTEXT' AND INDEX_NAME LIKE 'IDX\\_%\\_fts\\_%'",
+                    );
+                    this.isEnabledFTS = indexes.length === DBOperator.FTS_MYSQL_INDEX_NUM;
+                    break;
+                }
+                case 'postgres': {
+                    const indexes = await this.connection.manager.query(
+                        "SELECT indexname FROM pg_indexes WHERE schemaname = current_schema() AND indexname LIKE 'IDX\\_%\\_fts\\_%'",
+                    );
+                    this.isEnabledFTS = indexes.length === DBOperator.FTS_POSTGRES_INDEX_NUM;
+                    break;
+                }
+                case 'sqlite': {
+                    const tables = await this.connection.manager.query(
+                        "SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('program_fts', 'recorded_fts')",
+                    );
+                    this.isEnabledFTS = tables.length === 2;
+                    break;
+                }
+                default:
+                    this.isEnabledFTS = false;
+            }
+        } catch (err: any) {
+            this.log.system.warn('failed to check full text search');
+            this.log.system.warn(err);
+            this.isEnabledFTS = false;
+        }
+
+        this.log.system.info(`full text search: ${this.isEnabledFTS ? 'enabled' : 'disabled'}`);
+    }
+
     /**
      * regexp が有効か返す
      */
@@ -89,6 +135,14 @@ export default class DBOperator implements IDBOperator {
         return typeof this.config.sqlite === 'undefined' ? false : !!this.config.sqlite.regexp;
     }
 
+    /**
+     * 全文検索が有効か返す
+     * @return boolean
+     */
+    public isEnabledFullTextSearch(): boolean {
+        return this.isEnabledFTS;
+    }
+
     /**
      * boolean 型を変換する
      */
@@ -140,4 +194,177 @@ export default class DBOperator implements IDBOperator {
                 return 'like';
         }
     }
+
+    /**
+     * 一意制約違反のエラーか判定する
+     * @param err: any
+     * @return boolean
+     */
+    public isUniqueConstraintError(err: any): boolean {
+        if (typeof err !== 'object' || err === null) {
+            return false;
+        }
+
+        switch (this.config.dbtype) {
+            case 'mysql':
+                return err.code === 'ER_DUP_ENTRY';
+            case 'postgres':
+                return err.code === '23505';
+            case 'sqlite':
+            default:
+                return (
+                    err.code === 'SQLITE_CONSTRAINT' &&
+                    typeof err.message === 'string' &&
+                    err.message.includes('UNIQUE constraint failed')
+                );
+        }
+    }
+
+    /**
+     * 全文検索用の sub query を生成する
+     * 各キーワードは対象カラムのいずれか 1 つに全て含まれている必要がある (like 検索と同じ条件)
+     * 全文検索が無効な場合やキーワードが短く index で検索できない場合は null を返す
+     * @param option: FullTextSearchOption
+     * @return FullTextSearchQuery | null
+     */
+    public createFullTextSearchQuery(option: FullTextSearchOption): FullTextSearchQuery | null {
+        if (this.isEnabledFTS === false) {
+            return null;
+        }
+
+        const keywords = option.keyword.split(/ /).filter(k => {
+            return k.length > 0;
+        });
+        const columns = DBOperator.FTS_COLUMNS.filter(c => {
+            return option.columns[c.key] === true;
+        });
+        if (keywords.length === 0 || columns.length === 0) {
+            return null;
+        }
+
+        switch (this.config.dbtype) {
+            case 'mysql': {
+                // ngram parser は ngram_token_size (デフォルト 2) 未満のキーワードを検索できない
+                const phrases = keywords
+                    .map(k => {
+                        return k.replace(/"/g, '');
+                    })
+                    .filter(k => {
+                        return k.length > 0;
+                    });
+                if (
+                    phrases.length === 0 ||
+                    phrases.some(k => {
+                        return Array.from(k).length < DBOperator.FTS_MYSQL_MIN_LENGTH;
+                    })
+                ) {
+                    return null;
+                }
+
+                const matches = columns.map(c => {
+                    return `MATCH(${c.column}) AGAINST(:${option.valueName} IN BOOLEAN MODE)`;
+                });
+                const score = matches
+                    .map((m, i) => {
+                        return `${m} * ${columns[i].weight}`;
+                    })
+                    .join(' + ');
+
+                return {
+                    subQuery: `(SELECT id, ${score} AS score FROM ${option.table} WHERE ${matches.join(' OR ')})`,
+                    values: {
+                        [option.valueName]: phrases
+                            .map(k => {
+                                return `+"${k}"`;
+                            })
+                            .join(' '),
+                    },
+                };
+            }
+            case 'sqlite': {
+                // trigram tokenizer は 3 文字未満のキーワードを検索できない
+                if (
+                    keywords.some(k => {
+                        return Array.from(k).length < DBOperator.FTS_SQLITE_MIN_LENGTH;
+                    })
+                ) {
+                    return null;
+                }
+
+                const phrase = keywords
+                    .map(k => {
+                        return `"${k.replace(/"/g, '""')}"`;
+                    })
+                    .join(' AND ');
+                const match = columns
+                    .map(c => {
+                        return `{${c.column}} : (${phrase})`;
+                    })
+                    .join(' OR ');
+                const table = `${option.table}_fts`;
+                const weights = DBOperator.FTS_COLUMNS.map(c => {
+                    return c.weight.toFixed(1);
+                }).join(', ');
+
+                return {
+                    subQuery: `(SELECT rowid AS id, -bm25(${table}, ${weights}) AS score FROM ${table} WHERE ${table} MATCH :${option.valueName})`,
+                    values: {
+                        [option.valueName]: match,
+                    },
+                };
+            }
+            case 'postgres': {
+                // trigram index は 3 文字未満のキーワードでは使用されない
+                if (
+                    keywords.some(k => {
+                        return Array.from(k).length < DBOperator.FTS_POSTGRES_MIN_LENGTH;
+                    })
+                ) {
+                    return null;
+                }
+
+                const values: { [key: string]: string } = {
+                    [option.valueName]: keywords.join(' '),
+                };
+                keywords.forEach((k, i) => {
+                    values[`${option.valueName}${i}`] = `%${k.replace(/[\\%_]/g, '\\$&')}%`;
+                });
+                const matches = columns.map(c => {
+                    return `(${keywords
+                        .map((_k, i) => {
+                            return `"${c.column}" ILIKE :${option.valueName}${i}`;
+                        })
+                        .join(' AND ')})`;
+                });
+                const score = columns
+                    .map(c => {
+                        return `word_similarity(:${option.valueName}, COALESCE("${c.column}", '')) * ${c.weight}`;
+                    })
+                    .join(' + ');
+
+                return {
+                    subQuery: `(SELECT id, ${score} AS score FROM ${option.table} WHERE ${matches.join(' OR ')})`,
+                    values: values,
+                };
+            }
+            default:
+                return null;
+        }
+    }
 }
+
+namespace DBOperator {
+    export const FTS_MYSQL_INDEX_NUM = 6;
+    export const FTS_MYSQL_MIN_LENGTH = 2;
+    export const FTS_SQLITE_MIN_LENGTH = 3;
+    export const FTS_POSTGRES_INDEX_NUM = 6;
+    export const FTS_POSTGRES_MIN_LENGTH = 3;
+    // 全文検索対象カラムと関連度の重み
+    export const FTS_COLUMNS: { key: 'name' | 'description' | 'extended'; column: string; weight: number }[] = [
+        { key: 'name', column: 'halfWidthName', weight: 10 },
+        { key: 'description', column: 'halfWidthDescription', weight: 2 },
+        { key: 'extended', column: 'halfWidthExtended', weight: 1 },
+    ];
+}
+
+export default DBOperator;
@@ -0,0 +1,177 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
+import EncodeQueueItem from '../../db/entities/EncodeQueueItem';
+import EncodeQueueState from '../../db/entities/EncodeQueueState';
+import IPromiseRetry from '../IPromiseRetry';
+import IDBOperator from './IDBOperator';
+import IEncodeQueueItemDB, { EncodeQueueItemState } from './IEncodeQueueItemDB';
+
+@injectable()
+class EncodeQueueItemDB implements IEncodeQueueItemDB {
+    private op: IDBOperator;
+    private promieRetry: IPromiseRetry;
+
+    constructor(@inject('IDBOperator') op: IDBOperator, @inject('IPromiseRetry') promieRetry: IPromiseRetry) {
+        this.op = op;
+        this.promieRetry = promieRetry;
+    }
+
+    /**
+     * エンコード queue 情報を 1 件挿入
+     * @param item: EncodeQueueItem
+     * @return Promise<apid.EncodeId> inserted id
+     */
+    public async insertOnce(item: EncodeQueueItem): Promise<apid.EncodeId> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().insert().into(EncodeQueueItem).values(item);
+
+        const insertedResult = await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+
+        return insertedResult.identifiers[0].id;
+    }
+
+    /**
+     * エンコード queue 情報の状態を更新
+     * @param encodeId: apid.EncodeId
+     * @param state: EncodeQueueItemState
+     * @return Promise<void>
+     */
+    public async updateState(encodeId: apid.EncodeId, state: EncodeQueueItemState): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(EncodeQueueItem)
+            .set({
+                state: state,
+            })
+            .where({
+                id: encodeId,
+            });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * エンコード待ち queue 内の位置を更新
+     * @param encodeIds: apid.EncodeId[] 先頭から順に並べた encode id
+     * @return Promise<void>
+     */
+    public async updatePositions(encodeIds: apid.EncodeId[]): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryRunner = connection.createQueryRunner();
+
+        // start transaction
+        await queryRunner.startTransaction();
+
+        let hasError = false;
+        try {
+            for (let i = 0; i < encodeIds.length; i++) {
+                await queryRunner.manager.update(EncodeQueueItem, encodeIds[i], {
+                    position: i,
+                });
+            }
+            await queryRunner.commitTransaction();
+        } catch (err: any) {
+            hasError = err;
+            await queryRunner.rollbackTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        if (hasError) {
+            throw new Error('update positions error');
+        }
+    }
+
+    /**
+     * エンコード queue 情報を 1 件削除
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async deleteOnce(encodeId: apid.EncodeId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().delete().from(EncodeQueueItem).where({
+            id: encodeId,
+        });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * id を指定して取得する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<EncodeQueueItem | null>
+     */
+    public async findId(encodeId: apid.EncodeId): Promise<EncodeQueueItem | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(EncodeQueueItem).createQueryBuilder().where({
+            id: encodeId,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * 全てのエンコード queue 情報を queue 内の位置順に取得
+     * @return Promise<EncodeQueueItem[]>
+     */
+    public async findAll(): Promise<EncodeQueueItem[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(EncodeQueueItem)
+            .createQueryBuilder()
+            .orderBy('position', 'ASC')
+            .addOrderBy('id', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+
+    /**
+     * queue の一時停止状態を保存
+     * @param isPaused: boolean
+     * @return Promise<void>
+     */
+    public async updateQueuePaused(isPaused: boolean): Promise<void> {
+        const connection = await this.op.getConnection();
+        const state = new EncodeQueueState();
+        state.id = EncodeQueueItemDB.QUEUE_STATE_ID;
+        state.isPaused = isPaused;
+
+        await this.promieRetry.run(() => {
+            return connection.getRepository(EncodeQueueState).save(state);
+        });
+    }
+
+    /**
+     * 保存された queue の一時停止状態を取得
+     * @return Promise<boolean> 保存されていない場合は false を返す
+     */
+    public async findQueuePaused(): Promise<boolean> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(EncodeQueueState).createQueryBuilder().where({
+            id: EncodeQueueItemDB.QUEUE_STATE_ID,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result !== 'undefined' && result !== null && result.isPaused === true;
+    }
+}
+
+namespace EncodeQueueItemDB {
+    export const QUEUE_STATE_ID = 1;
+}
+
+export default EncodeQueueItemDB;
@@ -1,12 +1,43 @@
 import { Connection } from 'typeorm';
 
+/**
+ * 全文検索の対象カラム
+ */
+export interface FullTextSearchColumns {
+    name: boolean; // halfWidthName
+    description: boolean; // halfWidthDescription
+    extended: boolean; // halfWidthExtended
+}
+
+/**
+ * 全文検索オプション
+ */
+export interface FullTextSearchOption {
+    table: 'program' | 'recorded';
+    keyword: string; // 半角変換済みのキーワード (スペース区切りで and 検索)
+    columns: FullTextSearchColumns;
+    valueName: string; // パラメータ名
+}
+
+/**
+ * 全文検索用 sub query
+ * id と関連度 (score) を返す
+ */
+export interface FullTextSearchQuery {
+    subQuery: string;
+    values: { [key: string]: string };
+}
+
 export default interface IDBOperator {
     getConnection(): Promise<Connection>;
     checkConnection(): Promise<void>;
     closeConnection(): Promise<void>;
     isEnabledRegexp(): boolean;
+    isEnabledFullTextSearch(): boolean;
     convertBoolean(value: boolean): boolean | number;
     isEnableCS(): boolean;
     getRegexpStr(cs: boolean): string;
     getLikeStr(cs: boolean): string;
+    createFullTextSearchQuery(option: FullTextSearchOption): FullTextSearchQuery | null;
+    isUniqueConstraintError(err: any): boolean;
 }
@@ -0,0 +1,15 @@
+import * as apid from '../../../api';
+import EncodeQueueItem from '../../db/entities/EncodeQueueItem';
+
+export type EncodeQueueItemState = 'wait' | 'running' | 'paused';
+
+export default interface IEncodeQueueItemDB {
+    insertOnce(item: EncodeQueueItem): Promise<apid.EncodeId>;
+    updateState(encodeId: apid.EncodeId, state: EncodeQueueItemState): Promise<void>;
+    updatePositions(encodeIds: apid.EncodeId[]): Promise<void>;
+    deleteOnce(encodeId: apid.EncodeId): Promise<void>;
+    findId(encodeId: apid.EncodeId): Promise<EncodeQueueItem | null>;
+    findAll(): Promise<EncodeQueueItem[]>;
+    updateQueuePaused(isPaused: boolean): Promise<void>;
+    findQueuePaused(): Promise<boolean>;
+}
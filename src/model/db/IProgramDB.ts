@@ -20,6 +20,7 @@ export interface FindRuleOption {
     searchOption: apid.RuleSearchOption;
     reserveOption?: apid.RuleReserveOption;
     limit?: number;
+    sortByRelevance?: boolean; // 全文検索が有効な場合に関連度順で返す
 }
 
 /**
@@ -46,6 +47,20 @@ export interface FindScheduleOption extends FindScheduleBaseOption {
     types: apid.ChannelType[];
 }
 
+/**
+ * 同じ内容の番組 (再放送, 別チャンネルでの放送) の検索条件
+ */
+export interface FindRebroadcastOption {
+    excludeProgramId: apid.ProgramId; // 元の番組
+    startAt: apid.UnixtimeMS; // この時刻以降に開始する番組のみ取得する
+    networkId: apid.NetworkId;
+    eventId: number;
+    shortName: string; // 番組名 (重複チェック用)
+    description: string | null;
+    seriesId: number | null;
+    seriesEpisode: number | null;
+}
+
 export default interface IProgramDB {
     insert(
         channelTypes: IChannelTypeIndex,
@@ -56,7 +71,9 @@ export default interface IProgramDB {
     deleteOld(time: apid.UnixtimeMS): Promise<void>;
     findId(programId: apid.ProgramId): Promise<Program | null>;
     findRule(option: FindRuleOption): Promise<ProgramWithOverlap[]>;
+    explainRule(programId: apid.ProgramId, option: FindRuleOption): Promise<apid.RuleMatchFilterResult[] | null>;
     findChannelIdAndTime(channelId: apid.ChannelId, startAt: apid.UnixtimeMS): Promise<Program | null>;
+    findRebroadcasts(option: FindRebroadcastOption): Promise<Program[]>;
     findAll(): Promise<Program[]>;
     findSchedule(option: FindScheduleOption | FindScheduleIdOption): Promise<Program[]>;
     findBroadcasting(option: apid.BroadcastingScheduleOption): Promise<Program[]>;
@@ -0,0 +1,9 @@
+import * as apid from '../../../api';
+import ReceptionQuality from '../../db/entities/ReceptionQuality';
+
+export default interface IReceptionQualityDB {
+    insertOnce(receptionQuality: ReceptionQuality): Promise<number>;
+    deleteOld(time: apid.UnixtimeMS): Promise<void>;
+    findTimeRange(startAt: apid.UnixtimeMS, endAt: apid.UnixtimeMS): Promise<ReceptionQuality[]>;
+    findOldest(): Promise<ReceptionQuality | null>;
+}
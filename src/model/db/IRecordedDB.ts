@@ -17,9 +17,12 @@ export default interface IRecordedDB {
     insertOnce(recorded: Recorded): Promise<apid.RecordedId>;
     updateOnce(recorded: Recorded): Promise<void>;
     removeRecording(recordedId: apid.RecordedId): Promise<void>;
+    setDropLogFileId(recordedId: apid.RecordedId, dropLogFileId: apid.DropLogFileId): Promise<void>;
     removeDropLogFileId(dropLogFileId: apid.DropLogFileId): Promise<void>;
     removeRuleId(ruleId: apid.RuleId): Promise<void>;
     changeProtect(recordedId: apid.RecordedId, isProtect: boolean): Promise<void>;
+    setSupersededBy(recordedId: apid.RecordedId, supersededBy: apid.RecordedId): Promise<void>;
+    setRerecordedBy(recordedId: apid.RecordedId, rerecordedBy: apid.RecordedId): Promise<void>;
     deleteOnce(recordedId: apid.RecordedId): Promise<void>;
     findId(recordedId: apid.RecordedId): Promise<Recorded | null>;
     findIds(recordedIds: apid.RecordedId[]): Promise<Recorded[]>;
@@ -28,4 +31,5 @@ export default interface IRecordedDB {
     findGenreList(): Promise<apid.RecordedGenreListItem[]>;
     findOld(): Promise<Recorded | null>;
     findReserveId(reserveId: apid.ReserveId): Promise<Recorded[]>;
+    findDropLogTimeRange(startAt: apid.UnixtimeMS, endAt: apid.UnixtimeMS): Promise<Recorded[]>;
 }
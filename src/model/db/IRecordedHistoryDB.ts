@@ -1,9 +1,34 @@
 import * as apid from '../../../api';
 import RecordedHistory from '../../db/entities/RecordedHistory';
 
+/**
+ * 録画から録画履歴を特定するためのオプション
+ * recordedId を持たない古い履歴は name, channelId, endAt で照合する
+ */
+export interface FindRecordedOption {
+    recordedId: apid.RecordedId;
+    name: string;
+    channelId: apid.ChannelId;
+    endAt: apid.UnixtimeMS;
+}
+
+/**
+ * 重複判定に使用した録画履歴の検索オプション
+ */
+export interface FindOverlapOption {
+    name: string; // Program.shortName
+    channelId: apid.ChannelId;
+    endAt: apid.UnixtimeMS; // 番組の終了時刻
+    periodToAvoidDuplicate?: number; // 重複を避ける期間 (日)
+}
+
 export default interface IRecordedHistoryDB {
     restore(items: RecordedHistory[]): Promise<void>;
     insertOnce(program: RecordedHistory): Promise<apid.RecordedHistoryId>;
     delete(time: apid.UnixtimeMS): Promise<void>;
-    findAll(): Promise<RecordedHistory[]>;
+    deleteOnce(historyId: apid.RecordedHistoryId): Promise<void>;
+    deleteRecorded(option: FindRecordedOption): Promise<void>;
+    findId(historyId: apid.RecordedHistoryId): Promise<RecordedHistory | null>;
+    findAll(option?: apid.GetRecordedHistoryOption): Promise<[RecordedHistory[], number]>;
+    findOverlap(option: FindOverlapOption): Promise<RecordedHistory[]>;
 }
@@ -47,6 +47,9 @@ export default interface IReserveDB {
     findAll(option: apid.GetReserveOption): Promise<[Reserve[], number]>;
     findLists(option?: apid.GetReserveListsOption): Promise<Reserve[]>;
     findProgramId(programId: apid.ProgramId): Promise<Reserve[]>;
+    findConflicts(): Promise<Reserve[]>;
+    findSubstitutes(): Promise<Reserve[]>;
+    findRerecordRecordedId(recordedId: apid.RecordedId): Promise<Reserve[]>;
     findTimeRanges(option: IFindTimeRangesOption): Promise<Reserve[]>;
     findRuleId(option: IFindRuleOption): Promise<Reserve[]>;
     findOldTime(baseTime: apid.UnixtimeMS): Promise<Reserve[]>;
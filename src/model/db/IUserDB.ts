@@ -0,0 +1,17 @@
+import * as apid from '../../../api';
+import User from '../../db/entities/User';
+
+export namespace UserDBErrors {
+    export const DUPLICATE_NAME = 'UserNameIsDuplicated';
+}
+
+export default interface IUserDB {
+    restore(items: User[]): Promise<void>;
+    insertOnce(user: User): Promise<apid.UserId>;
+    updatePasswordHash(userId: apid.UserId, passwordHash: string): Promise<void>;
+    updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void>;
+    deleteOnce(userId: apid.UserId): Promise<void>;
+    findId(userId: apid.UserId): Promise<User | null>;
+    findName(name: string): Promise<User | null>;
+    findAll(): Promise<User[]>;
+}
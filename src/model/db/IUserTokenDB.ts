@@ -0,0 +1,14 @@
+import * as apid from '../../../api';
+import UserToken from '../../db/entities/UserToken';
+
+export default interface IUserTokenDB {
+    restore(items: UserToken[]): Promise<void>;
+    insertOnce(token: UserToken): Promise<apid.UserTokenId>;
+    deleteOnce(tokenId: apid.UserTokenId): Promise<void>;
+    deleteUserId(userId: apid.UserId, type?: string): Promise<void>;
+    deleteExpired(time: apid.UnixtimeMS): Promise<void>;
+    findId(tokenId: apid.UserTokenId): Promise<UserToken | null>;
+    findTokenHash(tokenHash: string): Promise<UserToken | null>;
+    findUserApiTokens(userId: apid.UserId): Promise<UserToken[]>;
+    findAll(): Promise<UserToken[]>;
+}
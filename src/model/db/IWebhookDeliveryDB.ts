@@ -0,0 +1,19 @@
+import * as apid from '../../../api';
+import WebhookDelivery from '../../db/entities/WebhookDelivery';
+
+export interface WebhookDeliveryUpdateValues {
+    state: apid.WebhookDeliveryState;
+    attempts: number;
+    statusCode: number | null;
+    errorMessage: string | null;
+    nextRetryAt: apid.UnixtimeMS | null;
+    updatedAt: apid.UnixtimeMS;
+}
+
+export default interface IWebhookDeliveryDB {
+    insertOnce(delivery: WebhookDelivery): Promise<apid.WebhookDeliveryId>;
+    updateOnce(deliveryId: apid.WebhookDeliveryId, values: WebhookDeliveryUpdateValues): Promise<void>;
+    deleteOld(time: apid.UnixtimeMS): Promise<void>;
+    findAll(option: apid.GetWebhookDeliveriesOption): Promise<[WebhookDelivery[], number]>;
+    findUnfinished(): Promise<WebhookDelivery[]>;
+}
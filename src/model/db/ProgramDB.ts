@@ -1,10 +1,20 @@
 import { inject, injectable } from 'inversify';
-import { FindOptionsWhere, In, LessThan, LessThanOrEqual, MoreThan, MoreThanOrEqual, ObjectLiteral } from 'typeorm';
+import {
+    FindOptionsWhere,
+    In,
+    LessThan,
+    LessThanOrEqual,
+    MoreThan,
+    MoreThanOrEqual,
+    Not,
+    ObjectLiteral,
+} from 'typeorm';
 import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 import * as apid from '../../../api';
 import * as mapid from '../../../node_modules/mirakurun/api';
 import Program from '../../db/entities/Program';
 import DateUtil from '../../util/DateUtil';
+import KeywordQueryUtil, { KeywordQueryNode } from '../../util/KeywordQueryUtil';
 import StrUtil from '../../util/StrUtil';
 import IConfigFile from '../IConfigFile';
 import IConfiguration from '../IConfiguration';
@@ -13,8 +23,9 @@ import ILoggerModel from '../ILoggerModel';
 import IPromiseRetry from '../IPromiseRetry';
 import DBUtil from './DBUtil';
 import IChannelTypeIndex from './IChannelTypeHash';
-import IDBOperator from './IDBOperator';
+import IDBOperator, { FullTextSearchQuery } from './IDBOperator';
 import IProgramDB, {
+    FindRebroadcastOption,
     FindRuleOption,
     FindScheduleIdOption,
     FindScheduleOption,
@@ -25,6 +36,7 @@ import IProgramDB, {
 interface FindQuery {
     strs: string[];
     param: ObjectLiteral;
+    fullTextSearch?: FullTextSearchQuery; // 全文検索でキーワードを絞り込む場合にセットされる
 }
 
 interface KeywordOption {
@@ -257,6 +269,25 @@ export default class ProgramDB implements IProgramDB {
             }
         }
 
+        // series
+        if (typeof program.series === 'undefined') {
+            value.seriesId = null;
+            value.seriesRepeat = null;
+            value.seriesEpisode = null;
+            value.seriesLastEpisode = null;
+            value.seriesName = null;
+        } else {
+            // episode, lastEpisode は 0 の場合未定義
+            value.seriesId = program.series.id;
+            value.seriesRepeat = program.series.repeat;
+            value.seriesEpisode = program.series.episode > 0 ? program.series.episode : null;
+            value.seriesLastEpisode = program.series.lastEpisode > 0 ? program.series.lastEpisode : null;
+            value.seriesName =
+                typeof program.series.name === 'undefined' || program.series.name.length === 0
+                    ? null
+                    : StrUtil.toDBStr(program.series.name);
+        }
+
         return value;
     }
 
@@ -405,6 +436,8 @@ export default class ProgramDB implements IProgramDB {
         this.setDurationMinQuery(option.searchOption, query);
         this.setDurationMaxQuery(option.searchOption, query);
         this.setSearchPeriodsQuery(option.searchOption, query);
+        this.setSeriesQuery(option.searchOption, query);
+        this.setSearchQuery(option.searchOption, query);
 
         // joint query str
         let str = '';
@@ -419,7 +452,7 @@ export default class ProgramDB implements IProgramDB {
         }
 
         // ルールのオプションが何もない場合
-        if (str.length === 0) {
+        if (str.length === 0 && typeof query.fullTextSearch === 'undefined') {
             throw new Error('InvalidFindRuleOption');
         }
 
@@ -430,12 +463,30 @@ export default class ProgramDB implements IProgramDB {
                 'overlap',
             );
         }
-        const queryBuilder = select
-            .from(Program, 'program')
-            .where(str, query.param)
-            .andWhere(`${new Date().getTime()} <= program.endAt`)
-            .orderBy('program.startAt', 'ASC')
-            .limit(option.limit);
+        let queryBuilder = select.from(Program, 'program').where(`${new Date().getTime()} <= program.endAt`);
+        if (str.length > 0) {
+            queryBuilder = queryBuilder.andWhere(str, query.param);
+        }
+
+        if (typeof query.fullTextSearch !== 'undefined') {
+            queryBuilder = queryBuilder.innerJoin(
+                query.fullTextSearch.subQuery,
+                'fts',
+                'fts.id = program.id',
+                query.fullTextSearch.values,
+            );
+        }
+
+        if (option.sortByRelevance === true && typeof query.fullTextSearch !== 'undefined') {
+            // 関連度順 (同じ関連度なら放送開始時刻順)
+            queryBuilder = queryBuilder
+                .addSelect('fts.score', 'relevance')
+                .orderBy('relevance', 'DESC')
+                .addOrderBy('program.startAt', 'ASC');
+        } else {
+            queryBuilder = queryBuilder.orderBy('program.startAt', 'ASC');
+        }
+        queryBuilder = queryBuilder.limit(option.limit);
 
         const result = await this.promieRetry.run(() => {
             return queryBuilder.getRawAndEntities();
@@ -450,6 +501,133 @@ export default class ProgramDB implements IProgramDB {
         });
     }
 
+    /**
+     * 指定した番組がルールの各検索条件を満たすか判定する
+     * 検索条件ごとに findRule と同じ query を番組 id を指定して実行する
+     * @param programId: apid.ProgramId
+     * @param option: FindRuleOption
+     * @return Promise<apid.RuleMatchFilterResult[] | null> 番組が存在しない場合は null を返す
+     */
+    public async explainRule(
+        programId: apid.ProgramId,
+        option: FindRuleOption,
+    ): Promise<apid.RuleMatchFilterResult[] | null> {
+        const program = await this.findId(programId);
+        if (program === null) {
+            return null;
+        }
+
+        const connection = await this.op.getConnection();
+        const searchOption = option.searchOption;
+        const filters: { name: apid.RuleMatchFilterName; set: (query: FindQuery) => void }[] = [
+            {
+                name: 'keyword',
+                set: query => {
+                    if (typeof searchOption.keyword !== 'undefined') {
+                        this.setKeywordOption(
+                            searchOption.keyword,
+                            this.createKeywordOption(searchOption, false),
+                            'keyword',
+                            false,
+                            query,
+                        );
+                    }
+                },
+            },
+            {
+                name: 'ignoreKeyword',
+                set: query => {
+                    if (typeof searchOption.ignoreKeyword !== 'undefined') {
+                        this.setKeywordOption(
+                            searchOption.ignoreKeyword,
+                            this.createKeywordOption(searchOption, true),
+                            'ignoreKeyword',
+                            true,
+                            query,
+                        );
+                    }
+                },
+            },
+            { name: 'keywordQuery', set: query => this.setSearchQuery(searchOption, query) },
+            { name: 'channel', set: query => this.setChannelQuery(searchOption, query) },
+            { name: 'genre', set: query => this.setGenresQuery(searchOption, query) },
+            { name: 'time', set: query => this.setTimesQuery(searchOption, query) },
+            { name: 'isFree', set: query => this.setFreeQuery(searchOption, query) },
+            { name: 'durationMin', set: query => this.setDurationMinQuery(searchOption, query) },
+            { name: 'durationMax', set: query => this.setDurationMaxQuery(searchOption, query) },
+            { name: 'searchPeriod', set: query => this.setSearchPeriodsQuery(searchOption, query) },
+            { name: 'series', set: query => this.setSeriesQuery(searchOption, query) },
+        ];
+
+        const results: apid.RuleMatchFilterResult[] = [
+            {
+                name: 'broadcast',
+                isPassed: new Date().getTime() <= program.endAt,
+            },
+        ];
+
+        for (const filter of filters) {
+            const query: FindQuery = {
+                strs: [],
+                param: {},
+            };
+            filter.set(query);
+
+            const strs = query.strs.filter(str => {
+                return str.length > 0;
+            });
+            if (strs.length === 0 && typeof query.fullTextSearch === 'undefined') {
+                // 未指定の検索条件
+                continue;
+            }
+
+            let queryBuilder = connection
+                .createQueryBuilder()
+                .select('program.id')
+                .from(Program, 'program')
+                .where('program.id = :explainProgramId', { explainProgramId: programId });
+            if (strs.length > 0) {
+                queryBuilder = queryBuilder.andWhere(DBUtil.createAndQuery(strs), query.param);
+            }
+            if (typeof query.fullTextSearch !== 'undefined') {
+                queryBuilder = queryBuilder.innerJoin(
+                    query.fullTextSearch.subQuery,
+                    'fts',
+                    'fts.id = program.id',
+                    query.fullTextSearch.values,
+                );
+            }
+
+            const cnt = await this.promieRetry.run(() => {
+                return queryBuilder.getCount();
+            });
+            results.push({
+                name: filter.name,
+                isPassed: cnt > 0,
+            });
+        }
+
+        // 録画済み番組との重複
+        if (typeof option.reserveOption !== 'undefined' && option.reserveOption.avoidDuplicate === true) {
+            const queryBuilder = connection
+                .createQueryBuilder()
+                .select(this.createOverlapQueryStr(option.reserveOption.periodToAvoidDuplicate), 'overlap')
+                .from(Program, 'program')
+                .where('program.id = :explainProgramId', { explainProgramId: programId });
+            const raw = await this.promieRetry.run(() => {
+                return queryBuilder.getRawOne();
+            });
+
+            results.push({
+                name: 'duplicate',
+                // eslint-disable-next-line no-extra-boolean-cast
+                isPassed: typeof raw === 'undefined' || Boolean(!!raw.overlap) === false,
+            });
+        }
+
+        return results;
+    }
+
     /**
      * キーワードの検索オプションをセットする
      * @param searchOption: apid.RuleSearchOption
@@ -492,6 +670,34 @@ export default class ProgramDB implements IProgramDB {
         isIgnore: boolean,
         query: FindQuery,
     ): void {
+        // 全文検索 (FTS の index は大文字小文字を区別しない)
+        if (option.regexp === false && option.cs === false) {
+            const fullTextSearch = this.op.createFullTextSearchQuery({
+                table: 'program',
+                keyword: StrUtil.toHalf(keyword),
+                columns: {
+                    name: option.name,
+                    description: option.description,
+                    extended: option.extended,
+                },
+                valueName: `${valueBaseName}Fts`,
+            });
+            if (fullTextSearch !== null) {
+                if (isIgnore === true) {
+                    for (const key in fullTextSearch.values) {
+                        query.param[key] = fullTextSearch.values[key];
+                    }
+                    query.strs.push(
+                        `program.id not in (select ${valueBaseName}Fts.id from ${fullTextSearch.subQuery} ${valueBaseName}Fts)`,
+                    );
+                } else {
+                    query.fullTextSearch = fullTextSearch;
+                }
+
+                return;
+            }
+        }
+
         const or: string[] = [];
 
         if (option.regexp === true) {
@@ -805,6 +1011,138 @@ export default class ProgramDB implements IProgramDB {
         query.strs.push(DBUtil.createOrQuery(or));
     }
 
+    /**
+     * シリーズの検索オプションをセットする
+     * シリーズ id はネットワーク毎に割り当てられるため, seriesNetworkId が指定されている場合は networkId も一致させる
+     * @param searchOption: apid.RuleSearchOption
+     * @param query: FindQuery
+     */
+    private setSeriesQuery(option: apid.RuleSearchOption, query: FindQuery): void {
+        if (typeof option.seriesId === 'undefined') {
+            return;
+        }
+
+        const column = 'seriesId';
+        query.strs.push(`seriesId = :${column}`);
+        query.param[column] = option.seriesId;
+
+        if (typeof option.seriesNetworkId !== 'undefined') {
+            const networkIdColumn = 'seriesNetworkId';
+            query.strs.push(`networkId = :${networkIdColumn}`);
+            query.param[networkIdColumn] = option.seriesNetworkId;
+        }
+    }
+
+    /**
+     * 検索クエリの検索オプションをセットする
+     * @param option: apid.RuleSearchOption
+     * @param query: FindQuery
+     */
+    private setSearchQuery(option: apid.RuleSearchOption, query: FindQuery): void {
+        if (typeof option.keywordQuery === 'undefined') {
+            return;
+        }
+
+        const result = KeywordQueryUtil.parse(option.keywordQuery);
+        if (result.node === null) {
+            throw new Error('InvalidKeywordQuery');
+        }
+
+        query.strs.push(
+            this.compileSearchQuery(result.node, this.createKeywordOption(option, false), query, { cnt: 0 }),
+        );
+    }
+
+    /**
+     * 検索クエリの構文木を query 文字列へ変換する
+     * @param node: KeywordQueryNode
+     * @param option: KeywordOption フィールド指定のない検索語の検索対象と大文字小文字の区別
+     * @param query: FindQuery
+     * @param counter: パラメータ名の連番
+     * @return string
+     */
+    private compileSearchQuery(
+        node: KeywordQueryNode,
+        option: KeywordOption,
+        query: FindQuery,
+        counter: { cnt: number },
+    ): string {
+        switch (node.type) {
+            case 'and':
+            case 'or': {
+                const strs = node.children.map(child => {
+                    return this.compileSearchQuery(child, option, query, counter);
+                });
+
+                return node.type === 'and' ? DBUtil.createAndQuery(strs) : DBUtil.createOrQuery(strs);
+            }
+            case 'not':
+                return `(not (${this.compileSearchQuery(node.child, option, query, counter)}))`;
+            case 'term':
+                break;
+        }
+
+        const valueName = `keywordQuery${counter.cnt++}`;
+        const like = this.op.getLikeStr(option.cs);
+
+        switch (node.field) {
+            case 'title':
+                query.param[valueName] = `%${node.value}%`;
+
+                return `halfWidthName ${like} :${valueName}`;
+            case 'desc':
+                query.param[valueName] = `%${node.value}%`;
+
+                return `COALESCE(halfWidthDescription,'') ${like} :${valueName}`;
+            case 'ext':
+                query.param[valueName] = `%${node.value}%`;
+
+                return `COALESCE(halfWidthExtended,'') ${like} :${valueName}`;
+            case 'ch':
+                query.param[valueName] = `%${node.value}%`;
+
+                return `program.channelId in (select channel.id from channel where channel.halfWidthName ${like} :${valueName})`;
+            case 'genre': {
+                const genre = KeywordQueryUtil.parseGenre(node.value);
+                if (genre === null) {
+                    throw new Error('InvalidKeywordQuery');
+                }
+
+                const or: string[] = [];
+                query.param[valueName] = genre.genre;
+                if (typeof genre.subGenre === 'undefined') {
+                    for (let i = 1; i <= 3; i++) {
+                        or.push(`genre${i} = :${valueName}`);
+                    }
+                } else {
+                    const subValueName = `${valueName}Sub`;
+                    query.param[subValueName] = genre.subGenre;
+                    for (let i = 1; i <= 3; i++) {
+                        or.push(`(genre${i} = :${valueName} and subGenre${i} = :${subValueName})`);
+                    }
+                }
+
+                return DBUtil.createOrQuery(or);
+            }
+            default: {
+                // フィールド指定なしの場合はルールの検索対象設定に従い, 未設定の場合は番組名を検索する
+                query.param[valueName] = `%${node.value}%`;
+                const or: string[] = [];
+                if (option.name === true || (option.description === false && option.extended === false)) {
+                    or.push(`halfWidthName ${like} :${valueName}`);
+                }
+                if (option.description === true) {
+                    or.push(`COALESCE(halfWidthDescription,'') ${like} :${valueName}`);
+                }
+                if (option.extended === true) {
+                    or.push(`COALESCE(halfWidthExtended,'') ${like} :${valueName}`);
+                }
+
+                return DBUtil.createOrQuery(or);
+            }
+        }
+    }
+
     /**
      * in query セット
      * @param query: FindQuery
@@ -871,6 +1209,58 @@ export default class ProgramDB implements IProgramDB {
         return result.length === 0 ? null : result[0];
     }
 
+    /**
+     * 指定した条件と同じ内容の番組 (再放送, 別チャンネルでの放送) を取得する
+     * 以下のいずれかに一致する番組を同一内容とみなす
+     * - シリーズ id と話数が同じ
+     * - 同一ネットワーク内で event id と番組名 (重複チェック用) が同じ (イベントリレー)
+     * - 番組名 (重複チェック用) と概要が同じ
+     * @param option: FindRebroadcastOption
+     * @return Promise<Program[]> 開始時刻順で返す
+     */
+    public async findRebroadcasts(option: FindRebroadcastOption): Promise<Program[]> {
+        const baseOption: FindOptionsWhere<Program> = {
+            id: Not(option.excludeProgramId),
+            startAt: MoreThanOrEqual(option.startAt),
+        };
+
+        const queryOption: FindOptionsWhere<Program>[] = [
+            {
+                ...baseOption,
+                eventId: option.eventId,
+                networkId: option.networkId,
+                shortName: option.shortName,
+            },
+        ];
+        if (option.seriesId !== null && option.seriesEpisode !== null) {
+            queryOption.push({
+                ...baseOption,
+                networkId: option.networkId,
+                seriesId: option.seriesId,
+                seriesEpisode: option.seriesEpisode,
+            });
+        }
+        if (option.description !== null) {
+            queryOption.push({
+                ...baseOption,
+                shortName: option.shortName,
+                description: option.description,
+            });
+        }
+
+        const connection = await this.op.getConnection();
+        const repository = connection.getRepository(Program);
+
+        return await this.promieRetry.run(() => {
+            return repository.find({
+                where: queryOption,
+                order: {
+                    startAt: 'ASC',
+                },
+            });
+        });
+    }
+
     /**
      * 全件取得
      * @return Promise<Program[]>
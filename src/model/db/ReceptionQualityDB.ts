@@ -0,0 +1,89 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
+import ReceptionQuality from '../../db/entities/ReceptionQuality';
+import IPromiseRetry from '../IPromiseRetry';
+import IDBOperator from './IDBOperator';
+import IReceptionQualityDB from './IReceptionQualityDB';
+
+@injectable()
+export default class ReceptionQualityDB implements IReceptionQualityDB {
+    private op: IDBOperator;
+    private promieRetry: IPromiseRetry;
+
+    constructor(@inject('IDBOperator') op: IDBOperator, @inject('IPromiseRetry') promieRetry: IPromiseRetry) {
+        this.op = op;
+        this.promieRetry = promieRetry;
+    }
+
+    /**
+     * 受信品質情報を 1 件挿入
+     * @param receptionQuality: ReceptionQuality
+     * @return Promise<number> inserted id
+     */
+    public async insertOnce(receptionQuality: ReceptionQuality): Promise<number> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().insert().into(ReceptionQuality).values(receptionQuality);
+
+        const insertedResult = await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+
+        return insertedResult.identifiers[0].id;
+    }
+
+    /**
+     * 指定した時刻より前に録画を開始した受信品質情報を削除
+     * @param time: apid.UnixtimeMS
+     * @return Promise<void>
+     */
+    public async deleteOld(time: apid.UnixtimeMS): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .delete()
+            .from(ReceptionQuality)
+            .where('startAt < :time', { time: time });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 指定した時間帯に録画を開始した受信品質情報を取得する
+     * @param startAt: apid.UnixtimeMS
+     * @param endAt: apid.UnixtimeMS
+     * @return Promise<ReceptionQuality[]>
+     */
+    public async findTimeRange(startAt: apid.UnixtimeMS, endAt: apid.UnixtimeMS): Promise<ReceptionQuality[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(ReceptionQuality)
+            .createQueryBuilder()
+            .where('startAt >= :startAt', { startAt: startAt })
+            .andWhere('startAt < :endAt', { endAt: endAt })
+            .orderBy('startAt', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+
+    /**
+     * 最も古い受信品質情報を取得する
+     * @return Promise<ReceptionQuality | null>
+     */
+    public async findOldest(): Promise<ReceptionQuality | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(ReceptionQuality)
+            .createQueryBuilder()
+            .orderBy('startAt', 'ASC')
+            .addOrderBy('id', 'ASC');
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+}
@@ -7,7 +7,7 @@ import VideoFile from '../../db/entities/VideoFile';
 import StrUtil from '../../util/StrUtil';
 import IPromiseRetry from '../IPromiseRetry';
 import DBUtil from './DBUtil';
-import IDBOperator from './IDBOperator';
+import IDBOperator, { FullTextSearchQuery } from './IDBOperator';
 import IRecordedDB, { FindAllOption, RecordedColumnOption } from './IRecordedDB';
 
 @injectable()
@@ -115,6 +115,26 @@ export default class RecordedDB implements IRecordedDB {
         });
     }
 
+    /**
+     * 指定した録画にドロップログファイル情報を関連付ける
+     * @param recordedId: apid.RecordedId
+     * @param dropLogFileId: apid.DropLogFileId
+     * @return Promise<void>
+     */
+    public async setDropLogFileId(recordedId: apid.RecordedId, dropLogFileId: apid.DropLogFileId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(Recorded)
+            .set({
+                dropLogFileId: dropLogFileId,
+            })
+            .where({ id: recordedId });
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
     /**
      * 指定した drop log file id を削除する
      * @param dropLogFileId: apid,DropLogFileId
@@ -183,6 +203,46 @@ export default class RecordedDB implements IRecordedDB {
         });
     }
 
+    /**
+     * 再録画で置き換えられた録画として再録画の recorded id をセットする
+     * @param recordedId: apid.RecordedId
+     * @param supersededBy: apid.RecordedId 再録画の recorded id
+     * @return Promise<void>
+     */
+    public async setSupersededBy(recordedId: apid.RecordedId, supersededBy: apid.RecordedId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(Recorded)
+            .set({
+                supersededBy: supersededBy,
+            })
+            .where({ id: recordedId });
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 再録画で置き換えるか判断できなかった録画として再録画の recorded id をセットする
+     * @param recordedId: apid.RecordedId
+     * @param rerecordedBy: apid.RecordedId 再録画の recorded id
+     * @return Promise<void>
+     */
+    public async setRerecordedBy(recordedId: apid.RecordedId, rerecordedBy: apid.RecordedId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(Recorded)
+            .set({
+                rerecordedBy: rerecordedBy,
+            })
+            .where({ id: recordedId });
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
     /**
      * 指定した録画番組情報を 1 件削除
      * @param recordedId: apid.RecordedId
@@ -336,7 +396,26 @@ export default class RecordedDB implements IRecordedDB {
         }
 
         // keyword
+        let fullTextSearch: FullTextSearchQuery | null = null;
         if (typeof option.keyword !== 'undefined') {
+            fullTextSearch = this.op.createFullTextSearchQuery({
+                table: 'recorded',
+                keyword: StrUtil.toHalf(option.keyword),
+                columns: {
+                    name: true,
+                    description: true,
+                    extended: false,
+                },
+                valueName: 'keywordFts',
+            });
+        }
+        if (fullTextSearch !== null) {
+            // 全文検索
+            querys.push({
+                query: `recorded.id in (select keywordFts.id from ${fullTextSearch.subQuery} keywordFts)`,
+                values: fullTextSearch.values,
+            });
+        } else if (typeof option.keyword !== 'undefined') {
             const keywords = StrUtil.toHalf(option.keyword).split(/ /);
             const like = this.op.getLikeStr(false);
             const valueBaseName = 'keyword';
@@ -381,6 +460,11 @@ export default class RecordedDB implements IRecordedDB {
             });
         }
 
+        // 関連度順
+        if (option.sortByRelevance === true && fullTextSearch !== null) {
+            return await this.findAllByRelevance(option, columnOption, querys, fullTextSearch);
+        }
+
         // where セット
         for (const q of querys) {
             queryBuilder = queryBuilder.andWhere(q.query, q.values);
@@ -441,6 +525,84 @@ export default class RecordedDB implements IRecordedDB {
         }
     }
 
+    /**
+     * 全文検索の関連度順で取得する
+     * 関連度は join した sub query の値なので, 関連度順に並べ替えて offset, limit を適用した id のみを取得した後に id を指定して再取得する
+     * @param option: FindAllOption
+     * @param columnOption: RecordedColumnOption
+     * @param querys: 検索条件
+     * @param fullTextSearch: FullTextSearchQuery
+     * @return Promise<[Recorded[], number]>
+     */
+    private async findAllByRelevance(
+        option: FindAllOption,
+        columnOption: RecordedColumnOption,
+        querys: { query: string; values: any }[],
+        fullTextSearch: FullTextSearchQuery,
+    ): Promise<[Recorded[], number]> {
+        const connection = await this.op.getConnection();
+
+        const createQueryBuilder = () => {
+            let queryBuilder = connection
+                .getRepository(Recorded)
+                .createQueryBuilder('recorded')
+                .innerJoin(fullTextSearch.subQuery, 'relevance', 'relevance.id = recorded.id', fullTextSearch.values);
+
+            // オリジナルファイルだけを抽出する場合
+            if (columnOption.isNeedVideoFiles === true && !!option.hasOriginalFile === true) {
+                queryBuilder = queryBuilder.leftJoin('recorded.videoFiles', 'videoFiles');
+            }
+
+            for (const q of querys) {
+                queryBuilder = queryBuilder.andWhere(q.query, q.values);
+            }
+
+            return queryBuilder;
+        };
+
+        // 件数 (videoFiles の join による重複を除外する)
+        const countResult: { cnt: number | string } | undefined = await this.promieRetry.run(() => {
+            return createQueryBuilder().select('COUNT(DISTINCT recorded.id)', 'cnt').getRawOne();
+        });
+        const total = typeof countResult === 'undefined' ? 0 : Number(countResult.cnt);
+
+        // 関連度順 (同じ関連度なら放送開始時刻順) に並べて offset, limit を適用する
+        let queryBuilder = createQueryBuilder()
+            .select('recorded.id', 'id')
+            .groupBy('recorded.id')
+            .addGroupBy('recorded.startAt')
+            .addGroupBy('relevance.score')
+            .orderBy('relevance.score', 'DESC')
+            .addOrderBy('recorded.startAt', option.isReverse ? 'ASC' : 'DESC');
+
+        if (typeof option.offset !== 'undefined') {
+            queryBuilder = queryBuilder.offset(option.offset);
+        }
+        if (typeof option.limit !== 'undefined') {
+            queryBuilder = queryBuilder.limit(option.limit);
+        }
+
+        const rows: { id: number | string }[] = await this.promieRetry.run(() => {
+            return queryBuilder.getRawMany();
+        });
+        const targetIds = rows.map(row => {
+            return Number(row.id);
+        });
+
+        const result = await this.findIds(targetIds, columnOption, option.isReverse);
+        const order: { [recordedId: number]: number } = {};
+        targetIds.forEach((id, i) => {
+            order[id] = i;
+        });
+
+        return [
+            result.sort((a, b) => {
+                return order[a.id] - order[b.id];
+            }),
+            total,
+        ];
+    }
+
     /**
      * channelIdのリストを返す
      * @return Promise<apid.RecordedChannelListItem[]>
@@ -525,4 +687,27 @@ export default class RecordedDB implements IRecordedDB {
             return queryBuilder.getMany();
         });
     }
+
+    /**
+     * 指定した時間帯に録画を開始したドロップログを持つ録画済みの番組情報を取得する
+     * @param startAt: apid.UnixtimeMS
+     * @param endAt: apid.UnixtimeMS
+     * @return Promise<Recorded[]>
+     */
+    public async findDropLogTimeRange(startAt: apid.UnixtimeMS, endAt: apid.UnixtimeMS): Promise<Recorded[]> {
+        const connection = await this.op.getConnection();
+
+        const queryBuilder = connection
+            .getRepository(Recorded)
+            .createQueryBuilder('recorded')
+            .innerJoinAndSelect('recorded.dropLogFile', 'dropLogFile')
+            .where('recorded.isRecording = :isRecording', { isRecording: false })
+            .andWhere('recorded.startAt >= :startAt', { startAt: startAt })
+            .andWhere('recorded.startAt < :endAt', { endAt: endAt })
+            .orderBy('recorded.startAt', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
 }
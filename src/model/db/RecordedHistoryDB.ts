@@ -1,9 +1,11 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
 import RecordedHistory from '../../db/entities/RecordedHistory';
+import StrUtil from '../../util/StrUtil';
 import IPromiseRetry from '../IPromiseRetry';
+import DBUtil from './DBUtil';
 import IDBOperator from './IDBOperator';
-import IRecordedHistoryDB from './IRecordedHistoryDB';
+import IRecordedHistoryDB, { FindOverlapOption, FindRecordedOption } from './IRecordedHistoryDB';
 
 @injectable()
 export default class RecordedHistoryDB implements IRecordedHistoryDB {
@@ -85,13 +87,145 @@ export default class RecordedHistoryDB implements IRecordedHistoryDB {
     }
 
     /**
-     * 全ての録画履歴情報を取得
+     * 1件削除
+     * @param historyId: apid.RecordedHistoryId
+     * @return Promise<void>
+     */
+    public async deleteOnce(historyId: apid.RecordedHistoryId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .delete()
+            .from(RecordedHistory)
+            .where('id = :id', { id: historyId });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 指定した録画の録画履歴を削除
+     * @param option: FindRecordedOption
+     * @return Promise<void>
+     */
+    public async deleteRecorded(option: FindRecordedOption): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .delete()
+            .from(RecordedHistory)
+            .where(
+                'recordedId = :recordedId or (recordedId is null and name = :name and channelId = :channelId and endAt = :endAt)',
+                {
+                    recordedId: option.recordedId,
+                    name: option.name,
+                    channelId: option.channelId,
+                    endAt: option.endAt,
+                },
+            );
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * id を指定して取得
+     * @param historyId: apid.RecordedHistoryId
+     * @return Promise<RecordedHistory | null>
+     */
+    public async findId(historyId: apid.RecordedHistoryId): Promise<RecordedHistory | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(RecordedHistory)
+            .createQueryBuilder()
+            .where('id = :id', { id: historyId });
+
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * 録画履歴情報を取得
+     * @param option: apid.GetRecordedHistoryOption
+     * @return Promise<[RecordedHistory[], number]>
+     */
+    public async findAll(option: apid.GetRecordedHistoryOption = {}): Promise<[RecordedHistory[], number]> {
+        const connection = await this.op.getConnection();
+
+        let queryBuilder = connection.getRepository(RecordedHistory).createQueryBuilder('history');
+
+        // name
+        if (typeof option.name !== 'undefined') {
+            const names = StrUtil.toHalf(option.name).split(/ /);
+            const like = this.op.getLikeStr(false);
+
+            const nameAnd: string[] = [];
+            const values: any = {};
+            names.forEach((str, i) => {
+                const valueName = `name${i}`;
+                values[valueName] = `%${str}%`;
+                nameAnd.push(`history.name ${like} :${valueName}`);
+            });
+
+            queryBuilder = queryBuilder.andWhere(DBUtil.createAndQuery(nameAnd), values);
+        }
+
+        // channelId
+        if (typeof option.channelId !== 'undefined') {
+            queryBuilder = queryBuilder.andWhere('history.channelId = :channelId', { channelId: option.channelId });
+        }
+
+        queryBuilder = queryBuilder.orderBy('history.endAt', 'DESC').addOrderBy('history.id', 'DESC');
+
+        // offset
+        if (typeof option.offset !== 'undefined') {
+            queryBuilder = queryBuilder.skip(option.offset);
+        }
+
+        // limit
+        if (typeof option.limit !== 'undefined') {
+            queryBuilder = queryBuilder.take(option.limit);
+        }
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getManyAndCount();
+        });
+    }
+
+    /**
+     * 重複判定に使用される録画履歴を取得
+     * ProgramDB の重複判定と同じ条件で検索する
+     * @param option: FindOverlapOption
      * @return Promise<RecordedHistory[]>
      */
-    public async findAll(): Promise<RecordedHistory[]> {
+    public async findOverlap(option: FindOverlapOption): Promise<RecordedHistory[]> {
         const connection = await this.op.getConnection();
+        const period =
+            typeof option.periodToAvoidDuplicate !== 'undefined' && option.periodToAvoidDuplicate > 0
+                ? option.periodToAvoidDuplicate * 24 * 60 * 60 * 1000
+                : 0;
+        const now = new Date().getTime();
+
+        let queryBuilder = connection
+            .getRepository(RecordedHistory)
+            .createQueryBuilder('history')
+            .where('history.name = :name', { name: option.name })
+            .andWhere('history.channelId = :channelId', { channelId: option.channelId })
+            .andWhere('history.endAt <= :now', { now: now });
+
+        // 重複検索日数
+        if (period > 0) {
+            queryBuilder = queryBuilder
+                .andWhere('history.endAt >= :periodStartAt', { periodStartAt: now - period })
+                .andWhere(':endAt <= history.endAt + :period', { endAt: option.endAt, period: period });
+        }
 
-        const queryBuilder = connection.getRepository(RecordedHistory).createQueryBuilder();
+        queryBuilder = queryBuilder.orderBy('history.endAt', 'DESC');
 
         return await this.promieRetry.run(() => {
             return queryBuilder.getMany();
@@ -1,5 +1,14 @@
 import { inject, injectable } from 'inversify';
-import { FindOptionsWhere, FindManyOptions, In, IsNull, LessThan, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import {
+    FindOptionsWhere,
+    FindManyOptions,
+    In,
+    IsNull,
+    LessThan,
+    LessThanOrEqual,
+    MoreThanOrEqual,
+    Not,
+} from 'typeorm';
 import * as apid from '../../../api';
 import Reserve from '../../db/entities/Reserve';
 import { IReserveUpdateValues } from '../event/IReserveEvent';
@@ -268,6 +277,63 @@ export default class ReserveDB implements IReserveDB {
         });
     }
 
+    /**
+     * 競合している予約を取得する
+     * @return Promise<Reserve[]>
+     */
+    public async findConflicts(): Promise<Reserve[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(Reserve);
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.find({
+                where: {
+                    isConflict: true,
+                    isSkip: false,
+                    isOverlap: false,
+                },
+                order: {
+                    startAt: 'ASC',
+                },
+            });
+        });
+    }
+
+    /**
+     * 競合の代替として追加された予約を取得する
+     * @return Promise<Reserve[]>
+     */
+    public async findSubstitutes(): Promise<Reserve[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(Reserve);
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.find({
+                where: {
+                    substituteReserveId: Not(IsNull()),
+                },
+            });
+        });
+    }
+
+    /**
+     * 指定した録画の再録画として追加された予約を取得する
+     * @param recordedId: apid.RecordedId
+     * @return Promise<Reserve[]>
+     */
+    public async findRerecordRecordedId(recordedId: apid.RecordedId): Promise<Reserve[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(Reserve);
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.find({
+                where: {
+                    rerecordRecordedId: recordedId,
+                },
+            });
+        });
+    }
+
     /**
      * 指定した時間帯の予約情報を取得する
      * @param option: IFindTimeRangesOption
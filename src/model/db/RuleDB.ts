@@ -243,6 +243,10 @@ export default class RuleDB implements IRuleDB {
                 typeof rule.searchOption.searchPeriods === 'undefined'
                     ? null
                     : JSON.stringify(rule.searchOption.searchPeriods),
+            seriesId: typeof rule.searchOption.seriesId === 'undefined' ? null : rule.searchOption.seriesId,
+            seriesNetworkId:
+                typeof rule.searchOption.seriesNetworkId === 'undefined' ? null : rule.searchOption.seriesNetworkId,
+            keywordQuery: typeof rule.searchOption.keywordQuery === 'undefined' ? null : rule.searchOption.keywordQuery,
             enable: rule.reserveOption.enable,
             avoidDuplicate: rule.reserveOption.avoidDuplicate,
             periodToAvoidDuplicate:
@@ -251,6 +255,10 @@ export default class RuleDB implements IRuleDB {
                     : rule.reserveOption.periodToAvoidDuplicate,
             allowEndLack: rule.reserveOption.allowEndLack,
             tags: typeof rule.reserveOption.tags === 'undefined' ? null : JSON.stringify(rule.reserveOption.tags),
+            disableAfterLastEpisode: !!rule.reserveOption.disableAfterLastEpisode,
+            priority: typeof rule.reserveOption.priority === 'undefined' ? 0 : rule.reserveOption.priority,
+            startPadding: typeof rule.reserveOption.startPadding === 'undefined' ? 0 : rule.reserveOption.startPadding,
+            endPadding: typeof rule.reserveOption.endPadding === 'undefined' ? 0 : rule.reserveOption.endPadding,
             parentDirectoryName: null,
             directory: null,
             recordedFormat: null,
@@ -338,6 +346,10 @@ export default class RuleDB implements IRuleDB {
                 enable: rule.enable,
                 allowEndLack: rule.allowEndLack,
                 avoidDuplicate: rule.avoidDuplicate,
+                disableAfterLastEpisode: rule.disableAfterLastEpisode,
+                priority: rule.priority,
+                startPadding: rule.startPadding,
+                endPadding: rule.endPadding,
             },
         };
 
@@ -368,6 +380,15 @@ export default class RuleDB implements IRuleDB {
         if (rule.searchPeriods !== null) {
             convertedRule.searchOption.searchPeriods = JSON.parse(rule.searchPeriods);
         }
+        if (rule.seriesId !== null) {
+            convertedRule.searchOption.seriesId = rule.seriesId;
+        }
+        if (rule.seriesNetworkId !== null) {
+            convertedRule.searchOption.seriesNetworkId = rule.seriesNetworkId;
+        }
+        if (rule.keywordQuery !== null) {
+            convertedRule.searchOption.keywordQuery = rule.keywordQuery;
+        }
 
         /**
          * 予約オプションセット
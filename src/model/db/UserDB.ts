@@ -0,0 +1,188 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
+import User from '../../db/entities/User';
+import IPromiseRetry from '../IPromiseRetry';
+import IDBOperator from './IDBOperator';
+import IUserDB, { UserDBErrors } from './IUserDB';
+
+@injectable()
+export default class UserDB implements IUserDB {
+    private op: IDBOperator;
+    private promieRetry: IPromiseRetry;
+
+    constructor(@inject('IDBOperator') op: IDBOperator, @inject('IPromiseRetry') promieRetry: IPromiseRetry) {
+        this.op = op;
+        this.promieRetry = promieRetry;
+    }
+
+    /**
+     * バックアップから復元
+     * @param items: User[]
+     * @return Promise<void>
+     */
+    public async restore(items: User[]): Promise<void> {
+        // get queryRunner
+        const connection = await this.op.getConnection();
+        const queryRunner = connection.createQueryRunner();
+
+        // start transaction
+        await queryRunner.startTransaction();
+
+        let hasError = false;
+        try {
+            // 削除
+            await queryRunner.manager.delete(User, {});
+
+            // 挿入処理
+            for (const item of items) {
+                await queryRunner.manager.insert(User, item);
+            }
+            await queryRunner.commitTransaction();
+        } catch (err: any) {
+            console.error(err);
+            hasError = err;
+            await queryRunner.rollbackTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        if (hasError) {
+            throw new Error('restore error');
+        }
+    }
+
+    /**
+     * ユーザー情報を 1 件挿入
+     * @param user: User
+     * @return Promise<apid.UserId> inserted id
+     */
+    public async insertOnce(user: User): Promise<apid.UserId> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().insert().into(User).values(user);
+
+        const insertedResult = await this.promieRetry.run(async () => {
+            try {
+                return await queryBuilder.execute();
+            } catch (err: any) {
+                // 一意制約違反は retry しても解消しない
+                if (this.op.isUniqueConstraintError(err) === true) {
+                    return null;
+                }
+
+                throw err;
+            }
+        });
+
+        if (insertedResult === null) {
+            throw new Error(UserDBErrors.DUPLICATE_NAME);
+        }
+
+        return insertedResult.identifiers[0].id;
+    }
+
+    /**
+     * パスワードのハッシュ値を更新
+     * @param userId: apid.UserId
+     * @param passwordHash: string
+     * @return Promise<void>
+     */
+    public async updatePasswordHash(userId: apid.UserId, passwordHash: string): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(User)
+            .set({
+                passwordHash: passwordHash,
+            })
+            .where({ id: userId });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 権限を更新
+     * @param userId: apid.UserId
+     * @param role: apid.UserRole
+     * @return Promise<void>
+     */
+    public async updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(User)
+            .set({
+                role: role,
+            })
+            .where({ id: userId });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * ユーザー情報を 1 件削除
+     * @param userId: apid.UserId
+     * @return Promise<void>
+     */
+    public async deleteOnce(userId: apid.UserId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().delete().from(User).where({
+            id: userId,
+        });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * id を指定して取得する
+     * @param userId: apid.UserId
+     * @return Promise<User | null>
+     */
+    public async findId(userId: apid.UserId): Promise<User | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(User).createQueryBuilder().where({
+            id: userId,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * ユーザー名を指定して取得する
+     * @param name: string
+     * @return Promise<User | null>
+     */
+    public async findName(name: string): Promise<User | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(User).createQueryBuilder().where({
+            name: name,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * 全てのユーザー情報を取得
+     * @return Promise<User[]>
+     */
+    public async findAll(): Promise<User[]> {
+        const connection = await this.op.getConnection();
+
+        const queryBuilder = connection.getRepository(User).createQueryBuilder().orderBy('id', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+}
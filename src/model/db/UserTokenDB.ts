@@ -0,0 +1,194 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
+import UserToken from '../../db/entities/UserToken';
+import IPromiseRetry from '../IPromiseRetry';
+import IDBOperator from './IDBOperator';
+import IUserTokenDB from './IUserTokenDB';
+
+@injectable()
+export default class UserTokenDB implements IUserTokenDB {
+    private op: IDBOperator;
+    private promieRetry: IPromiseRetry;
+
+    constructor(@inject('IDBOperator') op: IDBOperator, @inject('IPromiseRetry') promieRetry: IPromiseRetry) {
+        this.op = op;
+        this.promieRetry = promieRetry;
+    }
+
+    /**
+     * バックアップから復元
+     * @param items: UserToken[]
+     * @return Promise<void>
+     */
+    public async restore(items: UserToken[]): Promise<void> {
+        // get queryRunner
+        const connection = await this.op.getConnection();
+        const queryRunner = connection.createQueryRunner();
+
+        // start transaction
+        await queryRunner.startTransaction();
+
+        let hasError = false;
+        try {
+            // 削除
+            await queryRunner.manager.delete(UserToken, {});
+
+            // 挿入処理
+            for (const item of items) {
+                await queryRunner.manager.insert(UserToken, item);
+            }
+            await queryRunner.commitTransaction();
+        } catch (err: any) {
+            console.error(err);
+            hasError = err;
+            await queryRunner.rollbackTransaction();
+        } finally {
+            await queryRunner.release();
+        }
+
+        if (hasError) {
+            throw new Error('restore error');
+        }
+    }
+
+    /**
+     * トークン情報を 1 件挿入
+     * @param token: UserToken
+     * @return Promise<apid.UserTokenId> inserted id
+     */
+    public async insertOnce(token: UserToken): Promise<apid.UserTokenId> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().insert().into(UserToken).values(token);
+
+        const insertedResult = await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+
+        return insertedResult.identifiers[0].id;
+    }
+
+    /**
+     * トークン情報を 1 件削除
+     * @param tokenId: apid.UserTokenId
+     * @return Promise<void>
+     */
+    public async deleteOnce(tokenId: apid.UserTokenId): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().delete().from(UserToken).where({
+            id: tokenId,
+        });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 指定したユーザーのトークン情報を削除
+     * @param userId: apid.UserId
+     * @param type: string 指定した場合はその種類のトークンのみ削除する
+     * @return Promise<void>
+     */
+    public async deleteUserId(userId: apid.UserId, type?: string): Promise<void> {
+        const connection = await this.op.getConnection();
+        const where: { userId: apid.UserId; type?: string } = {
+            userId: userId,
+        };
+        if (typeof type !== 'undefined') {
+            where.type = type;
+        }
+        const queryBuilder = connection.createQueryBuilder().delete().from(UserToken).where(where);
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 指定した時刻までに有効期限が切れたトークンを削除
+     * @param time: apid.UnixtimeMS
+     * @return Promise<void>
+     */
+    public async deleteExpired(time: apid.UnixtimeMS): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .delete()
+            .from(UserToken)
+            .where('expiresAt is not null')
+            .andWhere('expiresAt <= :time', { time: time });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * id を指定して取得する
+     * @param tokenId: apid.UserTokenId
+     * @return Promise<UserToken | null>
+     */
+    public async findId(tokenId: apid.UserTokenId): Promise<UserToken | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(UserToken).createQueryBuilder().where({
+            id: tokenId,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * トークンのハッシュ値を指定して取得する
+     * @param tokenHash: string
+     * @return Promise<UserToken | null>
+     */
+    public async findTokenHash(tokenHash: string): Promise<UserToken | null> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.getRepository(UserToken).createQueryBuilder().where({
+            tokenHash: tokenHash,
+        });
+        const result = await this.promieRetry.run(() => {
+            return queryBuilder.getOne();
+        });
+
+        return typeof result === 'undefined' ? null : result;
+    }
+
+    /**
+     * 指定したユーザーの api トークン一覧を取得する
+     * @param userId: apid.UserId
+     * @return Promise<UserToken[]>
+     */
+    public async findUserApiTokens(userId: apid.UserId): Promise<UserToken[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(UserToken)
+            .createQueryBuilder()
+            .where({
+                userId: userId,
+                type: 'api',
+            })
+            .orderBy('id', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+
+    /**
+     * 全てのトークン情報を取得
+     * @return Promise<UserToken[]>
+     */
+    public async findAll(): Promise<UserToken[]> {
+        const connection = await this.op.getConnection();
+
+        const queryBuilder = connection.getRepository(UserToken).createQueryBuilder();
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+}
@@ -0,0 +1,133 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
+import WebhookDelivery from '../../db/entities/WebhookDelivery';
+import IPromiseRetry from '../IPromiseRetry';
+import IDBOperator from './IDBOperator';
+import IWebhookDeliveryDB, { WebhookDeliveryUpdateValues } from './IWebhookDeliveryDB';
+
+@injectable()
+export default class WebhookDeliveryDB implements IWebhookDeliveryDB {
+    private op: IDBOperator;
+    private promieRetry: IPromiseRetry;
+
+    constructor(@inject('IDBOperator') op: IDBOperator, @inject('IPromiseRetry') promieRetry: IPromiseRetry) {
+        this.op = op;
+        this.promieRetry = promieRetry;
+    }
+
+    /**
+     * 送信ログを 1 件挿入
+     * @param delivery: WebhookDelivery
+     * @return Promise<apid.WebhookDeliveryId> inserted id
+     */
+    public async insertOnce(delivery: WebhookDelivery): Promise<apid.WebhookDeliveryId> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection.createQueryBuilder().insert().into(WebhookDelivery).values(delivery);
+
+        const insertedResult = await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+
+        return insertedResult.identifiers[0].id;
+    }
+
+    /**
+     * 送信結果を更新
+     * @param deliveryId: apid.WebhookDeliveryId
+     * @param values: WebhookDeliveryUpdateValues
+     * @return Promise<void>
+     */
+    public async updateOnce(deliveryId: apid.WebhookDeliveryId, values: WebhookDeliveryUpdateValues): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .update(WebhookDelivery)
+            .set({
+                state: values.state,
+                attempts: values.attempts,
+                statusCode: values.statusCode,
+                errorMessage: values.errorMessage,
+                nextRetryAt: values.nextRetryAt,
+                updatedAt: values.updatedAt,
+            })
+            .where({
+                id: deliveryId,
+            });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 指定した時刻より前に作成された送信ログを削除
+     * @param time: apid.UnixtimeMS
+     * @return Promise<void>
+     */
+    public async deleteOld(time: apid.UnixtimeMS): Promise<void> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .createQueryBuilder()
+            .delete()
+            .from(WebhookDelivery)
+            .where('createdAt < :time', { time: time });
+
+        await this.promieRetry.run(() => {
+            return queryBuilder.execute();
+        });
+    }
+
+    /**
+     * 送信ログを新しい順に取得する
+     * @param option: apid.GetWebhookDeliveriesOption
+     * @return Promise<[WebhookDelivery[], number]>
+     */
+    public async findAll(option: apid.GetWebhookDeliveriesOption): Promise<[WebhookDelivery[], number]> {
+        const connection = await this.op.getConnection();
+
+        let queryBuilder = connection.getRepository(WebhookDelivery).createQueryBuilder();
+
+        // event
+        if (typeof option.event !== 'undefined') {
+            queryBuilder = queryBuilder.andWhere('event = :event', { event: option.event });
+        }
+
+        // state
+        if (typeof option.state !== 'undefined') {
+            queryBuilder = queryBuilder.andWhere('state = :state', { state: option.state });
+        }
+
+        queryBuilder = queryBuilder.orderBy('id', 'DESC');
+
+        // offset
+        if (typeof option.offset !== 'undefined') {
+            queryBuilder = queryBuilder.skip(option.offset);
+        }
+
+        // limit
+        if (typeof option.limit !== 'undefined') {
+            queryBuilder = queryBuilder.take(option.limit);
+        }
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getManyAndCount();
+        });
+    }
+
+    /**
+     * 送信が完了していない (pending | retrying) 送信ログを古い順に取得する
+     * @return Promise<WebhookDelivery[]>
+     */
+    public async findUnfinished(): Promise<WebhookDelivery[]> {
+        const connection = await this.op.getConnection();
+        const queryBuilder = connection
+            .getRepository(WebhookDelivery)
+            .createQueryBuilder()
+            .where('state in (:...states)', { states: ['pending', 'retrying'] })
+            .orderBy('id', 'ASC');
+
+        return await this.promieRetry.run(() => {
+            return queryBuilder.getMany();
+        });
+    }
+}
@@ -3,7 +3,7 @@ import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
 import ILogger from '../ILogger';
 import ILoggerModel from '../ILoggerModel';
-import IEncodeEvent, { FinishEncodeInfo } from './IEncodeEvent';
+import IEncodeEvent, { ErrorEncodeInfo, FinishEncodeInfo } from './IEncodeEvent';
 
 @injectable()
 class EncodeEvent implements IEncodeEvent {
@@ -40,22 +40,24 @@ class EncodeEvent implements IEncodeEvent {
 
     /**
      * エンコード失敗イベント発行
+     * @param info: ErrorEncodeInfo
      */
-    public emitErrorEncode(): void {
-        this.emitter.emit(EncodeEvent.ERROR_ENCODE_EVENT);
+    public emitErrorEncode(info: ErrorEncodeInfo): void {
+        this.emitter.emit(EncodeEvent.ERROR_ENCODE_EVENT, info);
     }
 
     /**
      * エンコード進捗情報更新イベント発行
+     * @param item: apid.EncodeProgressItem
      */
-    public emitUpdateEncodeProgress(): void {
-        this.emitter.emit(EncodeEvent.UPDATE_ENCODE_PROGRESS_EVENT);
+    public emitUpdateEncodeProgress(item: apid.EncodeProgressItem): void {
+        this.emitter.emit(EncodeEvent.UPDATE_ENCODE_PROGRESS_EVENT, item);
     }
 
     /**
-     * エンコード更新イベント発行
+     * エンコード状態更新イベント発行
      */
-    public emitupdateEncode(): void {
+    public emitUpdateEncode(): void {
         this.emitter.emit(EncodeEvent.UPDATE_ENCODE_EVENT);
     }
 
@@ -103,12 +105,12 @@ class EncodeEvent implements IEncodeEvent {
 
     /**
      * エンコード失敗イベント登録
-     * @param callback: callback: () => void
+     * @param callback: (info: ErrorEncodeInfo) => void
      */
-    public setErrorEncode(callback: () => void): void {
-        this.emitter.on(EncodeEvent.ERROR_ENCODE_EVENT, async () => {
+    public setErrorEncode(callback: (info: ErrorEncodeInfo) => void): void {
+        this.emitter.on(EncodeEvent.ERROR_ENCODE_EVENT, async (info: ErrorEncodeInfo) => {
             try {
-                await callback();
+                await callback(info);
             } catch (err: any) {
                 this.log.system.error(err);
             }
@@ -116,7 +118,7 @@ class EncodeEvent implements IEncodeEvent {
     }
 
     /**
-     * エンコード更新イベント登録
+     * エンコード状態更新イベント登録
      * @param callback: callback: () => void
      */
     public setUpdateEncode(callback: () => void): void {
@@ -131,12 +133,12 @@ class EncodeEvent implements IEncodeEvent {
 
     /**
      * エンコード進捗更新イベント登録
-     * @param callback: callback: () => void
+     * @param callback: (item: apid.EncodeProgressItem) => void
      */
-    public setUpdateEncodeProgress(callback: () => void): void {
-        this.emitter.on(EncodeEvent.UPDATE_ENCODE_PROGRESS_EVENT, async () => {
+    public setUpdateEncodeProgress(callback: (item: apid.EncodeProgressItem) => void): void {
+        this.emitter.on(EncodeEvent.UPDATE_ENCODE_PROGRESS_EVENT, async (item: apid.EncodeProgressItem) => {
             try {
-                await callback();
+                await callback(item);
             } catch (err: any) {
                 this.log.system.error(err);
             }
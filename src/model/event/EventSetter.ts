@@ -1,16 +1,23 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
+import Recorded from '../../db/entities/Recorded';
+import Reserve from '../../db/entities/Reserve';
+import SeriesUtil from '../../util/SeriesUtil';
 import IConfigFile from '../IConfigFile';
 import IConfiguration from '../IConfiguration';
 import ILogger from '../ILogger';
 import ILoggerModel from '../ILoggerModel';
 import IIPCServer from '../ipc/IIPCServer';
 import IExternalCommandManageModel from '../operator/externalCommand/IExternalCommandManageModel';
+import IReceptionQualityManageModel from '../operator/receptionQuality/IReceptionQualityManageModel';
 import IRecordedManageModel from '../operator/recorded/IRecordedManageModel';
 import IRecordedTagManadeModel from '../operator/recordedTag/IRecordedTagManadeModel';
 import IRecordingManageModel from '../operator/recording/IRecordingManageModel';
 import IReservationManageModel from '../operator/reservation/IReservationManageModel';
+import IRuleManageModel from '../operator/rule/IRuleManageModel';
 import IThumbnailManageModel from '../operator/thumbnail/IThumbnailManageModel';
+import IUserManageModel from '../operator/user/IUserManageModel';
+import IWebhookManageModel from '../operator/webhook/IWebhookManageModel';
 import IOperatorEncodeEvent from './IOperatorEncodeEvent';
 import IEPGUpdateEvent from './IEPGUpdateEvent';
 import IEventSetter from './IEventSetter';
@@ -37,7 +44,11 @@ export default class EventSetter implements IEventSetter {
     private recordedManage: IRecordedManageModel;
     private recordedTagManage: IRecordedTagManadeModel;
     private thumbnailManage: IThumbnailManageModel;
+    private ruleManage: IRuleManageModel;
     private externalCommandManage: IExternalCommandManageModel;
+    private webhookManage: IWebhookManageModel;
+    private userManage: IUserManageModel;
+    private receptionQualityManage: IReceptionQualityManageModel;
     private ipc: IIPCServer;
     private config: IConfigFile;
 
@@ -59,7 +70,11 @@ export default class EventSetter implements IEventSetter {
         @inject('IRecordedManageModel') recordedManage: IRecordedManageModel,
         @inject('IRecordedTagManadeModel') recordedTagManage: IRecordedTagManadeModel,
         @inject('IThumbnailManageModel') thumbnailManage: IThumbnailManageModel,
+        @inject('IRuleManageModel') ruleManage: IRuleManageModel,
         @inject('IExternalCommandManageModel') externalCommandManage: IExternalCommandManageModel,
+        @inject('IWebhookManageModel') webhookManage: IWebhookManageModel,
+        @inject('IUserManageModel') userManage: IUserManageModel,
+        @inject('IReceptionQualityManageModel') receptionQualityManage: IReceptionQualityManageModel,
         @inject('IIPCServer') ipc: IIPCServer,
         @inject('IConfiguration') configure: IConfiguration,
     ) {
@@ -77,7 +92,11 @@ export default class EventSetter implements IEventSetter {
         this.recordedManage = recordedManage;
         this.recordedTagManage = recordedTagManage;
         this.thumbnailManage = thumbnailManage;
+        this.ruleManage = ruleManage;
         this.externalCommandManage = externalCommandManage;
+        this.webhookManage = webhookManage;
+        this.userManage = userManage;
+        this.receptionQualityManage = receptionQualityManage;
         this.ipc = ipc;
         this.config = configure.getConfig();
     }
@@ -89,6 +108,20 @@ export default class EventSetter implements IEventSetter {
         // EPG 更新完了イベント
         this.epgUpdateEvent.setUpdated(async () => {
             await this.recordedManage.historyCleanup().catch(() => {});
+            await this.userManage.cleanupExpiredTokens().catch(err => {
+                this.log.system.error('failed to cleanup expired tokens');
+                this.log.system.error(err);
+            });
+            await this.webhookManage.cleanupDeliveries().catch(err => {
+                this.log.system.error('failed to cleanup webhook deliveries');
+                this.log.system.error(err);
+            });
+            await this.receptionQualityManage.cleanup().catch(err => {
+                this.log.system.error('failed to cleanup reception qualities');
+                this.log.system.error(err);
+            });
+
+            this.webhookManage.addEPGUpdated();
 
             await this.reservationManage.updateAll(this.isFirstreserveationUpdate);
             this.isFirstreserveationUpdate = false;
@@ -96,31 +129,51 @@ export default class EventSetter implements IEventSetter {
 
         // ルール追加イベント
         this.ruleEvent.setAdded(ruleId => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'rule',
+                type: 'added',
+                ruleId: ruleId,
+            });
             this.reservationManage.updateRule(ruleId);
         });
 
         // ルール更新イベント
         this.ruleEvent.setUpdated(ruleId => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'rule',
+                type: 'updated',
+                ruleId: ruleId,
+            });
             this.reservationManage.updateRule(ruleId);
         });
 
         // ルール有効化イベント
         this.ruleEvent.setEnabled(ruleId => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'rule',
+                type: 'enabled',
+                ruleId: ruleId,
+            });
             this.reservationManage.updateRule(ruleId);
         });
 
         // ルール無効化イベント
         this.ruleEvent.setDisabled(ruleId => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'rule',
+                type: 'disabled',
+                ruleId: ruleId,
+            });
             this.reservationManage.updateRule(ruleId);
         });
 
         // ルール削除イベント
         this.ruleEvent.setDeleted(ruleId => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'rule',
+                type: 'deleted',
+                ruleId: ruleId,
+            });
             this.recordedManage.removeRuleId(ruleId).catch(err => {
                 this.log.system.error(`failed to remove ruleId from recorded. ruleId: ${ruleId}`);
                 this.log.system.error(err);
@@ -133,30 +186,58 @@ export default class EventSetter implements IEventSetter {
 
         // 予約情報更新イベント
         this.reserveEvent.setUpdated(diff => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'reserve',
+                type: 'updated',
+                insert: this.getReserveIds(diff.insert),
+                update: this.getReserveIds(diff.update),
+                delete: this.getReserveIds(diff.delete),
+            });
             this.recordingManage.update(diff);
 
+            // 競合した予約の代替予約を追加 (無効な場合は残っている代替予約を削除する)
+            this.reservationManage.resolveConflicts().catch(err => {
+                this.log.system.error('failed to resolve conflicts');
+                this.log.system.error(err);
+            });
+
             // コマンド実行
             this.externalCommandManage.addUpdateReseves(diff);
+            this.webhookManage.addUpdateReseves(diff);
         });
 
         // 録画準備開始イベント
         this.recordingEvent.setStartPrepRecording(reserve => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'prepStarted',
+                reserveId: reserve.id,
+            });
             this.externalCommandManage.addRecordingPrepStartCmd(reserve);
+            this.webhookManage.addRecordingPrepStart(reserve);
         });
 
         // 録画準備キャンセルイベント
         this.recordingEvent.setCancelPrepRecording(reserve => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'prepCanceled',
+                reserveId: reserve.id,
+            });
             this.externalCommandManage.addRecordingPrepRecFailedCmd(reserve);
+            this.webhookManage.addRecordingPrepRecFailed(reserve);
         });
 
         // 録画準備失敗イベント
         this.recordingEvent.setPrepRecordingFailed(reserve => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'prepFailed',
+                reserveId: reserve.id,
+            });
             this.reservationManage.cancel(reserve.id); // 予約から削除
             this.externalCommandManage.addRecordingPrepRecFailedCmd(reserve);
+            this.webhookManage.addRecordingPrepRecFailed(reserve);
         });
 
         // 録画開始イベント
@@ -169,16 +250,57 @@ export default class EventSetter implements IEventSetter {
                 });
             }
 
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'started',
+                reserveId: reserve.id,
+                recordedId: recorded.id,
+            });
             this.externalCommandManage.addRecordingStartCmd(recorded);
+            this.webhookManage.addRecordingStart(reserve, recorded);
         });
 
         // 録画失敗イベント
-        this.recordingEvent.setRecordingFailed((_reserve, recorded) => {
-            this.ipc.notifyClient();
+        this.recordingEvent.setRecordingFailed((reserve, recorded) => {
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'failed',
+                reserveId: reserve.id,
+                recordedId: recorded === null ? undefined : recorded.id,
+            });
             if (recorded !== null) {
                 this.externalCommandManage.addRecordingFailedCmd(recorded);
+
+                // 再録画予約を追加 (再録画の失敗では再録画を繰り返さない)
+                if (this.config.isEnabledAutoRerecord === true && reserve.rerecordRecordedId === null) {
+                    this.addRerecord(reserve, recorded);
+                }
             }
+            this.webhookManage.addRecordingFailed(reserve, recorded);
+        });
+
+        // 録画中のドロップ数更新イベント
+        this.recordingEvent.setRecordingDropUpdated((reserve, recordedId, dropCnts) => {
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'dropUpdated',
+                reserveId: reserve.id,
+                recordedId: recordedId,
+                dropCnts: dropCnts,
+            });
+        });
+
+        // 録画中のドロップ数が閾値を超えたイベント
+        this.recordingEvent.setRecordingDropThreshold((reserve, recorded, dropCnts) => {
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'dropThreshold',
+                reserveId: reserve.id,
+                recordedId: recorded.id,
+                dropCnts: dropCnts,
+            });
+            this.externalCommandManage.addRecordingDropThresholdCmd(recorded);
+            this.webhookManage.addRecordingDropThreshold(reserve, recorded, dropCnts);
         });
 
         // 録画リトライオーバーイベント
@@ -199,6 +321,27 @@ export default class EventSetter implements IEventSetter {
                 }
             }
 
+            // ドロップが多ければ再録画予約を追加する
+            // 再録画が完了したら閾値に関わらず元の録画と比較してドロップの多い方を置き換え, 再録画は繰り返さない
+            if (this.config.isEnabledAutoRerecord === true && isNeedDeleteReservation === true) {
+                if (reserve.rerecordRecordedId !== null) {
+                    this.recordedManage.supersede(reserve.rerecordRecordedId, recorded).catch(err => {
+                        this.log.system.error(`failed to supersede recorded: ${reserve.rerecordRecordedId}`);
+                        this.log.system.error(err);
+                    });
+                } else if (this.isOverRerecordDropThreshold(recorded) === true) {
+                    this.addRerecord(reserve, recorded);
+                }
+            }
+
+            // シリーズ最終話を録画したらルールを無効化する
+            if (reserve.ruleId !== null && SeriesUtil.isLastEpisode(recorded) === true) {
+                this.ruleManage.disableAfterLastEpisode(reserve.ruleId).catch(err => {
+                    this.log.system.error(`failed to disable rule after last episode: ${reserve.ruleId}`);
+                    this.log.system.error(err);
+                });
+            }
+
             if (typeof recorded.videoFiles !== 'undefined' && recorded.videoFiles.length > 0) {
                 // サムネイル作成
                 this.thumbnailManage.add(recorded.videoFiles[0].id);
@@ -259,23 +402,41 @@ export default class EventSetter implements IEventSetter {
 
             // コマンド実行
             this.externalCommandManage.addRecordingFinishCmd(recorded);
+            this.webhookManage.addRecordingFinish(reserve, recorded);
 
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recording',
+                type: 'finished',
+                reserveId: reserve.id,
+                recordedId: recorded.id,
+            });
         });
 
         // サムネイル作成完了
-        this.thumbnailEvent.setAdded((_videoFileId, _recordedId) => {
-            this.ipc.notifyClient();
+        this.thumbnailEvent.setAdded((videoFileId, recordedId) => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'thumbnailAdded',
+                recordedId: recordedId,
+                videoFileId: videoFileId,
+            });
         });
 
         // サムネイル削除
         this.thumbnailEvent.setDeleted(() => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'thumbnailDeleted',
+            });
         });
 
         // 録画削除
         this.recordedEvent.setDeleteRecorded(recorded => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'deleted',
+                recordedId: recorded.id,
+            });
 
             // cancel reserve
             if (recorded.isRecording === true && recorded.reserveId !== null) {
@@ -284,23 +445,39 @@ export default class EventSetter implements IEventSetter {
         });
 
         // video file サイズ更新
-        this.recordedEvent.setUpdateVideoFileSize(() => {
-            this.ipc.notifyClient();
+        this.recordedEvent.setUpdateVideoFileSize(videoFileId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'videoFileUpdated',
+                videoFileId: videoFileId,
+            });
         });
 
         // video file 追加
-        this.recordedEvent.setAddVideoFile(() => {
-            this.ipc.notifyClient();
+        this.recordedEvent.setAddVideoFile(videoFileId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'videoFileAdded',
+                videoFileId: videoFileId,
+            });
         });
 
         // 録画済み番組新規追加
-        this.recordedEvent.setCreateNewRecorded(() => {
-            this.ipc.notifyClient();
+        this.recordedEvent.setCreateNewRecorded(recordedId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'added',
+                recordedId: recordedId,
+            });
         });
 
         // upload video file
         this.recordedEvent.setAddUploadedVideoFile((videoFileId, needsCreateThumbnail) => {
-            this.ipc.notifyClient();
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'videoFileAdded',
+                videoFileId: videoFileId,
+            });
             // サムネイル作成
             if (needsCreateThumbnail === true) {
                 this.thumbnailManage.add(videoFileId);
@@ -308,46 +485,142 @@ export default class EventSetter implements IEventSetter {
         });
 
         // video file 削除
-        this.recordedEvent.setDeleteVideoFile(() => {
-            this.ipc.notifyClient();
+        this.recordedEvent.setDeleteVideoFile(videoFileId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'videoFileDeleted',
+                videoFileId: videoFileId,
+            });
         });
 
         // タグ作成
-        this.recordedTagEvent.setCreated(_tag => {
-            this.ipc.notifyClient();
+        this.recordedTagEvent.setCreated(tag => {
+            this.ipc.notifyClient({
+                category: 'tag',
+                type: 'created',
+                tagId: tag.id,
+            });
         });
 
         // タグ更新
-        this.recordedTagEvent.setUpdated(_tagId => {
-            this.ipc.notifyClient();
+        this.recordedTagEvent.setUpdated(tagId => {
+            this.ipc.notifyClient({
+                category: 'tag',
+                type: 'updated',
+                tagId: tagId,
+            });
         });
 
         // タグ関連付け
-        this.recordedTagEvent.setRelated((_tagId, _recordedId) => {
-            this.ipc.notifyClient();
+        this.recordedTagEvent.setRelated((tagId, recordedId) => {
+            this.ipc.notifyClient({
+                category: 'tag',
+                type: 'related',
+                tagId: tagId,
+                recordedId: recordedId,
+            });
         });
 
         // タグ削除
-        this.recordedTagEvent.setDeleted(_tagId => {
-            this.ipc.notifyClient();
+        this.recordedTagEvent.setDeleted(tagId => {
+            this.ipc.notifyClient({
+                category: 'tag',
+                type: 'deleted',
+                tagId: tagId,
+            });
         });
 
         // タグ関連付け削除
-        this.recordedTagEvent.setDeletedRelation((_tagId, _recordedId) => {
-            this.ipc.notifyClient();
+        this.recordedTagEvent.setDeletedRelation((tagId, recordedId) => {
+            this.ipc.notifyClient({
+                category: 'tag',
+                type: 'unrelated',
+                tagId: tagId,
+                recordedId: recordedId,
+            });
         });
 
         // 保護状態変更
-        this.recordedEvent.setChangeProtect(() => {
-            this.ipc.notifyClient();
+        this.recordedEvent.setChangeProtect(recordedId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'protectChanged',
+                recordedId: recordedId,
+            });
+        });
+
+        // 録画番組情報更新
+        this.recordedEvent.setUpdateRecorded(recordedId => {
+            this.ipc.notifyClient({
+                category: 'recorded',
+                type: 'updated',
+                recordedId: recordedId,
+            });
+        });
+
+        // 録画履歴削除
+        this.recordedEvent.setDeleteHistory(async () => {
+            // 重複状態を再計算するため予約を更新する
+            await this.reservationManage.updateAll().catch(err => {
+                this.log.system.error('failed to update reservations after deleting recorded history');
+                this.log.system.error(err);
+            });
         });
 
         // エンコード完了
         this.encodeEvent.setFinishEncode(info => {
             this.externalCommandManage.addEncodingFinishCmd(info);
+            this.webhookManage.addEncodingFinish(info);
+        });
+
+        // エンコード失敗
+        this.encodeEvent.setErrorEncode(info => {
+            this.webhookManage.addEncodingError(info);
+        });
+    }
+
+    /**
+     * 再録画予約を追加する
+     * @param reserve: Reserve 録画に使用した予約
+     * @param recorded: Recorded 失敗またはドロップの多かった録画
+     */
+    private addRerecord(reserve: Reserve, recorded: Recorded): void {
+        this.reservationManage.addRerecord(reserve, recorded).catch(err => {
+            this.log.system.error(`failed to add rerecord reservation: ${recorded.id}`);
+            this.log.system.error(err);
         });
     }
 
+    /**
+     * 録画のドロップ数が再録画の閾値を超えているか
+     * @param recorded: Recorded
+     * @return boolean
+     */
+    private isOverRerecordDropThreshold(recorded: Recorded): boolean {
+        if (
+            typeof this.config.autoRerecordDropThreshold === 'undefined' ||
+            typeof recorded.dropLogFile === 'undefined' ||
+            recorded.dropLogFile === null
+        ) {
+            return false;
+        }
+
+        return recorded.dropLogFile.dropCnt > this.config.autoRerecordDropThreshold;
+    }
+
+    /**
+     * 予約情報の差分から予約 id 一覧を取り出す
+     * @param reserves: Reserve[] | undefined
+     * @return apid.ReserveId[]
+     */
+    private getReserveIds(reserves: Reserve[] | undefined): apid.ReserveId[] {
+        return typeof reserves === 'undefined'
+            ? []
+            : reserves.map(r => {
+                  return r.id;
+              });
+    }
+
     /**
      * 指定した recordedId に tag 情報を関連付けさせる
      * @param recordedId: apid.RecordedId
@@ -1,6 +1,7 @@
 import * as apid from '../../../api';
 
 export interface FinishEncodeInfo {
+    encodeId: apid.EncodeId;
     recordedId: apid.RecordedId;
     videoFileId: apid.VideoFileId;
     parentDirName: string; // 親ディレクトリ名
@@ -10,15 +11,24 @@ export interface FinishEncodeInfo {
     removeOriginal: boolean; // ts を削除するか
 }
 
+export interface ErrorEncodeInfo {
+    encodeId: apid.EncodeId;
+    recordedId: apid.RecordedId;
+    videoFileId: apid.VideoFileId;
+    mode: string; // エンコードモード名
+}
+
 export default interface IEncodeEvent {
     emitAddEncode(encodeId: apid.EncodeId): void;
     emitCancelEncode(encodeId: apid.EncodeId): void;
     emitFinishEncode(info: FinishEncodeInfo): void;
-    emitErrorEncode(): void;
-    emitUpdateEncodeProgress(): void;
+    emitErrorEncode(info: ErrorEncodeInfo): void;
+    emitUpdateEncodeProgress(item: apid.EncodeProgressItem): void;
+    emitUpdateEncode(): void;
     setAddEncode(callback: (encodeId: apid.EncodeId) => void): void;
     setCancelEncode(callback: (encodeId: apid.EncodeId) => void): void;
     setFinishEncode(callback: (info: FinishEncodeInfo) => void): void;
-    setErrorEncode(callback: () => void): void;
-    setUpdateEncodeProgress(callback: () => void): void;
+    setErrorEncode(callback: (info: ErrorEncodeInfo) => void): void;
+    setUpdateEncodeProgress(callback: (item: apid.EncodeProgressItem) => void): void;
+    setUpdateEncode(callback: () => void): void;
 }
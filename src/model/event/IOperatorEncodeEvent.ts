@@ -9,7 +9,18 @@ export interface OperatorFinishEncodeInfo {
     mode: string; // エンコードモード名
 }
 
+/**
+ * 失敗したエンコード情報
+ */
+export interface OperatorErrorEncodeInfo {
+    recordedId: apid.RecordedId;
+    videoFileId: apid.VideoFileId; // エンコード元のビデオファイル
+    mode: string; // エンコードモード名
+}
+
 export default interface IOperatorEncodeEvent {
     emitFinishEncode(info: OperatorFinishEncodeInfo): void;
+    emitErrorEncode(info: OperatorErrorEncodeInfo): void;
     setFinishEncode(callback: (info: OperatorFinishEncodeInfo) => void): void;
+    setErrorEncode(callback: (info: OperatorErrorEncodeInfo) => void): void;
 }
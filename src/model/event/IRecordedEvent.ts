@@ -9,6 +9,8 @@ export default interface IRecordedEvent {
     emitAddUploadedVideoFile(newVideoFileId: apid.VideoFileId, needsCreateThumbnail: boolean): void;
     emitDeleteVideoFile(videoFileId: apid.VideoFileId): void;
     emitChangeProtect(recordedId: apid.RecordedId, isProtected: boolean): void;
+    emitUpdateRecorded(recordedId: apid.RecordedId): void;
+    emitDeleteHistory(): void;
     setDeleteRecorded(callback: (recorded: Recorded) => void): void;
     setCreateNewRecorded(callback: (recordedId: apid.RecordedId) => void): void;
     setUpdateVideoFileSize(callback: (videoFileId: apid.VideoFileId) => void): void;
@@ -16,4 +18,6 @@ export default interface IRecordedEvent {
     setAddUploadedVideoFile(callback: (newVideoFileId: apid.VideoFileId, needsCreateThumbnail: boolean) => void): void;
     setDeleteVideoFile(callback: (videoFileId: apid.VideoFileId) => void): void;
     setChangeProtect(callback: (recordedId: apid.RecordedId, isProtected: boolean) => void): void;
+    setUpdateRecorded(callback: (recordedId: apid.RecordedId) => void): void;
+    setDeleteHistory(callback: () => void): void;
 }
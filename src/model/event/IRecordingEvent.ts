@@ -1,3 +1,4 @@
+import * as apid from '../../../api';
 import Recorded from '../../db/entities/Recorded';
 import Reserve from '../../db/entities/Reserve';
 
@@ -8,6 +9,8 @@ export default interface IRecordingEvent {
     emitStartRecording(reserve: Reserve, recorded: Recorded): void;
     emitRecordingFailed(reserve: Reserve, recorded: Recorded | null): void;
     emitRecordingRetryOver(reserve: Reserve): void;
+    emitRecordingDropUpdated(reserve: Reserve, recordedId: apid.RecordedId, dropCnts: apid.RecordingDropCnts): void;
+    emitRecordingDropThreshold(reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts): void;
     emitFinishRecording(reserve: Reserve, recorded: Recorded, isNeedDeleteReservation: boolean): void;
     setStartPrepRecording(callback: (reserve: Reserve) => void): void;
     setCancelPrepRecording(callback: (reserve: Reserve) => void): void;
@@ -15,6 +18,12 @@ export default interface IRecordingEvent {
     setStartRecording(callback: (reserve: Reserve, recorded: Recorded) => void): void;
     setRecordingFailed(callback: (reserve: Reserve, recorded: Recorded | null) => void): void;
     setRecordingRetryOver(callback: (reserve: Reserve) => void): void;
+    setRecordingDropUpdated(
+        callback: (reserve: Reserve, recordedId: apid.RecordedId, dropCnts: apid.RecordingDropCnts) => void,
+    ): void;
+    setRecordingDropThreshold(
+        callback: (reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts) => void,
+    ): void;
     setFinishRecording(
         callback: (reserve: Reserve, recorded: Recorded, isNeedDeleteReservation: boolean) => void,
     ): void;
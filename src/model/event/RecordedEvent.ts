@@ -73,6 +73,21 @@ class RecordedEvent implements IRecordedEvent {
         this.emitter.emit(RecordedEvent.CHANGE_PROTECT, recordedId, isProtected);
     }
 
+    /**
+     * 録画番組情報更新イベント発行
+     * @param recordedId: apid.RecordedId
+     */
+    public emitUpdateRecorded(recordedId: apid.RecordedId): void {
+        this.emitter.emit(RecordedEvent.UPDATE_RECORDED, recordedId);
+    }
+
+    /**
+     * 録画履歴削除イベント発行
+     */
+    public emitDeleteHistory(): void {
+        this.emitter.emit(RecordedEvent.DELETE_HISTORY);
+    }
+
     /**
      * 録画削除イベント登録
      * @param callback: (recorded: Recorded) => void
@@ -175,6 +190,34 @@ class RecordedEvent implements IRecordedEvent {
             }
         });
     }
+
+    /**
+     * 録画番組情報更新イベント登録
+     * @param callback: (recordedId: apid.RecordedId) => void
+     */
+    public setUpdateRecorded(callback: (recordedId: apid.RecordedId) => void): void {
+        this.emitter.on(RecordedEvent.UPDATE_RECORDED, async (recordedId: apid.RecordedId) => {
+            try {
+                await callback(recordedId);
+            } catch (err: any) {
+                this.log.system.error(err);
+            }
+        });
+    }
+
+    /**
+     * 録画履歴削除イベント登録
+     * @param callback: () => void
+     */
+    public setDeleteHistory(callback: () => void): void {
+        this.emitter.on(RecordedEvent.DELETE_HISTORY, async () => {
+            try {
+                await callback();
+            } catch (err: any) {
+                this.log.system.error(err);
+            }
+        });
+    }
 }
 
 namespace RecordedEvent {
@@ -185,6 +228,8 @@ namespace RecordedEvent {
     export const ADD_UPLOADED_VIDEO_FILE = 'addUploadedVideoFile';
     export const DLETE_VIDEO_FILE = 'DeleteVideoFile';
     export const CHANGE_PROTECT = 'ChangeProtect';
+    export const UPDATE_RECORDED = 'UpdateRecorded';
+    export const DELETE_HISTORY = 'DeleteHistory';
 }
 
 export default RecordedEvent;
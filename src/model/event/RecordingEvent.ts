@@ -1,5 +1,6 @@
 import * as events from 'events';
 import { inject, injectable } from 'inversify';
+import * as apid from '../../../api';
 import Recorded from '../../db/entities/Recorded';
 import Reserve from '../../db/entities/Reserve';
 import ILogger from '../ILogger';
@@ -64,6 +65,30 @@ class RecordingEvent implements IRecordingEvent {
         this.emitter.emit(RecordingEvent.RECORDING_RETRY_OVER_EVENT, reserve);
     }
 
+    /**
+     * 録画中のドロップ数更新イベント発行
+     * @param reserve: Reserve
+     * @param recordedId: apid.RecordedId
+     * @param dropCnts: apid.RecordingDropCnts
+     */
+    public emitRecordingDropUpdated(
+        reserve: Reserve,
+        recordedId: apid.RecordedId,
+        dropCnts: apid.RecordingDropCnts,
+    ): void {
+        this.emitter.emit(RecordingEvent.RECORDING_DROP_UPDATED_EVENT, reserve, recordedId, dropCnts);
+    }
+
+    /**
+     * 録画中のドロップ数が閾値を超えたイベント発行
+     * @param reserve: Reserve
+     * @param recorded: Recorded
+     * @param dropCnts: apid.RecordingDropCnts
+     */
+    public emitRecordingDropThreshold(reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts): void {
+        this.emitter.emit(RecordingEvent.RECORDING_DROP_THRESHOLD_EVENT, reserve, recorded, dropCnts);
+    }
+
     /**
      * 録画完了イベント発行
      * @param reserve: Reserve
@@ -158,6 +183,44 @@ class RecordingEvent implements IRecordingEvent {
         });
     }
 
+    /**
+     * 録画中のドロップ数更新イベント登録
+     * @param callback: (reserve: Reserve, recordedId: apid.RecordedId, dropCnts: apid.RecordingDropCnts) => void
+     */
+    public setRecordingDropUpdated(
+        callback: (reserve: Reserve, recordedId: apid.RecordedId, dropCnts: apid.RecordingDropCnts) => void,
+    ): void {
+        this.emitter.on(
+            RecordingEvent.RECORDING_DROP_UPDATED_EVENT,
+            async (reserve: Reserve, recordedId: apid.RecordedId, dropCnts: apid.RecordingDropCnts) => {
+                try {
+                    await callback(reserve, recordedId, dropCnts);
+                } catch (err: any) {
+                    this.log.system.error(err);
+                }
+            },
+        );
+    }
+
+    /**
+     * 録画中のドロップ数が閾値を超えたイベント登録
+     * @param callback: (reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts) => void
+     */
+    public setRecordingDropThreshold(
+        callback: (reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts) => void,
+    ): void {
+        this.emitter.on(
+            RecordingEvent.RECORDING_DROP_THRESHOLD_EVENT,
+            async (reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts) => {
+                try {
+                    await callback(reserve, recorded, dropCnts);
+                } catch (err: any) {
+                    this.log.system.error(err);
+                }
+            },
+        );
+    }
+
     /**
      * 録画完了イベント登録
      * @param callback: (reserve: Reserve, rrecorded: Recorded, isNeedDeleteReservation: boolean) => void
@@ -185,6 +248,8 @@ namespace RecordingEvent {
     export const START_RECORDING_EVENT = 'StartRecordingEvent';
     export const RECORDING_FAILED_EVENT = 'RecordingFailedEvent';
     export const RECORDING_RETRY_OVER_EVENT = 'RecordingRetryOverEvent';
+    export const RECORDING_DROP_UPDATED_EVENT = 'RecordingDropUpdatedEvent';
+    export const RECORDING_DROP_THRESHOLD_EVENT = 'RecordingDropThresholdEvent';
     export const FINISH_RECORDING_EVENT = 'FinishRecordingEvent';
 }
 
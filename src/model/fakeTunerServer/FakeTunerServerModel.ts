@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { inject, injectable } from 'inversify';
+import * as yaml from 'js-yaml';
+import * as mapid from '../../../node_modules/mirakurun/api';
+import IConfigFile from '../IConfigFile';
+import IConfiguration from '../IConfiguration';
+import ILogger from '../ILogger';
+import ILoggerModel from '../ILoggerModel';
+import IFakeTunerServerModel, { FakeTunerServerFixture } from './IFakeTunerServerModel';
+
+interface FakeTuner {
+    device: mapid.TunerDevice;
+    channel: mapid.Channel | null; // 受信中のチャンネル
+    userCnt: number;
+}
+
+/**
+ * 開発, テスト用の疑似チューナーサーバ
+ * Mirakurun 互換の API を fixture ファイルの内容で応答し, stream はサンプルの TS をループして配信する
+ */
+@injectable()
+class FakeTunerServerModel implements IFakeTunerServerModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private fixture: FakeTunerServerFixture | null = null;
+    private sampleTS: Buffer = Buffer.alloc(0);
+    private timeOffset: number = 0; // 番組の時刻をずらす量
+    private tuners: FakeTuner[] = [];
+    private server: http.Server | null = null;
+
+    constructor(@inject('ILoggerModel') logger: ILoggerModel, @inject('IConfiguration') configuration: IConfiguration) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+    }
+
+    /**
+     * 疑似チューナーサーバを起動する
+     */
+    public async start(): Promise<void> {
+        const fakeConfig = this.config.fakeTunerServer;
+        if (typeof fakeConfig === 'undefined') {
+            throw new Error('FakeTunerServerConfigIsUndefined');
+        }
+
+        if (this.server !== null) {
+            return;
+        }
+
+        this.fixture = <FakeTunerServerFixture>yaml.load(await fs.promises.readFile(fakeConfig.fixture, 'utf-8'));
+        if (typeof this.fixture.baseTime === 'number') {
+            this.timeOffset = new Date().getTime() - this.fixture.baseTime;
+        }
+
+        // 末尾の半端なパケットは除く
+        const sampleTS = await fs.promises.readFile(fakeConfig.sampleTS);
+        this.sampleTS = sampleTS.subarray(0, sampleTS.length - (sampleTS.length % FakeTunerServerModel.PACKET_SIZE));
+        if (this.sampleTS.length === 0) {
+            throw new Error('SampleTSIsEmpty');
+        }
+
+        this.tuners = this.fixture.tuners.map((tuner, index) => {
+            return {
+                device: {
+                    index: index,
+                    name: tuner.name,
+                    types: tuner.types,
+                    command: '',
+                    pid: 0,
+                    users: [],
+                    isAvailable: true,
+                    isRemote: false,
+                    isFree: true,
+                    isUsing: false,
+                    isFault: false,
+                },
+                channel: null,
+                userCnt: 0,
+            };
+        });
+
+        const server = http.createServer((req, res) => {
+            try {
+                this.onRequest(req, res);
+            } catch (err: any) {
+                this.log.system.error(`fake tuner server error: ${req.url}`);
+                this.log.system.error(err);
+                this.sendError(res, 500, 'Internal Server Error');
+            }
+        });
+        await new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
+            server.once('error', reject);
+            server.listen(fakeConfig.port, '127.0.0.1', () => {
+                server.removeListener('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+
+        this.log.system.info(`start fake tuner server: ${fakeConfig.port}`);
+    }
+
+    /**
+     * リクエスト処理
+     * @param req: http.IncomingMessage
+     * @param res: http.ServerResponse
+     */
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        if (this.fixture === null) {
+            this.sendError(res, 503, 'Service Unavailable');
+
+            return;
+        }
+
+        if (req.method !== 'GET') {
+            this.sendError(res, 405, 'Method Not Allowed');
+
+            return;
+        }
+
+        const pathname = new URL(typeof req.url === 'undefined' ? '/' : req.url, 'http://localhost').pathname.replace(
+            /\/+$/,
+            '',
+        );
+        const serviceMatch = /^\/api\/services\/([0-9]+)(\/stream|\/logo)?$/.exec(pathname);
+        const programMatch = /^\/api\/programs\/([0-9]+)(\/stream)?$/.exec(pathname);
+
+        if (pathname === '/api/docs') {
+            this.sendJSON(res, FakeTunerServerModel.DOCS);
+        } else if (pathname === '/api/status') {
+            this.sendJSON(res, { version: 'fake' });
+        } else if (pathname === '/api/config/server') {
+            this.sendJSON(res, {});
+        } else if (pathname === '/api/tuners') {
+            this.sendJSON(
+                res,
+                this.tuners.map(tuner => {
+                    return tuner.device;
+                }),
+            );
+        } else if (pathname === '/api/services') {
+            this.sendJSON(res, this.fixture.services);
+        } else if (pathname === '/api/programs') {
+            this.sendJSON(
+                res,
+                this.fixture.programs.map(program => {
+                    return this.shiftProgram(program);
+                }),
+            );
+        } else if (pathname === '/api/events/stream') {
+            this.sendEvents(res, typeof this.fixture.events === 'undefined' ? [] : this.fixture.events);
+        } else if (serviceMatch !== null) {
+            const id = parseInt(serviceMatch[1], 10);
+            const service = this.fixture.services.find(s => {
+                return s.id === id;
+            });
+            if (typeof service === 'undefined' || serviceMatch[2] === '/logo') {
+                this.sendError(res, 404, 'Not Found');
+            } else if (serviceMatch[2] === '/stream') {
+                this.sendStream(res, service, null);
+            } else {
+                this.sendJSON(res, service);
+            }
+        } else if (programMatch !== null) {
+            const id = parseInt(programMatch[1], 10);
+            const program = this.fixture.programs.find(p => {
+                return p.id === id;
+            });
+            if (typeof program === 'undefined') {
+                this.sendError(res, 404, 'Not Found');
+            } else if (programMatch[2] === '/stream') {
+                const shifted = this.shiftProgram(program);
+                const endAt = shifted.startAt + shifted.duration;
+                const service = this.fixture.services.find(s => {
+                    return s.networkId === program.networkId && s.serviceId === program.serviceId;
+                });
+                if (typeof service === 'undefined' || endAt <= new Date().getTime()) {
+                    this.sendError(res, 404, 'Not Found');
+                } else {
+                    this.sendStream(res, service, endAt);
+                }
+            } else {
+                this.sendJSON(res, this.shiftProgram(program));
+            }
+        } else {
+            this.sendError(res, 404, 'Not Found');
+        }
+    }
+
+    /**
+     * 番組の時刻を baseTime に合わせてずらす
+     * @param program: mapid.Program
+     * @return mapid.Program
+     */
+    private shiftProgram(program: mapid.Program): mapid.Program {
+        return Object.assign({}, program, { startAt: program.startAt + this.timeOffset });
+    }
+
+    /**
+     * JSON を返す
+     * @param res: http.ServerResponse
+     * @param body: any
+     * @param status: number
+     */
+    private sendJSON(res: http.ServerResponse, body: any, status: number = 200): void {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify(body));
+    }
+
+    /**
+     * エラーを返す
+     * @param res: http.ServerResponse
+     * @param status: number
+     * @param reason: string
+     */
+    private sendError(res: http.ServerResponse, status: number, reason: string): void {
+        if (res.headersSent === true) {
+            res.destroy();
+
+            return;
+        }
+
+        this.sendJSON(res, { code: status, reason: reason }, status);
+    }
+
+    /**
+     * Mirakurun の event stream と同じ形式でイベントを送信する
+     * 接続は閉じずに維持する
+     * @param res: http.ServerResponse
+     * @param events: mapid.Event[]
+     */
+    private sendEvents(res: http.ServerResponse, events: mapid.Event[]): void {
+        res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.write('[\n');
+
+        // 開始文字列とは別の chunk として受信されるように遅らせる
+        const timerId = setTimeout(() => {
+            for (const event of events) {
+                const data = event.resource === 'program' ? this.shiftProgram(event.data) : event.data;
+                res.write(`${JSON.stringify(Object.assign({}, event, { data: data }))}\n,\n`);
+            }
+        }, 100);
+        res.once('close', () => {
+            clearTimeout(timerId);
+        });
+    }
+
+    /**
+     * サンプルの TS をループして配信する
+     * @param res: http.ServerResponse
+     * @param service: mapid.Service
+     * @param endAt: number | null 配信を終了する時刻 (null の場合は切断されるまで配信する)
+     */
+    private sendStream(res: http.ServerResponse, service: mapid.Service, endAt: number | null): void {
+        const tuner = typeof service.channel === 'undefined' ? null : this.allocateTuner(service.channel);
+        if (tuner === null) {
+            this.sendError(res, 503, 'Tuner Resource Unavailable');
+
+            return;
+        }
+
+        const fakeConfig = this.config.fakeTunerServer;
+        const bitrate =
+            typeof fakeConfig === 'undefined' || typeof fakeConfig.bitrate === 'undefined'
+                ? FakeTunerServerModel.DEFAULT_BITRATE
+                : fakeConfig.bitrate;
+        const chunkSize =
+            Math.max(
+                1,
+                Math.floor(
+                    ((bitrate / 8) * (FakeTunerServerModel.SEND_INTERVAL / 1000)) / FakeTunerServerModel.PACKET_SIZE,
+                ),
+            ) * FakeTunerServerModel.PACKET_SIZE;
+
+        res.writeHead(200, { 'Content-Type': 'video/MP2T' });
+
+        let position = 0;
+        const timerId = setInterval(() => {
+            if (res.writableEnded === true) {
+                return;
+            }
+
+            if (endAt !== null && new Date().getTime() >= endAt) {
+                res.end();
+
+                return;
+            }
+
+            // 受信側が読み込めていない
+            if (res.writableNeedDrain === true) {
+                return;
+            }
+
+            res.write(this.getSampleTSChunk(position, chunkSize));
+            position = (position + chunkSize) % this.sampleTS.length;
+        }, FakeTunerServerModel.SEND_INTERVAL);
+
+        res.once('close', () => {
+            clearInterval(timerId);
+            this.releaseTuner(tuner);
+        });
+    }
+
+    /**
+     * サンプルの TS から指定した位置の chunk を切り出す
+     * 末尾に達した場合は先頭へ戻る
+     * @param position: number
+     * @param size: number
+     * @return Buffer
+     */
+    private getSampleTSChunk(position: number, size: number): Buffer {
+        const chunks: Buffer[] = [];
+        let remain = size;
+        while (remain > 0) {
+            const chunk = this.sampleTS.subarray(position, position + remain);
+            chunks.push(chunk);
+            remain -= chunk.length;
+            position = 0;
+        }
+
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * チューナーを割り当てる
+     * 同じチャンネルを受信中のチューナーがあれば共有する
+     * @param channel: mapid.Channel
+     * @return FakeTuner | null 割り当てられるチューナーがない場合は null
+     */
+    private allocateTuner(channel: mapid.Channel): FakeTuner | null {
+        const available = this.tuners.filter(tuner => {
+            return tuner.device.types.indexOf(channel.type) !== -1;
+        });
+
+        let tuner = available.find(t => {
+            return t.channel !== null && t.channel.type === channel.type && t.channel.channel === channel.channel;
+        });
+        if (typeof tuner === 'undefined') {
+            tuner = available.find(t => {
+                return t.userCnt === 0;
+            });
+        }
+        if (typeof tuner === 'undefined') {
+            return null;
+        }
+
+        tuner.channel = channel;
+        tuner.userCnt++;
+        tuner.device.isFree = false;
+        tuner.device.isUsing = true;
+
+        return tuner;
+    }
+
+    /**
+     * チューナーを解放する
+     * @param tuner: FakeTuner
+     */
+    private releaseTuner(tuner: FakeTuner): void {
+        tuner.userCnt--;
+        if (tuner.userCnt > 0) {
+            return;
+        }
+
+        tuner.userCnt = 0;
+        tuner.channel = null;
+        tuner.device.isFree = true;
+        tuner.device.isUsing = false;
+    }
+}
+
+namespace FakeTunerServerModel {
+    export const PACKET_SIZE = 188;
+    export const SEND_INTERVAL = 100; // ms
+    export const DEFAULT_BITRATE = 16 * 1000 * 1000; // bps
+
+    const createPath = (operationId: string, tags: string[], parameters: any[] = []): any => {
+        return {
+            parameters: [],
+            get: {
+                operationId: operationId,
+                tags: tags,
+                parameters: parameters,
+            },
+        };
+    };
+    const idParameter = { in: 'path', name: 'id', type: 'integer', required: true };
+    const decodeParameter = { in: 'query', name: 'decode', type: 'integer' };
+
+    /**
+     * Mirakurun client が参照する API 定義 (/api/docs)
+     * 疑似チューナーサーバが応答する API のみ定義する
+     */
+    export const DOCS = {
+        swagger: '2.0',
+        basePath: '/api',
+        paths: {
+            '/status': createPath('getStatus', ['status']),
+            '/config/server': createPath('getServerConfig', ['config']),
+            '/tuners': createPath('getTuners', ['tuners']),
+            '/services': createPath('getServices', ['services']),
+            '/services/{id}': createPath('getService', ['services'], [idParameter]),
+            '/services/{id}/logo': createPath('getLogoImage', ['services'], [idParameter]),
+            '/services/{id}/stream': createPath(
+                'getServiceStream',
+                ['services', 'stream'],
+                [idParameter, decodeParameter],
+            ),
+            '/programs': createPath('getPrograms', ['programs']),
+            '/programs/{id}': createPath('getProgram', ['programs'], [idParameter]),
+            '/programs/{id}/stream': createPath(
+                'getProgramStream',
+                ['programs', 'stream'],
+                [idParameter, decodeParameter],
+            ),
+            '/events/stream': createPath(
+                'getEventsStream',
+                ['events', 'stream'],
+                [
+                    { in: 'query', name: 'resource', type: 'string' },
+                    { in: 'query', name: 'type', type: 'string' },
+                ],
+            ),
+        },
+    };
+}
+
+export default FakeTunerServerModel;
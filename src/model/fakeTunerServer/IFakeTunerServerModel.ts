@@ -0,0 +1,20 @@
+import * as apid from '../../../api';
+import * as mapid from '../../../node_modules/mirakurun/api';
+
+/**
+ * 疑似チューナーサーバの fixture ファイル形式
+ */
+export interface FakeTunerServerFixture {
+    baseTime?: apid.UnixtimeMS; // 指定した場合は baseTime が起動時刻となるように番組の時刻をずらす
+    tuners: {
+        name: string;
+        types: mapid.ChannelType[];
+    }[];
+    services: mapid.Service[];
+    programs: mapid.Program[];
+    events?: mapid.Event[]; // event stream 接続時に送信するイベント
+}
+
+export default interface IFakeTunerServerModel {
+    start(): Promise<void>;
+}
@@ -1,6 +1,7 @@
 import * as apid from '../../../api';
-import { OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
+import { OperatorErrorEncodeInfo, OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
 import { AddVideoFileOption, UploadedVideoFileOption } from '../operator/recorded/IRecordedManageModel';
+import { DisplacingReserveIndex } from '../operator/reservation/IReservationManageModel';
 
 export interface IPCReservationManageModel {
     getBroadcastStatus(): Promise<apid.BroadcastStatus>;
@@ -13,18 +14,24 @@ export interface IPCReservationManageModel {
     removeOverlap(reserveId: apid.ReserveId): Promise<void>;
     edit(reserveId: apid.ReserveId, option: apid.EditManualReserveOption): Promise<void>;
     clean(): Promise<void>;
+    dryRunRule(option: apid.DryRunRuleOption): Promise<apid.RuleDryRunResult>;
+    explainRule(option: apid.RuleMatchOption): Promise<apid.RuleMatchExplanation>;
+    getDisplacingReserves(reserveIds: apid.ReserveId[], isHalfWidth: boolean): Promise<DisplacingReserveIndex>;
 }
 
 export interface IPCRecordedManageModel {
-    delete(recordedId: apid.RecordedId): Promise<void>;
+    delete(recordedId: apid.RecordedId, isForgetHistory?: boolean): Promise<void>;
     updateVideoFileSize(videoFileId: apid.VideoFileId): Promise<void>;
     addVideoFile(option: AddVideoFileOption): Promise<apid.VideoFileId>;
     addUploadedVideoFile(option: UploadedVideoFileOption): Promise<void>;
     createNewRecorded(option: apid.CreateNewRecordedOption): Promise<apid.RecordedId>;
+    edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void>;
+    updateProgramInfo(recordedId: apid.RecordedId, option: apid.UpdateRecordedProgramOption): Promise<void>;
     deleteVideoFile(videoFileId: apid.VideoFileId, isIgnoreProtection?: boolean): Promise<void>;
     changeProtect(recordedId: apid.RecordedId, isProtect: boolean): Promise<void>;
     videoFileCleanup(): Promise<void>;
     dropLogFileCleanup(): Promise<void>;
+    deleteHistory(historyId: apid.RecordedHistoryId): Promise<void>;
 }
 
 export interface IPCRecordedTagManageModel {
@@ -55,8 +62,27 @@ export interface IPCThumbnailManageModel {
     delete(thumbnailId: apid.ThumbnailId): Promise<void>;
 }
 
+export interface IPCDropCheckManageModel {
+    add(videoFileId: apid.VideoFileId): Promise<void>;
+    getProgress(videoFileId: apid.VideoFileId): Promise<apid.DropCheckProgress | null>;
+}
+
 export interface IPCOperatorEncodeEvent {
     emitFinishEncode(info: OperatorFinishEncodeInfo): Promise<void>;
+    emitErrorEncode(info: OperatorErrorEncodeInfo): Promise<void>;
+}
+
+export interface IPCUserManageModel {
+    add(option: apid.AddUserOption): Promise<apid.UserId>;
+    updatePassword(userId: apid.UserId, password: string): Promise<void>;
+    changePassword(userId: apid.UserId, option: apid.ChangePasswordOption): Promise<void>;
+    updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void>;
+    delete(userId: apid.UserId): Promise<void>;
+    login(option: apid.LoginOption): Promise<apid.LoginResult>;
+    logout(tokenId: apid.UserTokenId): Promise<void>;
+    addApiToken(userId: apid.UserId, option: apid.AddApiTokenOption): Promise<apid.AddedApiToken>;
+    deleteApiToken(userId: apid.UserId, tokenId: apid.UserTokenId): Promise<void>;
+    addStreamToken(userId: apid.UserId, option: apid.AddStreamTokenOption): Promise<apid.StreamToken>;
 }
 
 export default interface IIPCClient {
@@ -66,5 +92,7 @@ export default interface IIPCClient {
     recording: IPCRecordingManageModel;
     rule: IPCRuleManageModel;
     thumbnail: IPCThumbnailManageModel;
+    dropCheck: IPCDropCheckManageModel;
     encodeEvent: IPCOperatorEncodeEvent;
+    user: IPCUserManageModel;
 }
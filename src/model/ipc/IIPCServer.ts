@@ -3,6 +3,6 @@ import * as apid from '../../../api';
 
 export default interface IIPCServer {
     register(child: ChildProcess): void;
-    notifyClient(): void;
+    notifyClient(event?: apid.ServerEvent): void;
     setEncode(addOption: apid.AddEncodeProgramOption): void;
 }
@@ -1,13 +1,14 @@
 import * as events from 'events';
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
-import { OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
+import { OperatorErrorEncodeInfo, OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
 import ILogger from '../ILogger';
 import ILoggerModel from '../ILoggerModel';
 import { AddVideoFileOption, UploadedVideoFileOption } from '../operator/recorded/IRecordedManageModel';
 import IEncodeManageModel from '../service/encode/IEncodeManageModel';
 import ISocketIOManageModel from '../service/socketio/ISocketIOManageModel';
 import IIPCClient, {
+    IPCDropCheckManageModel,
     IPCOperatorEncodeEvent,
     IPCRecordedManageModel,
     IPCRecordedTagManageModel,
@@ -15,11 +16,14 @@ import IIPCClient, {
     IPCReservationManageModel,
     IPCRuleManageModel,
     IPCThumbnailManageModel,
+    IPCUserManageModel,
 } from './IIPCClient';
 import {
     ClientMessageOption,
+    DropCheckFunctions,
     OperatorEncodeEventFunctions,
     ModelName,
+    NotifyClientMessage,
     ParentMessage,
     PushEncodeMessage,
     RecordedFunctions,
@@ -30,6 +34,7 @@ import {
     RuleFuntions,
     SendMessage,
     ThumbnailFunctions,
+    UserFunctions,
 } from './IPCMessageDefine';
 
 @injectable()
@@ -42,7 +47,9 @@ export default class IPCClient implements IIPCClient {
     public recording!: IPCRecordingManageModel;
     public rule!: IPCRuleManageModel;
     public thumbnail!: IPCThumbnailManageModel;
+    public dropCheck!: IPCDropCheckManageModel;
     public encodeEvent!: IPCOperatorEncodeEvent;
+    public user!: IPCUserManageModel;
 
     private log: ILogger;
     private listener: events.EventEmitter = new events.EventEmitter();
@@ -67,7 +74,9 @@ export default class IPCClient implements IIPCClient {
         this.setRecording();
         this.setRule();
         this.setThumbnail();
+        this.setDropCheck();
         this.setEncodeEvent();
+        this.setUser();
     }
 
     /**
@@ -80,7 +89,7 @@ export default class IPCClient implements IIPCClient {
                 this.listener.emit((<ReplayMessage>msg).id.toString(10), msg);
             } else if ((<ParentMessage>msg).type === 'notifyClient') {
                 // socket.io によるクライアントへの状態更新通知
-                this.socketIO.notifyClient();
+                this.socketIO.notifyClient((<NotifyClientMessage>msg).value);
             } else if ((<ParentMessage>msg).type === 'pushEncode') {
                 // エンコード依頼
                 this.encodeManage.push((<PushEncodeMessage>msg).value);
@@ -219,6 +228,34 @@ export default class IPCClient implements IIPCClient {
                     func: ReserveationFunctions.clean,
                 });
             },
+            dryRunRule: (option: apid.DryRunRuleOption) => {
+                return this.send({
+                    model: ModelName.reserveation,
+                    func: ReserveationFunctions.dryRunRule,
+                    args: {
+                        option: option,
+                    },
+                });
+            },
+            explainRule: (option: apid.RuleMatchOption) => {
+                return this.send({
+                    model: ModelName.reserveation,
+                    func: ReserveationFunctions.explainRule,
+                    args: {
+                        option: option,
+                    },
+                });
+            },
+            getDisplacingReserves: (reserveIds: apid.ReserveId[], isHalfWidth: boolean) => {
+                return this.send({
+                    model: ModelName.reserveation,
+                    func: ReserveationFunctions.getDisplacingReserves,
+                    args: {
+                        reserveIds: reserveIds,
+                        isHalfWidth: isHalfWidth,
+                    },
+                });
+            },
         };
     }
 
@@ -227,7 +264,7 @@ export default class IPCClient implements IIPCClient {
      */
     private setRecorded(): void {
         this.recorded = {
-            delete: (recordedId: apid.RecordedId) => {
+            delete: (recordedId: apid.RecordedId, isForgetHistory?: boolean) => {
                 this.log.system.info(`delete recorded by ipc: ${recordedId}`);
 
                 return this.send({
@@ -235,6 +272,7 @@ export default class IPCClient implements IIPCClient {
                     func: RecordedFunctions.delete,
                     args: {
                         recordedId: recordedId,
+                        isForgetHistory: !!isForgetHistory,
                     },
                 });
             },
@@ -278,6 +316,26 @@ export default class IPCClient implements IIPCClient {
                     },
                 });
             },
+            edit: (recordedId: apid.RecordedId, option: apid.EditRecordedOption) => {
+                return this.send({
+                    model: ModelName.recorded,
+                    func: RecordedFunctions.edit,
+                    args: {
+                        recordedId: recordedId,
+                        option: option,
+                    },
+                });
+            },
+            updateProgramInfo: (recordedId: apid.RecordedId, option: apid.UpdateRecordedProgramOption) => {
+                return this.send({
+                    model: ModelName.recorded,
+                    func: RecordedFunctions.updateProgramInfo,
+                    args: {
+                        recordedId: recordedId,
+                        option: option,
+                    },
+                });
+            },
             deleteVideoFile: (videoFileId: apid.VideoFileId) => {
                 return this.send({
                     model: ModelName.recorded,
@@ -315,6 +373,15 @@ export default class IPCClient implements IIPCClient {
                     0, // タイムアウトなし
                 );
             },
+            deleteHistory: (historyId: apid.RecordedHistoryId) => {
+                return this.send({
+                    model: ModelName.recorded,
+                    func: RecordedFunctions.deleteHistory,
+                    args: {
+                        historyId: historyId,
+                    },
+                });
+            },
         };
     }
 
@@ -490,6 +557,32 @@ export default class IPCClient implements IIPCClient {
         };
     }
 
+    /**
+     * set drop check
+     */
+    private setDropCheck(): void {
+        this.dropCheck = {
+            add: videoFileId => {
+                return this.send({
+                    model: ModelName.dropCheck,
+                    func: DropCheckFunctions.add,
+                    args: {
+                        videoFileId: videoFileId,
+                    },
+                });
+            },
+            getProgress: videoFileId => {
+                return this.send({
+                    model: ModelName.dropCheck,
+                    func: DropCheckFunctions.getProgress,
+                    args: {
+                        videoFileId: videoFileId,
+                    },
+                });
+            },
+        };
+    }
+
     /**
      * set encode event
      */
@@ -504,6 +597,119 @@ export default class IPCClient implements IIPCClient {
                     },
                 });
             },
+            emitErrorEncode: (info: OperatorErrorEncodeInfo) => {
+                return this.send({
+                    model: ModelName.encodeEvent,
+                    func: OperatorEncodeEventFunctions.emitErrorEncode,
+                    args: {
+                        info: info,
+                    },
+                });
+            },
+        };
+    }
+
+    /**
+     * set user
+     */
+    private setUser(): void {
+        this.user = {
+            add: (option: apid.AddUserOption) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.add,
+                    args: {
+                        option: option,
+                    },
+                });
+            },
+            updatePassword: (userId: apid.UserId, password: string) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.updatePassword,
+                    args: {
+                        userId: userId,
+                        password: password,
+                    },
+                });
+            },
+            changePassword: (userId: apid.UserId, option: apid.ChangePasswordOption) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.changePassword,
+                    args: {
+                        userId: userId,
+                        option: option,
+                    },
+                });
+            },
+            updateRole: (userId: apid.UserId, role: apid.UserRole) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.updateRole,
+                    args: {
+                        userId: userId,
+                        role: role,
+                    },
+                });
+            },
+            delete: (userId: apid.UserId) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.delete,
+                    args: {
+                        userId: userId,
+                    },
+                });
+            },
+            login: (option: apid.LoginOption) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.login,
+                    args: {
+                        option: option,
+                    },
+                });
+            },
+            logout: (tokenId: apid.UserTokenId) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.logout,
+                    args: {
+                        tokenId: tokenId,
+                    },
+                });
+            },
+            addApiToken: (userId: apid.UserId, option: apid.AddApiTokenOption) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.addApiToken,
+                    args: {
+                        userId: userId,
+                        option: option,
+                    },
+                });
+            },
+            deleteApiToken: (userId: apid.UserId, tokenId: apid.UserTokenId) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.deleteApiToken,
+                    args: {
+                        userId: userId,
+                        tokenId: tokenId,
+                    },
+                });
+            },
+            addStreamToken: (userId: apid.UserId, option: apid.AddStreamTokenOption) => {
+                return this.send({
+                    model: ModelName.user,
+                    func: UserFunctions.addStreamToken,
+                    args: {
+                        userId: userId,
+                        option: option,
+                    },
+                });
+            },
         };
     }
 }
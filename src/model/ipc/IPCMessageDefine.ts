@@ -15,6 +15,7 @@ export interface ParentMessage {
  */
 export interface NotifyClientMessage extends ParentMessage {
     type: 'notifyClient';
+    value?: apid.ServerEvent; // 変更内容
 }
 
 export interface PushEncodeMessage extends ParentMessage {
@@ -57,7 +58,9 @@ export enum ModelName {
     reserveation = 'reserveation',
     rule = 'rule',
     thumbnail = 'thumbnail',
+    dropCheck = 'dropCheck',
     encodeEvent = 'encodeEvent',
+    user = 'user',
 }
 
 /**
@@ -74,6 +77,9 @@ export enum ReserveationFunctions {
     removeOverlap = 'removeOverlap',
     edit = 'edit',
     clean = 'clean',
+    dryRunRule = 'dryRunRule',
+    explainRule = 'explainRule',
+    getDisplacingReserves = 'getDisplacingReserves',
 }
 
 /**
@@ -85,10 +91,13 @@ export enum RecordedFunctions {
     addVideoFile = 'addVideoFile',
     addUploadedVideoFile = 'addUploadedVideoFile',
     createNewRecorded = 'createNewRecorded',
+    edit = 'edit',
+    updateProgramInfo = 'updateProgramInfo',
     deleteVideoFile = 'deleteVideoFile',
     changeProtect = 'changeProtect',
     videoFileCleanup = 'videoFileCleanup',
     dropLogFileCleanup = 'dropLogFileCleanup',
+    deleteHistory = 'deleteHistory',
 }
 
 /**
@@ -131,9 +140,34 @@ export enum ThumbnailFunctions {
     delete = 'delete',
 }
 
+/**
+ * DropCheck の関数定義
+ */
+export enum DropCheckFunctions {
+    add = 'add',
+    getProgress = 'getProgress',
+}
+
 /**
  * encode event の関数定義
  */
 export enum OperatorEncodeEventFunctions {
     emitFinishEncode = 'emitFinishEncode',
+    emitErrorEncode = 'emitErrorEncode',
+}
+
+/**
+ * user の関数定義
+ */
+export enum UserFunctions {
+    add = 'add',
+    updatePassword = 'updatePassword',
+    changePassword = 'changePassword',
+    updateRole = 'updateRole',
+    delete = 'delete',
+    login = 'login',
+    logout = 'logout',
+    addApiToken = 'addApiToken',
+    deleteApiToken = 'deleteApiToken',
+    addStreamToken = 'addStreamToken',
 }
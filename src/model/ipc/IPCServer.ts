@@ -1,7 +1,8 @@
 import { ChildProcess } from 'child_process';
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
-import IOperatorEncodeEvent, { OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
+import IOperatorEncodeEvent, { OperatorErrorEncodeInfo, OperatorFinishEncodeInfo } from '../event/IOperatorEncodeEvent';
+import IDropCheckManageModel from '../operator/dropCheck/IDropCheckManageModel';
 import IRecordedManageModel, {
     AddVideoFileOption,
     UploadedVideoFileOption,
@@ -11,8 +12,10 @@ import IRecordingManageModel from '../operator/recording/IRecordingManageModel';
 import IReservationManageModel from '../operator/reservation/IReservationManageModel';
 import IRuleManageModel from '../operator/rule/IRuleManageModel';
 import IThumbnailManageModel from '../operator/thumbnail/IThumbnailManageModel';
+import IUserManageModel from '../operator/user/IUserManageModel';
 import IIPCServer from './IIPCServer';
 import {
+    DropCheckFunctions,
     OperatorEncodeEventFunctions,
     ModelName,
     NotifyClientMessage,
@@ -25,6 +28,7 @@ import {
     RuleFuntions,
     SendMessage,
     ThumbnailFunctions,
+    UserFunctions,
 } from './IPCMessageDefine';
 
 interface IFunctionIndex {
@@ -39,7 +43,9 @@ export default class IPCServer implements IIPCServer {
     private recordingManage: IRecordingManageModel;
     private ruleManage: IRuleManageModel;
     private thumbnailManage: IThumbnailManageModel;
+    private dropCheckManage: IDropCheckManageModel;
     private encodeEvent: IOperatorEncodeEvent;
+    private userManage: IUserManageModel;
     private child: ChildProcess | null = null;
     private functions: {
         [modelName: string]: IFunctionIndex;
@@ -53,7 +59,9 @@ export default class IPCServer implements IIPCServer {
         @inject('IRecordingManageModel') recordingManage: IRecordingManageModel,
         @inject('IRuleManageModel') ruleManage: IRuleManageModel,
         @inject('IThumbnailManageModel') thumbnailManage: IThumbnailManageModel,
+        @inject('IDropCheckManageModel') dropCheckManage: IDropCheckManageModel,
         @inject('IOperatorEncodeEvent') encodeEvent: IOperatorEncodeEvent,
+        @inject('IUserManageModel') userManage: IUserManageModel,
     ) {
         this.reservationManage = reservationManage;
         this.recordedManage = recordedManage;
@@ -61,7 +69,9 @@ export default class IPCServer implements IIPCServer {
         this.recordingManage = recordingManage;
         this.ruleManage = ruleManage;
         this.thumbnailManage = thumbnailManage;
+        this.dropCheckManage = dropCheckManage;
         this.encodeEvent = encodeEvent;
+        this.userManage = userManage;
 
         this.init();
     }
@@ -98,14 +108,16 @@ export default class IPCServer implements IIPCServer {
 
     /**
      * 子プロセスに socket.io による状態更新通知を依頼する
+     * @param event?: apid.ServerEvent 変更内容
      */
-    public notifyClient(): void {
+    public notifyClient(event?: apid.ServerEvent): void {
         if (this.child === null) {
             return;
         }
 
         this.child.send(<any>(<NotifyClientMessage>{
             type: 'notifyClient',
+            value: event,
         }));
     }
 
@@ -146,7 +158,9 @@ export default class IPCServer implements IIPCServer {
         this.functions[ModelName.recording] = this.getRecordingFunctions();
         this.functions[ModelName.rule] = this.getRuleFunctions();
         this.functions[ModelName.thumbnail] = this.getThumbnailFunctions();
+        this.functions[ModelName.dropCheck] = this.getDropCheckFunctions();
         this.functions[ModelName.encodeEvent] = this.getOperatorEncodeEventFunctions();
+        this.functions[ModelName.user] = this.getUserFunctions();
     }
 
     /**
@@ -215,6 +229,25 @@ export default class IPCServer implements IIPCServer {
             await this.reservationManage.edit(reserveId, option);
         };
 
+        index[ReserveationFunctions.dryRunRule] = async msg => {
+            const option = this.getArgsValue<apid.DryRunRuleOption>(msg, 'option');
+
+            return await this.reservationManage.dryRunRule(option);
+        };
+
+        index[ReserveationFunctions.explainRule] = async msg => {
+            const option = this.getArgsValue<apid.RuleMatchOption>(msg, 'option');
+
+            return await this.reservationManage.explainRule(option);
+        };
+
+        index[ReserveationFunctions.getDisplacingReserves] = async msg => {
+            const reserveIds = this.getArgsValue<apid.ReserveId[]>(msg, 'reserveIds');
+            const isHalfWidth = this.getArgsValue<boolean>(msg, 'isHalfWidth');
+
+            return await this.reservationManage.getDisplacingReserves(reserveIds, isHalfWidth);
+        };
+
         return index;
     }
 
@@ -227,8 +260,9 @@ export default class IPCServer implements IIPCServer {
         // delete
         index[RecordedFunctions.delete] = async msg => {
             const recordedId = this.getArgsValue<apid.RecordedId>(msg, 'recordedId');
+            const isForgetHistory = this.getArgsValue<boolean>(msg, 'isForgetHistory');
 
-            await this.recordedManage.delete(recordedId);
+            await this.recordedManage.delete(recordedId, false, isForgetHistory);
         };
 
         // updateVideoFileSize
@@ -259,6 +293,22 @@ export default class IPCServer implements IIPCServer {
             return await this.recordedManage.createNewRecorded(option);
         };
 
+        // edit
+        index[RecordedFunctions.edit] = async msg => {
+            const recordedId = this.getArgsValue<apid.RecordedId>(msg, 'recordedId');
+            const option = this.getArgsValue<apid.EditRecordedOption>(msg, 'option');
+
+            await this.recordedManage.edit(recordedId, option);
+        };
+
+        // updateProgramInfo
+        index[RecordedFunctions.updateProgramInfo] = async msg => {
+            const recordedId = this.getArgsValue<apid.RecordedId>(msg, 'recordedId');
+            const option = this.getArgsValue<apid.UpdateRecordedProgramOption>(msg, 'option');
+
+            await this.recordedManage.updateProgramInfo(recordedId, option);
+        };
+
         // deleteVideoFile
         index[RecordedFunctions.deleteVideoFile] = async msg => {
             const videoFileId = this.getArgsValue<apid.VideoFileId>(msg, 'videoFileId');
@@ -284,6 +334,13 @@ export default class IPCServer implements IIPCServer {
             await this.recordedManage.dropLogFileCleanup();
         };
 
+        // deleteHistory
+        index[RecordedFunctions.deleteHistory] = async msg => {
+            const historyId = this.getArgsValue<apid.RecordedHistoryId>(msg, 'historyId');
+
+            await this.recordedManage.deleteHistory(historyId);
+        };
+
         return index;
     }
 
@@ -429,6 +486,29 @@ export default class IPCServer implements IIPCServer {
         return index;
     }
 
+    /**
+     * set drop check functions
+     */
+    private getDropCheckFunctions(): IFunctionIndex {
+        const index: IFunctionIndex = {};
+
+        // add
+        index[DropCheckFunctions.add] = async msg => {
+            const videoFileId = this.getArgsValue<apid.VideoFileId>(msg, 'videoFileId');
+
+            await this.dropCheckManage.add(videoFileId);
+        };
+
+        // getProgress
+        index[DropCheckFunctions.getProgress] = async msg => {
+            const videoFileId = this.getArgsValue<apid.VideoFileId>(msg, 'videoFileId');
+
+            return this.dropCheckManage.getProgress(videoFileId);
+        };
+
+        return index;
+    }
+
     /**
      * set operator encode event functions
      */
@@ -442,6 +522,98 @@ export default class IPCServer implements IIPCServer {
             this.encodeEvent.emitFinishEncode(info);
         };
 
+        // emitErrorEncode
+        index[OperatorEncodeEventFunctions.emitErrorEncode] = async msg => {
+            const info = this.getArgsValue<OperatorErrorEncodeInfo>(msg, 'info');
+
+            this.encodeEvent.emitErrorEncode(info);
+        };
+
+        return index;
+    }
+
+    /**
+     * set user functions
+     */
+    private getUserFunctions(): IFunctionIndex {
+        const index: IFunctionIndex = {};
+
+        // add
+        index[UserFunctions.add] = async msg => {
+            const option = this.getArgsValue<apid.AddUserOption>(msg, 'option');
+
+            return await this.userManage.add(option);
+        };
+
+        // updatePassword
+        index[UserFunctions.updatePassword] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const password = this.getArgsValue<string>(msg, 'password');
+
+            await this.userManage.updatePassword(userId, password);
+        };
+
+        // changePassword
+        index[UserFunctions.changePassword] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const option = this.getArgsValue<apid.ChangePasswordOption>(msg, 'option');
+
+            await this.userManage.changePassword(userId, option);
+        };
+
+        // updateRole
+        index[UserFunctions.updateRole] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const role = this.getArgsValue<apid.UserRole>(msg, 'role');
+
+            await this.userManage.updateRole(userId, role);
+        };
+
+        // delete
+        index[UserFunctions.delete] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+
+            await this.userManage.delete(userId);
+        };
+
+        // login
+        index[UserFunctions.login] = async msg => {
+            const option = this.getArgsValue<apid.LoginOption>(msg, 'option');
+
+            return await this.userManage.login(option);
+        };
+
+        // logout
+        index[UserFunctions.logout] = async msg => {
+            const tokenId = this.getArgsValue<apid.UserTokenId>(msg, 'tokenId');
+
+            await this.userManage.logout(tokenId);
+        };
+
+        // addApiToken
+        index[UserFunctions.addApiToken] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const option = this.getArgsValue<apid.AddApiTokenOption>(msg, 'option');
+
+            return await this.userManage.addApiToken(userId, option);
+        };
+
+        // deleteApiToken
+        index[UserFunctions.deleteApiToken] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const tokenId = this.getArgsValue<apid.UserTokenId>(msg, 'tokenId');
+
+            await this.userManage.deleteApiToken(userId, tokenId);
+        };
+
+        // addStreamToken
+        index[UserFunctions.addStreamToken] = async msg => {
+            const userId = this.getArgsValue<apid.UserId>(msg, 'userId');
+            const option = this.getArgsValue<apid.AddStreamTokenOption>(msg, 'option');
+
+            return await this.userManage.addStreamToken(userId, option);
+        };
+
         return index;
     }
 
@@ -3,5 +3,6 @@ import * as apid from '../../../api';
 export default interface IReserveOptionChecker {
     checkRuleOption(rule: apid.Rule | apid.AddRuleOption): boolean;
     checkReserveOption(option: apid.RuleReserveOption): boolean;
+    checkPaddingOption(option: apid.RuleReserveOption | apid.EditManualReserveOption): boolean;
     checkEncodeOption(encodeOption: apid.ReserveEncodedOption | undefined): boolean;
 }
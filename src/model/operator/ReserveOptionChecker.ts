@@ -1,5 +1,7 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../api';
+import KeywordQueryUtil from '../../util/KeywordQueryUtil';
+import ReserveUtil from '../../util/ReserveUtil';
 import IConfigFile from '../IConfigFile';
 import IConfiguration from '../IConfiguration';
 import IReserveOptionChecker from './IReserveOptionChecker';
@@ -32,6 +34,7 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
         return (
             this.checkSearchOption(rule.isTimeSpecification, rule.searchOption) &&
             this.checkReserveOption(rule.reserveOption) &&
+            this.checkSeriesOption(rule) &&
             this.checkEncodeOption(rule.encodeOption)
         );
     }
@@ -64,6 +67,9 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
         if (isTimeSpecification === true) {
             if (
                 typeof option.keyword === 'undefined' ||
+                typeof option.seriesId !== 'undefined' ||
+                typeof option.seriesNetworkId !== 'undefined' ||
+                typeof option.keywordQuery !== 'undefined' ||
                 typeof option.channelIds === 'undefined' ||
                 typeof option.times === 'undefined'
             ) {
@@ -86,7 +92,8 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
 
         if (
             this.checkKeywordOption(option.keyword, keyOption) === false ||
-            this.checkKeywordOption(option.ignoreKeyword, ignoreKeyOption) === false
+            this.checkKeywordOption(option.ignoreKeyword, ignoreKeyOption) === false ||
+            this.checkKeywordQuery(option.keywordQuery) === false
         ) {
             return false;
         }
@@ -147,6 +154,34 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
         return true;
     }
 
+    /**
+     * シリーズオプションのチェック
+     * @param rule: apid.Rule | apid.AddRuleOption
+     * @return boolean 問題なければ true を返す
+     */
+    private checkSeriesOption(rule: apid.Rule | apid.AddRuleOption): boolean {
+        const seriesId = rule.searchOption.seriesId;
+        if (typeof seriesId !== 'undefined' && (Number.isInteger(seriesId) === false || seriesId < 0)) {
+            return false;
+        }
+
+        // シリーズの network id はシリーズ指定時のみ有効
+        const seriesNetworkId = rule.searchOption.seriesNetworkId;
+        if (
+            typeof seriesNetworkId !== 'undefined' &&
+            (typeof seriesId === 'undefined' || Number.isInteger(seriesNetworkId) === false || seriesNetworkId < 0)
+        ) {
+            return false;
+        }
+
+        // 最終話での無効化はシリーズ指定時のみ有効
+        if (!!rule.reserveOption.disableAfterLastEpisode === true && typeof seriesId === 'undefined') {
+            return false;
+        }
+
+        return true;
+    }
+
     /**
      * キーワード検索オプションのチェック
      * @param keyword: string | undefined
@@ -181,6 +216,19 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
         return true;
     }
 
+    /**
+     * 検索クエリのチェック
+     * @param keywordQuery: string | undefined
+     * @return boolean 問題なければ true を返す
+     */
+    private checkKeywordQuery(keywordQuery: string | undefined): boolean {
+        if (typeof keywordQuery === 'undefined') {
+            return true;
+        }
+
+        return KeywordQueryUtil.parse(keywordQuery).errors.length === 0;
+    }
+
     /**
      * 保存オプションチェック
      * @param option: apid.RuleReserveOption
@@ -192,6 +240,24 @@ export default class ReserveOptionChecker implements IReserveOptionChecker {
             return false;
         }
 
+        return this.checkPaddingOption(option);
+    }
+
+    /**
+     * 録画パディングのチェック
+     * @param option: apid.RuleReserveOption | apid.EditManualReserveOption
+     * @return boolean 問題がなければ true を返す
+     */
+    public checkPaddingOption(option: apid.RuleReserveOption | apid.EditManualReserveOption): boolean {
+        for (const padding of [option.startPadding, option.endPadding]) {
+            if (
+                typeof padding !== 'undefined' &&
+                (Number.isInteger(padding) === false || padding < 0 || padding > ReserveUtil.MAX_PADDING)
+            ) {
+                return false;
+            }
+        }
+
         return true;
     }
 
@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import { inject, injectable } from 'inversify';
+import * as path from 'path';
+import * as stream from 'stream';
+import * as apid from '../../../../api';
+import DropLogFile from '../../../db/entities/DropLogFile';
+import DropLogUtil from '../../../util/DropLogUtil';
+import FileUtil from '../../../util/FileUtil';
+import IVideoUtil from '../../api/video/IVideoUtil';
+import IDropLogFileDB from '../../db/IDropLogFileDB';
+import IRecordedDB from '../../db/IRecordedDB';
+import IVideoFileDB from '../../db/IVideoFileDB';
+import IRecordedEvent from '../../event/IRecordedEvent';
+import IConfigFile from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import { IPromiseQueue } from '../../IPromiseQueue';
+import { DropCheckerModelProvider } from '../recording/IDropCheckerModel';
+import IDropCheckManageModel, { DropCheckManageErrors } from './IDropCheckManageModel';
+
+@injectable()
+export default class DropCheckManageModel implements IDropCheckManageModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private queue: IPromiseQueue;
+    private recordedDB: IRecordedDB;
+    private videoFileDB: IVideoFileDB;
+    private dropLogFileDB: IDropLogFileDB;
+    private recordedEvent: IRecordedEvent;
+    private videoUtil: IVideoUtil;
+    private dropCheckerProvider: DropCheckerModelProvider;
+
+    private progressIndex: { [videoFileId: number]: apid.DropCheckProgress } = {};
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IPromiseQueue') queue: IPromiseQueue,
+        @inject('IRecordedDB') recordedDB: IRecordedDB,
+        @inject('IVideoFileDB') videoFileDB: IVideoFileDB,
+        @inject('IDropLogFileDB') dropLogFileDB: IDropLogFileDB,
+        @inject('IRecordedEvent') recordedEvent: IRecordedEvent,
+        @inject('IVideoUtil') videoUtil: IVideoUtil,
+        @inject('DropCheckerModelProvider') dropCheckerProvider: DropCheckerModelProvider,
+    ) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+        this.queue = queue;
+        this.recordedDB = recordedDB;
+        this.videoFileDB = videoFileDB;
+        this.dropLogFileDB = dropLogFileDB;
+        this.recordedEvent = recordedEvent;
+        this.videoUtil = videoUtil;
+        this.dropCheckerProvider = dropCheckerProvider;
+    }
+
+    /**
+     * 指定した video file のドロップチェックを Queue に追加する
+     * @param videoFileId: apid.VideoFileId
+     * @return Promise<void>
+     */
+    public async add(videoFileId: apid.VideoFileId): Promise<void> {
+        const videoFile = await this.videoFileDB.findId(videoFileId);
+        if (videoFile === null) {
+            throw new Error(DropCheckManageErrors.VIDEO_FILE_NOT_FOUND);
+        }
+        if (videoFile.type !== 'ts') {
+            throw new Error(DropCheckManageErrors.NOT_TS);
+        }
+
+        const recorded = await this.recordedDB.findId(videoFile.recordedId);
+        if (recorded === null) {
+            throw new Error(DropCheckManageErrors.VIDEO_FILE_NOT_FOUND);
+        }
+        if (recorded.isRecording === true) {
+            throw new Error(DropCheckManageErrors.RECORDING);
+        }
+        if (typeof this.progressIndex[videoFileId] !== 'undefined') {
+            throw new Error(DropCheckManageErrors.ALREADY_ADDED);
+        }
+
+        this.log.system.info(`add drop check queue: ${videoFileId}`);
+        this.progressIndex[videoFileId] = {
+            videoFileId: videoFileId,
+            state: 'waiting',
+            progress: 0,
+        };
+
+        this.queue.add<void>(() => {
+            return this.check(videoFileId)
+                .catch(err => {
+                    this.log.system.error(`drop check error: ${videoFileId}`);
+                    this.log.system.error(err);
+                })
+                .finally(() => {
+                    delete this.progressIndex[videoFileId];
+                });
+        });
+    }
+
+    /**
+     * 指定した video file のドロップチェックの進捗を返す
+     * @param videoFileId: apid.VideoFileId
+     * @return apid.DropCheckProgress | null Queue に存在しない場合は null を返す
+     */
+    public getProgress(videoFileId: apid.VideoFileId): apid.DropCheckProgress | null {
+        const progress = this.progressIndex[videoFileId];
+
+        return typeof progress === 'undefined' ? null : progress;
+    }
+
+    /**
+     * ドロップチェックを実行して録画のドロップログファイルを作成 (置き換え) する
+     * @param videoFileId: apid.VideoFileId
+     * @return Promise<void>
+     */
+    private async check(videoFileId: apid.VideoFileId): Promise<void> {
+        const videoFile = await this.videoFileDB.findId(videoFileId);
+        const videoFilePath = await this.videoUtil.getFullFilePathFromId(videoFileId);
+        if (videoFile === null || videoFilePath === null) {
+            throw new Error(DropCheckManageErrors.VIDEO_FILE_NOT_FOUND);
+        }
+
+        this.log.system.info(`start drop check: ${videoFilePath}`);
+        const progress = this.progressIndex[videoFileId];
+        progress.state = 'running';
+
+        const fileSize = await FileUtil.getFileSize(videoFilePath);
+        const dropChecker = await this.dropCheckerProvider();
+        let error = 0;
+        let drop = 0;
+        let scrambling = 0;
+        try {
+            // ドロップチェッカーへ pipe されるまでは読み込みを開始しないよう data イベントは start 後に登録する
+            const readStream = fs.createReadStream(videoFilePath);
+            await dropChecker.start(this.config.dropLog, videoFilePath, readStream).catch(err => {
+                readStream.destroy();
+                throw err;
+            });
+
+            // 読み込んだサイズから進捗を算出する
+            let readSize = 0;
+            readStream.on('data', chunk => {
+                readSize += chunk.length;
+                progress.progress = fileSize > 0 ? readSize / fileSize : 0;
+            });
+            await new Promise<void>((resolve, reject) => {
+                stream.finished(readStream, err => {
+                    if (err) {
+                        reject(err);
+                    } else {
+                        resolve();
+                    }
+                });
+            });
+
+            const dropResult = await dropChecker.getResult();
+            for (const pid in dropResult) {
+                error += dropResult[pid].error;
+                drop += dropResult[pid].drop;
+                scrambling += dropResult[pid].scrambling;
+            }
+        } finally {
+            await dropChecker.stop();
+        }
+
+        const dropFilePath = dropChecker.getFilePath();
+        if (dropFilePath === null) {
+            throw new Error('DropLogFilePathIsNull');
+        }
+
+        // ドロップログファイル情報を追加して録画に関連付ける
+        const dropLogFile = new DropLogFile();
+        dropLogFile.errorCnt = error;
+        dropLogFile.dropCnt = drop;
+        dropLogFile.scramblingCnt = scrambling;
+        dropLogFile.filePath = path.basename(dropFilePath);
+        const dropLogFileId = await this.dropLogFileDB.insertOnce(dropLogFile);
+
+        const recorded = await this.recordedDB.findId(videoFile.recordedId);
+        if (recorded === null) {
+            // チェック中に録画が削除された
+            await this.deleteDropLogFile(dropLogFileId, dropFilePath);
+
+            return;
+        }
+        await this.recordedDB.setDropLogFileId(recorded.id, dropLogFileId);
+
+        // 古いドロップログファイルを削除
+        if (typeof recorded.dropLogFile !== 'undefined' && recorded.dropLogFile !== null) {
+            await this.deleteDropLogFile(
+                recorded.dropLogFile.id,
+                path.join(this.config.dropLog, recorded.dropLogFile.filePath),
+            );
+        }
+
+        this.log.system.info(
+            `finish drop check: ${videoFilePath}, error: ${error}, drop: ${drop}, scrambling: ${scrambling}`,
+        );
+        this.recordedEvent.emitUpdateRecorded(recorded.id);
+    }
+
+    /**
+     * ドロップログファイルとドロップログ詳細ファイル, DB 上の情報を削除する
+     * @param dropLogFileId: apid.DropLogFileId
+     * @param filePath: string ドロップログファイルパス
+     * @return Promise<void>
+     */
+    private async deleteDropLogFile(dropLogFileId: apid.DropLogFileId, filePath: string): Promise<void> {
+        for (const file of [filePath, DropLogUtil.getDetailFilePath(filePath)]) {
+            this.log.system.info(`delete: ${file}`);
+            await FileUtil.unlink(file).catch(err => {
+                this.log.system.warn(`failed to delete ${file}`);
+                this.log.system.warn(err);
+            });
+        }
+
+        await this.dropLogFileDB.deleteOnce(dropLogFileId);
+    }
+}
@@ -0,0 +1,13 @@
+import * as apid from '../../../../api';
+
+export namespace DropCheckManageErrors {
+    export const VIDEO_FILE_NOT_FOUND = 'VideoFileIsNotFound';
+    export const NOT_TS = 'VideoFileIsNotTs';
+    export const RECORDING = 'RecordedIsRecording';
+    export const ALREADY_ADDED = 'DropCheckIsAlreadyAdded';
+}
+
+export default interface IDropCheckManageModel {
+    add(videoFileId: apid.VideoFileId): Promise<void>;
+    getProgress(videoFileId: apid.VideoFileId): apid.DropCheckProgress | null;
+}
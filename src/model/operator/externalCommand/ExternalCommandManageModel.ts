@@ -137,6 +137,18 @@ export default class ExternalCommandManageModel implements IExternalCommandManag
         this.addRecorded(this.config.recordingFailedCommand, recorded);
     }
 
+    /**
+     * 録画中の受信エラーが閾値を超えた時のコマンド実行を queue に追加する
+     * @param recorded: Recorded
+     */
+    public addRecordingDropThresholdCmd(recorded: Recorded): void {
+        if (typeof this.config.recordingDropThresholdCommand === 'undefined') {
+            return;
+        }
+
+        this.addRecorded(this.config.recordingDropThresholdCommand, recorded);
+    }
+
     /**
      * エンコードのコマンド実行を queue に追加する
      * @param info: OperatorFinishEncodeInfo
@@ -10,5 +10,6 @@ export default interface IExternalCommandManageModel {
     addRecordingStartCmd(recorded: Recorded): void;
     addRecordingFinishCmd(recorded: Recorded): void;
     addRecordingFailedCmd(recorded: Recorded): void;
+    addRecordingDropThresholdCmd(recorded: Recorded): void;
     addEncodingFinishCmd(info: OperatorFinishEncodeInfo): void;
 }
@@ -0,0 +1,4 @@
+export default interface IReceptionQualityManageModel {
+    importDropLogs(): Promise<void>;
+    cleanup(): Promise<void>;
+}
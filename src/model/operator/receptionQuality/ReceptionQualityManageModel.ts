@@ -0,0 +1,136 @@
+import { inject, injectable } from 'inversify';
+import * as path from 'path';
+import * as apid from '../../../../api';
+import Channel from '../../../db/entities/Channel';
+import ReceptionQuality from '../../../db/entities/ReceptionQuality';
+import FileUtil from '../../../util/FileUtil';
+import IChannelDB from '../../db/IChannelDB';
+import IReceptionQualityDB from '../../db/IReceptionQualityDB';
+import IRecordedDB from '../../db/IRecordedDB';
+import IConfigFile from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import IReceptionQualityManageModel from './IReceptionQualityManageModel';
+
+@injectable()
+class ReceptionQualityManageModel implements IReceptionQualityManageModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private channelDB: IChannelDB;
+    private recordedDB: IRecordedDB;
+    private receptionQualityDB: IReceptionQualityDB;
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IChannelDB') channelDB: IChannelDB,
+        @inject('IRecordedDB') recordedDB: IRecordedDB,
+        @inject('IReceptionQualityDB') receptionQualityDB: IReceptionQualityDB,
+    ) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+        this.channelDB = channelDB;
+        this.recordedDB = recordedDB;
+        this.receptionQualityDB = receptionQualityDB;
+    }
+
+    /**
+     * 受信品質の履歴が記録される前の録画のドロップログを履歴に取り込む
+     * 最も古い履歴より前に開始した保存期間内の録画が対象で, パケット数を取得できないドロップログは取り込まない
+     * @return Promise<void>
+     */
+    public async importDropLogs(): Promise<void> {
+        const oldest = await this.receptionQualityDB.findOldest();
+        const endAt = oldest === null ? new Date().getTime() : oldest.startAt;
+        const recordeds = await this.recordedDB.findDropLogTimeRange(this.getRetentionStartAt(), endAt);
+        if (recordeds.length === 0) {
+            return;
+        }
+
+        const channelIndex: { [channelId: number]: Channel } = {};
+        for (const channel of await this.channelDB.findAll()) {
+            channelIndex[channel.id] = channel;
+        }
+
+        let importedCnt = 0;
+        for (const recorded of recordeds) {
+            const channel = channelIndex[recorded.channelId];
+            if (
+                typeof recorded.dropLogFile === 'undefined' ||
+                recorded.dropLogFile === null ||
+                typeof channel === 'undefined'
+            ) {
+                continue;
+            }
+
+            const packetCnt = await this.getPacketCnt(path.join(this.config.dropLog, recorded.dropLogFile.filePath));
+            if (packetCnt === null || packetCnt <= 0) {
+                continue;
+            }
+
+            const receptionQuality = new ReceptionQuality();
+            receptionQuality.channelId = recorded.channelId;
+            receptionQuality.channelType = channel.channelType;
+            receptionQuality.tunerName = null;
+            receptionQuality.startAt = recorded.startAt;
+            receptionQuality.endAt = recorded.endAt;
+            receptionQuality.packetCnt = packetCnt;
+            receptionQuality.errorCnt = recorded.dropLogFile.errorCnt;
+            receptionQuality.dropCnt = recorded.dropLogFile.dropCnt;
+            receptionQuality.scramblingCnt = recorded.dropLogFile.scramblingCnt;
+            try {
+                await this.receptionQualityDB.insertOnce(receptionQuality);
+                importedCnt++;
+            } catch (err: any) {
+                this.log.system.error(`import reception quality error: ${recorded.id}`);
+                this.log.system.error(err);
+            }
+        }
+
+        this.log.system.info(`import reception qualities from drop logs: ${importedCnt}`);
+    }
+
+    /**
+     * ドロップログファイルに記録された全 pid のパケット数の合計を返す
+     * @param filePath: string ドロップログファイルパス
+     * @return Promise<number | null> ファイルが読めない場合は null を返す
+     */
+    private async getPacketCnt(filePath: string): Promise<number | null> {
+        let log: string;
+        try {
+            log = await FileUtil.readFile(filePath);
+        } catch (err: any) {
+            this.log.system.warn(`drop log file read error: ${filePath}`);
+
+            return null;
+        }
+
+        let packetCnt = 0;
+        const regExp = /^pid: .+, packet: (\d+),/gm;
+        let result: RegExpExecArray | null;
+        while ((result = regExp.exec(log)) !== null) {
+            packetCnt += parseInt(result[1], 10);
+        }
+
+        return packetCnt;
+    }
+
+    /**
+     * 保存期間を過ぎた受信品質の履歴を削除する
+     * @return Promise<void>
+     */
+    public async cleanup(): Promise<void> {
+        await this.receptionQualityDB.deleteOld(this.getRetentionStartAt());
+    }
+
+    /**
+     * 保存期間の開始時刻を返す
+     * @return apid.UnixtimeMS
+     */
+    private getRetentionStartAt(): apid.UnixtimeMS {
+        return new Date().getTime() - this.config.receptionQualityRetentionDays * 24 * 60 * 60 * 1000;
+    }
+}
+
+export default ReceptionQualityManageModel;
@@ -1,4 +1,5 @@
 import * as apid from '../../../../api';
+import Recorded from '../../../db/entities/Recorded';
 
 export interface AddVideoFileOption {
     recordedId: apid.RecordedId;
@@ -22,14 +23,18 @@ export interface UploadedVideoFileOption {
 }
 
 export default interface IRecordedManageModel {
-    delete(recordedId: apid.RecordedId): Promise<void>;
+    delete(recordedId: apid.RecordedId, isIgnoreProtection?: boolean, isForgetHistory?: boolean): Promise<void>;
     updateVideoFileSize(videoFileId: apid.VideoFileId): Promise<void>;
     addVideoFile(option: AddVideoFileOption): Promise<apid.VideoFileId>;
     addUploadedVideoFile(option: UploadedVideoFileOption): Promise<void>;
     createNewRecorded(option: apid.CreateNewRecordedOption): Promise<apid.RecordedId>;
+    edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void>;
+    updateProgramInfo(recordedId: apid.RecordedId, option: apid.UpdateRecordedProgramOption): Promise<void>;
     deleteVideoFile(videoFileid: apid.VideoFileId, isIgnoreProtection?: boolean): Promise<void>;
     changeProtect(recordedId: apid.RecordedId, isProtect: boolean): Promise<void>;
+    supersede(recordedId: apid.RecordedId, rerecorded: Recorded): Promise<void>;
     historyCleanup(): Promise<void>;
+    deleteHistory(historyId: apid.RecordedHistoryId): Promise<void>;
     videoFileCleanup(): Promise<void>;
     dropLogFileCleanup(): Promise<void>;
     removeRuleId(ruleId: apid.RuleId): Promise<void>;
@@ -6,10 +6,12 @@ import DropLogFile from '../../../db/entities/DropLogFile';
 import Recorded from '../../../db/entities/Recorded';
 import Thumbnail from '../../../db/entities/Thumbnail';
 import VideoFile from '../../../db/entities/VideoFile';
+import DropLogUtil from '../../../util/DropLogUtil';
 import FileUtil from '../../../util/FileUtil';
 import StrUtil from '../../../util/StrUtil';
 import IVideoUtil from '../../api/video/IVideoUtil';
 import IDropLogFileDB from '../../db/IDropLogFileDB';
+import IProgramDB from '../../db/IProgramDB';
 import IRecordedDB from '../../db/IRecordedDB';
 import IRecordedHistoryDB from '../../db/IRecordedHistoryDB';
 import IThumbnailDB from '../../db/IThumbnailDB';
@@ -32,6 +34,7 @@ export default class RecordedManageModel implements IRecordedManageModel {
     private thumbnailDB: IThumbnailDB;
     private dropLogFileDB: IDropLogFileDB;
     private recordedHistoryDB: IRecordedHistoryDB;
+    private programDB: IProgramDB;
     private recordingManageModel: IRecordingManageModel;
     private recordedEvent: IRecordedEvent;
     private videoUtil: IVideoUtil;
@@ -45,6 +48,7 @@ export default class RecordedManageModel implements IRecordedManageModel {
         @inject('IThumbnailDB') thumbnailDB: IThumbnailDB,
         @inject('IDropLogFileDB') dropLogFileDB: IDropLogFileDB,
         @inject('IRecordedHistoryDB') recordedHistoryDB: IRecordedHistoryDB,
+        @inject('IProgramDB') programDB: IProgramDB,
         @inject('IRecordingManageModel')
         recordingManageModel: IRecordingManageModel,
         @inject('IRecordedEvent') recordedEvent: IRecordedEvent,
@@ -58,6 +62,7 @@ export default class RecordedManageModel implements IRecordedManageModel {
         this.thumbnailDB = thumbnailDB;
         this.dropLogFileDB = dropLogFileDB;
         this.recordedHistoryDB = recordedHistoryDB;
+        this.programDB = programDB;
         this.recordingManageModel = recordingManageModel;
         this.recordedEvent = recordedEvent;
         this.videoUtil = videoUtil;
@@ -68,9 +73,14 @@ export default class RecordedManageModel implements IRecordedManageModel {
      * 指定した録画情報と各種ファイルを削除する
      * @param recordedId: RecordedId
      * @param isIgnoreProtection: boolean
+     * @param isForgetHistory: boolean true の場合は録画履歴も削除して重複判定から除外する
      * @return Promise<void>
      */
-    public async delete(recordedId: apid.RecordedId, isIgnoreProtection: boolean = false): Promise<void> {
+    public async delete(
+        recordedId: apid.RecordedId,
+        isIgnoreProtection: boolean = false,
+        isForgetHistory: boolean = false,
+    ): Promise<void> {
         this.log.system.info(`delete recorded: ${recordedId}`);
         const recorded = await this.recordedDB.findId(recordedId);
         if (recorded === null) {
@@ -144,6 +154,15 @@ export default class RecordedManageModel implements IRecordedManageModel {
                 this.log.system.error(`failed to delete ${filePath}`);
                 this.log.system.error(err);
             });
+
+            const detailFilePath = DropLogUtil.getDetailFilePath(filePath);
+            if ((await this.checkFileExistence(detailFilePath)) === true) {
+                this.log.system.info(`delete: ${detailFilePath}`);
+                await FileUtil.unlink(detailFilePath).catch(err => {
+                    this.log.system.error(`failed to delete ${detailFilePath}`);
+                    this.log.system.error(err);
+                });
+            }
         }
 
         // DB からサムネイル情報削除
@@ -176,10 +195,31 @@ export default class RecordedManageModel implements IRecordedManageModel {
             });
         }
 
+        // 録画履歴削除
+        let isDeletedHistory = false;
+        if (isForgetHistory === true) {
+            this.log.system.info(`forget recorded history: ${recordedId}`);
+            try {
+                await this.recordedHistoryDB.deleteRecorded({
+                    recordedId: recordedId,
+                    name: StrUtil.deleteBrackets(recorded.halfWidthName),
+                    channelId: recorded.channelId,
+                    endAt: recorded.endAt,
+                });
+                isDeletedHistory = true;
+            } catch (err: any) {
+                this.log.system.error(`failed to delete recorded history: ${recordedId}`);
+                this.log.system.error(err);
+            }
+        }
+
         this.log.system.info(`successful delete recorded: ${recordedId}`);
 
         // イベント発行
         this.recordedEvent.emitDeleteRecorded(recorded);
+        if (isDeletedHistory === true) {
+            this.recordedEvent.emitDeleteHistory();
+        }
     }
 
     /**
@@ -429,6 +469,128 @@ export default class RecordedManageModel implements IRecordedManageModel {
         return recordedId;
     }
 
+    /**
+     * 録画番組情報を編集する
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.EditRecordedOption
+     * @return Promise<void>
+     */
+    public async edit(recordedId: apid.RecordedId, option: apid.EditRecordedOption): Promise<void> {
+        this.log.system.info(`edit recorded: ${recordedId}`);
+
+        const oldRecorded = await this.recordedDB.findId(recordedId);
+        if (oldRecorded === null) {
+            this.log.system.warn(`recorded is not found: ${recordedId}`);
+            throw new Error('RecordedIsNotFound');
+        }
+
+        const recorded = new Recorded();
+        recorded.id = recordedId;
+        recorded.channelId = option.channelId;
+        recorded.name = StrUtil.toDBStr(option.name);
+        recorded.halfWidthName = StrUtil.toHalf(option.name);
+        recorded.description = null;
+        recorded.halfWidthDescription = null;
+        if (typeof option.description !== 'undefined') {
+            recorded.description = StrUtil.toDBStr(option.description);
+            recorded.halfWidthDescription = StrUtil.toHalf(recorded.description);
+        }
+        recorded.extended = null;
+        recorded.halfWidthExtended = null;
+        if (typeof option.extended !== 'undefined') {
+            recorded.extended = StrUtil.toDBStr(option.extended);
+            recorded.halfWidthExtended = StrUtil.toHalf(recorded.extended);
+        }
+        // extended が書き換えられた場合は元の詳細情報と整合が取れなくなるため破棄する
+        if (recorded.extended !== (typeof oldRecorded.extended === 'undefined' ? null : oldRecorded.extended)) {
+            recorded.rawExtended = null;
+            recorded.rawHalfWidthExtended = null;
+        }
+        recorded.genre1 = typeof option.genre1 === 'undefined' ? null : option.genre1;
+        recorded.subGenre1 = typeof option.subGenre1 === 'undefined' ? null : option.subGenre1;
+        recorded.genre2 = typeof option.genre2 === 'undefined' ? null : option.genre2;
+        recorded.subGenre2 = typeof option.subGenre2 === 'undefined' ? null : option.subGenre2;
+        recorded.genre3 = typeof option.genre3 === 'undefined' ? null : option.genre3;
+        recorded.subGenre3 = typeof option.subGenre3 === 'undefined' ? null : option.subGenre3;
+
+        await this.recordedDB.updateOnce(recorded).catch(err => {
+            this.log.system.error(`failed to edit recorded: ${recordedId}`);
+            this.log.system.error(err);
+            throw err;
+        });
+
+        this.recordedEvent.emitUpdateRecorded(recordedId);
+    }
+
+    /**
+     * 番組表 (ProgramDB) から録画番組情報を再取得する
+     * @param recordedId: apid.RecordedId
+     * @param option: apid.UpdateRecordedProgramOption
+     * @return Promise<void>
+     */
+    public async updateProgramInfo(
+        recordedId: apid.RecordedId,
+        option: apid.UpdateRecordedProgramOption,
+    ): Promise<void> {
+        this.log.system.info(`update recorded program info: ${recordedId}`);
+
+        const oldRecorded = await this.recordedDB.findId(recordedId);
+        if (oldRecorded === null) {
+            this.log.system.warn(`recorded is not found: ${recordedId}`);
+            throw new Error('RecordedIsNotFound');
+        }
+
+        const program =
+            typeof option.programId !== 'undefined'
+                ? await this.programDB.findId(option.programId)
+                : await this.programDB.findChannelIdAndTime(
+                      typeof option.channelId === 'undefined' ? oldRecorded.channelId : option.channelId,
+                      typeof option.startAt === 'undefined' ? oldRecorded.startAt : option.startAt,
+                  );
+        if (program === null) {
+            this.log.system.warn(`program is not found: ${recordedId}`);
+            throw new Error('ProgramIsNotFound');
+        }
+
+        const recorded = new Recorded();
+        recorded.id = recordedId;
+        recorded.programId = program.id;
+        recorded.channelId = program.channelId;
+        recorded.name = program.name;
+        recorded.halfWidthName = program.halfWidthName;
+        recorded.description = program.description;
+        recorded.halfWidthDescription = program.halfWidthDescription;
+        recorded.extended = program.extended;
+        recorded.halfWidthExtended = program.halfWidthExtended;
+        recorded.rawExtended = program.rawExtended;
+        recorded.rawHalfWidthExtended = program.rawHalfWidthExtended;
+        recorded.genre1 = program.genre1;
+        recorded.subGenre1 = program.subGenre1;
+        recorded.genre2 = program.genre2;
+        recorded.subGenre2 = program.subGenre2;
+        recorded.genre3 = program.genre3;
+        recorded.subGenre3 = program.subGenre3;
+        recorded.videoType = program.videoType;
+        recorded.videoResolution = program.videoResolution;
+        recorded.videoStreamContent = program.videoStreamContent;
+        recorded.videoComponentType = program.videoComponentType;
+        recorded.audioSamplingRate = program.audioSamplingRate;
+        recorded.audioComponentType = program.audioComponentType;
+        recorded.seriesId = program.seriesId;
+        recorded.seriesRepeat = program.seriesRepeat;
+        recorded.seriesEpisode = program.seriesEpisode;
+        recorded.seriesLastEpisode = program.seriesLastEpisode;
+        recorded.seriesName = program.seriesName;
+
+        await this.recordedDB.updateOnce(recorded).catch(err => {
+            this.log.system.error(`failed to update recorded program info: ${recordedId}`);
+            this.log.system.error(err);
+            throw err;
+        });
+
+        this.recordedEvent.emitUpdateRecorded(recordedId);
+    }
+
     /**
      * 指定された video file id のファイルを削除する
      * @param videoFileid: apid.VideoFileId
@@ -493,6 +655,61 @@ export default class RecordedManageModel implements IRecordedManageModel {
         this.recordedEvent.emitChangeProtect(recordedId, isProtect);
     }
 
+    /**
+     * 元の録画と再録画のドロップ数を比較して, 再録画の方がドロップが少ない場合は元の録画を置き換えられたものとする
+     * isDeleteSupersededRecorded が有効な場合は置き換えられた録画を削除する
+     * どちらかのドロップ数が不明 or 再録画のドロップが少なくない場合は置き換えずに確認が必要な録画とする
+     * @param recordedId: apid.RecordedId 元の録画
+     * @param rerecorded: Recorded 再録画
+     * @return Promise<void>
+     */
+    public async supersede(recordedId: apid.RecordedId, rerecorded: Recorded): Promise<void> {
+        const recorded = await this.recordedDB.findId(recordedId);
+        if (recorded === null) {
+            return;
+        }
+
+        const oldDropCnt = this.getDropCnt(recorded);
+        const newDropCnt = this.getDropCnt(rerecorded);
+        if (oldDropCnt !== null && newDropCnt !== null && newDropCnt < oldDropCnt) {
+            await this.setSuperseded(recorded, rerecorded);
+        } else {
+            this.log.system.info(
+                `rerecorded is not proved to be better than original: ${recordedId} -> ${rerecorded.id}, drop: ${oldDropCnt} -> ${newDropCnt}`,
+            );
+            await this.recordedDB.setRerecordedBy(recorded.id, rerecorded.id);
+            this.recordedEvent.emitUpdateRecorded(recorded.id);
+        }
+    }
+
+    /**
+     * 録画を置き換えられたものとする
+     * @param superseded: Recorded 置き換えられる録画
+     * @param by: Recorded 置き換える録画
+     * @return Promise<void>
+     */
+    private async setSuperseded(superseded: Recorded, by: Recorded): Promise<void> {
+        this.log.system.info(`supersede recorded: ${superseded.id} -> ${by.id}`);
+        await this.recordedDB.setSupersededBy(superseded.id, by.id);
+        this.recordedEvent.emitUpdateRecorded(superseded.id);
+
+        // 保護されている録画は削除しない
+        if (this.config.isDeleteSupersededRecorded === true && superseded.isProtected === false) {
+            await this.delete(superseded.id);
+        }
+    }
+
+    /**
+     * ドロップ数を返す
+     * @param recorded: Recorded
+     * @return number | null ドロップチェックしていない場合は null
+     */
+    private getDropCnt(recorded: Recorded): number | null {
+        return typeof recorded.dropLogFile === 'undefined' || recorded.dropLogFile === null
+            ? null
+            : recorded.dropLogFile.dropCnt;
+    }
+
     /**
      * RecordedHistory の保存期間外のデータを削除する
      * @return Promise<void>
@@ -505,6 +722,24 @@ export default class RecordedManageModel implements IRecordedManageModel {
         });
     }
 
+    /**
+     * 指定した録画履歴を削除する
+     * @param historyId: apid.RecordedHistoryId
+     * @return Promise<void>
+     */
+    public async deleteHistory(historyId: apid.RecordedHistoryId): Promise<void> {
+        this.log.system.info(`delete recorded history: ${historyId}`);
+
+        const history = await this.recordedHistoryDB.findId(historyId);
+        if (history === null) {
+            this.log.system.warn(`recorded history is not found: ${historyId}`);
+            throw new Error('RecordedHistoryIdIsNotFound');
+        }
+
+        await this.recordedHistoryDB.deleteOnce(historyId);
+        this.recordedEvent.emitDeleteHistory();
+    }
+
     /**
      * DB に登録されていない recorded 下のファイル削除 &  DB に登録されているが存在しない番組情報の削除
      * @return Promise<void>
@@ -601,6 +836,7 @@ export default class RecordedManageModel implements IRecordedManageModel {
             if ((await this.checkFileExistence(filePath)) === true) {
                 // ファイルが存在するなら索引に追加
                 fileIndex[filePath] = true;
+                fileIndex[DropLogUtil.getDetailFilePath(filePath)] = true;
             } else {
                 this.log.system.warn(`drop file is not exist: ${filePath}`);
                 // ファイルが存在しないなら削除
@@ -4,11 +4,13 @@ import * as fs from 'fs';
 import { inject, injectable } from 'inversify';
 import * as path from 'path';
 import * as stream from 'stream';
+import * as apid from '../../../../api';
 import DateUtil from '../../../util/DateUtil';
+import DropLogUtil from '../../../util/DropLogUtil';
 import FileUtil from '../../../util/FileUtil';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
-import IDropCheckerModel from './IDropCheckerModel';
+import IDropCheckerModel, { DropCnts } from './IDropCheckerModel';
 
 @injectable()
 class DropCheckerModel implements IDropCheckerModel {
@@ -18,8 +20,18 @@ class DropCheckerModel implements IDropCheckerModel {
     private result: aribts.Result | null = null;
     private pidIndex: { [key: number]: string } = {};
     private time: Date | null = null;
+    private firstTime: Date | null = null; // ストリーム中で最初に取得した時刻 (TOT)
+    private firstTimePosition: number = 0; // firstTime 取得時のストリーム先頭からの経過時間 (ms)
+    private pcrPid: number | null = null; // PCR を格納する pid
+    private lastPcr: number | null = null; // 最後に取得した PCR (ms)
+    private pcrPosition: number | null = null; // PCR から算出したストリーム先頭からの経過時間 (ms)
     private hasError: boolean = false; // パケットチェック中にエラーを検知したか？
     private isFinished: boolean = false; // 終了処理が終わっているか？
+    private cnts: DropCnts = { error: 0, drop: 0, scrambling: 0 }; // チェック中の累計
+    private startAt: number = 0; // チェック開始時刻
+    private events: apid.DropLogEvent[] = [];
+    private lastEvents: { [key: string]: apid.DropLogEvent } = {}; // 種類, pid ごとの最後のイベント
+    private isEventsTruncated: boolean = false;
 
     private transformStream: stream.Transform | null = null;
     private tsReadableConnector: aribts.TsReadableConnector | null = null;
@@ -46,6 +58,7 @@ class DropCheckerModel implements IDropCheckerModel {
 
         // 空ファイル生成
         await FileUtil.touchFile(this.dest);
+        this.startAt = new Date().getTime();
 
         this.transformStream = new stream.Transform({
             transform: function (chunk: any, _encoding: string, done: () => void): void {
@@ -69,10 +82,18 @@ class DropCheckerModel implements IDropCheckerModel {
         });
 
         this.tsSectionUpdater.on('pmt', tsSection => {
-            const streams = tsSection.decode().streams;
-            for (const s of streams) {
+            const programMap = tsSection.decode();
+            for (const s of programMap.streams) {
                 this.setIndex(s.stream_type, s.elementary_PID);
             }
+            if (this.pcrPid === null) {
+                this.pcrPid = programMap.PCR_PID;
+            }
+        });
+
+        // packetAnalyzer より先に PCR を取得してイベントの位置に使用する
+        this.tsPacketParser.on('data', (tsPacket: aribts.TsPacket) => {
+            this.updatePcr(tsPacket);
         });
 
         this.tsPacketAnalyzer.on('packetError', (pid, counter, expected) => {
@@ -81,6 +102,8 @@ class DropCheckerModel implements IDropCheckerModel {
                     expected || '-'
                 }, time: ${this.getTime()})\n`,
             );
+            this.cnts.error++;
+            this.addEvent('error', pid);
             this.hasError = true;
         });
 
@@ -90,11 +113,15 @@ class DropCheckerModel implements IDropCheckerModel {
                     expected || '-'
                 }, time: ${this.getTime()})\n`,
             );
+            this.cnts.drop++;
+            this.addEvent('drop', pid);
             this.hasError = true;
         });
 
         this.tsPacketAnalyzer.on('packetScrambling', pid => {
             this.appendFile(`scrambling (pid: ${this.pidToString(pid)}, time: ${this.getTime()})\n`);
+            this.cnts.scrambling++;
+            this.addEvent('scrambling', pid);
             this.hasError = true;
         });
 
@@ -103,6 +130,10 @@ class DropCheckerModel implements IDropCheckerModel {
         });
 
         this.tsSectionAnalyzer.on('time', time => {
+            if (this.firstTime === null) {
+                this.firstTime = time;
+                this.firstTimePosition = this.pcrPosition === null ? 0 : this.pcrPosition;
+            }
             this.time = time;
         });
 
@@ -165,6 +196,126 @@ class DropCheckerModel implements IDropCheckerModel {
                 this.log.system.error(err);
             });
         }
+
+        await this.writeDetailFile(result).catch(err => {
+            this.log.system.error(`write drop log detail error: ${this.dest}`);
+            this.log.system.error(err);
+        });
+    }
+
+    /**
+     * ドロップイベントを記録する
+     * 同じ種類, pid のイベントは EVENT_AGGREGATE_INTERVAL 単位でまとめる
+     * @param type: apid.DropLogEventType
+     * @param pid: number
+     */
+    private addEvent(type: apid.DropLogEventType, pid: number): void {
+        const now = new Date().getTime();
+        const position = this.getPosition();
+        const key = `${type}-${pid}`;
+        const last = this.lastEvents[key];
+        if (typeof last !== 'undefined' && position - last.position < DropCheckerModel.EVENT_AGGREGATE_INTERVAL) {
+            last.cnt++;
+
+            return;
+        }
+
+        if (this.events.length >= DropCheckerModel.MAX_EVENTS) {
+            this.isEventsTruncated = true;
+
+            return;
+        }
+
+        const event: apid.DropLogEvent = {
+            type: type,
+            pid: pid,
+            cnt: 1,
+            time: now,
+            position: position,
+        };
+        this.events.push(event);
+        this.lastEvents[key] = event;
+    }
+
+    /**
+     * PCR を更新する
+     * PCR が巻き戻った場合やドロップ以上に間隔が空いた場合は不連続とみなして経過時間に加算しない
+     * @param tsPacket: aribts.TsPacket
+     */
+    private updatePcr(tsPacket: aribts.TsPacket): void {
+        if (this.pcrPid === null || tsPacket.getPid() !== this.pcrPid || tsPacket.getPcrFlag() !== 1) {
+            return;
+        }
+
+        const adaptationField = tsPacket.decodeAdaptationField();
+        if (adaptationField === null || typeof adaptationField.program_clock_reference_base === 'undefined') {
+            return;
+        }
+
+        const pcr = adaptationField.program_clock_reference_base / DropCheckerModel.PCR_BASE_CLOCK;
+        if (this.lastPcr === null || this.pcrPosition === null) {
+            this.pcrPosition = 0;
+        } else {
+            let diff = pcr - this.lastPcr;
+            if (diff < 0) {
+                // 33 bit の周回
+                diff += DropCheckerModel.PCR_WRAP_AROUND;
+            }
+            if (diff <= DropCheckerModel.MAX_PCR_INTERVAL) {
+                this.pcrPosition += diff;
+            }
+        }
+        this.lastPcr = pcr;
+    }
+
+    /**
+     * ストリーム先頭からの経過時間 (ms) を返す
+     * ファイルのチェックでは実時間より速くストリームが流れるため, 実時間ではなくストリーム中の PCR を使用する
+     * PCR が取得できない場合はストリーム中の時刻 (TOT) を使用する
+     * @return number
+     */
+    private getPosition(): number {
+        if (this.pcrPosition !== null) {
+            return Math.floor(this.pcrPosition);
+        }
+
+        if (this.firstTime !== null && this.time !== null) {
+            return this.firstTimePosition + this.time.getTime() - this.firstTime.getTime();
+        }
+
+        return 0;
+    }
+
+    /**
+     * ドロップログ詳細ファイルを書き出す
+     * @param result: aribts.Result
+     * @return Promise<void>
+     */
+    private async writeDetailFile(result: aribts.Result): Promise<void> {
+        if (this.dest === null) {
+            throw new Error('LogFilePathIsNull');
+        }
+
+        const detail: apid.DropLogDetail = {
+            startAt: this.startAt,
+            endAt: new Date().getTime(),
+            pids: Object.keys(result).map(pid => {
+                const pidNum = parseInt(pid, 10);
+
+                return {
+                    pid: pidNum,
+                    name: this.getPIDName(pidNum),
+                    error: result[pid as any].error,
+                    drop: result[pid as any].drop,
+                    scrambling: result[pid as any].scrambling,
+                    packet: result[pid as any].packet,
+                };
+            }),
+            events: this.events,
+            isTruncated: this.isEventsTruncated,
+        };
+
+        await FileUtil.writeFile(DropLogUtil.getDetailFilePath(this.dest), JSON.stringify(detail));
     }
 
     /**
@@ -400,6 +551,15 @@ class DropCheckerModel implements IDropCheckerModel {
         return this.dest;
     }
 
+    /**
+     * チェック中のエラー, ドロップ, スクランブルの累計を返す
+     * 録画中の受信状況の監視に使用する
+     * @return DropCnts
+     */
+    public getCnts(): DropCnts {
+        return Object.assign({}, this.cnts);
+    }
+
     /**
      * 結果の取得
      * @return Promise<aribts.Result>
@@ -440,6 +600,11 @@ class DropCheckerModel implements IDropCheckerModel {
 
 namespace DropCheckerModel {
     export const FINISH_EVENT = 'finish_event';
+    export const EVENT_AGGREGATE_INTERVAL = 1000; // イベントをまとめる間隔 (ms)
+    export const MAX_EVENTS = 100000; // 記録するイベント数の上限
+    export const PCR_BASE_CLOCK = 90; // PCR base の 1ms あたりのクロック数 (90kHz)
+    export const PCR_WRAP_AROUND = Math.pow(2, 33) / PCR_BASE_CLOCK; // PCR base が周回する時間 (ms)
+    export const MAX_PCR_INTERVAL = 60 * 1000; // 連続しているとみなす PCR の最大間隔 (ms)
 }
 
 export default DropCheckerModel;
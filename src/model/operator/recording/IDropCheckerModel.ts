@@ -1,9 +1,21 @@
 import * as aribts from 'aribts';
 import * as stream from 'stream';
 
+/**
+ * チェック中に検出したエラー, ドロップ, スクランブルの累計
+ */
+export interface DropCnts {
+    error: number;
+    drop: number;
+    scrambling: number;
+}
+
+export type DropCheckerModelProvider = () => Promise<IDropCheckerModel>;
+
 export default interface IDropCheckerModel {
     start(logDirPath: string, srcFilePath: string, readableStream: stream.Readable): Promise<void>;
     stop(): Promise<void>;
     getFilePath(): string | null;
+    getCnts(): DropCnts;
     getResult(): Promise<aribts.Result>;
 }
@@ -1,9 +1,9 @@
 import * as apid from '../../../../api';
-import * as mapid from '../../../../node_modules/mirakurun/api';
 import { IReserveUpdateValues } from '../../event/IReserveEvent';
+import { ServerTunerDevice } from '../../IMirakurunClientModel';
 
 export default interface IRecordingManageModel {
-    setTuner(tuners: mapid.TunerDevice[]): void;
+    setTuner(tuners: ServerTunerDevice[]): void;
     cleanup(): Promise<void>;
     update(diff: IReserveUpdateValues): Promise<void>;
     hasReserve(reserveId: apid.ReserveId): boolean;
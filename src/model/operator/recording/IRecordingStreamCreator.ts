@@ -1,15 +1,19 @@
-import * as http from 'http';
-import * as mapid from '../../../../node_modules/mirakurun/api';
+import { Readable } from 'stream';
+import * as apid from '../../../../api';
 import Reserve from '../../../db/entities/Reserve';
+import { ServerTunerDevice } from '../../IMirakurunClientModel';
 
 interface IRecordingStreamCreator {
-    setTuner(tuners: mapid.TunerDevice[]): void;
-    create(reserve: Reserve, abortSignal: AbortSignal): Promise<http.IncomingMessage>;
+    setTuner(tuners: ServerTunerDevice[]): void;
+    create(reserve: Reserve, abortSignal: AbortSignal): Promise<Readable>;
+    hasEndTimer(reserveId: apid.ReserveId): boolean;
     changeEndAt(reserve: Reserve): void;
+    getTunerName(reserveId: apid.ReserveId): string | null;
 }
 
 namespace IRecordingStreamCreator {
     export const PREP_TIME = 15 * 1000;
+    export const PROGRAM_FOLLOW_INTERVAL = 10 * 1000; // service stream で録画する programId 指定予約で番組情報を確認する間隔
 }
 
 export default IRecordingStreamCreator;
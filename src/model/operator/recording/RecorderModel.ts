@@ -1,18 +1,21 @@
 import * as events from 'events';
 import * as fs from 'fs';
-import * as http from 'http';
 import { inject, injectable } from 'inversify';
 import * as path from 'path';
 import * as stream from 'stream';
 import * as apid from '../../../../api';
 import DropLogFile from '../../../db/entities/DropLogFile';
+import ReceptionQuality from '../../../db/entities/ReceptionQuality';
 import Recorded from '../../../db/entities/Recorded';
 import RecordedHistory from '../../../db/entities/RecordedHistory';
 import Reserve from '../../../db/entities/Reserve';
 import VideoFile from '../../../db/entities/VideoFile';
 import FileUtil from '../../../util/FileUtil';
+import ReserveUtil from '../../../util/ReserveUtil';
 import StrUtil from '../../../util/StrUtil';
+import Util from '../../../util/Util';
 import IDropLogFileDB from '../../db/IDropLogFileDB';
+import IReceptionQualityDB from '../../db/IReceptionQualityDB';
 import IProgramDB from '../../db/IProgramDB';
 import IRecordedDB from '../../db/IRecordedDB';
 import IRecordedHistoryDB from '../../db/IRecordedHistoryDB';
@@ -23,7 +26,7 @@ import IConfigFile from '../../IConfigFile';
 import IConfiguration from '../../IConfiguration';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
-import IDropCheckerModel from './IDropCheckerModel';
+import IDropCheckerModel, { DropCnts } from './IDropCheckerModel';
 import IRecorderModel from './IRecorderModel';
 import IRecordingStreamCreator from './IRecordingStreamCreator';
 import IRecordingUtilModel, { RecFilePathInfo } from './IRecordingUtilModel';
@@ -41,6 +44,7 @@ class RecorderModel implements IRecorderModel {
     private recordedHistoryDB: IRecordedHistoryDB;
     private videoFileDB: IVideoFileDB;
     private dropLogFileDB: IDropLogFileDB;
+    private receptionQualityDB: IReceptionQualityDB;
     private streamCreator: IRecordingStreamCreator;
     private dropChecker: IDropCheckerModel;
     private recordingUtil: IRecordingUtilModel;
@@ -51,7 +55,7 @@ class RecorderModel implements IRecorderModel {
     private videoFileId: apid.VideoFileId | null = null;
     private videoFileFulPath: string | null = null;
     private timerId: NodeJS.Timeout | null = null;
-    private stream: http.IncomingMessage | null = null;
+    private stream: stream.Readable | null = null;
     private recFile: fs.WriteStream | null = null;
     private isStopPrepRec: boolean = false;
     private isNeedDeleteReservation: boolean = true;
@@ -59,9 +63,23 @@ class RecorderModel implements IRecorderModel {
     private isRecording: boolean = false;
     private isPlanToDelete: boolean = false;
     private isCanceledCallingFinished: boolean = false; // mirakurun の stream の終了検知をキャンセルするか
+    private isStopRecording: boolean = false; // 録画中にキャンセルされたか
     private eventEmitter = new events.EventEmitter();
 
     private dropLogFileId: apid.DropLogFileId | null = null;
+    private dropCheckStream: stream.PassThrough | null = null; // 再接続後も drop check を継続するための stream
+    private tunerName: string | null = null; // 録画に使用したチューナー
+
+    // 録画の再接続
+    private segmentFilePaths: string[] = []; // 再接続後の録画ファイル (録画終了時に結合する)
+    private gaps: apid.RecordedGap[] = [];
+    private lastDataTime: apid.UnixtimeMS = 0; // 最後にデータを受信した時刻
+    private stallCheckTimerId: NodeJS.Timeout | null = null;
+
+    // 録画中の受信状況の監視
+    private dropMonitorTimerId: NodeJS.Timeout | null = null;
+    private dropCntsHistory: DropCnts[] = []; // 直近 1 分間の drop 数の推移
+    private lastDropThresholdTime: apid.UnixtimeMS = 0; // 最後に閾値超過を通知した時刻
 
     private abortController: AbortController | null = null;
 
@@ -74,6 +92,7 @@ class RecorderModel implements IRecorderModel {
         @inject('IRecordedHistoryDB') recordedHistoryDB: IRecordedHistoryDB,
         @inject('IVideoFileDB') videoFileDB: IVideoFileDB,
         @inject('IDropLogFileDB') dropLogFileDB: IDropLogFileDB,
+        @inject('IReceptionQualityDB') receptionQualityDB: IReceptionQualityDB,
         @inject('IRecordingStreamCreator')
         streamCreator: IRecordingStreamCreator,
         @inject('IDropCheckerModel') dropChecker: IDropCheckerModel,
@@ -88,6 +107,7 @@ class RecorderModel implements IRecorderModel {
         this.recordedHistoryDB = recordedHistoryDB;
         this.videoFileDB = videoFileDB;
         this.dropLogFileDB = dropLogFileDB;
+        this.receptionQualityDB = receptionQualityDB;
         this.streamCreator = streamCreator;
         this.dropChecker = dropChecker;
         this.recordingUtil = recordingUtil;
@@ -109,12 +129,12 @@ class RecorderModel implements IRecorderModel {
         }
 
         const now = new Date().getTime();
-        if (now >= this.reserve.endAt) {
+        if (now >= ReserveUtil.getRecEndAt(this.reserve)) {
             return false;
         }
 
-        // 待機時間を計算
-        let time = this.reserve.startAt - now - IRecordingStreamCreator.PREP_TIME;
+        // 待機時間を計算 (パディング分早く開始する)
+        let time = ReserveUtil.getRecStartAt(this.reserve) - now - IRecordingStreamCreator.PREP_TIME;
         if (time < 0) {
             time = 0;
         }
@@ -177,6 +197,7 @@ class RecorderModel implements IRecorderModel {
 
             this.abortController = new AbortController();
             this.stream = await this.streamCreator.create(this.reserve, this.abortController.signal);
+            this.tunerName = this.streamCreator.getTunerName(this.reserve.id);
 
             // 録画準備のキャンセル or ストリーム取得中に予約が削除されていないかチェック
             if ((await this.reserveDB.findId(this.reserve.id)) === null) {
@@ -226,6 +247,9 @@ class RecorderModel implements IRecorderModel {
      * @param needesUnpip: boolean
      */
     private destroyStream(needesUnpip: boolean = true): void {
+        this.stopStallCheck();
+        this.stopDropMonitor();
+
         // stop stream
         if (this.stream !== null) {
             try {
@@ -254,6 +278,10 @@ class RecorderModel implements IRecorderModel {
         }
 
         // stop drop check
+        if (this.dropCheckStream !== null) {
+            this.dropCheckStream.end();
+            this.dropCheckStream = null;
+        }
         if (this.dropLogFileId !== null) {
             this.dropChecker.stop().catch(err => {
                 this.log.system.error(`dropChecker stop error: ${this.reserve.id}`);
@@ -292,30 +320,17 @@ class RecorderModel implements IRecorderModel {
         this.log.system.info(`recording: ${this.reserve.id} ${recPath.fullPath}`);
 
         // save stream
-        this.recFile = fs.createWriteStream(recPath.fullPath, { flags: 'a' });
-        this.recFile.once('error', async err => {
-            // 書き込みエラー発生
-            this.log.system.error(`recFile error reserveId: ${this.reserve.id}, recordedId: ${this.recordedId}`);
-            this.log.system.error(err);
-            if (this.stream === null) {
-                this.cancel(false);
-            } else {
-                this.isCanceledCallingFinished = true; // mirakurun の stream の終了処理を行わないようにセット
-                await this.recFailed(err).catch(err => {
-                    this.log.system.fatal(
-                        `Unexpected recFailed error: reserveId: ${this.reserve.id}, recordedId: ${this.recordedId}`,
-                    );
-                    this.log.system.fatal(err);
-                });
-            }
-        });
+        this.recFile = this.createRecFile(recPath.fullPath);
         this.stream.pipe(this.recFile);
 
         // drop checker
         if (this.config.isEnabledDropCheck === true) {
             let dropFilePath: string | null = null;
             try {
-                await this.dropChecker.start(this.config.dropLog, recPath.fullPath, this.stream);
+                // 再接続時に stream が差し替わるため PassThrough を経由させる
+                this.dropCheckStream = new stream.PassThrough();
+                this.stream.pipe(this.dropCheckStream, { end: false });
+                await this.dropChecker.start(this.config.dropLog, recPath.fullPath, this.dropCheckStream);
                 dropFilePath = this.dropChecker.getFilePath();
             } catch (err: any) {
                 this.log.system.error(`drop check error: ${recPath.fullPath}`);
@@ -384,6 +399,8 @@ class RecorderModel implements IRecorderModel {
 
                 // 終了処理セット
                 if (this.stream !== null) {
+                    this.startStallCheck(this.stream);
+                    this.startDropMonitor();
                     this.setEndProcess(this.stream);
                 } else {
                     reject(new Error('StreamIsNull'));
@@ -406,6 +423,33 @@ class RecorderModel implements IRecorderModel {
         });
     }
 
+    /**
+     * 録画ファイルの書き込み stream を生成する
+     * @param filePath: string
+     * @return fs.WriteStream
+     */
+    private createRecFile(filePath: string): fs.WriteStream {
+        const recFile = fs.createWriteStream(filePath, { flags: 'a' });
+        recFile.once('error', async err => {
+            // 書き込みエラー発生
+            this.log.system.error(`recFile error reserveId: ${this.reserve.id}, recordedId: ${this.recordedId}`);
+            this.log.system.error(err);
+            if (this.stream === null) {
+                this.cancel(false);
+            } else {
+                this.isCanceledCallingFinished = true; // mirakurun の stream の終了処理を行わないようにセット
+                await this.recFailed(err).catch(err => {
+                    this.log.system.fatal(
+                        `Unexpected recFailed error: reserveId: ${this.reserve.id}, recordedId: ${this.recordedId}`,
+                    );
+                    this.log.system.fatal(err);
+                });
+            }
+        });
+
+        return recFile;
+    }
+
     /**
      * 録画開始時の録画番組情報追加処理
      * @param recPath: RecFilePathInfo
@@ -454,7 +498,7 @@ class RecorderModel implements IRecorderModel {
      * @param s: Mirakurun からのストリーム
      * @returns Promise<Recorded>
      */
-    private async setEndProcess(s: http.IncomingMessage): Promise<void> {
+    private async setEndProcess(s: stream.Readable): Promise<void> {
         this.log.system.info(`set stream.finished: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`);
         stream.finished(s, {}, async err => {
             // 終了処理が呼ばれていたら無視する
@@ -466,7 +510,16 @@ class RecorderModel implements IRecorderModel {
                 this.log.system.error(
                     `stream.finished error: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`,
                 );
-                await this.recFailed(err);
+                if (this.canResumeRecording() === true) {
+                    await this.resumeRecording(err).catch(e => {
+                        this.log.system.fatal(
+                            `unexpected resumeRecording error: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`,
+                        );
+                        this.log.system.fatal(e);
+                    });
+                } else {
+                    await this.recFailed(err);
+                }
             } else {
                 await this.recEnd().catch(e => {
                     this.log.system.fatal(
@@ -478,6 +531,380 @@ class RecorderModel implements IRecorderModel {
         });
     }
 
+    /**
+     * stream からのデータが途絶えていないか監視する
+     * 途絶えた場合はエラーとして stream を破棄し, 再接続処理へ移る
+     * @param s: Mirakurun からのストリーム
+     */
+    private startStallCheck(s: stream.Readable): void {
+        this.stopStallCheck();
+
+        this.lastDataTime = new Date().getTime();
+        s.on('data', () => {
+            this.lastDataTime = new Date().getTime();
+        });
+
+        if (this.config.isEnabledRecordingResume === false || this.config.recordingStallTimeout <= 0) {
+            return;
+        }
+
+        this.stallCheckTimerId = setInterval(() => {
+            if (new Date().getTime() - this.lastDataTime < this.config.recordingStallTimeout * 1000) {
+                return;
+            }
+
+            this.log.system.warn(
+                `recording stream stalled: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`,
+            );
+            this.stopStallCheck();
+            s.destroy(new Error('RecordingStreamStallError'));
+        }, 1000);
+    }
+
+    /**
+     * stream の監視を停止する
+     */
+    private stopStallCheck(): void {
+        if (this.stallCheckTimerId !== null) {
+            clearInterval(this.stallCheckTimerId);
+            this.stallCheckTimerId = null;
+        }
+    }
+
+    /**
+     * 録画中の受信状況の監視を開始する
+     * drop check の途中経過を定期的に DB へ反映し, 閾値を超えた場合は通知する
+     */
+    private startDropMonitor(): void {
+        this.stopDropMonitor();
+
+        if (this.dropLogFileId === null) {
+            return;
+        }
+
+        this.dropCntsHistory = [this.dropChecker.getCnts()];
+        this.dropMonitorTimerId = setInterval(() => {
+            this.checkDropCnts().catch(err => {
+                this.log.system.error(`check drop cnts error: ${this.reserve.id}`);
+                this.log.system.error(err);
+            });
+        }, RecorderModel.DROP_MONITOR_INTERVAL);
+    }
+
+    /**
+     * 受信状況の監視を停止する
+     */
+    private stopDropMonitor(): void {
+        if (this.dropMonitorTimerId !== null) {
+            clearInterval(this.dropMonitorTimerId);
+            this.dropMonitorTimerId = null;
+        }
+    }
+
+    /**
+     * drop check の途中経過を DB へ反映し, 直近 1 分間の数が閾値を超えていたら通知する
+     */
+    private async checkDropCnts(): Promise<void> {
+        if (this.dropLogFileId === null || this.recordedId === null || this.dropCntsHistory.length === 0) {
+            return;
+        }
+
+        const cnts = this.dropChecker.getCnts();
+        const last = this.dropCntsHistory[this.dropCntsHistory.length - 1];
+        this.dropCntsHistory.push(cnts);
+        if (this.dropCntsHistory.length > RecorderModel.DROP_MONITOR_WINDOW / RecorderModel.DROP_MONITOR_INTERVAL + 1) {
+            this.dropCntsHistory.shift();
+        }
+
+        if (cnts.error === last.error && cnts.drop === last.drop && cnts.scrambling === last.scrambling) {
+            return;
+        }
+
+        const oldest = this.dropCntsHistory[0];
+        const dropCnts: apid.RecordingDropCnts = {
+            errorCnt: cnts.error,
+            dropCnt: cnts.drop,
+            scramblingCnt: cnts.scrambling,
+            recentErrorCnt: cnts.error - oldest.error,
+            recentDropCnt: cnts.drop - oldest.drop,
+            recentScramblingCnt: cnts.scrambling - oldest.scrambling,
+        };
+
+        await this.dropLogFileDB.updateCnt({
+            id: this.dropLogFileId,
+            errorCnt: dropCnts.errorCnt,
+            dropCnt: dropCnts.dropCnt,
+            scramblingCnt: dropCnts.scramblingCnt,
+        });
+        this.recordingEvent.emitRecordingDropUpdated(this.reserve, this.recordedId, dropCnts);
+
+        // 同じ区間で繰り返し通知しないようにする
+        const now = new Date().getTime();
+        if (
+            this.isOverDropThreshold(dropCnts) === false ||
+            now - this.lastDropThresholdTime < RecorderModel.DROP_MONITOR_WINDOW
+        ) {
+            return;
+        }
+        this.lastDropThresholdTime = now;
+
+        this.log.system.warn(
+            `recording drop threshold exceeded: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`,
+        );
+        this.log.system.warn(
+            `error: ${dropCnts.recentErrorCnt}, drop: ${dropCnts.recentDropCnt}, scrambling: ${dropCnts.recentScramblingCnt}`,
+        );
+
+        const recorded = await this.recordedDB.findId(this.recordedId);
+        if (recorded !== null) {
+            this.recordingEvent.emitRecordingDropThreshold(this.reserve, recorded, dropCnts);
+        }
+    }
+
+    /**
+     * 直近 1 分間のエラー, ドロップ, スクランブル数が閾値を超えているか
+     * @param dropCnts: apid.RecordingDropCnts
+     * @return boolean
+     */
+    private isOverDropThreshold(dropCnts: apid.RecordingDropCnts): boolean {
+        const threshold = this.config.recordingDropThreshold;
+        if (typeof threshold === 'undefined') {
+            return false;
+        }
+
+        return (
+            (typeof threshold.error !== 'undefined' && dropCnts.recentErrorCnt > threshold.error) ||
+            (typeof threshold.drop !== 'undefined' && dropCnts.recentDropCnt > threshold.drop) ||
+            (typeof threshold.scrambling !== 'undefined' && dropCnts.recentScramblingCnt > threshold.scrambling)
+        );
+    }
+
+    /**
+     * 途切れた録画を再開できるか
+     * @return boolean
+     */
+    private canResumeRecording(): boolean {
+        return (
+            this.config.isEnabledRecordingResume === true &&
+            this.isStopRecording === false &&
+            ReserveUtil.getRecEndAt(this.reserve) - new Date().getTime() > IRecordingStreamCreator.PREP_TIME
+        );
+    }
+
+    /**
+     * 途切れた録画を再開する
+     * 録画終了時刻まで stream の再取得を繰り返し, 取得できたら別ファイルへ録画を継続する
+     * @param err: Error 録画が途切れた原因
+     */
+    private async resumeRecording(err: Error): Promise<void> {
+        this.log.system.warn(`resume recording: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`);
+        this.log.system.warn(err);
+
+        const gapStartAt = this.lastDataTime;
+        await this.closeSegment();
+
+        while (this.canResumeRecording() === true) {
+            try {
+                this.abortController = new AbortController();
+                this.stream = await this.streamCreator.create(this.reserve, this.abortController.signal);
+                this.abortController = null;
+                const tunerName = this.streamCreator.getTunerName(this.reserve.id);
+                if (tunerName !== null) {
+                    this.tunerName = tunerName;
+                }
+
+                if (this.isStopRecording === true) {
+                    break;
+                }
+
+                const segmentFilePath = `${this.videoFileFulPath}.part${this.segmentFilePaths.length + 1}`;
+                this.log.system.info(`recording segment: ${this.reserve.id} ${segmentFilePath}`);
+                this.segmentFilePaths.push(segmentFilePath);
+                this.recFile = this.createRecFile(segmentFilePath);
+                this.stream.pipe(this.recFile);
+                if (this.dropCheckStream !== null) {
+                    this.stream.pipe(this.dropCheckStream, { end: false });
+                }
+
+                await this.waitFirstData(this.stream);
+
+                // 途切れていた区間を記録
+                const now = new Date().getTime();
+                await this.addGap(gapStartAt, now);
+                this.log.system.info(
+                    `recording resumed: reserveId: ${this.reserve.id} recordedId: ${this.recordedId} gap: ${
+                        now - gapStartAt
+                    }ms`,
+                );
+
+                this.startStallCheck(this.stream);
+                this.setEndProcess(this.stream);
+
+                return;
+            } catch (e: any) {
+                this.log.system.error(`resume recording error: reserveId: ${this.reserve.id}`);
+                this.log.system.error(e);
+                this.abortController = null;
+                await this.closeSegment();
+            }
+
+            await Util.sleep(RecorderModel.RESUME_RETRY_INTERVAL);
+        }
+
+        await this.closeSegment();
+
+        // 再接続中に録画が停止された場合はそれまでの録画で正常に終了する
+        if (this.isStopRecording === true) {
+            await this.addGap(gapStartAt, Math.max(gapStartAt, new Date().getTime()));
+            await this.recEnd().catch(e => {
+                this.log.system.fatal(
+                    `unexpected recEnd error: reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`,
+                );
+                this.log.system.fatal(e);
+            });
+
+            return;
+        }
+
+        // 録画終了時刻まで再開できなかった
+        await this.addGap(gapStartAt, Math.max(gapStartAt, ReserveUtil.getRecEndAt(this.reserve)));
+
+        await this.recFailed(err);
+    }
+
+    /**
+     * 現在の stream と録画ファイルを閉じる
+     * drop check は継続する
+     */
+    private async closeSegment(): Promise<void> {
+        this.stopStallCheck();
+
+        if (this.stream !== null) {
+            this.stream.unpipe();
+            this.stream.removeAllListeners('data');
+            this.stream.destroy();
+            this.stream = null;
+        }
+
+        if (this.recFile !== null) {
+            this.recFile.removeAllListeners('error');
+            this.recFile.end();
+            await this.waitRecFileClose();
+        }
+    }
+
+    /**
+     * 録画ファイルの書き込みが完了するまで待つ
+     */
+    private async waitRecFileClose(): Promise<void> {
+        const recFile = this.recFile;
+        if (recFile === null || recFile.closed === true) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            recFile.once('close', () => {
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * stream から最初のデータを受信するまで待つ
+     * @param s: stream.Readable
+     */
+    private waitFirstData(s: stream.Readable): Promise<void> {
+        return new Promise<void>((resolve: () => void, reject: (error: Error) => void) => {
+            const timeoutId = setTimeout(() => {
+                s.removeListener('data', onData);
+                s.removeListener('close', onClose);
+                reject(new Error('recordingStartError'));
+            }, 1000 * 5);
+
+            const onData = () => {
+                clearTimeout(timeoutId);
+                s.removeListener('close', onClose);
+                resolve();
+            };
+
+            // データ受信前に stream が閉じられた (キャンセル等)
+            const onClose = () => {
+                clearTimeout(timeoutId);
+                s.removeListener('data', onData);
+                reject(new Error('StreamClosedError'));
+            };
+
+            s.once('data', onData);
+            s.once('close', onClose);
+        });
+    }
+
+    /**
+     * 録画が途切れていた区間を追加して DB へ反映する
+     * @param startAt: apid.UnixtimeMS 途切れた時刻
+     * @param endAt: apid.UnixtimeMS 再開した時刻
+     */
+    private async addGap(startAt: apid.UnixtimeMS, endAt: apid.UnixtimeMS): Promise<void> {
+        this.gaps.push({
+            startAt: startAt,
+            duration: endAt - startAt,
+        });
+
+        if (this.recordedId === null) {
+            return;
+        }
+
+        try {
+            await this.recordedDB.updateOnce(await this.createRecorded());
+        } catch (err: any) {
+            this.log.system.error(`update recorded gaps error: ${this.recordedId}`);
+            this.log.system.error(err);
+        }
+    }
+
+    /**
+     * 再接続後の録画ファイルを録画ファイルへ結合する
+     * 結合に失敗した場合も録画ファイルは削除する
+     */
+    private async mergeSegments(): Promise<void> {
+        if (this.segmentFilePaths.length === 0 || this.videoFileFulPath === null) {
+            return;
+        }
+
+        await this.waitRecFileClose();
+
+        for (const segmentFilePath of this.segmentFilePaths) {
+            this.log.system.info(`merge recording segment: ${segmentFilePath} -> ${this.videoFileFulPath}`);
+            try {
+                await FileUtil.concatFile(segmentFilePath, this.videoFileFulPath);
+            } catch (err: any) {
+                this.log.system.fatal(`merge recording segment error: ${segmentFilePath}`);
+                this.log.system.fatal(err);
+            }
+
+            await FileUtil.unlink(segmentFilePath).catch(err => {
+                this.log.system.error(`delete error: ${this.reserve.id} ${segmentFilePath}`);
+                this.log.system.error(err);
+            });
+        }
+        this.segmentFilePaths = [];
+    }
+
+    /**
+     * 再接続後の録画ファイルを削除する
+     */
+    private async deleteSegments(): Promise<void> {
+        await this.waitRecFileClose();
+
+        for (const segmentFilePath of this.segmentFilePaths) {
+            await FileUtil.unlink(segmentFilePath).catch(err => {
+                this.log.system.error(`delete error: ${this.reserve.id} ${segmentFilePath}`);
+                this.log.system.error(err);
+            });
+        }
+        this.segmentFilePaths = [];
+    }
+
     /**
      * 録画失敗処理
      * @param err: Error
@@ -556,6 +983,11 @@ class RecorderModel implements IRecorderModel {
                 recorded.videoComponentType = program.videoComponentType;
                 recorded.audioSamplingRate = program.audioSamplingRate;
                 recorded.audioComponentType = program.audioComponentType;
+                recorded.seriesId = program.seriesId;
+                recorded.seriesRepeat = program.seriesRepeat;
+                recorded.seriesEpisode = program.seriesEpisode;
+                recorded.seriesLastEpisode = program.seriesLastEpisode;
+                recorded.seriesName = program.seriesName;
             }
         } else if (this.reserve.name !== null && this.reserve.halfWidthName !== null) {
             recorded.name = this.reserve.name;
@@ -578,6 +1010,11 @@ class RecorderModel implements IRecorderModel {
             recorded.videoComponentType = this.reserve.videoComponentType;
             recorded.audioSamplingRate = this.reserve.audioSamplingRate;
             recorded.audioComponentType = this.reserve.audioComponentType;
+            recorded.seriesId = this.reserve.seriesId;
+            recorded.seriesRepeat = this.reserve.seriesRepeat;
+            recorded.seriesEpisode = this.reserve.seriesEpisode;
+            recorded.seriesLastEpisode = this.reserve.seriesLastEpisode;
+            recorded.seriesName = this.reserve.seriesName;
         } else {
             // 時刻指定予約ではないのに、name が null
             throw new Error('CreateRecordedError');
@@ -587,6 +1024,8 @@ class RecorderModel implements IRecorderModel {
             recorded.dropLogFileId = this.dropLogFileId;
         }
 
+        recorded.gaps = this.gaps.length > 0 ? JSON.stringify(this.gaps) : null;
+
         return recorded;
     }
 
@@ -603,6 +1042,8 @@ class RecorderModel implements IRecorderModel {
         if (this.isPlanToDelete === true) {
             this.log.system.info(`plan to delete reserveId: ${this.reserve.id} recordedId: ${this.recordedId}`);
 
+            await this.deleteSegments();
+
             if (this.dropLogFileId !== null) {
                 await this.dropChecker.stop().catch(err => {
                     this.log.system.error(`stop drop checker error: ${this.dropLogFileId}`);
@@ -613,6 +1054,9 @@ class RecorderModel implements IRecorderModel {
             return;
         }
 
+        // 再接続後の録画ファイルを結合する
+        await this.mergeSegments();
+
         if (this.recordedId !== null) {
             // remove recording flag
             this.log.system.info(`remove recording flag: ${this.recordedId}`);
@@ -661,6 +1105,7 @@ class RecorderModel implements IRecorderModel {
                         history.name = StrUtil.deleteBrackets(recorded.halfWidthName);
                         history.channelId = recorded.channelId;
                         history.endAt = recorded.endAt;
+                        history.recordedId = recorded.id;
                         await this.recordedHistoryDB.insertOnce(history);
                     }
                 } catch (err: any) {
@@ -698,12 +1143,14 @@ class RecorderModel implements IRecorderModel {
         let error = 0;
         let drop = 0;
         let scrambling = 0;
+        let packet = 0;
         try {
             const dropResult = await this.dropChecker.getResult();
             for (const pid in dropResult) {
                 error += dropResult[pid].error;
                 drop += dropResult[pid].drop;
                 scrambling += dropResult[pid].scrambling;
+                packet += dropResult[pid].packet;
             }
         } catch (err: any) {
             this.log.system.error(`get drop result error: ${this.dropLogFileId}`);
@@ -733,6 +1180,24 @@ class RecorderModel implements IRecorderModel {
                 this.log.system.error(`update drop cnt error: ${this.dropLogFileId}`);
                 this.log.system.error(err);
             });
+
+        // 受信品質の履歴へ追加
+        if (packet > 0) {
+            const receptionQuality = new ReceptionQuality();
+            receptionQuality.channelId = this.reserve.channelId;
+            receptionQuality.channelType = this.reserve.channelType;
+            receptionQuality.tunerName = this.tunerName;
+            receptionQuality.startAt = this.reserve.startAt;
+            receptionQuality.endAt = this.reserve.endAt;
+            receptionQuality.packetCnt = packet;
+            receptionQuality.errorCnt = error;
+            receptionQuality.dropCnt = drop;
+            receptionQuality.scramblingCnt = scrambling;
+            await this.receptionQualityDB.insertOnce(receptionQuality).catch(err => {
+                this.log.system.error(`add reception quality error: ${this.reserve.id}`);
+                this.log.system.error(err);
+            });
+        }
     }
 
     /**
@@ -768,6 +1233,11 @@ class RecorderModel implements IRecorderModel {
         } else if (this.isRecording === true) {
             this.log.system.info(`stop recording: ${this.reserve.id}`);
             // 録画中
+            this.isStopRecording = true;
+            if (this.abortController !== null) {
+                // 再接続中
+                this.abortController.abort();
+            }
             if (this.stream !== null) {
                 this.stream.destroy();
                 this.stream.push(null); // eof 通知
@@ -813,63 +1283,40 @@ class RecorderModel implements IRecorderModel {
                 this.log.system.error(`cancel recording error: ${newReserve.id}`);
                 this.log.system.error(err);
             });
-        } else if (this.reserve.startAt !== newReserve.startAt || this.reserve.endAt !== newReserve.endAt) {
-            // 時刻に変更がないか確認
+        } else if (
+            this.reserve.startAt !== newReserve.startAt ||
+            this.reserve.endAt !== newReserve.endAt ||
+            ReserveUtil.getRecStartAt(this.reserve) !== ReserveUtil.getRecStartAt(newReserve) ||
+            ReserveUtil.getRecEndAt(this.reserve) !== ReserveUtil.getRecEndAt(newReserve)
+        ) {
+            // 時刻 or パディングに変更がないか確認
             // 録画処理が実行されていない場合
             if (this.isPrepRecording === false && this.isRecording === false) {
                 this.setTimer(newReserve, isSuppressLog);
             } else {
                 // 録画準備中 or 録画中
-                if (this.reserve.programId === null) {
-                    // 時間指定予約で時刻に変更があった
-                    // TODO 現時点では時刻指定で時間変更を受け入れられるようにな api になっていない
-                    // TODO 録画中 or 録画準備中の開始時刻変更にも対応していない
-                    if (this.reserve.endAt !== newReserve.endAt) {
-                        // 時間指定予約で終了時刻に変更があった
-                        this.log.system.info(`change recording endAt: ${newReserve.id}`);
-
-                        if (this.isPrepRecording === true) {
-                            // 録画準備中なら録画中になるまで待つ
-                            await new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
-                                this.log.system.debug(`wait change endAt: ${newReserve.id}`);
-                                // タイムアウト設定
-                                const timeoutId = setTimeout(() => {
-                                    reject(new Error('ChangeEndAtTimeoutError'));
-                                }, IRecordingStreamCreator.PREP_TIME);
-
-                                // 録画開始内部イベント発行街
-                                this.eventEmitter.once(RecorderModel.START_RECORDING_EVENT, () => {
-                                    clearTimeout(timeoutId);
-                                    resolve();
-                                });
-                            });
-                        }
-
-                        // 終了時刻変更
-                        try {
-                            this.streamCreator.changeEndAt(newReserve);
-                        } catch (err: any) {
-                            this.log.system.error(`change recording endAt: ${newReserve.id}`);
-                            this.log.system.error(err);
-                        }
-                    }
-                } else if (this.reserve.startAt < newReserve.startAt) {
-                    // 開始時刻が遅くなった
-                    if (this.isRecording === false) {
-                        // まだ録画準備中なのでキャンセルしてタイマーを再セット
-                        this.log.system.info(
-                            `cancel prepare recording.`,
-                            `(reserveId: ${this.reserve.id}, programId: ${this.reserve.programId}, recordedId: ${this.recordedId})`,
+                if (
+                    this.reserve.programId !== null &&
+                    this.reserve.startAt < newReserve.startAt &&
+                    this.isRecording === false
+                ) {
+                    // 開始時刻が遅くなったがまだ録画準備中なのでキャンセルしてタイマーを再セット
+                    this.log.system.info(
+                        `cancel prepare recording.`,
+                        `(reserveId: ${this.reserve.id}, programId: ${this.reserve.programId}, recordedId: ${this.recordedId})`,
+                    );
+                    await this._cancel().catch(err => {
+                        this.log.system.error(
+                            `cancel recording error: (reserveId: ${newReserve.id}, programId: ${this.reserve.programId})`,
                         );
-                        await this._cancel().catch(err => {
-                            this.log.system.error(
-                                `cancel recording error: (reserveId: ${newReserve.id}, programId: ${this.reserve.programId})`,
-                            );
-                            this.log.system.error(err);
-                        });
-                        // NOTE: キャンセルエラーが発生したとしてもタイマーを再セット
-                        this.setTimer(newReserve, isSuppressLog);
-                    } else {
+                        this.log.system.error(err);
+                    });
+                    // NOTE: キャンセルエラーが発生したとしてもタイマーを再セット
+                    this.setTimer(newReserve, isSuppressLog);
+                } else {
+                    // TODO 現時点では時刻指定で時間変更を受け入れられるようにな api になっていない
+                    // TODO 時刻指定予約の録画中 or 録画準備中の開始時刻変更にも対応していない
+                    if (this.reserve.programId !== null && this.reserve.startAt < newReserve.startAt) {
                         // 録画中
                         // NOTE:
                         //  EPGstationがスケジュール変更を遅れて把握した可能性がある
@@ -879,6 +1326,17 @@ class RecorderModel implements IRecorderModel {
                             ` (reserveId: ${this.reserve.id}, programId: ${this.reserve.programId}, recordedId: ${this.recordedId})`,
                         );
                     }
+
+                    // 時刻指定予約 or service stream で録画する programId 指定予約は終了時刻の変更を反映する
+                    // program stream の場合は Mirakurun 側で番組の終了に追従する
+                    if (
+                        (this.reserve.programId === null ||
+                            ReserveUtil.hasPadding(this.reserve) ||
+                            this.streamCreator.hasEndTimer(this.reserve.id)) &&
+                        ReserveUtil.getRecEndAt(this.reserve) !== ReserveUtil.getRecEndAt(newReserve)
+                    ) {
+                        await this.changeRecordingEndAt(newReserve);
+                    }
                 }
             }
         }
@@ -893,6 +1351,42 @@ class RecorderModel implements IRecorderModel {
         }
     }
 
+    /**
+     * 録画中の stream の終了時刻を変更する
+     * 録画準備中の場合は録画中になるまで待つ
+     * @param newReserve: Reserve
+     * @return Promise<void>
+     */
+    private async changeRecordingEndAt(newReserve: Reserve): Promise<void> {
+        // 終了時刻に変更があった
+        this.log.system.info(`change recording endAt: ${newReserve.id}`);
+
+        if (this.isPrepRecording === true) {
+            // 録画準備中なら録画中になるまで待つ
+            await new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
+                this.log.system.debug(`wait change endAt: ${newReserve.id}`);
+                // タイムアウト設定
+                const timeoutId = setTimeout(() => {
+                    reject(new Error('ChangeEndAtTimeoutError'));
+                }, IRecordingStreamCreator.PREP_TIME);
+
+                // 録画開始内部イベント発行街
+                this.eventEmitter.once(RecorderModel.START_RECORDING_EVENT, () => {
+                    clearTimeout(timeoutId);
+                    resolve();
+                });
+            });
+        }
+
+        // 終了時刻変更
+        try {
+            this.streamCreator.changeEndAt(newReserve);
+        } catch (err: any) {
+            this.log.system.error(`change recording endAt: ${newReserve.id}`);
+            this.log.system.error(err);
+        }
+    }
+
     /**
      * タイマーを再設定する
      * @return boolean セットに成功したら true を返す
@@ -910,6 +1404,9 @@ class RecorderModel implements IRecorderModel {
 namespace RecorderModel {
     export const CANCEL_EVENT = 'RecordingCancelEvent';
     export const START_RECORDING_EVENT = 'StartRecordingEvent';
+    export const RESUME_RETRY_INTERVAL = 5 * 1000;
+    export const DROP_MONITOR_INTERVAL = 10 * 1000; // 受信状況の確認間隔
+    export const DROP_MONITOR_WINDOW = 60 * 1000; // 閾値判定に使用する区間
 }
 
 export default RecorderModel;
@@ -1,6 +1,5 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../../api';
-import * as mapid from '../../../../node_modules/mirakurun/api';
 import IRecordedDB from '../../db/IRecordedDB';
 import IReserveDB from '../../db/IReserveDB';
 import IRecordingEvent from '../../event/IRecordingEvent';
@@ -9,6 +8,7 @@ import IConfigFile from '../../IConfigFile';
 import IConfiguration from '../../IConfiguration';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
+import { ServerTunerDevice } from '../../IMirakurunClientModel';
 import IRecorderModel, { RecorderModelProvider } from './IRecorderModel';
 import IRecordingManageModel from './IRecordingManageModel';
 import IRecordingStreamCreator from './IRecordingStreamCreator';
@@ -102,9 +102,9 @@ class RecordingManageModel implements IRecordingManageModel {
 
     /**
      * tuner 情報セット
-     * @param tuners: mapid.TunerDevice[]
+     * @param tuners: ServerTunerDevice[]
      */
-    public setTuner(tuners: mapid.TunerDevice[]): void {
+    public setTuner(tuners: ServerTunerDevice[]): void {
         this.streamCreator.setTuner(tuners);
     }
 
@@ -1,24 +1,29 @@
 import * as http from 'http';
 import { inject, injectable } from 'inversify';
 import Mirakurun from 'mirakurun';
-import { finished } from 'stream';
+import { finished, PassThrough, Readable } from 'stream';
 import * as apid from '../../../../api';
 import * as mapid from '../../../../node_modules/mirakurun/api';
 import Reserve from '../../../db/entities/Reserve';
+import ReserveUtil from '../../../util/ReserveUtil';
 import Util from '../../../util/Util';
+import IReserveDB from '../../db/IReserveDB';
 import IConfigFile from '../../IConfigFile';
 import IConfiguration from '../../IConfiguration';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
-import IMirakurunClientModel from '../../IMirakurunClientModel';
+import IMirakurunClientModel, { ServerTunerDevice, TunerServer } from '../../IMirakurunClientModel';
 import IRecordingStreamCreator from './IRecordingStreamCreator';
 
 interface TunerProgram {
     reserve: Reserve;
-    stream: http.IncomingMessage | null;
+    stream: Readable | null;
 }
 
 interface TunerStatus {
+    serverId: number;
+    index: number; // サーバ内のチューナー番号
+    name: string; // サーバ名/チューナー名
     types: mapid.ChannelType[];
     programs: TunerProgram[];
 }
@@ -27,44 +32,126 @@ interface TimerIndex {
     [key: number]: NodeJS.Timeout;
 }
 
+/**
+ * service stream で録画している programId 指定予約で追従している番組情報
+ */
+interface ProgramFollow {
+    reserve: Reserve;
+    server: TunerServer;
+    endAt: apid.UnixtimeMS; // stream の終了時刻
+    timerId: NodeJS.Timeout;
+}
+
+interface ProgramFollowIndex {
+    [reserveId: number]: ProgramFollow;
+}
+
+/**
+ * チューナーを割り当てずに取得している stream の数
+ */
+interface UnassignedStreamCntIndex {
+    [serverId: number]: number;
+}
+
+/**
+ * 同一サービスの予約で共有する Mirakurun の service stream
+ */
+interface SharedServiceStream {
+    upstream: Promise<http.IncomingMessage>;
+    abortController: AbortController;
+    priority: number; // upstream を取得した際の Mirakurun の priority
+    outputs: PassThrough[]; // 各予約へ分配する stream
+}
+
+interface SharedServiceStreamIndex {
+    [key: string]: SharedServiceStream; // key: serverId-channelId
+}
+
+/**
+ * チューナーサーバからの stream 取得エラー
+ */
+class TunerServerStreamError extends Error {
+    public serverId: number;
+    public error: any;
+
+    constructor(serverId: number, error: any) {
+        super('TunerServerStreamError');
+        this.serverId = serverId;
+        this.error = error;
+    }
+}
+
 @injectable()
-export default class RecordingStreamCreator implements IRecordingStreamCreator {
+class RecordingStreamCreator implements IRecordingStreamCreator {
     private log: ILogger;
     private config: IConfigFile;
     private mirakurunClientModel: IMirakurunClientModel;
+    private reserveDB: IReserveDB;
     private tuners: TunerStatus[] = [];
     private timerIndex: TimerIndex = {};
+    private programFollowIndex: ProgramFollowIndex = {};
+    private sharedStreams: SharedServiceStreamIndex = {};
+    private unassignedStreamCnts: UnassignedStreamCntIndex = {};
+    private gcTimerId: NodeJS.Timeout | null = null;
 
     constructor(
         @inject('ILoggerModel') logger: ILoggerModel,
         @inject('IConfiguration') configuration: IConfiguration,
         @inject('IMirakurunClientModel')
         mirakurunClientModel: IMirakurunClientModel,
+        @inject('IReserveDB') reserveDB: IReserveDB,
     ) {
         this.log = logger.getLogger();
         this.config = configuration.getConfig();
         this.mirakurunClientModel = mirakurunClientModel;
+        this.reserveDB = reserveDB;
     }
 
     /**
      * tuner 情報セット
-     * @param tuners: mapid.TunerDevice[]
+     * チューナーサーバの接続状態が変化した場合は再度セットされる
+     * 録画中のチューナーは録画情報を引き継ぎ, 無くなったチューナーで録画中のものは録画終了まで新たな割り当てをせずに残す
+     * @param tuners: ServerTunerDevice[] 全てのチューナーサーバの tuner
      */
-    public setTuner(tuners: mapid.TunerDevice[]): void {
-        // 一度だけ tuner 情報をセット
-        if (this.tuners.length !== 0) {
-            return;
-        }
-
+    public setTuner(tuners: ServerTunerDevice[]): void {
+        const oldTuners = this.tuners;
         this.tuners = tuners.map(tuner => {
+            const oldTuner = oldTuners.find(t => {
+                return t.serverId === tuner.serverId && t.index === tuner.index;
+            });
+
             return {
+                serverId: tuner.serverId,
+                index: tuner.index,
+                name: `${this.getServer(tuner.serverId).name}/${tuner.name}`,
                 types: tuner.types,
-                programs: [],
+                programs: typeof oldTuner === 'undefined' ? [] : oldTuner.programs,
             };
         });
 
+        for (const oldTuner of oldTuners) {
+            if (
+                oldTuner.programs.length > 0 &&
+                this.tuners.some(t => {
+                    return t.programs === oldTuner.programs;
+                }) === false
+            ) {
+                this.tuners.push({
+                    serverId: oldTuner.serverId,
+                    index: oldTuner.index,
+                    name: oldTuner.name,
+                    types: [],
+                    programs: oldTuner.programs,
+                });
+            }
+        }
+
+        if (this.gcTimerId !== null) {
+            return;
+        }
+
         // 念の為 30 分毎ににゴミを削除
-        setInterval(
+        this.gcTimerId = setInterval(
             () => {
                 const now = new Date().getTime();
                 for (const tuner of this.tuners) {
@@ -105,25 +192,71 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
 
     /**
      * stream を生成する
+     * 割り当てたチューナーのサーバから stream を取得できなかった場合は他のサーバへ切り替える
      * @param reserve: Reserve
-     * @return Promise<http.IncomingMessage>
+     * @return Promise<Readable>
      */
-    public async create(reserve: Reserve, abortSignal?: AbortSignal): Promise<http.IncomingMessage> {
-        if (reserve.isConflict === true) {
-            // tuner の割当がないのでそのままストリームを取得
-            return this.getStream(reserve, abortSignal);
+    public async create(reserve: Reserve, abortSignal?: AbortSignal): Promise<Readable> {
+        const serverNum = this.mirakurunClientModel.getServers().length;
+        const failedServerIds: number[] = [];
+        let lastError: any = null;
+
+        while (failedServerIds.length < serverNum) {
+            try {
+                return await this.createOnServer(reserve, failedServerIds, abortSignal);
+            } catch (err: any) {
+                if (err instanceof TunerServerStreamError === false) {
+                    throw err;
+                }
+                if (typeof abortSignal !== 'undefined' && abortSignal.aborted === true) {
+                    throw err.error;
+                }
+
+                const server = this.getServer(err.serverId);
+                failedServerIds.push(server.id);
+                lastError = err.error;
+                this.log.system.error(`stream get error on tuner server: ${server.name}, reserveId: ${reserve.id}`);
+                this.log.system.error(err.error);
+
+                if (failedServerIds.length < serverNum) {
+                    this.log.system.warn(`failover to another tuner server: ${reserve.id}`);
+                }
+            }
         }
 
-        const tunerId = await this.getTunerId(reserve);
+        throw lastError;
+    }
+
+    /**
+     * 使用可能なチューナーサーバを選択して stream を生成する
+     * @param reserve: Reserve
+     * @param failedServerIds: number[] stream の取得に失敗したサーバ
+     * @param abortSignal: AbortSignal
+     * @return Promise<Readable>
+     * @throws TunerServerStreamError サーバから stream を取得できなかった場合
+     */
+    private async createOnServer(
+        reserve: Reserve,
+        failedServerIds: number[],
+        abortSignal?: AbortSignal,
+    ): Promise<Readable> {
+        const tunerId = reserve.isConflict === true ? null : await this.getTunerId(reserve, failedServerIds);
         if (tunerId === null) {
-            // 割り当てられる tuner がなかった
-            this.log.system.warn(`TunerAssignmentError programId: ${reserve.id}`);
+            if (reserve.isConflict === false) {
+                // 割り当てられる tuner がなかった
+                this.log.system.warn(`TunerAssignmentError programId: ${reserve.id}`);
+            }
 
-            return this.getStream(reserve, abortSignal);
+            // tuner の割当がないので負荷の少ないサーバからそのままストリームを取得
+            return this.getUnassignedStream(
+                reserve,
+                this.selectUnassignedServer(reserve, failedServerIds),
+                abortSignal,
+            );
         }
 
         // stream 取得
-        const stream = this.getStream(reserve, abortSignal);
+        const stream = this.getStream(reserve, this.getServer(this.tuners[tunerId].serverId), abortSignal);
 
         // create tuner program
         const tunerProgram: TunerProgram = {
@@ -153,14 +286,146 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
         return stream;
     }
 
+    /**
+     * 指定した予約に割り当てたチューナー名を返す
+     * EPGStation 側で割り当てたチューナーであり, Mirakurun が実際に使用するチューナーとは異なる場合がある
+     * @param reserveId: apid.ReserveId
+     * @return string | null チューナーの割り当てがない場合は null を返す
+     */
+    public getTunerName(reserveId: apid.ReserveId): string | null {
+        for (const tuner of this.tuners) {
+            for (const p of tuner.programs) {
+                if (p.reserve.id === reserveId) {
+                    return tuner.name;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * チューナーを割り当てずに stream を取得する
+     * 取得中の stream 数をサーバ毎に数える
+     * @param reserve: Reserve
+     * @param server: TunerServer
+     * @param abortSignal: AbortSignal
+     * @return Promise<Readable>
+     */
+    private async getUnassignedStream(
+        reserve: Reserve,
+        server: TunerServer,
+        abortSignal?: AbortSignal,
+    ): Promise<Readable> {
+        this.changeUnassignedStreamCnt(server.id, 1);
+
+        let stream: Readable;
+        try {
+            stream = await this.getStream(reserve, server, abortSignal);
+        } catch (err: any) {
+            this.changeUnassignedStreamCnt(server.id, -1);
+            throw err;
+        }
+
+        finished(stream, {}, () => {
+            this.changeUnassignedStreamCnt(server.id, -1);
+        });
+
+        return stream;
+    }
+
+    /**
+     * チューナーを割り当てずに取得している stream の数を増減する
+     * @param serverId: number
+     * @param value: number
+     */
+    private changeUnassignedStreamCnt(serverId: number, value: number): void {
+        const cnt =
+            (typeof this.unassignedStreamCnts[serverId] === 'undefined' ? 0 : this.unassignedStreamCnts[serverId]) +
+            value;
+        if (cnt <= 0) {
+            delete this.unassignedStreamCnts[serverId];
+        } else {
+            this.unassignedStreamCnts[serverId] = cnt;
+        }
+    }
+
+    /**
+     * チューナーを割り当てずに stream を取得するサーバを選択する
+     * 予約の放送波を受信できるチューナーを持つサーバの中から, 取得中の stream が最も少ないサーバを選ぶ
+     * @param reserve: Reserve
+     * @param failedServerIds: number[] stream の取得に失敗したサーバ
+     * @return TunerServer
+     */
+    private selectUnassignedServer(reserve: Reserve, failedServerIds: number[]): TunerServer {
+        const servers = this.mirakurunClientModel.getServers().filter(server => {
+            return failedServerIds.indexOf(server.id) === -1;
+        });
+        if (servers.length === 0) {
+            return this.getServer(0);
+        }
+
+        // 受信可能なチューナーを持つサーバを優先する
+        const receivableServers = servers.filter(server => {
+            return this.tuners.some(tuner => {
+                return tuner.serverId === server.id && tuner.types.indexOf(<any>reserve.channelType) !== -1;
+            });
+        });
+        const candidates = receivableServers.length > 0 ? receivableServers : servers;
+
+        let result = candidates[0];
+        let minLoad = this.getServerLoad(result.id);
+        for (const server of candidates) {
+            const load = this.getServerLoad(server.id);
+            if (load < minLoad) {
+                result = server;
+                minLoad = load;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * サーバで取得中の stream 数を返す
+     * @param serverId: number
+     * @return number
+     */
+    private getServerLoad(serverId: number): number {
+        let load = typeof this.unassignedStreamCnts[serverId] === 'undefined' ? 0 : this.unassignedStreamCnts[serverId];
+        for (const tuner of this.tuners) {
+            if (tuner.serverId === serverId) {
+                load += tuner.programs.length;
+            }
+        }
+
+        return load;
+    }
+
+    /**
+     * チューナーサーバを返す
+     * @param serverId: number
+     * @return TunerServer
+     */
+    private getServer(serverId: number): TunerServer {
+        const servers = this.mirakurunClientModel.getServers();
+
+        return typeof servers[serverId] === 'undefined' ? servers[0] : servers[serverId];
+    }
+
     /**
      * 割当可能な tunerId を返す
      * @param reserve: ReserveProgram
+     * @param excludeServerIds: number[] 割り当てから除外するチューナーサーバ
      * @return Promise<number | null>
      */
-    private async getTunerId(reserve: Reserve): Promise<number | null> {
+    private async getTunerId(reserve: Reserve, excludeServerIds: number[]): Promise<number | null> {
         // tuner に空きがないかチェック
         for (let i = 0; i < this.tuners.length; i++) {
+            if (excludeServerIds.indexOf(this.tuners[i].serverId) !== -1) {
+                continue;
+            }
+
             // tuner の放送波が一致 && 録画していない or channel が同一
             if (
                 this.tuners[i].types.indexOf(<any>reserve.channelType) !== -1 &&
@@ -173,10 +438,16 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
         // 末尾を削ることで終了できる tuner を探す
         const now = new Date().getTime();
         for (let i = 0; i < this.tuners.length; i++) {
-            if (this.tuners[i].types.indexOf(<any>reserve.channelType) !== -1) {
+            if (
+                excludeServerIds.indexOf(this.tuners[i].serverId) === -1 &&
+                this.tuners[i].types.indexOf(<any>reserve.channelType) !== -1
+            ) {
                 let isOk = true;
                 for (const p of this.tuners[i].programs) {
-                    if (p.reserve.allowEndLack === false || p.reserve.endAt - now > IRecordingStreamCreator.PREP_TIME) {
+                    if (
+                        p.reserve.allowEndLack === false ||
+                        ReserveUtil.getRecEndAt(p.reserve) - now > IRecordingStreamCreator.PREP_TIME
+                    ) {
                         isOk = false;
                         break;
                     }
@@ -197,7 +468,10 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
 
                     try {
                         const newProgram = await mirakurun.getProgram(p.reserve.programId);
-                        if (newProgram.startAt + newProgram.duration - now > IRecordingStreamCreator.PREP_TIME) {
+                        if (
+                            newProgram.startAt + newProgram.duration + p.reserve.appliedEndPadding * 1000 - now >
+                            IRecordingStreamCreator.PREP_TIME
+                        ) {
                             // 延長があった
                             isOk = false;
                             break;
@@ -234,32 +508,81 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
     /**
      * ストリーム取得
      * @param reserve: ReserveProgram
-     * @return Promise<http.IncomingMessage>
+     * @param server: TunerServer stream を取得するチューナーサーバ
+     * @return Promise<Readable>
+     * @throws TunerServerStreamError
      */
-    private getStream(reserve: Reserve, abortSignal?: AbortSignal): Promise<http.IncomingMessage> {
-        const mirakurun = this.mirakurunClientModel.getClient();
-        mirakurun.priority = reserve.isConflict ? this.config.conflictPriority : this.config.recPriority;
+    private async getStream(reserve: Reserve, server: TunerServer, abortSignal?: AbortSignal): Promise<Readable> {
+        const mirakurun = server.client;
+        mirakurun.priority = this.getStreamPriority(reserve);
 
-        if (reserve.programId === null) {
-            // 時刻指定予約
-            return this.getTimeSpecifiedStream(reserve, mirakurun, abortSignal);
-        } else {
-            // programId 指定予約
-            return mirakurun.getProgramStream({ id: reserve.programId, decode: true, signal: abortSignal });
+        try {
+            if (
+                reserve.programId === null ||
+                ReserveUtil.hasPadding(reserve) ||
+                (await this.isChainedReserve(reserve, server)) === true
+            ) {
+                // 時刻指定予約 or パディング付き or 同一チャンネルで連続する予約と stream を共有する programId 指定予約
+                return await this.getTimeSpecifiedStream(reserve, server, abortSignal);
+            } else {
+                // programId 指定予約
+                return await mirakurun.getProgramStream({ id: reserve.programId, decode: true, signal: abortSignal });
+            }
+        } catch (err: any) {
+            throw new TunerServerStreamError(server.id, err);
+        }
+    }
+
+    /**
+     * 同一チャンネルで録画時間が連続 or 重複する予約があるか
+     * 該当する予約とは service stream を共有する
+     * @param reserve: Reserve
+     * @param server: TunerServer
+     * @return Promise<boolean>
+     */
+    private async isChainedReserve(reserve: Reserve, server: TunerServer): Promise<boolean> {
+        // 共有できる stream を既に取得している
+        if (typeof this.sharedStreams[`${server.id}-${reserve.channelId}`] !== 'undefined') {
+            return true;
         }
+
+        const recStartAt = ReserveUtil.getRecStartAt(reserve);
+        const recEndAt = ReserveUtil.getRecEndAt(reserve);
+        const reserves = await this.reserveDB.findTimeRanges({
+            hasSkip: false,
+            hasConflict: true,
+            hasOverlap: false,
+            times: [
+                {
+                    startAt: recStartAt,
+                    endAt: recEndAt + 1, // 直後に開始する予約を含める
+                },
+            ],
+            excludeReserveId: reserve.id,
+        });
+
+        return reserves.some(r => {
+            return (
+                r.channelId === reserve.channelId &&
+                ReserveUtil.getRecStartAt(r) <= recEndAt &&
+                ReserveUtil.getRecEndAt(r) >= recStartAt
+            );
+        });
     }
 
     /**
      * 時刻指定予約の stream を返す
+     * パディング付き or 連続する予約と stream を共有する programId 指定予約もパディングを含めた時刻で録画し,
+     * 番組の延長には番組情報の追従で対応する
      * @param reserve: Reserve
-     * @param mirakurun: Mirakurun
-     * @return Promise<http.IncomingMessage>
+     * @param server: TunerServer
+     * @return Promise<Readable>
      */
     private async getTimeSpecifiedStream(
         reserve: Reserve,
-        mirakurun: Mirakurun,
+        server: TunerServer,
         abortSignal?: AbortSignal,
-    ): Promise<http.IncomingMessage> {
+    ): Promise<Readable> {
         const now = new Date().getTime();
         if (reserve.endAt < now) {
             // 終了時刻が過ぎていないかチェック
@@ -271,36 +594,341 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
             () => {
                 this.destroyStream(reserve);
             },
-            reserve.endAt - now + 1000 * this.config.timeSpecifiedEndMargin,
+            this.getStreamEndAt(reserve) - now,
         );
 
         // mirakurun から channel stream を受け取る
-        const channelStream = await mirakurun
-            .getServiceStream({ id: reserve.channelId, decode: true, signal: abortSignal })
-            .catch(err => {
-                this.log.system.error(`stream get error ${reserve.channelId}`);
-                this.log.system.error(err);
-                clearTimeout(this.timerIndex[reserve.id]);
-                delete this.timerIndex[reserve.id];
-                throw err;
-            });
+        const channelStream = await this.getServiceStream(reserve, server, abortSignal).catch(err => {
+            this.log.system.error(`stream get error ${reserve.channelId}`);
+            this.log.system.error(err);
+            clearTimeout(this.timerIndex[reserve.id]);
+            delete this.timerIndex[reserve.id];
+            throw err;
+        });
+
+        // programId 指定予約は番組の延長に追従する
+        if (reserve.programId !== null) {
+            this.startProgramFollow(reserve, server);
+        }
 
         // 終了時に timer をリセット
-        channelStream.once('end', () => {
+        channelStream.once('close', () => {
             clearTimeout(this.timerIndex[reserve.id]);
             delete this.timerIndex[reserve.id];
+            this.stopProgramFollow(reserve.id);
         });
 
         // 予約時間まで待つ
         if (now < reserve.startAt) {
             channelStream.on('data', () => {}); // 読み込まないと stream がバッファに貯まるため
-            await Util.sleep(reserve.startAt - now - 1000 * this.config.timeSpecifiedStartMargin);
+            await Util.sleep(this.getStreamStartAt(reserve) - now);
             channelStream.removeAllListeners('data'); // clear
         }
 
         return channelStream;
     }
 
+    /**
+     * service stream を返す
+     * 同じサービスの stream が既に存在する場合 (同一チャンネルで連続する予約) は
+     * Mirakurun の stream を共有して各予約へ分配する
+     * @param reserve: Reserve
+     * @param server: TunerServer
+     * @param abortSignal: AbortSignal
+     * @return Promise<Readable>
+     */
+    private async getServiceStream(
+        reserve: Reserve,
+        server: TunerServer,
+        abortSignal?: AbortSignal,
+    ): Promise<Readable> {
+        const key = `${server.id}-${reserve.channelId}`;
+        const priority = this.getStreamPriority(reserve);
+        let shared = this.sharedStreams[key];
+        if (typeof shared === 'undefined') {
+            shared = this.createSharedStream(key, reserve.channelId, server.client, priority);
+        } else {
+            this.log.system.info(`share service stream: ${reserve.channelId}, reserveId: ${reserve.id}`);
+            if (shared.priority < priority) {
+                // 後から共有した予約の方が優先度が高い場合は Mirakurun の stream を取得し直す
+                await this.reopenSharedStream(key, shared, reserve.channelId, server.client, priority);
+            }
+        }
+
+        const output = new PassThrough();
+        shared.outputs.push(output);
+        output.once('close', () => {
+            this.removeSharedStreamOutput(key, shared, output);
+        });
+
+        // stream 取得中のキャンセル
+        const onAbort = () => {
+            output.destroy();
+        };
+        if (typeof abortSignal !== 'undefined') {
+            abortSignal.addEventListener('abort', onAbort);
+        }
+
+        let upstream: http.IncomingMessage;
+        try {
+            upstream = await shared.upstream;
+        } catch (err: any) {
+            output.destroy();
+            throw err;
+        } finally {
+            if (typeof abortSignal !== 'undefined') {
+                abortSignal.removeEventListener('abort', onAbort);
+            }
+        }
+
+        if (output.destroyed === true) {
+            throw new Error('ServiceStreamAbortedError');
+        }
+
+        upstream.pipe(output);
+
+        return output;
+    }
+
+    /**
+     * 予約の Mirakurun の priority を返す
+     * @param reserve: Reserve
+     * @return number
+     */
+    private getStreamPriority(reserve: Reserve): number {
+        return reserve.isConflict ? this.config.conflictPriority : this.config.recPriority;
+    }
+
+    /**
+     * 共有する service stream を生成する
+     * @param key: string index のキー
+     * @param channelId: apid.ChannelId
+     * @param mirakurun: Mirakurun
+     * @param priority: number
+     * @return SharedServiceStream
+     */
+    private createSharedStream(
+        key: string,
+        channelId: apid.ChannelId,
+        mirakurun: Mirakurun,
+        priority: number,
+    ): SharedServiceStream {
+        const abortController = new AbortController();
+        const shared: SharedServiceStream = {
+            upstream: this.requestServiceStream(mirakurun, channelId, priority, abortController),
+            abortController: abortController,
+            priority: priority,
+            outputs: [],
+        };
+        this.sharedStreams[key] = shared;
+        this.log.system.debug(`create service stream: ${channelId}`);
+
+        this.watchSharedStreamUpstream(key, shared, shared.upstream);
+
+        return shared;
+    }
+
+    /**
+     * Mirakurun から service stream を取得する
+     * @param mirakurun: Mirakurun
+     * @param channelId: apid.ChannelId
+     * @param priority: number
+     * @param abortController: AbortController
+     * @return Promise<http.IncomingMessage>
+     */
+    private requestServiceStream(
+        mirakurun: Mirakurun,
+        channelId: apid.ChannelId,
+        priority: number,
+        abortController: AbortController,
+    ): Promise<http.IncomingMessage> {
+        return mirakurun.getServiceStream({
+            id: channelId,
+            decode: true,
+            priority: priority,
+            signal: abortController.signal,
+        });
+    }
+
+    /**
+     * 共有している service stream の upstream の終了を監視する
+     * @param key: string index のキー
+     * @param shared: SharedServiceStream
+     * @param upstreamPromise: Promise<http.IncomingMessage>
+     */
+    private watchSharedStreamUpstream(
+        key: string,
+        shared: SharedServiceStream,
+        upstreamPromise: Promise<http.IncomingMessage>,
+    ): void {
+        upstreamPromise
+            .then(upstream => {
+                // Mirakurun の stream が終了したら分配先も終了させる
+                // service stream は途中で終了しないため録画側で途切れたことを検知できるようにエラーとする
+                upstream.once('close', () => {
+                    // 取得し直したことで置き換えられた stream は除く
+                    if (shared.upstream !== upstreamPromise) {
+                        return;
+                    }
+
+                    this.deleteSharedStream(key, shared);
+                    for (const output of shared.outputs.slice()) {
+                        output.destroy(new Error('ServiceStreamClosedError'));
+                    }
+                });
+            })
+            .catch(() => {
+                if (shared.upstream === upstreamPromise) {
+                    this.deleteSharedStream(key, shared);
+                }
+            });
+    }
+
+    /**
+     * 共有している service stream をより高い priority で取得し直し, 既存の分配先を新しい stream へ切り替える
+     * 取得に失敗した場合は元の stream を使い続ける
+     * @param key: string index のキー
+     * @param shared: SharedServiceStream
+     * @param channelId: apid.ChannelId
+     * @param mirakurun: Mirakurun
+     * @param priority: number
+     * @return Promise<void>
+     */
+    private async reopenSharedStream(
+        key: string,
+        shared: SharedServiceStream,
+        channelId: apid.ChannelId,
+        mirakurun: Mirakurun,
+        priority: number,
+    ): Promise<void> {
+        const oldUpstreamPromise = shared.upstream;
+        const oldAbortController = shared.abortController;
+        const oldPriority = shared.priority;
+        const outputs = shared.outputs.slice();
+
+        this.log.system.info(`reopen service stream: ${channelId}, priority: ${oldPriority} -> ${priority}`);
+        const newAbortController = new AbortController();
+        const newUpstreamPromise = this.requestServiceStream(mirakurun, channelId, priority, newAbortController);
+        shared.upstream = newUpstreamPromise;
+        shared.abortController = newAbortController;
+        shared.priority = priority;
+        this.watchSharedStreamUpstream(key, shared, newUpstreamPromise);
+
+        let newUpstream: http.IncomingMessage;
+        try {
+            newUpstream = await newUpstreamPromise;
+        } catch (err: any) {
+            this.log.system.warn(`reopen service stream error: ${channelId}`);
+            this.log.system.warn(err);
+
+            if (shared.upstream === newUpstreamPromise && shared.outputs.length > 0) {
+                // 元の stream に戻す
+                shared.upstream = oldUpstreamPromise;
+                shared.abortController = oldAbortController;
+                shared.priority = oldPriority;
+            } else {
+                // 取得中に分配先が無くなった
+                oldAbortController.abort();
+                oldUpstreamPromise
+                    .then(upstream => {
+                        upstream.destroy();
+                    })
+                    .catch(() => {});
+            }
+
+            return;
+        }
+
+        // 既存の分配先を新しい stream へ切り替えてから元の stream を停止する
+        const oldUpstream = await oldUpstreamPromise.catch(() => {
+            return null;
+        });
+        for (const output of outputs) {
+            if (output.destroyed === true) {
+                continue;
+            }
+
+            if (oldUpstream !== null) {
+                oldUpstream.unpipe(output);
+            }
+            newUpstream.pipe(output);
+        }
+
+        oldAbortController.abort();
+        if (oldUpstream !== null) {
+            oldUpstream.destroy();
+        }
+    }
+
+    /**
+     * 共有している service stream から分配先を削除する
+     * 分配先が無くなった場合は Mirakurun の stream を停止する
+     * @param key: string index のキー
+     * @param shared: SharedServiceStream
+     * @param output: PassThrough
+     */
+    private removeSharedStreamOutput(key: string, shared: SharedServiceStream, output: PassThrough): void {
+        const index = shared.outputs.indexOf(output);
+        if (index !== -1) {
+            shared.outputs.splice(index, 1);
+        }
+
+        shared.upstream
+            .then(upstream => {
+                upstream.unpipe(output);
+            })
+            .catch(() => {});
+
+        if (shared.outputs.length > 0) {
+            return;
+        }
+
+        this.deleteSharedStream(key, shared);
+        shared.abortController.abort();
+        shared.upstream
+            .then(upstream => {
+                upstream.destroy();
+                upstream.push(null); // eof 通知
+            })
+            .catch(() => {});
+        this.log.system.debug(`delete service stream: ${key}`);
+    }
+
+    /**
+     * 共有している service stream を index から削除する
+     * @param key: string index のキー
+     * @param shared: SharedServiceStream
+     */
+    private deleteSharedStream(key: string, shared: SharedServiceStream): void {
+        if (this.sharedStreams[key] === shared) {
+            delete this.sharedStreams[key];
+        }
+    }
+
+    /**
+     * stream の録画開始時刻を返す
+     * 時刻指定予約は config のマージン, programId 指定予約はパディングを含める
+     * @param reserve: Reserve
+     * @return apid.UnixtimeMS
+     */
+    private getStreamStartAt(reserve: Reserve): apid.UnixtimeMS {
+        return reserve.programId === null
+            ? reserve.startAt - 1000 * this.config.timeSpecifiedStartMargin
+            : ReserveUtil.getRecStartAt(reserve);
+    }
+
+    /**
+     * stream の録画終了時刻を返す
+     * 時刻指定予約は config のマージン, programId 指定予約はパディングを含める
+     * @param reserve: Reserve
+     * @return apid.UnixtimeMS
+     */
+    private getStreamEndAt(reserve: Reserve): apid.UnixtimeMS {
+        return reserve.programId === null
+            ? reserve.endAt + 1000 * this.config.timeSpecifiedEndMargin
+            : ReserveUtil.getRecEndAt(reserve);
+    }
+
     /**
      * stream 停止
      * @param reserve: Reserve
@@ -309,7 +937,7 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
         clearTimeout(this.timerIndex[reserve.id]);
         delete this.timerIndex[reserve.id];
 
-        let stream: http.IncomingMessage | null = null;
+        let stream: Readable | null = null;
         for (const tuner of this.tuners) {
             for (const program of tuner.programs) {
                 if (program.reserve.id === reserve.id) {
@@ -325,20 +953,120 @@ export default class RecordingStreamCreator implements IRecordingStreamCreator {
     }
 
     /**
-     * 時刻指定予約の endAt を変更する
+     * 指定した予約の stream の終了時刻を EPGStation 側で管理しているか
+     * programId 指定予約で program stream を使用している場合は Mirakurun 側で終了するため false を返す
+     * @param reserveId: apid.ReserveId
+     * @return boolean
+     */
+    public hasEndTimer(reserveId: apid.ReserveId): boolean {
+        return typeof this.timerIndex[reserveId] !== 'undefined';
+    }
+
+    /**
+     * 時刻指定予約 (service stream で録画する programId 指定予約を含む) の endAt を変更する
      * @param reserve
      */
     public changeEndAt(reserve: Reserve): void {
-        if (reserve.programId !== null || typeof this.timerIndex[reserve.id] === 'undefined') {
+        // program stream で録画している or 録画中でない
+        if (typeof this.timerIndex[reserve.id] === 'undefined') {
             throw new Error('StreamChangeAtError');
         }
 
-        // timer 再設定
-        this.timerIndex[reserve.id] = setTimeout(
-            () => {
-                this.destroyStream(reserve);
-            },
-            reserve.endAt - new Date().getTime() + 1000 * this.config.timeSpecifiedEndMargin,
-        );
+        const endAt = this.getStreamEndAt(reserve);
+        const follow = this.programFollowIndex[reserve.id];
+        if (typeof follow !== 'undefined') {
+            follow.reserve = reserve;
+            follow.endAt = endAt;
+        }
+
+        this.setStreamEndTimer(reserve, endAt);
+    }
+
+    /**
+     * stream を停止する timer を再設定する
+     * @param reserve: Reserve
+     * @param endAt: apid.UnixtimeMS stream の終了時刻
+     */
+    private setStreamEndTimer(reserve: Reserve, endAt: apid.UnixtimeMS): void {
+        clearTimeout(this.timerIndex[reserve.id]);
+        this.timerIndex[reserve.id] = setTimeout(() => {
+            this.destroyStream(reserve);
+        }, endAt - new Date().getTime());
+    }
+
+    /**
+     * service stream で録画する programId 指定予約の番組情報の追従を開始する
+     * service stream は Mirakurun の program stream と異なり番組の延長に追従しないため,
+     * Mirakurun から最新の番組情報 (EIT) を定期的に取得して stream の終了時刻を更新する
+     * @param reserve: Reserve
+     * @param server: TunerServer
+     */
+    private startProgramFollow(reserve: Reserve, server: TunerServer): void {
+        this.stopProgramFollow(reserve.id);
+
+        this.programFollowIndex[reserve.id] = {
+            reserve: reserve,
+            server: server,
+            endAt: this.getStreamEndAt(reserve),
+            timerId: setInterval(async () => {
+                await this.followProgram(reserve.id).catch(err => {
+                    this.log.system.error(`follow program error: ${reserve.id}`);
+                    this.log.system.error(err);
+                });
+            }, IRecordingStreamCreator.PROGRAM_FOLLOW_INTERVAL),
+        };
+    }
+
+    /**
+     * 番組情報の追従を停止する
+     * @param reserveId: apid.ReserveId
+     */
+    private stopProgramFollow(reserveId: apid.ReserveId): void {
+        const follow = this.programFollowIndex[reserveId];
+        if (typeof follow === 'undefined') {
+            return;
+        }
+
+        clearInterval(follow.timerId);
+        delete this.programFollowIndex[reserveId];
+    }
+
+    /**
+     * Mirakurun から最新の番組情報を取得し, 番組の終了時刻が変わっていれば stream の終了時刻を更新する
+     * 終了時刻が未定の場合は確定するまで stream の終了を延ばす
+     * @param reserveId: apid.ReserveId
+     * @return Promise<void>
+     */
+    private async followProgram(reserveId: apid.ReserveId): Promise<void> {
+        const follow = this.programFollowIndex[reserveId];
+        if (typeof follow === 'undefined' || follow.reserve.programId === null) {
+            return;
+        }
+
+        const program = await follow.server.client.getProgram(follow.reserve.programId);
+
+        // 取得中に追従が停止された
+        if (this.programFollowIndex[reserveId] !== follow || typeof this.timerIndex[reserveId] === 'undefined') {
+            return;
+        }
+
+        const now = new Date().getTime();
+        const endAt =
+            program.duration === RecordingStreamCreator.UNDECIDED_DURATION
+                ? Math.max(follow.endAt, now + IRecordingStreamCreator.PROGRAM_FOLLOW_INTERVAL * 2)
+                : program.startAt + program.duration + follow.reserve.appliedEndPadding * 1000;
+        if (endAt === follow.endAt) {
+            return;
+        }
+
+        this.log.system.info(`follow program endAt: ${reserveId}, ${follow.endAt} -> ${endAt}`);
+        follow.endAt = endAt;
+        this.setStreamEndTimer(follow.reserve, endAt);
     }
 }
+
+namespace RecordingStreamCreator {
+    export const UNDECIDED_DURATION = 1; // Mirakurun で終了時刻が未定の番組の duration
+}
+
+export default RecordingStreamCreator;
@@ -1,5 +1,14 @@
 import * as apid from '../../../../api';
 import * as mapid from '../../../../node_modules/mirakurun/api';
+import Recorded from '../../../db/entities/Recorded';
+import Reserve from '../../../db/entities/Reserve';
+
+/**
+ * 競合している予約の reserve id をキーとした, チューナーを割り当てられたために競合の原因となった予約の索引
+ */
+export interface DisplacingReserveIndex {
+    [reserveId: number]: apid.DisplacingReserveItem[];
+}
 
 export default interface IReservationManageModel {
     setTuners(tuners: mapid.TunerDevice[]): void;
@@ -13,4 +22,9 @@ export default interface IReservationManageModel {
     removeOverlap(reserveId: apid.ReserveId): Promise<void>;
     edit(reserveId: apid.ReserveId, option: apid.EditManualReserveOption): Promise<void>;
     cleanup(): Promise<void>;
+    resolveConflicts(): Promise<void>;
+    addRerecord(reserve: Reserve, recorded: Recorded): Promise<void>;
+    dryRunRule(option: apid.DryRunRuleOption): Promise<apid.RuleDryRunResult>;
+    explainRule(option: apid.RuleMatchOption): Promise<apid.RuleMatchExplanation>;
+    getDisplacingReserves(reserveIds: apid.ReserveId[], isHalfWidth: boolean): Promise<DisplacingReserveIndex>;
 }
@@ -3,22 +3,24 @@ import * as apid from '../../../../api';
 import * as mapid from '../../../../node_modules/mirakurun/api';
 import Channel from '../../../db/entities/Channel';
 import Program from '../../../db/entities/Program';
+import Recorded from '../../../db/entities/Recorded';
 import Reserve from '../../../db/entities/Reserve';
 import DateUtil from '../../../util/DateUtil';
+import ReserveUtil from '../../../util/ReserveUtil';
 import StrUtil from '../../../util/StrUtil';
 import Util from '../../../util/Util';
 import IChannelDB from '../../db/IChannelDB';
-import IProgramDB, { ProgramWithOverlap } from '../../db/IProgramDB';
+import IProgramDB, { FindRebroadcastOption, ProgramWithOverlap } from '../../db/IProgramDB';
 import IReserveDB, { IFindTimeRangesOption, IReserveTimeOption } from '../../db/IReserveDB';
 import IRuleDB, { RuleWithCnt } from '../../db/IRuleDB';
 import IReserveEvent, { IReserveUpdateValues } from '../../event/IReserveEvent';
 import IConfigFile from '../../IConfigFile';
 import IConfiguration from '../../IConfiguration';
-import IExecutionManagementModel from '../../IExecutionManagementModel';
+import IExecutionManagementModel, { ExecutionId } from '../../IExecutionManagementModel';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
 import IReserveOptionChecker from '../IReserveOptionChecker';
-import IReservationManageModel from './IReservationManageModel';
+import IReservationManageModel, { DisplacingReserveIndex } from './IReservationManageModel';
 import Tuner from './Tuner';
 
 interface ReserveDiffData {
@@ -26,6 +28,23 @@ interface ReserveDiffData {
     isChecked: boolean;
 }
 
+/**
+ * ルールの新旧の予約情報
+ */
+interface RuleReserves {
+    findOption: IFindTimeRangesOption;
+    newReserves: Reserve[];
+    oldReserves: Reserve[];
+}
+
+/**
+ * 予約情報の計算結果
+ */
+interface ReserveCalcResult {
+    diff: IReserveUpdateValues;
+    reserves: Reserve[]; // 計算後の予約情報
+}
+
 @injectable()
 class ReservationManageModel implements IReservationManageModel {
     private log: ILogger;
@@ -38,6 +57,7 @@ class ReservationManageModel implements IReservationManageModel {
     private ruleDB: IRuleDB;
     private reserveEvent: IReserveEvent;
     private tuners: Tuner[] = [];
+    private isWaitingResolveConflicts: boolean = false;
     private broadcastStatus: apid.BroadcastStatus = {
         GR: false,
         BS: false,
@@ -69,9 +89,15 @@ class ReservationManageModel implements IReservationManageModel {
 
     /**
      * チューナ情報をセット
+     * 複数のチューナーサーバがある場合は全てのサーバのチューナーを渡す
+     * チューナーサーバの接続状態の変化により再度呼ばれる
      * @param tuners: TunerDevice[]
      */
     public setTuners(tuners: mapid.TunerDevice[]): void {
+        for (const key in this.broadcastStatus) {
+            (<any>this.broadcastStatus)[key] = false;
+        }
+
         this.tuners = tuners.map(tuner => {
             // set this.broadcastStatus
             for (const key in this.broadcastStatus) {
@@ -213,6 +239,9 @@ class ReservationManageModel implements IReservationManageModel {
 
         // option から必要な情報をセットする
         newReserve.allowEndLack = option.allowEndLack;
+        newReserve.priority = typeof option.priority === 'undefined' ? 0 : option.priority;
+        newReserve.startPadding = typeof option.startPadding === 'undefined' ? 0 : option.startPadding;
+        newReserve.endPadding = typeof option.endPadding === 'undefined' ? 0 : option.endPadding;
         if (typeof option.tags !== 'undefined') {
             newReserve.tags = JSON.stringify(option.tags);
         }
@@ -224,15 +253,16 @@ class ReservationManageModel implements IReservationManageModel {
         }
 
         // 追加する予約情報と重複する予約情報を取得 (競合, 除外, 重複しているものは除く)
+        // パディングが影響する前後の予約も含めて取得する
         let reserves: Reserve[] = [];
         try {
             reserves = await this.reserveDB.findTimeRanges({
-                times: [
+                times: this.addPaddingRange([
                     {
                         startAt: newReserve.startAt,
                         endAt: newReserve.endAt,
                     },
-                ],
+                ]),
                 hasSkip: false,
                 hasConflict: false,
                 hasOverlap: false,
@@ -255,6 +285,28 @@ class ReservationManageModel implements IReservationManageModel {
             }
         }
 
+        // パディングの計算結果を反映する
+        const paddingChangedReserves: Reserve[] = [];
+        for (const reserve of newReserves) {
+            if (typeof reserve.id === 'undefined') {
+                newReserve.appliedStartPadding = reserve.appliedStartPadding;
+                newReserve.appliedEndPadding = reserve.appliedEndPadding;
+                continue;
+            }
+
+            // 追加する予約によってパディングが縮められた予約
+            const oldReserve = reserves.find(r => {
+                return r.id === reserve.id;
+            });
+            if (
+                typeof oldReserve !== 'undefined' &&
+                (oldReserve.appliedStartPadding !== reserve.appliedStartPadding ||
+                    oldReserve.appliedEndPadding !== reserve.appliedEndPadding)
+            ) {
+                paddingChangedReserves.push(reserve);
+            }
+        }
+
         // 追加
         let insertedId: number;
         try {
@@ -266,6 +318,19 @@ class ReservationManageModel implements IReservationManageModel {
             throw new Error('ReservationManageModelAddReserveError');
         }
 
+        if (paddingChangedReserves.length > 0) {
+            try {
+                await this.reserveDB.updateMany({
+                    update: paddingChangedReserves,
+                    isSuppressLog: false,
+                });
+            } catch (err: any) {
+                finalize();
+                this.log.system.error('update reservation padding error');
+                throw err;
+            }
+        }
+
         // 完了したのでロック解除
         finalize();
 
@@ -277,6 +342,7 @@ class ReservationManageModel implements IReservationManageModel {
         // イベント発行
         this.reserveEvent.emitUpdated({
             insert: [newReserve],
+            update: paddingChangedReserves.length > 0 ? paddingChangedReserves : undefined,
             isSuppressLog: false,
         });
 
@@ -301,6 +367,11 @@ class ReservationManageModel implements IReservationManageModel {
             isFail = typeof option.programId === 'undefined' && typeof option.timeSpecifiedOption === 'undefined';
         }
 
+        // パディングチェック
+        if (this.optionChecker.checkPaddingOption(option) === false) {
+            isFail = true;
+        }
+
         return !isFail;
     }
 
@@ -338,6 +409,11 @@ class ReservationManageModel implements IReservationManageModel {
         reserve.videoStreamContent = program.videoStreamContent;
         reserve.audioSamplingRate = program.audioSamplingRate;
         reserve.audioComponentType = program.audioComponentType;
+        reserve.seriesId = program.seriesId;
+        reserve.seriesRepeat = program.seriesRepeat;
+        reserve.seriesEpisode = program.seriesEpisode;
+        reserve.seriesLastEpisode = program.seriesLastEpisode;
+        reserve.seriesName = program.seriesName;
     }
 
     /**
@@ -533,11 +609,310 @@ class ReservationManageModel implements IReservationManageModel {
 
         // ルールを取得
         const rule = await this.ruleDB.findId(ruleId, true).catch(err => {
+            finalize();
             this.log.system.error(`get rule error: ${ruleId}`);
             this.log.system.error(err);
             throw err;
         });
 
+        // 新旧の予約での差分を生成
+        let diff: IReserveUpdateValues;
+        try {
+            const ruleReserves = await this.createRuleReserves(ruleId, <RuleWithCnt | null>rule, isFirstUpdate);
+            diff = await this.createDiff(
+                ruleReserves.findOption,
+                ruleReserves.newReserves,
+                ruleReserves.oldReserves,
+                isSuppressLog,
+            );
+        } catch (err: any) {
+            finalize();
+            throw err;
+        }
+
+        finalize();
+
+        if (isSuppressLog === false) {
+            this.log.system.info(`successful update rule reservation: ${ruleId}`);
+        }
+
+        // イベント発行
+        this.reserveEvent.emitUpdated(diff);
+    }
+
+    /**
+     * ルールの予約情報を DB へ反映せずに計算する
+     * @param option: apid.DryRunRuleOption
+     * @return Promise<apid.RuleDryRunResult>
+     */
+    public async dryRunRule(option: apid.DryRunRuleOption): Promise<apid.RuleDryRunResult> {
+        const rule = await this.getDryRunRule(option);
+
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(
+            ReservationManageModel.RULE_UPDATE_RESERVE_PRIORITY,
+        );
+
+        let result: ReserveCalcResult;
+        try {
+            result = await this.calcRuleReserves(rule);
+        } finally {
+            this.executeManagementModel.unLockExecution(exeId);
+        }
+
+        const insert = typeof result.diff.insert === 'undefined' ? [] : result.diff.insert;
+        const update = typeof result.diff.update === 'undefined' ? [] : result.diff.update;
+        const del = typeof result.diff.delete === 'undefined' ? [] : result.diff.delete;
+
+        return {
+            insert: insert.map(r => {
+                return this.toDryRunReserveItem(r);
+            }),
+            update: update.map(r => {
+                return this.toDryRunReserveItem(r);
+            }),
+            delete: del.map(r => {
+                return this.toDryRunReserveItem(r);
+            }),
+            conflicts: insert
+                .concat(update)
+                .filter(r => {
+                    return r.isConflict === true;
+                })
+                .map(r => {
+                    return this.toDryRunReserveItem(r);
+                }),
+        };
+    }
+
+    /**
+     * 指定した番組がルールの各検索条件を満たすか判定する
+     * @param option: apid.RuleMatchOption
+     * @return Promise<apid.RuleMatchExplanation>
+     */
+    public async explainRule(option: apid.RuleMatchOption): Promise<apid.RuleMatchExplanation> {
+        const rule = await this.getDryRunRule(option);
+        if (rule.isTimeSpecification === true) {
+            throw new Error('RuleIsTimeSpecification');
+        }
+
+        // 検索条件ごとの判定
+        const filters = await this.programDB.explainRule(option.programId, {
+            searchOption: rule.searchOption,
+            reserveOption: rule.reserveOption,
+        });
+        if (filters === null) {
+            throw new Error('ProgramIsNotFound');
+        }
+
+        const isMatched = filters.every(f => {
+            return f.isPassed === true || f.name === 'duplicate';
+        });
+        if (isMatched === true && rule.reserveOption.enable === true) {
+            // 予約情報を計算して競合, スキップを判定する
+            const exeId = await this.executeManagementModel.getExecution(
+                ReservationManageModel.RULE_UPDATE_RESERVE_PRIORITY,
+            );
+
+            let result: ReserveCalcResult;
+            try {
+                result = await this.calcRuleReserves(rule);
+            } finally {
+                this.executeManagementModel.unLockExecution(exeId);
+            }
+
+            const reserve = result.reserves.find(r => {
+                return r.programId === option.programId && r.ruleId === rule.id;
+            });
+            if (typeof reserve === 'undefined') {
+                // 同一番組が他のルールで予約されている
+                filters.push({
+                    name: 'anotherRule',
+                    isPassed: false,
+                });
+            } else {
+                filters.push({
+                    name: 'skip',
+                    isPassed: reserve.isSkip === false,
+                });
+                filters.push({
+                    name: 'conflict',
+                    isPassed: reserve.isConflict === false,
+                });
+            }
+        }
+
+        return {
+            programId: option.programId,
+            isMatched: isMatched,
+            isReserved:
+                rule.reserveOption.enable === true &&
+                filters.every(f => {
+                    return f.isPassed === true;
+                }),
+            filters: filters,
+        };
+    }
+
+    /**
+     * 競合している予約ごとに競合の原因となった予約を返す
+     * 競合している予約と時間帯が重なる予約でチューナーの割り当てを再計算し,
+     * 競合した時点で受信可能なチューナーを使用していた予約を競合の原因とする
+     * @param reserveIds: apid.ReserveId[] 競合している予約の id
+     * @param isHalfWidth: boolean 半角文字で返すか
+     * @return Promise<DisplacingReserveIndex>
+     */
+    public async getDisplacingReserves(
+        reserveIds: apid.ReserveId[],
+        isHalfWidth: boolean,
+    ): Promise<DisplacingReserveIndex> {
+        const result: DisplacingReserveIndex = {};
+
+        const conflicts = (await this.reserveDB.findConflicts()).filter(r => {
+            return reserveIds.indexOf(r.id) !== -1;
+        });
+        if (conflicts.length === 0) {
+            return result;
+        }
+
+        const reserves = await this.reserveDB.findTimeRanges({
+            times: conflicts.map(r => {
+                return {
+                    startAt: r.startAt,
+                    endAt: r.endAt,
+                };
+            }),
+            hasSkip: true,
+            hasConflict: true,
+            hasOverlap: true,
+        });
+
+        const displacingIds: { [reserveId: number]: apid.ReserveId[] } = {};
+        this.createReserves(reserves, displacingIds);
+
+        const reserveIndex: { [reserveId: number]: Reserve } = {};
+        for (const reserve of reserves) {
+            reserveIndex[reserve.id] = reserve;
+        }
+
+        for (const conflict of conflicts) {
+            const ids = displacingIds[conflict.id];
+            result[conflict.id] =
+                typeof ids === 'undefined'
+                    ? []
+                    : ids.map(id => {
+                          const reserve = reserveIndex[id];
+                          const item: apid.DisplacingReserveItem = {
+                              id: reserve.id,
+                              name: isHalfWidth ? reserve.halfWidthName : reserve.name,
+                              priority: reserve.priority,
+                          };
+                          if (reserve.ruleId !== null) {
+                              item.ruleId = reserve.ruleId;
+                          }
+
+                          return item;
+                      });
+        }
+
+        return result;
+    }
+
+    /**
+     * dry run 対象のルールを取得する
+     * rule が指定されていればそれを使用し, ruleId のみの場合は保存済みのルールを使用する
+     * @param option: apid.DryRunRuleOption
+     * @return Promise<RuleWithCnt>
+     */
+    private async getDryRunRule(option: apid.DryRunRuleOption): Promise<RuleWithCnt> {
+        if (typeof option.rule === 'undefined') {
+            if (typeof option.ruleId === 'undefined') {
+                throw new Error('RuleIsNotSpecified');
+            }
+
+            const savedRule = await this.ruleDB.findId(option.ruleId, true);
+            if (savedRule === null) {
+                throw new Error('RuleIsNotFound');
+            }
+
+            return <RuleWithCnt>savedRule;
+        }
+
+        if (this.optionChecker.checkRuleOption(option.rule) === false) {
+            throw new Error('RuleOptionCheckError');
+        }
+
+        let updateCnt = 0;
+        if (typeof option.ruleId !== 'undefined') {
+            const savedRule = await this.ruleDB.findId(option.ruleId, true);
+            if (savedRule === null) {
+                throw new Error('RuleIsNotFound');
+            }
+            // 保存済みのルールの変更として扱う
+            updateCnt = (<RuleWithCnt>savedRule).updateCnt + 1;
+        }
+
+        return {
+            ...option.rule,
+            id: typeof option.ruleId === 'undefined' ? ReservationManageModel.DRY_RUN_RULE_ID : option.ruleId,
+            updateCnt: updateCnt,
+        };
+    }
+
+    /**
+     * DB へ反映させずにルールの予約情報を計算する
+     * @param rule: RuleWithCnt
+     * @return Promise<ReserveCalcResult>
+     */
+    private async calcRuleReserves(rule: RuleWithCnt): Promise<ReserveCalcResult> {
+        const ruleId = rule.id === ReservationManageModel.DRY_RUN_RULE_ID ? null : rule.id;
+        const ruleReserves = await this.createRuleReserves(ruleId, rule, false);
+
+        return await this.calcDiff(ruleReserves.findOption, ruleReserves.newReserves, ruleReserves.oldReserves, true);
+    }
+
+    /**
+     * Reserve を DryRunReserveItem へ変換する
+     * @param reserve: Reserve
+     * @return apid.DryRunReserveItem
+     */
+    private toDryRunReserveItem(reserve: Reserve): apid.DryRunReserveItem {
+        const item: apid.DryRunReserveItem = {
+            channelId: reserve.channelId,
+            startAt: reserve.startAt,
+            endAt: reserve.endAt,
+            name: reserve.name,
+            isSkip: reserve.isSkip,
+            isConflict: reserve.isConflict,
+            isOverlap: reserve.isOverlap,
+            isTimeSpecified: reserve.isTimeSpecified,
+        };
+
+        if (typeof reserve.id !== 'undefined') {
+            item.id = reserve.id;
+        }
+        if (reserve.ruleId !== null && reserve.ruleId !== ReservationManageModel.DRY_RUN_RULE_ID) {
+            item.ruleId = reserve.ruleId;
+        }
+        if (reserve.programId !== null) {
+            item.programId = reserve.programId;
+        }
+
+        return item;
+    }
+
+    /**
+     * ルールの新旧の予約情報を生成する
+     * @param ruleId: apid.RuleId | null 保存されていないルールの場合は null
+     * @param rule: RuleWithCnt | null 削除されたルールの場合は null
+     * @param isFirstUpdate: boolean 初回更新か?
+     * @return Promise<RuleReserves>
+     */
+    private async createRuleReserves(
+        ruleId: apid.RuleId | null,
+        rule: RuleWithCnt | null,
+        isFirstUpdate: boolean,
+    ): Promise<RuleReserves> {
         /**
          * 更新前のルール予約と更新後のルール予約による他の予約の影響を計算する必要があるので、
          * 古いルール予約と新しいルール予約の番組情報を取得し、
@@ -548,19 +923,21 @@ class ReservationManageModel implements IReservationManageModel {
         const times: IReserveTimeOption[] = [];
 
         // 古い予約情報の取り出し
-        const oldRuleReserves = await this.reserveDB
-            .findRuleId({
-                ruleId: ruleId,
-                hasSkip: true,
-                hasConflict: true,
-                hasOverlap: true,
-            })
-            .catch(err => {
-                finalize();
-                this.log.system.error(`find rule reservation error: ${ruleId}`);
-                this.log.system.error(err);
-                throw err;
-            });
+        const oldRuleReserves =
+            ruleId === null
+                ? []
+                : await this.reserveDB
+                      .findRuleId({
+                          ruleId: ruleId,
+                          hasSkip: true,
+                          hasConflict: true,
+                          hasOverlap: true,
+                      })
+                      .catch(err => {
+                          this.log.system.error(`find rule reservation error: ${ruleId}`);
+                          this.log.system.error(err);
+                          throw err;
+                      });
 
         // 新しい予約情報検索
         const newRulePrograms =
@@ -571,7 +948,6 @@ class ReservationManageModel implements IReservationManageModel {
                           reserveOption: rule.reserveOption,
                       })
                       .catch(err => {
-                          finalize();
                           this.log.system.error(`find rule error: ${ruleId}`);
                           this.log.system.error(err);
                           throw err;
@@ -595,7 +971,6 @@ class ReservationManageModel implements IReservationManageModel {
                     typeof rule.searchOption.channelIds === 'undefined' ||
                     typeof rule.searchOption.times === 'undefined'
                 ) {
-                    finalize();
                     this.log.system.error(`rule search option error: ${ruleId}`);
                     throw new Error('RuleSearchOptionError');
                 }
@@ -663,7 +1038,7 @@ class ReservationManageModel implements IReservationManageModel {
                         newReserve.channelId = channelId;
                         newReserve.channel = channel.channel;
                         newReserve.channelType = channel.channelType;
-                        this.setProgramToRuleReserve(newReserve, null, <RuleWithCnt>rule, updateTime);
+                        this.setProgramToRuleReserve(newReserve, null, rule, updateTime);
 
                         // skip, overlap コピー
                         const oldReserve = oldRuleIndex[this.createReserveKey(newReserve)];
@@ -681,7 +1056,7 @@ class ReservationManageModel implements IReservationManageModel {
                 for (const program of newRulePrograms) {
                     const newReserve = new Reserve();
                     // 予約情報追加
-                    this.setProgramToRuleReserve(newReserve, program, <RuleWithCnt>rule, updateTime);
+                    this.setProgramToRuleReserve(newReserve, program, rule, updateTime);
 
                     // skip, overlap 情報をコピー
                     const oldReserve = oldRuleIndex[this.createReserveKey(newReserve)];
@@ -716,31 +1091,17 @@ class ReservationManageModel implements IReservationManageModel {
             }
         }
 
-        // 新旧の予約での差分を生成
-        const diff = await this.createDiff(
-            {
+        return {
+            findOption: {
                 times: times,
                 hasSkip: false,
                 hasConflict: true,
                 hasOverlap: false,
-                excludeRuleId: ruleId, // ruleId 指定で古いルール予約は除外する
+                excludeRuleId: ruleId === null ? undefined : ruleId, // ruleId 指定で古いルール予約は除外する
             },
-            newRuleReserves,
-            oldRuleReserves,
-            isSuppressLog,
-        ).catch(err => {
-            finalize();
-            throw err;
-        });
-
-        finalize();
-
-        if (isSuppressLog === false) {
-            this.log.system.info(`successful update rule reservation: ${ruleId}`);
-        }
-
-        // イベント発行
-        this.reserveEvent.emitUpdated(diff);
+            newReserves: newRuleReserves,
+            oldReserves: oldRuleReserves,
+        };
     }
 
     /**
@@ -760,6 +1121,10 @@ class ReservationManageModel implements IReservationManageModel {
         reserve.ruleUpdateCnt = rule.updateCnt;
         reserve.updateTime = updateTime;
         reserve.allowEndLack = rule.reserveOption.allowEndLack;
+        reserve.priority = typeof rule.reserveOption.priority === 'undefined' ? 0 : rule.reserveOption.priority;
+        reserve.startPadding =
+            typeof rule.reserveOption.startPadding === 'undefined' ? 0 : rule.reserveOption.startPadding;
+        reserve.endPadding = typeof rule.reserveOption.endPadding === 'undefined' ? 0 : rule.reserveOption.endPadding;
 
         if (typeof rule.reserveOption.tags !== 'undefined') {
             reserve.tags = JSON.stringify(rule.reserveOption.tags);
@@ -793,8 +1158,44 @@ class ReservationManageModel implements IReservationManageModel {
         addOldReserves: Reserve[],
         isSuppressLog: boolean,
     ): Promise<IReserveUpdateValues> {
-        // 影響を受ける可能性のある予約を取り出す
-        const baseReserves = await this.reserveDB.findTimeRanges(findOption).catch(err => {
+        const { diff } = await this.calcDiff(findOption, addNewReserves, addOldReserves, isSuppressLog);
+
+        if (isSuppressLog === false) {
+            this.log.system.info({
+                insert: typeof diff.insert === 'undefined' ? 0 : diff.insert.length,
+                update: typeof diff.update === 'undefined' ? 0 : diff.update.length,
+                delete: typeof diff.delete === 'undefined' ? 0 : diff.delete.length,
+            });
+        }
+
+        // 列挙した予約情報を DB へ反映させる
+        await this.reserveDB.updateMany(diff).catch(err => {
+            this.log.system.error('reserves update many error');
+            throw err;
+        });
+
+        return diff;
+    }
+
+    /**
+     * 新旧の予約の差分を生成する (DB へは反映しない)
+     * @param findOption :IFindTimeRangesOption
+     * @param addNewReserves: 新規追加する予約
+     * @param addOldReserves: 旧のみに含まれる予約
+     * @param isSuppressLog: ログ出力を抑えるか
+     * @return ReserveCalcResult
+     */
+    private async calcDiff(
+        findOption: IFindTimeRangesOption,
+        addNewReserves: Reserve[],
+        addOldReserves: Reserve[],
+        isSuppressLog: boolean,
+    ): Promise<ReserveCalcResult> {
+        // 影響を受ける可能性のある予約を取り出す (パディングが影響する前後の予約も含める)
+        const baseFindOption: IFindTimeRangesOption = Object.assign({}, findOption, {
+            times: this.addPaddingRange(findOption.times),
+        });
+        const baseReserves = await this.reserveDB.findTimeRanges(baseFindOption).catch(err => {
             this.log.system.error('reserve get error');
             throw err;
         });
@@ -812,23 +1213,10 @@ class ReservationManageModel implements IReservationManageModel {
         Array.prototype.push.apply(oldReserves, this.copyReserveArray(baseReserves));
 
         // oldReserves と newReserves の差分を列挙
-        const diff = this.createReservesDiff(oldReserves, newReserves, isSuppressLog);
-
-        if (isSuppressLog === false) {
-            this.log.system.info({
-                insert: typeof diff.insert === 'undefined' ? 0 : diff.insert.length,
-                update: typeof diff.update === 'undefined' ? 0 : diff.update.length,
-                delete: typeof diff.delete === 'undefined' ? 0 : diff.delete.length,
-            });
-        }
-
-        // 列挙した予約情報を DB へ反映させる
-        await this.reserveDB.updateMany(diff).catch(err => {
-            this.log.system.error('reserves update many error');
-            throw err;
-        });
-
-        return diff;
+        return {
+            diff: this.createReservesDiff(oldReserves, newReserves, isSuppressLog),
+            reserves: newReserves,
+        };
     }
 
     /**
@@ -952,7 +1340,9 @@ class ReservationManageModel implements IReservationManageModel {
                 oldReserve.ruleUpdateCnt !== newReserve.ruleUpdateCnt ||
                 oldReserve.isSkip !== newReserve.isSkip ||
                 oldReserve.isConflict !== newReserve.isConflict ||
-                oldReserve.isOverlap !== newReserve.isOverlap)
+                oldReserve.isOverlap !== newReserve.isOverlap ||
+                oldReserve.appliedStartPadding !== newReserve.appliedStartPadding ||
+                oldReserve.appliedEndPadding !== newReserve.appliedEndPadding)
         );
     }
 
@@ -1046,8 +1436,8 @@ class ReservationManageModel implements IReservationManageModel {
 
         // 比較のために新しい予約情報を生成
         const newReserves: Reserve[] = [];
-        if (cancelReserve.ruleId !== null) {
-            // ルール予約の場合
+        if (cancelReserve.ruleId !== null || cancelReserve.substituteReserveId !== null) {
+            // ルール予約, 代替予約の場合 (代替予約は削除すると再度追加されてしまうので skip する)
             if (cancelReserve.isOverlap === true) {
                 // overlap
                 cancelReserve.isIgnoreOverlap = false;
@@ -1249,7 +1639,8 @@ class ReservationManageModel implements IReservationManageModel {
 
     /**
      * 手動予約の編集
-     * allowEndLack, saveOption, encodeOption を更新する
+     * allowEndLack, priority, saveOption, encodeOption を更新する
+     * priority かパディングが変更された場合は競合状態とパディングを再計算する
      * @param reserveId: reserve id
      * @param option: apid.EditManualReserveOption
      */
@@ -1281,7 +1672,15 @@ class ReservationManageModel implements IReservationManageModel {
         }
 
         // option から必要な情報をセットする
+        const priority = typeof option.priority === 'undefined' ? newReserve.priority : option.priority;
+        const startPadding = typeof option.startPadding === 'undefined' ? newReserve.startPadding : option.startPadding;
+        const endPadding = typeof option.endPadding === 'undefined' ? newReserve.endPadding : option.endPadding;
+        const isPriorityChanged = newReserve.priority !== priority;
+        const isPaddingChanged = newReserve.startPadding !== startPadding || newReserve.endPadding !== endPadding;
         newReserve.allowEndLack = option.allowEndLack;
+        newReserve.priority = priority;
+        newReserve.startPadding = startPadding;
+        newReserve.endPadding = endPadding;
         if (typeof option.tags !== 'undefined') {
             newReserve.tags = JSON.stringify(option.tags);
         }
@@ -1295,6 +1694,34 @@ class ReservationManageModel implements IReservationManageModel {
             throw err;
         });
 
+        // 優先度かパディングが変わったので同じ時間帯の予約の競合状態とパディングを再計算する
+        let diff: IReserveUpdateValues | null = null;
+        if (
+            (isPriorityChanged === true || isPaddingChanged === true) &&
+            newReserve.isSkip === false &&
+            newReserve.isOverlap === false
+        ) {
+            diff = await this.createDiff(
+                {
+                    times: [
+                        {
+                            startAt: newReserve.startAt,
+                            endAt: newReserve.endAt,
+                        },
+                    ],
+                    hasSkip: false,
+                    hasConflict: true,
+                    hasOverlap: false,
+                },
+                [],
+                [],
+                false,
+            ).catch(err => {
+                finalize();
+                throw err;
+            });
+        }
+
         // 完了したのでロック解除
         finalize();
 
@@ -1305,6 +1732,9 @@ class ReservationManageModel implements IReservationManageModel {
             update: [newReserve],
             isSuppressLog: false,
         });
+        if (diff !== null) {
+            this.reserveEvent.emitUpdated(diff);
+        }
     }
 
     /**
@@ -1350,15 +1780,376 @@ class ReservationManageModel implements IReservationManageModel {
         });
     }
 
+    /**
+     * 競合している予約の代替として同じ内容の番組 (再放送等) の予約を追加する
+     * 元の予約の競合が解消された場合, 元の予約が放送前に削除された場合は代替予約を削除する
+     * isEnabledConflictResolver が無効な場合は残っている代替予約を削除する
+     * @return Promise<void>
+     */
+    public async resolveConflicts(): Promise<void> {
+        // 既に実行待ちであれば何もしない
+        if (this.isWaitingResolveConflicts === true) {
+            return;
+        }
+
+        // 実行権取得
+        this.isWaitingResolveConflicts = true;
+        let exeId: ExecutionId;
+        try {
+            exeId = await this.executeManagementModel.getExecution(ReservationManageModel.RESOLVE_CONFLICT_PRIORITY);
+        } finally {
+            this.isWaitingResolveConflicts = false;
+        }
+        const finalize = () => {
+            this.executeManagementModel.unLockExecution(exeId);
+        };
+
+        let diff: IReserveUpdateValues;
+        try {
+            diff = await this.createResolveConflictsDiff();
+        } catch (err: any) {
+            finalize();
+            this.log.system.error('resolve conflicts error');
+            throw err;
+        }
+
+        const insertCnt = typeof diff.insert === 'undefined' ? 0 : diff.insert.length;
+        const deleteCnt = typeof diff.delete === 'undefined' ? 0 : diff.delete.length;
+        if (insertCnt === 0 && deleteCnt === 0) {
+            finalize();
+
+            return;
+        }
+
+        // 列挙した予約情報を DB へ反映させる
+        await this.reserveDB.updateMany(diff).catch(err => {
+            finalize();
+            this.log.system.error('reserves update many error');
+            throw err;
+        });
+
+        finalize();
+
+        this.log.system.info(`successful resolve conflicts. insert: ${insertCnt}, delete: ${deleteCnt}`);
+
+        // イベント発行
+        this.reserveEvent.emitUpdated(diff);
+    }
+
+    /**
+     * 代替予約の追加, 削除の差分を生成する
+     * @return Promise<IReserveUpdateValues>
+     */
+    private async createResolveConflictsDiff(): Promise<IReserveUpdateValues> {
+        const now = new Date().getTime();
+        const substitutes = await this.reserveDB.findSubstitutes();
+
+        // 無効化されている場合は開始前の代替予約を全て削除する
+        if (this.config.isEnabledConflictResolver !== true) {
+            return {
+                delete: substitutes.filter(substitute => {
+                    return substitute.startAt > now;
+                }),
+                isSuppressLog: false,
+            };
+        }
+
+        // 以下の代替予約は削除する (開始済みのものは除く)
+        // - 元の予約の競合が解消された
+        // - 元の予約が放送前に削除された
+        // - 代替予約自体が競合している
+        // 元の予約が放送済み (録画失敗) の場合は残す
+        const deleteReserves: Reserve[] = [];
+        const substitutedIndex: { [reserveId: number]: boolean } = {};
+        for (const substitute of substitutes) {
+            const originalId = <number>substitute.substituteReserveId;
+            if (substitute.startAt > now && (await this.isUnnecessarySubstitute(substitute, now))) {
+                deleteReserves.push(substitute);
+            } else {
+                substitutedIndex[originalId] = true;
+            }
+        }
+
+        const conflicts = await this.reserveDB.findConflicts();
+
+        // 代替予約が無い競合予約に代替予約を追加する
+        const insertReserves: Reserve[] = [];
+        for (const original of conflicts) {
+            if (
+                original.programId === null ||
+                original.substituteReserveId !== null ||
+                typeof substitutedIndex[original.id] !== 'undefined'
+            ) {
+                continue;
+            }
+
+            const program = await this.programDB.findId(original.programId);
+            if (program === null) {
+                continue;
+            }
+
+            const candidates = await this.programDB.findRebroadcasts({
+                excludeProgramId: program.id,
+                startAt: now,
+                networkId: program.networkId,
+                eventId: program.eventId,
+                shortName: program.shortName,
+                description: program.description,
+                seriesId: program.seriesId,
+                seriesEpisode: program.seriesEpisode,
+            });
+            for (const candidate of candidates) {
+                // 既に予約されている番組は除外
+                const reserved = await this.reserveDB.findProgramId(candidate.id);
+                if (
+                    reserved.length > 0 ||
+                    insertReserves.some(r => {
+                        return r.programId === candidate.id;
+                    })
+                ) {
+                    continue;
+                }
+
+                const substitute = this.createReserveFromOriginal(original, candidate, now);
+                substitute.substituteReserveId = original.id;
+                substitute.substituteOriginalStartAt = original.startAt;
+                if ((await this.canAddSubstituteReserve(substitute, insertReserves, deleteReserves)) === true) {
+                    this.log.system.info(`add substitute reservation: ${original.id} -> ${candidate.id}`);
+                    insertReserves.push(substitute);
+                    break;
+                }
+            }
+        }
+
+        return {
+            insert: insertReserves,
+            delete: deleteReserves,
+            isSuppressLog: false,
+        };
+    }
+
+    /**
+     * 代替予約が不要になったか
+     * 元の予約が無い場合は, 元の予約の開始時刻を過ぎていれば放送済み (録画失敗) として代替予約を残す
+     * @param substitute: Reserve 代替予約
+     * @param now: apid.UnixtimeMS
+     * @return Promise<boolean>
+     */
+    private async isUnnecessarySubstitute(substitute: Reserve, now: apid.UnixtimeMS): Promise<boolean> {
+        if (substitute.isConflict === true) {
+            return true;
+        }
+
+        const original = await this.reserveDB.findId(<number>substitute.substituteReserveId);
+        if (original === null) {
+            // 放送前に削除された
+            return substitute.substituteOriginalStartAt === null || substitute.substituteOriginalStartAt > now;
+        }
+
+        return original.isConflict === false;
+    }
+
+    /**
+     * 録画に失敗した, もしくはドロップが多かった録画の再録画として同じ内容の番組 (再放送等) の予約を追加する
+     * 他の予約と競合しない番組のうち最も早く放送されるものを予約する
+     * @param reserve: Reserve 元の予約
+     * @param recorded: Recorded 再録画の対象となる録画
+     * @return Promise<void>
+     */
+    public async addRerecord(reserve: Reserve, recorded: Recorded): Promise<void> {
+        // 時刻指定予約は番組を特定できないため対象外
+        if (recorded.programId === null) {
+            return;
+        }
+
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(ReservationManageModel.ADD_RERECORD_PRIORITY);
+        const finalize = () => {
+            this.executeManagementModel.unLockExecution(exeId);
+        };
+
+        let rerecord: Reserve | null;
+        try {
+            rerecord = await this.createRerecordReserve(reserve, recorded);
+        } catch (err: any) {
+            finalize();
+            this.log.system.error(`create rerecord reserve error: ${recorded.id}`);
+            throw err;
+        }
+
+        if (rerecord === null) {
+            finalize();
+            this.log.system.warn(`rerecord reservation is not added: ${recorded.id}`);
+
+            return;
+        }
+
+        const diff: IReserveUpdateValues = {
+            insert: [rerecord],
+            isSuppressLog: false,
+        };
+
+        // DB へ反映させる
+        await this.reserveDB.updateMany(diff).catch(err => {
+            finalize();
+            this.log.system.error('reserves update many error');
+            throw err;
+        });
+
+        finalize();
+
+        this.log.system.info(`add rerecord reservation: ${recorded.id} -> ${rerecord.programId}`);
+
+        // イベント発行
+        this.reserveEvent.emitUpdated(diff);
+    }
+
+    /**
+     * 再録画の予約を生成する
+     * @param reserve: Reserve 元の予約
+     * @param recorded: Recorded 再録画の対象となる録画
+     * @return Promise<Reserve | null> 予約可能な番組が無い場合は null
+     */
+    private async createRerecordReserve(reserve: Reserve, recorded: Recorded): Promise<Reserve | null> {
+        // 既に再録画の予約がある
+        if ((await this.reserveDB.findRerecordRecordedId(recorded.id)).length > 0) {
+            return null;
+        }
+
+        const now = new Date().getTime();
+        const option = this.createRebroadcastOption(recorded, now);
+        if (option === null) {
+            return null;
+        }
+
+        const candidates = await this.programDB.findRebroadcasts(option);
+        for (const candidate of candidates) {
+            // 既に予約されている番組は除外
+            const reserved = await this.reserveDB.findProgramId(candidate.id);
+            if (reserved.length > 0) {
+                continue;
+            }
+
+            const rerecord = this.createReserveFromOriginal(reserve, candidate, now);
+            rerecord.rerecordRecordedId = recorded.id;
+            if ((await this.canAddSubstituteReserve(rerecord, [], [])) === true) {
+                return rerecord;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * 録画情報から同じ内容の番組の検索条件を生成する
+     * 録画終了時には元の番組情報が番組表の更新で削除されている場合があるため録画情報から生成する
+     * @param recorded: Recorded
+     * @param startAt: apid.UnixtimeMS この時刻以降に開始する番組を対象とする
+     * @return FindRebroadcastOption | null 時刻指定予約の録画の場合は null
+     */
+    private createRebroadcastOption(recorded: Recorded, startAt: apid.UnixtimeMS): FindRebroadcastOption | null {
+        if (recorded.programId === null) {
+            return null;
+        }
+
+        // program id は networkId * 10^10 + serviceId * 10^5 + eventId
+        return {
+            excludeProgramId: recorded.programId,
+            startAt: startAt,
+            networkId: Math.floor(recorded.programId / ReservationManageModel.PROGRAM_ID_NETWORK_DIGIT),
+            eventId: recorded.programId % ReservationManageModel.PROGRAM_ID_EVENT_DIGIT,
+            shortName: StrUtil.deleteBrackets(recorded.halfWidthName),
+            description: typeof recorded.description === 'undefined' ? null : recorded.description,
+            seriesId: typeof recorded.seriesId === 'undefined' ? null : recorded.seriesId,
+            seriesEpisode: typeof recorded.seriesEpisode === 'undefined' ? null : recorded.seriesEpisode,
+        };
+    }
+
+    /**
+     * 元の予約の予約オプションを引き継いで別の番組の予約を生成する
+     * 競合の代替予約, 再録画予約で使用する
+     * @param original: Reserve 元の予約
+     * @param program: Program 予約する番組
+     * @param updateTime: apid.UnixtimeMS
+     * @return Reserve
+     */
+    private createReserveFromOriginal(original: Reserve, program: Program, updateTime: apid.UnixtimeMS): Reserve {
+        const reserve = new Reserve();
+        this.setProgramToReserve(reserve, program);
+        reserve.updateTime = updateTime;
+        reserve.allowEndLack = original.allowEndLack;
+        reserve.priority = original.priority;
+        reserve.startPadding = original.startPadding;
+        reserve.endPadding = original.endPadding;
+        reserve.tags = original.tags;
+        reserve.parentDirectoryName = original.parentDirectoryName;
+        reserve.directory = original.directory;
+        reserve.recordedFormat = original.recordedFormat;
+        reserve.encodeMode1 = original.encodeMode1;
+        reserve.encodeParentDirectoryName1 = original.encodeParentDirectoryName1;
+        reserve.encodeDirectory1 = original.encodeDirectory1;
+        reserve.encodeMode2 = original.encodeMode2;
+        reserve.encodeParentDirectoryName2 = original.encodeParentDirectoryName2;
+        reserve.encodeDirectory2 = original.encodeDirectory2;
+        reserve.encodeMode3 = original.encodeMode3;
+        reserve.encodeParentDirectoryName3 = original.encodeParentDirectoryName3;
+        reserve.encodeDirectory3 = original.encodeDirectory3;
+        reserve.isDeleteOriginalAfterEncode = original.isDeleteOriginalAfterEncode;
+
+        return reserve;
+    }
+
+    /**
+     * 代替予約 (再録画予約) が他の予約と競合せずに追加できるか
+     * @param substitute: Reserve
+     * @param insertReserves: Reserve[] 追加予定の代替予約
+     * @param deleteReserves: Reserve[] 削除予定の代替予約
+     * @return Promise<boolean>
+     */
+    private async canAddSubstituteReserve(
+        substitute: Reserve,
+        insertReserves: Reserve[],
+        deleteReserves: Reserve[],
+    ): Promise<boolean> {
+        const reserves = (
+            await this.reserveDB.findTimeRanges({
+                times: [
+                    {
+                        startAt: substitute.startAt,
+                        endAt: substitute.endAt,
+                    },
+                ],
+                hasSkip: false,
+                hasConflict: false,
+                hasOverlap: false,
+            })
+        ).filter(r => {
+            return !deleteReserves.some(d => {
+                return d.id === r.id;
+            });
+        });
+        for (const reserve of insertReserves) {
+            if (reserve.startAt < substitute.endAt && reserve.endAt > substitute.startAt) {
+                reserves.push(reserve);
+            }
+        }
+        reserves.push(substitute);
+
+        return this.createReserves(reserves).every(r => {
+            return r.isConflict === false;
+        });
+    }
+
     /**
      * 予約情報を生成する
      * 平面走査法のような事をしている
      * @param matches 予約したい番組情報
+     * @param displacingIds 指定された場合は競合した予約の id をキーとして競合の原因となった予約の id を格納する
      * @return Reserve[] 予約情報
      */
-    private createReserves(matches: Reserve[]): Reserve[] {
+    private createReserves(matches: Reserve[], displacingIds?: { [reserveId: number]: apid.ReserveId[] }): Reserve[] {
         // 重複チェックのために programId でソート
-        matches.sort(this.sortReserve);
+        matches.sort(ReserveUtil.comparePriority);
 
         const list: {
             time: apid.UnixtimeMS;
@@ -1431,7 +2222,7 @@ class ReservationManageModel implements IReservationManageModel {
 
             // sort reserves
             reserves.sort((a, b) => {
-                return this.sortReserve(a.reserve, b.reserve);
+                return ReserveUtil.comparePriority(a.reserve, b.reserve);
             });
 
             this.log.system.debug('--------------------');
@@ -1464,6 +2255,10 @@ class ReservationManageModel implements IReservationManageModel {
                 // 重複したか？
                 if (isConflict) {
                     conflictResults[reserve.idx] = true;
+
+                    if (typeof displacingIds !== 'undefined') {
+                        this.addDisplacingIds(displacingIds, matches[reserve.idx]);
+                    }
                 }
             }
         }
@@ -1481,43 +2276,165 @@ class ReservationManageModel implements IReservationManageModel {
             }
         }
 
+        // パディングの計算
+        this.setAppliedPadding(newReserves);
+
         return newReserves.sort((a, b) => {
             return a.startAt - b.startAt;
         });
     }
 
     /**
-     * Reserve のソート用関数
-     * 時刻指定予約 > 手動予約 > ルール予約
-     * manualId が小さい > manualId が大きい > ruleId が小さい > ruleId が大きい の順で判定する
-     * @param a: Reserve
-     * @param b: Reserve
-     * @return number
+     * 競合した予約を受信可能なチューナーに割り当てられている予約のうち, 録画時間が重なる予約の id を追加する
+     * @param displacingIds: 競合した予約の id をキーとした競合の原因となった予約の id
+     * @param reserve: Reserve 競合した予約
      */
-    private sortReserve(a: Reserve, b: Reserve): number {
-        const aIsManual = a.ruleId === null;
-        const bIsManual = b.ruleId === null;
+    private addDisplacingIds(displacingIds: { [reserveId: number]: apid.ReserveId[] }, reserve: Reserve): void {
+        if (typeof displacingIds[reserve.id] === 'undefined') {
+            displacingIds[reserve.id] = [];
+        }
 
-        if (aIsManual && bIsManual) {
-            if (a.isTimeSpecified === b.isTimeSpecified) {
-                return a.updateTime - b.updateTime;
-            } else {
-                return a.isTimeSpecified && !b.isTimeSpecified ? -1 : 1;
+        const recStartAt = ReserveUtil.getRecStartAt(reserve);
+        const recEndAt = ReserveUtil.getRecEndAt(reserve);
+        for (const tuner of this.tuners) {
+            if (tuner.isSupportedChannelType(reserve.channelType) === false) {
+                continue;
+            }
+
+            for (const r of tuner.getReserves()) {
+                if (ReserveUtil.getRecStartAt(r) >= recEndAt || ReserveUtil.getRecEndAt(r) <= recStartAt) {
+                    continue;
+                }
+
+                if (displacingIds[reserve.id].indexOf(r.id) === -1) {
+                    displacingIds[reserve.id].push(r.id);
+                }
             }
         }
-        if (aIsManual && !bIsManual) {
-            return -1; // // 手動予約を優先
+    }
+
+    /**
+     * 予約に実際に適用するパディングをセットする
+     * 他のチャンネルの予約とチューナーが不足する場合はパディングを縮める
+     * @param reserves: Reserve[] 競合の評価済みの予約情報
+     */
+    private setAppliedPadding(reserves: Reserve[]): void {
+        // チューナーが割り当てられる予約のみパディングを適用する
+        const targets: Reserve[] = [];
+        for (const reserve of reserves) {
+            reserve.appliedStartPadding = 0;
+            reserve.appliedEndPadding = 0;
+            if (reserve.isSkip === false && reserve.isOverlap === false && reserve.isConflict === false) {
+                targets.push(reserve);
+            }
+        }
+
+        // 優先度の高い予約からパディングを割り当てる
+        const sorted = targets.slice().sort(ReserveUtil.comparePriority);
+        for (const reserve of sorted) {
+            // 時刻指定予約は config のマージンを使用する
+            if (reserve.programId === null) {
+                continue;
+            }
+
+            reserve.appliedStartPadding = this.calcPadding(reserve, targets, true);
+            reserve.appliedEndPadding = this.calcPadding(reserve, targets, false);
+        }
+    }
+
+    /**
+     * チューナーが不足しない範囲でのパディングを計算する
+     * @param reserve: Reserve パディングを計算する予約
+     * @param reserves: Reserve[] チューナーが割り当てられる予約
+     * @param isStart: boolean 開始側のパディングか
+     * @return number パディング (秒)
+     */
+    private calcPadding(reserve: Reserve, reserves: Reserve[], isStart: boolean): number {
+        const padding = isStart ? reserve.startPadding : reserve.endPadding;
+        if (padding <= 0) {
+            return 0;
         }
-        if (!aIsManual && bIsManual) {
-            return 1; // // 手動予約を優先
+
+        // パディングの候補 (指定された値と, パディングの範囲内で他の予約が終了 or 開始するまでの長さ)
+        const candidates = [padding];
+        for (const r of reserves) {
+            if (r === reserve) {
+                continue;
+            }
+
+            const length = isStart
+                ? Math.floor((reserve.startAt - ReserveUtil.getRecEndAt(r)) / 1000)
+                : Math.floor((ReserveUtil.getRecStartAt(r) - reserve.endAt) / 1000);
+            if (length >= 0 && length < padding) {
+                candidates.push(length);
+            }
         }
-        if (!aIsManual && !bIsManual && a.ruleId !== null && b.ruleId !== null) {
-            return a.ruleId - b.ruleId;
+        candidates.sort((a, b) => {
+            return b - a;
+        });
+
+        for (const candidate of candidates) {
+            if (candidate === 0) {
+                break;
+            }
+
+            const range: IReserveTimeOption = isStart
+                ? { startAt: reserve.startAt - candidate * 1000, endAt: reserve.startAt }
+                : { startAt: reserve.endAt, endAt: reserve.endAt + candidate * 1000 };
+            if (this.canAssignTuners(reserve, reserves, range)) {
+                return candidate;
+            }
         }
 
         return 0;
     }
 
+    /**
+     * 指定した時間帯に予約が重なっても全ての予約にチューナーを割り当てられるか
+     * 時間帯内で重なる予約は全て同時に録画するものとして扱う
+     * @param reserve: Reserve
+     * @param reserves: Reserve[] チューナーが割り当てられる予約
+     * @param range: IReserveTimeOption
+     * @return boolean
+     */
+    private canAssignTuners(reserve: Reserve, reserves: Reserve[], range: IReserveTimeOption): boolean {
+        const overlaps = reserves.filter(r => {
+            return (
+                r !== reserve &&
+                ReserveUtil.getRecStartAt(r) < range.endAt &&
+                ReserveUtil.getRecEndAt(r) > range.startAt
+            );
+        });
+        overlaps.push(reserve);
+        overlaps.sort(ReserveUtil.comparePriority);
+
+        for (const tuner of this.tuners) {
+            tuner.clear();
+        }
+
+        return overlaps.every(r => {
+            return this.tuners.some(tuner => {
+                return tuner.add(r);
+            });
+        });
+    }
+
+    /**
+     * パディングが影響する前後の予約を含めるように時間帯を広げる
+     * @param times: IReserveTimeOption[]
+     * @return IReserveTimeOption[]
+     */
+    private addPaddingRange(times: IReserveTimeOption[]): IReserveTimeOption[] {
+        const padding = ReserveUtil.MAX_PADDING * 1000;
+
+        return times.map(t => {
+            return {
+                startAt: t.startAt - padding,
+                endAt: t.endAt + padding,
+            };
+        });
+    }
+
     /**
      * 予約の ProgramId の重複検知するための key を生成する
      * @param re: reserve
@@ -1544,6 +2461,11 @@ namespace ReservationManageModel {
     export const REMOVE_SKIP_RESERVE_PRIORITY = 2;
     export const REMOVE_OVERLAP_RESERVE_PRIORITY = 2;
     export const EDIT_RESERVE_PRIORITY = 2;
+    export const RESOLVE_CONFLICT_PRIORITY = 0;
+    export const ADD_RERECORD_PRIORITY = 1;
+    export const PROGRAM_ID_NETWORK_DIGIT = 10000000000; // program id の network id の桁
+    export const PROGRAM_ID_EVENT_DIGIT = 100000; // program id の event id の桁
+    export const DRY_RUN_RULE_ID = Number.MAX_SAFE_INTEGER; // 保存されていないルールを dry run する際の仮の rule id
 }
 
 export default ReservationManageModel;
@@ -12,6 +12,8 @@ export default class Tuner {
 
     /**
      * 予約情報を追加
+     * 同じチャンネルの予約は 1 つのチューナーを共有する
+     * (パディングにより前後の予約が重なる同一チャンネルの連続した予約も 1 つのチューナーとして数える)
      * @return boolean 予約情報が追加できなかった場合 false
      */
     public add(reserve: Reserve): boolean {
@@ -27,6 +29,23 @@ export default class Tuner {
         return false;
     }
 
+    /**
+     * 指定した放送波を受信できるか
+     * @param channelType: string
+     * @return boolean
+     */
+    public isSupportedChannelType(channelType: string): boolean {
+        return this.types.indexOf(<apid.ChannelType>channelType) !== -1;
+    }
+
+    /**
+     * 割り当てられている予約情報を返す
+     * @return Reserve[]
+     */
+    public getReserves(): Reserve[] {
+        return this.reserves;
+    }
+
     /**
      * 予約情報を全て削除
      */
@@ -5,6 +5,7 @@ export default interface IRuleManageModel {
     update(rule: apid.Rule): Promise<void>;
     enable(ruleId: apid.RuleId): Promise<void>;
     disable(ruleId: apid.RuleId): Promise<void>;
+    disableAfterLastEpisode(ruleId: apid.RuleId): Promise<boolean>;
     delete(ruleId: apid.RuleId): Promise<void>;
     deletes(ruleIds: apid.RuleId[]): Promise<apid.RuleId[]>;
 }
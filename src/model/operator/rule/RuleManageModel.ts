@@ -155,6 +155,28 @@ export default class RuleManageModel implements IRuleManageModel {
         this.ruleEvent.emitDisabled(ruleId);
     }
 
+    /**
+     * シリーズ最終話の録画完了によるルール無効化
+     * ルールに disableAfterLastEpisode が設定されている場合のみ無効化する
+     * @param ruleId: rule id
+     * @return Promise<boolean> 無効化した場合 true を返す
+     */
+    public async disableAfterLastEpisode(ruleId: apid.RuleId): Promise<boolean> {
+        const rule = await this.ruleDB.findId(ruleId);
+        if (
+            rule === null ||
+            rule.reserveOption.enable === false ||
+            !!rule.reserveOption.disableAfterLastEpisode === false
+        ) {
+            return false;
+        }
+
+        this.log.system.info(`last episode recorded: ${ruleId}`);
+        await this.disable(ruleId);
+
+        return true;
+    }
+
     /**
      * ルール削除
      * @param ruleId: rule id
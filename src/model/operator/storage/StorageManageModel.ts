@@ -10,6 +10,7 @@ import IConfiguration from '../../IConfiguration';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
 import IRecordedManageModel from '../recorded/IRecordedManageModel';
+import IWebhookManageModel from '../webhook/IWebhookManageModel';
 import IStorageManageModel from './IStorageManageModel';
 
 @injectable()
@@ -18,6 +19,7 @@ export default class StorageManageModel implements IStorageManageModel {
     private config: IConfigFile;
     private recordedManage: IRecordedManageModel;
     private recordedDB: IRecordedDB;
+    private webhookManage: IWebhookManageModel;
 
     private isRunning: boolean = false;
     private timerId: NodeJS.Timeout | null = null;
@@ -27,11 +29,13 @@ export default class StorageManageModel implements IStorageManageModel {
         @inject('IConfiguration') configuration: IConfiguration,
         @inject('IRecordedManageModel') recordedManage: IRecordedManageModel,
         @inject('IRecordedDB') recordedDB: IRecordedDB,
+        @inject('IWebhookManageModel') webhookManage: IWebhookManageModel,
     ) {
         this.log = logger.getLogger();
         this.config = configuration.getConfig();
         this.recordedManage = recordedManage;
         this.recordedDB = recordedDB;
+        this.webhookManage = webhookManage;
     }
 
     /**
@@ -90,6 +94,14 @@ export default class StorageManageModel implements IStorageManageModel {
                 continue;
             }
 
+            this.webhookManage.addStorageLimit({
+                name: l.name,
+                path: l.path,
+                free: free,
+                limitThreshold: l.limitThreshold,
+                action: l.action === 'remove' ? 'remove' : 'none',
+            });
+
             if (typeof l.limitCmd !== 'undefined') {
                 // run cmd
                 this.log.system.info(`run storage limit cmd: ${l.limitCmd}`);
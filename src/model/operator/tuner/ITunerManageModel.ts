@@ -0,0 +1,4 @@
+export default interface ITunerManageModel {
+    start(): Promise<void>;
+    stop(): void;
+}
@@ -0,0 +1,122 @@
+import { inject, injectable } from 'inversify';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import IMirakurunClientModel, { ServerTunerDevice } from '../../IMirakurunClientModel';
+import IRecordingManageModel from '../recording/IRecordingManageModel';
+import IReservationManageModel from '../reservation/IReservationManageModel';
+import ITunerManageModel from './ITunerManageModel';
+
+/**
+ * 全てのチューナーサーバのチューナー情報を管理する
+ * 定期的にチューナーサーバへ問い合わせ, チューナー構成が変化した場合は予約と録画のチューナー情報を更新する
+ */
+@injectable()
+class TunerManageModel implements ITunerManageModel {
+    private log: ILogger;
+    private mirakurunClientModel: IMirakurunClientModel;
+    private reservationManage: IReservationManageModel;
+    private recordingManage: IRecordingManageModel;
+
+    private tunersKey: string | null = null;
+    private isRunning: boolean = false;
+    private timerId: NodeJS.Timeout | null = null;
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IMirakurunClientModel') mirakurunClientModel: IMirakurunClientModel,
+        @inject('IReservationManageModel') reservationManage: IReservationManageModel,
+        @inject('IRecordingManageModel') recordingManage: IRecordingManageModel,
+    ) {
+        this.log = logger.getLogger();
+        this.mirakurunClientModel = mirakurunClientModel;
+        this.reservationManage = reservationManage;
+        this.recordingManage = recordingManage;
+    }
+
+    /**
+     * チューナー情報を取得して定期的な再取得を開始する
+     * 初回はプライマリサーバに接続できなかった場合にエラーとなる
+     * @return Promise<void>
+     */
+    public async start(): Promise<void> {
+        const tuners = await this.mirakurunClientModel.getTuners();
+        this.setTuners(tuners);
+
+        if (this.timerId !== null) {
+            return;
+        }
+
+        this.timerId = setInterval(async () => {
+            await this.check().catch(err => {
+                this.log.system.error('tuner check error');
+                this.log.system.error(err);
+            });
+        }, TunerManageModel.CHECK_INTERVAL_TIME);
+    }
+
+    /**
+     * 定期的な再取得を停止する
+     */
+    public stop(): void {
+        if (this.timerId !== null) {
+            clearInterval(this.timerId);
+            this.timerId = null;
+        }
+    }
+
+    /**
+     * チューナー情報を再取得し, 構成が変化していれば予約を更新する
+     * 接続できなくなったサーバのチューナーは除外され, 復帰したサーバのチューナーは再び使用される
+     * @return Promise<void>
+     */
+    private async check(): Promise<void> {
+        if (this.isRunning === true) {
+            return;
+        }
+        this.isRunning = true;
+
+        try {
+            const tuners = await this.mirakurunClientModel.getTuners();
+            if (this.createTunersKey(tuners) === this.tunersKey) {
+                return;
+            }
+
+            this.log.system.info('tuner configuration is changed');
+            this.setTuners(tuners);
+
+            // チューナー数の変化に合わせて競合状態を再計算する
+            await this.reservationManage.updateAll();
+        } finally {
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * 予約と録画のチューナー情報を更新する
+     * @param tuners: ServerTunerDevice[]
+     */
+    private setTuners(tuners: ServerTunerDevice[]): void {
+        this.tunersKey = this.createTunersKey(tuners);
+        this.reservationManage.setTuners(tuners);
+        this.recordingManage.setTuner(tuners);
+    }
+
+    /**
+     * チューナー構成の比較用文字列を生成する
+     * @param tuners: ServerTunerDevice[]
+     * @return string
+     */
+    private createTunersKey(tuners: ServerTunerDevice[]): string {
+        return tuners
+            .map(tuner => {
+                return `${tuner.serverId}:${tuner.index}:${tuner.name}:${tuner.types.join(',')}`;
+            })
+            .join('|');
+    }
+}
+
+namespace TunerManageModel {
+    export const CHECK_INTERVAL_TIME = 5 * 60 * 1000;
+}
+
+export default TunerManageModel;
@@ -0,0 +1,24 @@
+import * as apid from '../../../../api';
+
+export namespace UserManageErrors {
+    export const NOT_FOUND = 'UserIsNotFound';
+    export const DUPLICATE_NAME = 'UserNameIsDuplicated';
+    export const LOGIN_FAILED = 'LoginFailed';
+    export const PASSWORD_MISMATCH = 'PasswordIsMismatched';
+    export const TOKEN_NOT_FOUND = 'TokenIsNotFound';
+    export const LAST_ADMIN = 'LastAdminUser';
+}
+
+export default interface IUserManageModel {
+    add(option: apid.AddUserOption): Promise<apid.UserId>;
+    updatePassword(userId: apid.UserId, password: string): Promise<void>;
+    changePassword(userId: apid.UserId, option: apid.ChangePasswordOption): Promise<void>;
+    updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void>;
+    delete(userId: apid.UserId): Promise<void>;
+    login(option: apid.LoginOption): Promise<apid.LoginResult>;
+    logout(tokenId: apid.UserTokenId): Promise<void>;
+    addApiToken(userId: apid.UserId, option: apid.AddApiTokenOption): Promise<apid.AddedApiToken>;
+    deleteApiToken(userId: apid.UserId, tokenId: apid.UserTokenId): Promise<void>;
+    addStreamToken(userId: apid.UserId, option: apid.AddStreamTokenOption): Promise<apid.StreamToken>;
+    cleanupExpiredTokens(): Promise<void>;
+}
@@ -0,0 +1,291 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import User from '../../../db/entities/User';
+import UserToken from '../../../db/entities/UserToken';
+import AuthUtil from '../../../util/AuthUtil';
+import IUserDB, { UserDBErrors } from '../../db/IUserDB';
+import IUserTokenDB from '../../db/IUserTokenDB';
+import IConfigFile from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import IUserManageModel, { UserManageErrors } from './IUserManageModel';
+
+@injectable()
+export default class UserManageModel implements IUserManageModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private userDB: IUserDB;
+    private userTokenDB: IUserTokenDB;
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IUserDB') userDB: IUserDB,
+        @inject('IUserTokenDB') userTokenDB: IUserTokenDB,
+    ) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+        this.userDB = userDB;
+        this.userTokenDB = userTokenDB;
+    }
+
+    /**
+     * ユーザー追加
+     * @param option: apid.AddUserOption
+     * @return Promise<apid.UserId>
+     */
+    public async add(option: apid.AddUserOption): Promise<apid.UserId> {
+        if ((await this.userDB.findName(option.name)) !== null) {
+            this.log.system.error(`user name is duplicated: ${option.name}`);
+            throw new Error(UserManageErrors.DUPLICATE_NAME);
+        }
+
+        const user = new User();
+        user.name = option.name;
+        user.passwordHash = await AuthUtil.hashPassword(option.password);
+        user.role = option.role;
+        user.createdAt = new Date().getTime();
+
+        const userId = await this.userDB.insertOnce(user).catch(err => {
+            // 同時に同名のユーザーが追加された場合は DB の一意制約で検出される
+            if (err.message === UserDBErrors.DUPLICATE_NAME) {
+                this.log.system.error(`user name is duplicated: ${option.name}`);
+                throw new Error(UserManageErrors.DUPLICATE_NAME);
+            }
+
+            this.log.system.error(`add user error: ${option.name}`);
+            throw err;
+        });
+        this.log.system.info(`add user name: ${option.name} id: ${userId} role: ${option.role}`);
+
+        return userId;
+    }
+
+    /**
+     * パスワード更新
+     * 更新したユーザーのログイントークンは全て無効になる
+     * @param userId: apid.UserId
+     * @param password: string
+     * @return Promise<void>
+     */
+    public async updatePassword(userId: apid.UserId, password: string): Promise<void> {
+        if ((await this.userDB.findId(userId)) === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        await this.userDB.updatePasswordHash(userId, await AuthUtil.hashPassword(password));
+        await this.userTokenDB.deleteUserId(userId, 'session');
+        await this.userTokenDB.deleteUserId(userId, 'stream');
+        this.log.system.info(`update user password userId: ${userId}`);
+    }
+
+    /**
+     * ログイン中のユーザー自身によるパスワード変更
+     * 現在のパスワードが一致しない場合は変更しない
+     * @param userId: apid.UserId
+     * @param option: apid.ChangePasswordOption
+     * @return Promise<void>
+     */
+    public async changePassword(userId: apid.UserId, option: apid.ChangePasswordOption): Promise<void> {
+        const user = await this.userDB.findId(userId);
+        if (user === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        if ((await AuthUtil.verifyPassword(option.currentPassword, user.passwordHash)) === false) {
+            this.log.access.warn(`change password failed: ${user.name}`);
+            throw new Error(UserManageErrors.PASSWORD_MISMATCH);
+        }
+
+        await this.updatePassword(userId, option.password);
+    }
+
+    /**
+     * 権限更新
+     * @param userId: apid.UserId
+     * @param role: apid.UserRole
+     * @return Promise<void>
+     */
+    public async updateRole(userId: apid.UserId, role: apid.UserRole): Promise<void> {
+        const user = await this.userDB.findId(userId);
+        if (user === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        if (role !== 'admin') {
+            await this.checkLastAdmin(user);
+        }
+
+        await this.userDB.updateRole(userId, role);
+        this.log.system.info(`update user role userId: ${userId} role: ${role}`);
+    }
+
+    /**
+     * ユーザー削除
+     * 削除したユーザーのトークンも全て削除する
+     * @param userId: apid.UserId
+     * @return Promise<void>
+     */
+    public async delete(userId: apid.UserId): Promise<void> {
+        const user = await this.userDB.findId(userId);
+        if (user === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        await this.checkLastAdmin(user);
+
+        await this.userTokenDB.deleteUserId(userId);
+        await this.userDB.deleteOnce(userId);
+        this.log.system.info(`delete user userId: ${userId}`);
+    }
+
+    /**
+     * 管理者が 1 人もいなくなる操作でないかチェックする
+     * @param user: User 権限変更 or 削除対象のユーザー
+     * @return Promise<void>
+     */
+    private async checkLastAdmin(user: User): Promise<void> {
+        if (user.role !== 'admin') {
+            return;
+        }
+
+        const admins = (await this.userDB.findAll()).filter(u => {
+            return u.role === 'admin';
+        });
+        if (admins.length <= 1) {
+            this.log.system.error(`last admin user cannot be changed: ${user.name}`);
+            throw new Error(UserManageErrors.LAST_ADMIN);
+        }
+    }
+
+    /**
+     * ログイン
+     * ユーザー名とパスワードを検証してログイントークンを発行する
+     * @param option: apid.LoginOption
+     * @return Promise<apid.LoginResult>
+     */
+    public async login(option: apid.LoginOption): Promise<apid.LoginResult> {
+        const user = await this.userDB.findName(option.name);
+        if (user === null || (await AuthUtil.verifyPassword(option.password, user.passwordHash)) === false) {
+            this.log.access.warn(`login failed: ${option.name}`);
+            throw new Error(UserManageErrors.LOGIN_FAILED);
+        }
+
+        const now = new Date().getTime();
+        const token = AuthUtil.createToken();
+        const userToken = new UserToken();
+        userToken.userId = user.id;
+        userToken.tokenHash = AuthUtil.hashToken(token);
+        userToken.type = 'session';
+        userToken.name = null;
+        userToken.createdAt = now;
+        userToken.expiresAt = now + this.config.loginTokenExpirationDays * 24 * 60 * 60 * 1000;
+        await this.userTokenDB.insertOnce(userToken);
+        this.log.access.info(`login: ${user.name}`);
+
+        return {
+            token: token,
+            expiresAt: userToken.expiresAt,
+            user: {
+                id: user.id,
+                name: user.name,
+                role: <apid.UserRole>user.role,
+            },
+        };
+    }
+
+    /**
+     * ログアウト
+     * @param tokenId: apid.UserTokenId
+     * @return Promise<void>
+     */
+    public async logout(tokenId: apid.UserTokenId): Promise<void> {
+        await this.userTokenDB.deleteOnce(tokenId);
+    }
+
+    /**
+     * API トークン発行
+     * @param userId: apid.UserId
+     * @param option: apid.AddApiTokenOption
+     * @return Promise<apid.AddedApiToken>
+     */
+    public async addApiToken(userId: apid.UserId, option: apid.AddApiTokenOption): Promise<apid.AddedApiToken> {
+        if ((await this.userDB.findId(userId)) === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        const token = AuthUtil.createToken();
+        const userToken = new UserToken();
+        userToken.userId = userId;
+        userToken.tokenHash = AuthUtil.hashToken(token);
+        userToken.type = 'api';
+        userToken.name = option.name;
+        userToken.createdAt = new Date().getTime();
+        userToken.expiresAt = typeof option.expiresAt === 'undefined' ? null : option.expiresAt;
+
+        const tokenId = await this.userTokenDB.insertOnce(userToken);
+        this.log.system.info(`add api token userId: ${userId} tokenId: ${tokenId}`);
+
+        return {
+            tokenId: tokenId,
+            token: token,
+        };
+    }
+
+    /**
+     * API トークン削除
+     * @param userId: apid.UserId トークンの所有者
+     * @param tokenId: apid.UserTokenId
+     * @return Promise<void>
+     */
+    public async deleteApiToken(userId: apid.UserId, tokenId: apid.UserTokenId): Promise<void> {
+        const userToken = await this.userTokenDB.findId(tokenId);
+        if (userToken === null || userToken.userId !== userId || userToken.type !== 'api') {
+            throw new Error(UserManageErrors.TOKEN_NOT_FOUND);
+        }
+
+        await this.userTokenDB.deleteOnce(tokenId);
+        this.log.system.info(`delete api token userId: ${userId} tokenId: ${tokenId}`);
+    }
+
+    /**
+     * ストリーミング用トークン発行
+     * 動画プレイヤー等ヘッダーを付加できない url の query に付加するための有効期限付きのトークン
+     * @param userId: apid.UserId
+     * @param option: apid.AddStreamTokenOption
+     * @return Promise<apid.StreamToken>
+     */
+    public async addStreamToken(userId: apid.UserId, option: apid.AddStreamTokenOption): Promise<apid.StreamToken> {
+        if ((await this.userDB.findId(userId)) === null) {
+            throw new Error(UserManageErrors.NOT_FOUND);
+        }
+
+        const now = new Date().getTime();
+        const token = AuthUtil.createToken();
+        const userToken = new UserToken();
+        userToken.userId = userId;
+        userToken.tokenHash = AuthUtil.hashToken(token);
+        userToken.type = 'stream';
+        userToken.name = null;
+        userToken.createdAt = now;
+        userToken.expiresAt =
+            typeof option.expiresAt === 'undefined'
+                ? now + this.config.streamTokenExpirationHours * 60 * 60 * 1000
+                : option.expiresAt;
+        await this.userTokenDB.insertOnce(userToken);
+
+        return {
+            token: token,
+            expiresAt: userToken.expiresAt,
+        };
+    }
+
+    /**
+     * 有効期限切れのトークンを削除する
+     * @return Promise<void>
+     */
+    public async cleanupExpiredTokens(): Promise<void> {
+        await this.userTokenDB.deleteExpired(new Date().getTime());
+    }
+}
@@ -0,0 +1,32 @@
+import * as apid from '../../../../api';
+import Recorded from '../../../db/entities/Recorded';
+import Reserve from '../../../db/entities/Reserve';
+import { OperatorErrorEncodeInfo, OperatorFinishEncodeInfo } from '../../event/IOperatorEncodeEvent';
+import { IReserveUpdateValues } from '../../event/IReserveEvent';
+
+/**
+ * ストレージ空き容量不足情報
+ */
+export interface StorageLimitInfo {
+    name: string; // 録画ディレクトリ名
+    path: string;
+    free: number; // 空き容量 (MB)
+    limitThreshold: number; // 空き容量限界閾値 (MB)
+    action: 'remove' | 'none';
+}
+
+export default interface IWebhookManageModel {
+    addUpdateReseves(diff: IReserveUpdateValues): void;
+    addRecordingPrepStart(reserve: Reserve): void;
+    addRecordingPrepRecFailed(reserve: Reserve): void;
+    addRecordingStart(reserve: Reserve, recorded: Recorded): void;
+    addRecordingFinish(reserve: Reserve, recorded: Recorded): void;
+    addRecordingFailed(reserve: Reserve, recorded: Recorded | null): void;
+    addRecordingDropThreshold(reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts): void;
+    addEncodingFinish(info: OperatorFinishEncodeInfo): void;
+    addEncodingError(info: OperatorErrorEncodeInfo): void;
+    addEPGUpdated(): void;
+    addStorageLimit(info: StorageLimitInfo): void;
+    cleanupDeliveries(): Promise<void>;
+    restoreDeliveries(): Promise<void>;
+}
@@ -0,0 +1,442 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import Recorded from '../../../db/entities/Recorded';
+import Reserve from '../../../db/entities/Reserve';
+import WebhookDelivery from '../../../db/entities/WebhookDelivery';
+import IRecordedDB from '../../db/IRecordedDB';
+import IWebhookDeliveryDB from '../../db/IWebhookDeliveryDB';
+import { OperatorErrorEncodeInfo, OperatorFinishEncodeInfo } from '../../event/IOperatorEncodeEvent';
+import { IReserveUpdateValues } from '../../event/IReserveEvent';
+import IConfigFile, { WebhookConfig, WebhookEventType } from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import IWebhookManageModel, { StorageLimitInfo } from './IWebhookManageModel';
+
+@injectable()
+class WebhookManageModel implements IWebhookManageModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private recordedDB: IRecordedDB;
+    private webhookDeliveryDB: IWebhookDeliveryDB;
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IRecordedDB') recordedDB: IRecordedDB,
+        @inject('IWebhookDeliveryDB') webhookDeliveryDB: IWebhookDeliveryDB,
+    ) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+        this.recordedDB = recordedDB;
+        this.webhookDeliveryDB = webhookDeliveryDB;
+    }
+
+    /**
+     * 予約情報更新時の webhook を送信する
+     * @param diff: IReserveUpdateValues
+     */
+    public addUpdateReseves(diff: IReserveUpdateValues): void {
+        if (typeof diff.insert !== 'undefined') {
+            for (const r of diff.insert) {
+                this.add('reserve.add', { reserve: r });
+            }
+        }
+
+        if (typeof diff.update !== 'undefined') {
+            for (const r of diff.update) {
+                this.add('reserve.update', { reserve: r });
+            }
+        }
+
+        if (typeof diff.delete !== 'undefined') {
+            for (const r of diff.delete) {
+                this.add('reserve.delete', { reserve: r });
+            }
+        }
+    }
+
+    /**
+     * 録画準備開始時の webhook を送信する
+     * @param reserve: Reserve
+     */
+    public addRecordingPrepStart(reserve: Reserve): void {
+        this.add('recording.prepStart', { reserve: reserve });
+    }
+
+    /**
+     * 録画準備失敗時の webhook を送信する
+     * @param reserve: Reserve
+     */
+    public addRecordingPrepRecFailed(reserve: Reserve): void {
+        this.add('recording.prepFailed', { reserve: reserve });
+    }
+
+    /**
+     * 録画開始時の webhook を送信する
+     * @param reserve: Reserve
+     * @param recorded: Recorded
+     */
+    public addRecordingStart(reserve: Reserve, recorded: Recorded): void {
+        this.add('recording.start', { reserve: reserve, recorded: recorded });
+    }
+
+    /**
+     * 録画終了時の webhook を送信する
+     * @param reserve: Reserve
+     * @param recorded: Recorded
+     */
+    public addRecordingFinish(reserve: Reserve, recorded: Recorded): void {
+        this.add('recording.finish', { reserve: reserve, recorded: recorded });
+    }
+
+    /**
+     * 録画中にエラー発生時の webhook を送信する
+     * @param reserve: Reserve
+     * @param recorded: Recorded | null 録画開始前に失敗した場合は null
+     */
+    public addRecordingFailed(reserve: Reserve, recorded: Recorded | null): void {
+        this.add('recording.failed', { reserve: reserve, recorded: recorded });
+    }
+
+    /**
+     * 録画中の受信エラーが閾値を超えた時の webhook を送信する
+     * @param reserve: Reserve
+     * @param recorded: Recorded
+     * @param dropCnts: apid.RecordingDropCnts
+     */
+    public addRecordingDropThreshold(reserve: Reserve, recorded: Recorded, dropCnts: apid.RecordingDropCnts): void {
+        this.add('recording.dropThreshold', { reserve: reserve, recorded: recorded, dropCnts: dropCnts });
+    }
+
+    /**
+     * エンコード終了時の webhook を送信する
+     * @param info: OperatorFinishEncodeInfo
+     */
+    public addEncodingFinish(info: OperatorFinishEncodeInfo): void {
+        if (this.hasWebhook('encode.finish') === false) {
+            return;
+        }
+
+        this.findRecorded(info.recordedId).then(recorded => {
+            this.add('encode.finish', { encode: info, recorded: recorded });
+        });
+    }
+
+    /**
+     * エンコード失敗時の webhook を送信する
+     * @param info: OperatorErrorEncodeInfo
+     */
+    public addEncodingError(info: OperatorErrorEncodeInfo): void {
+        if (this.hasWebhook('encode.error') === false) {
+            return;
+        }
+
+        this.findRecorded(info.recordedId).then(recorded => {
+            this.add('encode.error', { encode: info, recorded: recorded });
+        });
+    }
+
+    /**
+     * EPG 更新完了時の webhook を送信する
+     */
+    public addEPGUpdated(): void {
+        this.add('epg.updated', {});
+    }
+
+    /**
+     * ストレージ空き容量不足時の webhook を送信する
+     * @param info: StorageLimitInfo
+     */
+    public addStorageLimit(info: StorageLimitInfo): void {
+        this.add('storage.limit', { storage: info });
+    }
+
+    /**
+     * 保存期間を過ぎた送信ログを削除する
+     * @return Promise<void>
+     */
+    public async cleanupDeliveries(): Promise<void> {
+        const time = new Date().getTime() - this.config.webhookDeliveryLogRetentionDays * 24 * 60 * 60 * 1000;
+        await this.webhookDeliveryDB.deleteOld(time);
+    }
+
+    /**
+     * 再起動により中断された送信を再開する
+     * 再送予定時刻を過ぎているものは直ちに送信し, 送信先の設定が削除されているものは失敗とする
+     * @return Promise<void>
+     */
+    public async restoreDeliveries(): Promise<void> {
+        let deliveries: WebhookDelivery[];
+        try {
+            deliveries = await this.webhookDeliveryDB.findUnfinished();
+        } catch (err: any) {
+            this.log.system.error('failed to find unfinished webhook deliveries');
+            this.log.system.error(err);
+
+            return;
+        }
+
+        const now = new Date().getTime();
+        for (const delivery of deliveries) {
+            const event = <WebhookEventType>delivery.event;
+            const webhook = this.getWebhooks(event).find(w => {
+                return w.url === delivery.url;
+            });
+
+            if (typeof webhook === 'undefined') {
+                this.log.system.warn(`webhook is not configured: ${event} ${delivery.url}`);
+                await this.webhookDeliveryDB
+                    .updateOnce(delivery.id, {
+                        state: 'failed',
+                        attempts: delivery.attempts,
+                        statusCode: delivery.statusCode,
+                        errorMessage: 'webhook is not configured',
+                        nextRetryAt: null,
+                        updatedAt: now,
+                    })
+                    .catch(err => {
+                        this.log.system.error(`failed to update webhook delivery: ${delivery.id}`);
+                        this.log.system.error(err);
+                    });
+                continue;
+            }
+
+            const delay = delivery.nextRetryAt === null ? 0 : Math.max(delivery.nextRetryAt - now, 0);
+            this.log.system.info(`restore webhook delivery after ${delay}ms: ${event} ${delivery.url}`);
+            this.scheduleDeliver(webhook, delivery.id, event, delivery.payload, delivery.attempts + 1, delay);
+        }
+    }
+
+    /**
+     * 指定したイベントを送信する webhook が存在するか
+     * @param event: WebhookEventType
+     * @return boolean
+     */
+    private hasWebhook(event: WebhookEventType): boolean {
+        return this.getWebhooks(event).length > 0;
+    }
+
+    /**
+     * 指定したイベントを送信する webhook 一覧を返す
+     * @param event: WebhookEventType
+     * @return WebhookConfig[]
+     */
+    private getWebhooks(event: WebhookEventType): WebhookConfig[] {
+        if (typeof this.config.webhooks === 'undefined') {
+            return [];
+        }
+
+        return this.config.webhooks.filter(w => {
+            return typeof w.events === 'undefined' || w.events.includes(event);
+        });
+    }
+
+    /**
+     * 録画情報を取得する
+     * @param recordedId: apid.RecordedId
+     * @return Promise<Recorded | null> 取得できなかった場合は null
+     */
+    private async findRecorded(recordedId: apid.RecordedId): Promise<Recorded | null> {
+        try {
+            return await this.recordedDB.findId(recordedId);
+        } catch (err: any) {
+            this.log.system.error(`failed to find recorded: ${recordedId}`);
+            this.log.system.error(err);
+
+            return null;
+        }
+    }
+
+    /**
+     * event を送信対象の全ての webhook へ送信する
+     * @param event: WebhookEventType
+     * @param data: { [key: string]: any } payload に含めるデータ
+     */
+    private add(event: WebhookEventType, data: { [key: string]: any }): void {
+        const webhooks = this.getWebhooks(event);
+        if (webhooks.length === 0) {
+            return;
+        }
+
+        const payload = JSON.stringify({
+            event: event,
+            timestamp: new Date().getTime(),
+            data: data,
+        });
+
+        for (const webhook of webhooks) {
+            this.createDelivery(webhook, event, payload).catch(err => {
+                this.log.system.error(`failed to create webhook delivery: ${event} ${webhook.url}`);
+                this.log.system.error(err);
+            });
+        }
+    }
+
+    /**
+     * 送信ログを作成して送信する
+     * @param webhook: WebhookConfig
+     * @param event: WebhookEventType
+     * @param payload: string
+     * @return Promise<void>
+     */
+    private async createDelivery(webhook: WebhookConfig, event: WebhookEventType, payload: string): Promise<void> {
+        const now = new Date().getTime();
+        const delivery = new WebhookDelivery();
+        delivery.url = webhook.url;
+        delivery.event = event;
+        delivery.payload = payload;
+        delivery.state = 'pending';
+        delivery.attempts = 0;
+        delivery.statusCode = null;
+        delivery.errorMessage = null;
+        delivery.nextRetryAt = null;
+        delivery.createdAt = now;
+        delivery.updatedAt = now;
+
+        const deliveryId = await this.webhookDeliveryDB.insertOnce(delivery);
+
+        await this.deliver(webhook, deliveryId, event, payload, 1);
+    }
+
+    /**
+     * webhook を送信する
+     * 送信に失敗した場合は間隔を倍にしながら maxRetry 回までリトライする
+     * @param webhook: WebhookConfig
+     * @param deliveryId: apid.WebhookDeliveryId
+     * @param event: WebhookEventType
+     * @param payload: string
+     * @param attempts: number 何回目の送信か
+     * @return Promise<void>
+     */
+    private async deliver(
+        webhook: WebhookConfig,
+        deliveryId: apid.WebhookDeliveryId,
+        event: WebhookEventType,
+        payload: string,
+        attempts: number,
+    ): Promise<void> {
+        let statusCode: number | null = null;
+        let errorMessage: string | null = null;
+        let isRetryable = true;
+        try {
+            const result = await axios.post(webhook.url, payload, {
+                headers: this.createHeaders(webhook, deliveryId, event, payload),
+                timeout:
+                    (typeof webhook.timeout === 'undefined' ? WebhookManageModel.DEFAULT_TIMEOUT : webhook.timeout) *
+                    1000,
+                responseType: 'text',
+                validateStatus: () => true,
+            });
+            statusCode = result.status;
+            if (statusCode < 200 || statusCode >= 300) {
+                errorMessage = `unexpected status code: ${statusCode}`;
+                // 4xx はリクエストに問題があるためタイムアウトとレート制限以外はリトライしない
+                isRetryable = statusCode >= 500 || statusCode === 408 || statusCode === 429;
+            }
+        } catch (err: any) {
+            errorMessage = typeof err.message === 'string' ? err.message : String(err);
+        }
+
+        const maxRetry =
+            typeof webhook.maxRetry === 'undefined' ? WebhookManageModel.DEFAULT_MAX_RETRY : webhook.maxRetry;
+        const needsRetry = errorMessage !== null && isRetryable === true && attempts <= maxRetry;
+        const state: apid.WebhookDeliveryState =
+            errorMessage === null ? 'success' : needsRetry === true ? 'retrying' : 'failed';
+        const delay = WebhookManageModel.RETRY_BASE_INTERVAL * 2 ** (attempts - 1);
+        const now = new Date().getTime();
+
+        await this.webhookDeliveryDB
+            .updateOnce(deliveryId, {
+                state: state,
+                attempts: attempts,
+                statusCode: statusCode,
+                errorMessage: errorMessage,
+                nextRetryAt: needsRetry === true ? now + delay : null,
+                updatedAt: now,
+            })
+            .catch(err => {
+                this.log.system.error(`failed to update webhook delivery: ${deliveryId}`);
+                this.log.system.error(err);
+            });
+
+        if (errorMessage === null) {
+            this.log.system.info(`webhook delivered: ${event} ${webhook.url}`);
+
+            return;
+        }
+
+        if (needsRetry === false) {
+            this.log.system.error(`webhook delivery failed: ${event} ${webhook.url} ${errorMessage}`);
+
+            return;
+        }
+
+        this.log.system.warn(`webhook delivery retry after ${delay}ms: ${event} ${webhook.url} ${errorMessage}`);
+        this.scheduleDeliver(webhook, deliveryId, event, payload, attempts + 1, delay);
+    }
+
+    /**
+     * 指定した時間経過後に webhook を送信する
+     * @param webhook: WebhookConfig
+     * @param deliveryId: apid.WebhookDeliveryId
+     * @param event: WebhookEventType
+     * @param payload: string
+     * @param attempts: number 何回目の送信か
+     * @param delay: number 待機時間 (ms)
+     */
+    private scheduleDeliver(
+        webhook: WebhookConfig,
+        deliveryId: apid.WebhookDeliveryId,
+        event: WebhookEventType,
+        payload: string,
+        attempts: number,
+        delay: number,
+    ): void {
+        setTimeout(() => {
+            this.deliver(webhook, deliveryId, event, payload, attempts).catch(err => {
+                this.log.system.error(`webhook delivery error: ${event} ${webhook.url}`);
+                this.log.system.error(err);
+            });
+        }, delay);
+    }
+
+    /**
+     * リクエストヘッダーを生成する
+     * @param webhook: WebhookConfig
+     * @param deliveryId: apid.WebhookDeliveryId
+     * @param event: WebhookEventType
+     * @param payload: string
+     * @return { [name: string]: string }
+     */
+    private createHeaders(
+        webhook: WebhookConfig,
+        deliveryId: apid.WebhookDeliveryId,
+        event: WebhookEventType,
+        payload: string,
+    ): { [name: string]: string } {
+        const headers: { [name: string]: string } = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'EPGStation-Webhook',
+            'X-EPGStation-Event': event,
+            'X-EPGStation-Delivery': deliveryId.toString(10),
+        };
+
+        if (typeof webhook.secret !== 'undefined') {
+            const signature = crypto.createHmac('sha256', webhook.secret).update(payload).digest('hex');
+            headers['X-EPGStation-Signature'] = `sha256=${signature}`;
+        }
+
+        return headers;
+    }
+}
+
+namespace WebhookManageModel {
+    export const DEFAULT_MAX_RETRY = 3;
+    export const DEFAULT_TIMEOUT = 10; // 秒
+    export const RETRY_BASE_INTERVAL = 10 * 1000;
+}
+
+export default WebhookManageModel;
@@ -5,6 +5,8 @@ import ILoggerModel from '../ILoggerModel';
 import container from '../ModelContainer';
 import * as containerSetter from '../ModelContainerSetter';
 import IEncodeFinishModel from './encode/IEncodeFinishModel';
+import IEncodeManageModel from './encode/IEncodeManageModel';
+import IEncodeProcessManageModel from './encode/IEncodeProcessManageModel';
 import IServiceServer from './IServiceServer';
 install();
 
@@ -22,9 +24,34 @@ process.on('unhandledRejection', err => {
     log.system.fatal(`unhandledRejection: ${err}`);
 });
 
+// エンコードプロセスはプロセスグループを分けているため, 終了時に明示的に終了させる
+// 残したままだと再起動時に復元したエンコードと二重に実行される
+const encodeProcessManageModel = container.get<IEncodeProcessManageModel>('IEncodeProcessManageModel');
+process.on('exit', () => {
+    encodeProcessManageModel.killAll();
+});
+for (const signal of <NodeJS.Signals[]>['SIGINT', 'SIGTERM', 'SIGHUP']) {
+    process.on(signal, () => {
+        log.system.info(`receive ${signal}`);
+        process.exit(0);
+    });
+}
+// 親プロセスが終了した
+process.on('disconnect', () => {
+    log.system.fatal('operator process is down');
+    process.exit(1);
+});
+
 const encodeFinishModel = container.get<IEncodeFinishModel>('IEncodeFinishModel');
 encodeFinishModel.set();
 
+// 前回終了時に残っていたエンコードを復元する
+const encodeManageModel = container.get<IEncodeManageModel>('IEncodeManageModel');
+encodeManageModel.restore().catch(err => {
+    log.encode.error('restore encode queue error');
+    log.encode.error(err);
+});
+
 const serviceServer = container.get<IServiceServer>('IServiceServer');
 try {
     serviceServer.start();
@@ -1,6 +1,6 @@
 import * as bodyParser from 'body-parser';
 import cors from 'cors';
-import express, { NextFunction } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import * as openapi from 'express-openapi';
 import * as fs from 'fs';
 import * as http from 'http';
@@ -13,11 +13,15 @@ import multer from 'multer';
 import { OpenAPIV3 } from 'openapi-types';
 import * as path from 'path';
 import urljoin from 'url-join';
+import * as apid from '../../../api';
+import AuthUtil from '../../util/AuthUtil';
 import FileUtil from '../../util/FileUtil';
 import IConfigFile from '../IConfigFile';
 import IConfiguration from '../IConfiguration';
 import ILogger from '../ILogger';
 import ILoggerModel from '../ILoggerModel';
+import * as api from './api';
+import IAuthenticationModel from './auth/IAuthenticationModel';
 import IServiceServer from './IServiceServer';
 import ISocketIOManageModel from './socketio/ISocketIOManageModel';
 
@@ -29,6 +33,7 @@ class ServiceServer implements IServiceServer {
     private log: ILogger;
     private config: IConfigFile;
     private socketIoManageModel: ISocketIOManageModel;
+    private authenticationModel: IAuthenticationModel;
     private app = express();
 
     constructor(
@@ -36,10 +41,12 @@ class ServiceServer implements IServiceServer {
         @inject('IConfiguration') configuration: IConfiguration,
         @inject('ISocketIOManageModel')
         socketIoManageModel: ISocketIOManageModel,
+        @inject('IAuthenticationModel') authenticationModel: IAuthenticationModel,
     ) {
         this.log = logger.getLogger();
         this.config = configuration.getConfig();
         this.socketIoManageModel = socketIoManageModel;
+        this.authenticationModel = authenticationModel;
 
         this.init();
     }
@@ -102,13 +109,30 @@ class ServiceServer implements IServiceServer {
             consumesMiddleware: {
                 'application/json': bodyParser.json() as any,
                 'text/text': bodyParser.text() as any,
-                'multipart/form-data': (req, res, next) => {
+                'multipart/form-data': async (req, res, next) => {
+                    // security handler より先に実行されるためファイル保存前にここで認証する
+                    try {
+                        if ((await this.authorize(req as any, this.getBearerToken(req as any), false)) === false) {
+                            return next(ServiceServer.UNAUTHORIZED_ERROR);
+                        }
+                    } catch (err: any) {
+                        return next(err);
+                    }
+
                     this.uploadFile(req as any, res as any, next);
                 },
             },
+            securityHandlers: {
+                bearerAuth: req => {
+                    return this.authorize(req as any, this.getBearerToken(req as any), false);
+                },
+                queryToken: req => {
+                    return this.authorize(req as any, this.getQueryToken(req as any), true);
+                },
+            },
             errorMiddleware: (err, _req, res, _next) => {
                 this.log.system.error(err);
-                res.status(400);
+                res.status(typeof err.status === 'number' ? err.status : 400);
                 res.json(err);
             },
             errorTransformer: openApi => {
@@ -123,6 +147,179 @@ class ServiceServer implements IServiceServer {
         });
     }
 
+    /**
+     * Authorization ヘッダーからトークンを取り出す
+     * @param req: Request
+     * @return string | null
+     */
+    private getBearerToken(req: Request): string | null {
+        const authorization = req.header('authorization');
+        if (typeof authorization === 'undefined') {
+            return null;
+        }
+
+        const result = /^Bearer\s+(\S+)$/i.exec(authorization);
+
+        return result === null ? null : result[1];
+    }
+
+    /**
+     * query からトークンを取り出す
+     * @param req: Request
+     * @return string | null
+     */
+    private getQueryToken(req: Request): string | null {
+        return typeof req.query.token === 'string' ? req.query.token : null;
+    }
+
+    /**
+     * リクエストの認証を行う
+     * 成功した場合はリクエストに認証情報をセットする
+     * query のトークンはストリーミング用トークンのみ, ヘッダーのトークンはストリーミング用トークン以外のみ受け付ける
+     * @param req: Request
+     * @param token: string | null
+     * @param isQueryToken: boolean query から取り出したトークンか
+     * @return Promise<boolean> 認証が無効な場合は常に true を返す
+     */
+    private async authenticate(req: Request, token: string | null, isQueryToken: boolean): Promise<boolean> {
+        if (this.authenticationModel.isEnabled() === false) {
+            return true;
+        }
+
+        if (token === null) {
+            return false;
+        }
+
+        const authInfo = await this.authenticationModel.authenticate(token);
+        if (authInfo === null || (authInfo.tokenType === 'stream') !== isQueryToken) {
+            return false;
+        }
+
+        api.setAuthInfo(req, authInfo);
+
+        return true;
+    }
+
+    /**
+     * リクエストの認証と権限チェックを行う
+     * @param req: Request
+     * @param token: string | null
+     * @param isQueryToken: boolean query から取り出したトークンか
+     * @return Promise<boolean> 認証に失敗した場合は false を返す
+     * @throws ServiceServer.FORBIDDEN_ERROR 権限が不足している場合
+     */
+    private async authorize(req: Request, token: string | null, isQueryToken: boolean): Promise<boolean> {
+        if ((await this.authenticate(req, token, isQueryToken)) === false) {
+            return false;
+        }
+
+        const authInfo = api.getAuthInfo(req);
+        if (typeof authInfo === 'undefined') {
+            // 認証無効
+            return true;
+        }
+
+        const permission = this.getPermission(req);
+        if (AuthUtil.hasPermission(authInfo.role, permission) === false) {
+            this.log.access.warn(`permission denied: ${authInfo.userName} ${req.method} ${req.path}`);
+            throw ServiceServer.FORBIDDEN_ERROR;
+        }
+
+        return true;
+    }
+
+    /**
+     * Operation の apiDoc に記述された x-permission を返す
+     * 指定がない場合は admin 権限を要求する
+     * @param req: Request
+     * @return apid.UserRole
+     */
+    private getPermission(req: Request): apid.UserRole {
+        const operationDoc: api.ApiDoc | undefined = (<any>req).operationDoc;
+
+        return typeof operationDoc === 'undefined' || typeof operationDoc['x-permission'] === 'undefined'
+            ? 'admin'
+            : operationDoc['x-permission'];
+    }
+
+    /**
+     * open api 外のファイル配信用の認証 middleware
+     * @param req: Request
+     * @param res: Response
+     * @param next: NextFunction
+     */
+    private async authMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+        const bearerToken = this.getBearerToken(req);
+        const isQueryToken = bearerToken === null;
+        const token = isQueryToken ? this.getQueryToken(req) : bearerToken;
+        try {
+            if ((await this.authenticate(req, token, isQueryToken)) === true) {
+                next();
+
+                return;
+            }
+        } catch (err: any) {
+            this.log.access.error(err.message);
+        }
+
+        res.status(ServiceServer.UNAUTHORIZED_ERROR.status);
+        res.json(ServiceServer.UNAUTHORIZED_ERROR);
+    }
+
+    /**
+     * query のトークンで認証された HLS のプレイリストを返す
+     * セグメント等の url は相対パスで記述されておりトークンが引き継がれないため, 各 url にトークンを付加して返す
+     * @param req: Request
+     * @param res: Response
+     * @param next: NextFunction
+     */
+    private async sendHLSPlayList(req: Request, res: Response, next: NextFunction): Promise<void> {
+        const token = this.getQueryToken(req);
+        const fileName = path.basename(req.path);
+        if (token === null || path.extname(fileName) !== '.m3u8' || req.path !== `/${fileName}`) {
+            next();
+
+            return;
+        }
+
+        let playList: string;
+        try {
+            playList = await FileUtil.readFile(path.join(this.config.streamFilePath, fileName));
+        } catch (err: any) {
+            next();
+
+            return;
+        }
+
+        const tokenQuery = `token=${encodeURIComponent(token)}`;
+        const addToken = (url: string): string => {
+            return `${url}${url.includes('?') ? '&' : '?'}${tokenQuery}`;
+        };
+
+        res.status(200);
+        res.header('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+        res.setHeader('Content-Type', 'application/x-mpegURL; charset="UTF-8"');
+        res.end(
+            playList
+                .split('\n')
+                .map(line => {
+                    if (line.length === 0) {
+                        return line;
+                    }
+
+                    // #EXT-X-MAP:URI="init.mp4" 等
+                    if (line.startsWith('#')) {
+                        return line.replace(/URI="([^"]+)"/g, (_match, url) => {
+                            return `URI="${addToken(url)}"`;
+                        });
+                    }
+
+                    return addToken(line.trim());
+                })
+                .join('\n'),
+        );
+    }
+
     /**
      * mime 設定
      */
@@ -153,10 +350,25 @@ class ServiceServer implements IServiceServer {
         this.app.use(this.createUrl('/img'), express.static(path.join(__dirname, '..', '..', '..', 'img')));
 
         // thumbnail
-        this.app.use(this.createUrl('/thumbnail'), express.static(this.config.thumbnail));
+        this.app.use(
+            this.createUrl('/thumbnail'),
+            (req, res, next) => {
+                this.authMiddleware(req, res, next);
+            },
+            express.static(this.config.thumbnail),
+        );
 
         // streamFile
-        this.app.use(this.createUrl('/streamfiles'), express.static(this.config.streamFilePath));
+        this.app.use(
+            this.createUrl('/streamfiles'),
+            (req, res, next) => {
+                this.authMiddleware(req, res, next);
+            },
+            (req, res, next) => {
+                this.sendHLSPlayList(req, res, next);
+            },
+            express.static(this.config.streamFilePath),
+        );
 
         // client
         this.app.use(this.createUrl('/'), express.static(ServiceServer.CLIENT_DIR));
@@ -335,6 +547,14 @@ namespace ServiceServer {
     export const SWAGGER_UI_DIST = path.join(ServiceServer.ROOT_DIR, 'node_modules', 'swagger-ui-dist');
     export const API_DIR = path.join(__dirname, 'api');
     export const CLIENT_DIR = path.join(ROOT_DIR, 'client', 'dist');
+    export const UNAUTHORIZED_ERROR = {
+        status: 401,
+        message: 'Unauthorized',
+    };
+    export const FORBIDDEN_ERROR = {
+        status: 403,
+        message: 'Forbidden',
+    };
 }
 
 export default ServiceServer;
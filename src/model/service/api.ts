@@ -1,7 +1,16 @@
 import * as express from 'express';
 import * as fs from 'fs';
+import { OpenAPI } from 'openapi-types';
 import * as path from 'path';
+import * as apid from '../../../api';
 import IPlayList from '../api/IPlayList';
+import { AuthInfo } from './auth/IAuthenticationModel';
+
+/**
+ * 各 Operation の apiDoc
+ * x-permission には実行に必要な権限を指定する
+ */
+export type ApiDoc = OpenAPI.Operation<{ 'x-permission': apid.UserRole }>;
 
 export interface IError {
     readonly code: number;
@@ -177,3 +186,18 @@ export const isSecureProtocol = (req: express.Request): boolean => {
         req.protocol === 'https'
     );
 };
+
+/**
+ * リクエストに認証情報をセットする
+ */
+export const setAuthInfo = (req: express.Request, authInfo: AuthInfo): void => {
+    (<any>req).authInfo = authInfo;
+};
+
+/**
+ * リクエストの認証情報を返す
+ * 認証が無効な場合は undefined を返す
+ */
+export const getAuthInfo = (req: express.Request): AuthInfo | undefined => {
+    return (<any>req).authInfo;
+};
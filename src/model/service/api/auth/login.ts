@@ -0,0 +1,66 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import { UserManageErrors } from '../../../operator/user/IUserManageModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const post: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    try {
+        const result = await authApiModel.login(<apid.LoginOption>req.body);
+        api.responseJSON(res, 200, result);
+    } catch (err: any) {
+        if (err.message === UserManageErrors.LOGIN_FAILED) {
+            api.responseError(res, {
+                code: 401,
+                message: 'user name or password is incorrect',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+post.apiDoc = {
+    summary: 'ログイン',
+    tags: ['auth'],
+    description: 'ユーザー名とパスワードでログインしてトークンを取得する',
+    security: [],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/LoginOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'ログインに成功した',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/LoginResult',
+                    },
+                },
+            },
+        },
+        401: {
+            description: 'ユーザー名もしくはパスワードが正しくない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
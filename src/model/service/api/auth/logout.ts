@@ -0,0 +1,40 @@
+import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const post: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    try {
+        const authInfo = api.getAuthInfo(req);
+        if (typeof authInfo !== 'undefined') {
+            await authApiModel.logout(authInfo);
+        }
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ログアウト',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'リクエストに使用したトークンを無効にする',
+    responses: {
+        200: {
+            description: 'ログアウトした',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,43 @@
+import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const get: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    try {
+        api.responseJSON(res, 200, authApiModel.getCurrentUser(api.getAuthInfo(req)));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'ログイン中のユーザー情報取得',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'ログイン中のユーザー情報を取得する',
+    responses: {
+        200: {
+            description: 'ログイン中のユーザー情報を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/CurrentUserInfo',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
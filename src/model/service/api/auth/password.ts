@@ -0,0 +1,74 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import { UserManageErrors } from '../../../operator/user/IUserManageModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const put: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    const authInfo = api.getAuthInfo(req);
+    if (typeof authInfo === 'undefined') {
+        api.responseError(res, {
+            code: 400,
+            message: 'authentication is disabled',
+        });
+
+        return;
+    }
+
+    try {
+        await authApiModel.changePassword(authInfo.userId, <apid.ChangePasswordOption>req.body);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.PASSWORD_MISMATCH) {
+            api.responseError(res, {
+                code: 400,
+                message: 'current password is incorrect',
+            });
+        } else if (err.message === UserManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'User is not Found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'パスワード変更',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'ログイン中のユーザーのパスワードを変更する. 変更後はそのユーザーのログイントークンが全て無効になる',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/ChangePasswordOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'パスワードを変更しました',
+        },
+        400: {
+            description: '認証が無効, もしくは現在のパスワードが一致しない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
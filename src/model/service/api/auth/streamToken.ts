@@ -0,0 +1,66 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const post: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    const authInfo = api.getAuthInfo(req);
+    if (typeof authInfo === 'undefined') {
+        api.responseError(res, {
+            code: 400,
+            message: 'authentication is disabled',
+        });
+
+        return;
+    }
+
+    try {
+        const result = await authApiModel.addStreamToken(authInfo.userId, <apid.AddStreamTokenOption>req.body);
+        api.responseJSON(res, 201, result);
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ストリーミング用トークン発行',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description:
+        'ログイン中のユーザーのストリーミング用トークンを発行する。動画プレイヤー等ヘッダーを付加できない url の query に付加して使用する',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/AddStreamTokenOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        201: {
+            description: 'ストリーミング用トークンを発行した',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/StreamToken',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
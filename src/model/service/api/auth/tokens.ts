@@ -0,0 +1,114 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const get: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    const authInfo = api.getAuthInfo(req);
+    if (typeof authInfo === 'undefined') {
+        api.responseError(res, {
+            code: 400,
+            message: 'authentication is disabled',
+        });
+
+        return;
+    }
+
+    try {
+        api.responseJSON(res, 200, await authApiModel.getApiTokens(authInfo.userId));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'API トークン一覧取得',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'ログイン中のユーザーの API トークン一覧を取得する',
+    responses: {
+        200: {
+            description: 'API トークン一覧を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/ApiTokens',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
+
+export const post: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    const authInfo = api.getAuthInfo(req);
+    if (typeof authInfo === 'undefined') {
+        api.responseError(res, {
+            code: 400,
+            message: 'authentication is disabled',
+        });
+
+        return;
+    }
+
+    try {
+        const result = await authApiModel.addApiToken(authInfo.userId, <apid.AddApiTokenOption>req.body);
+        api.responseJSON(res, 201, result);
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'API トークン発行',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'ログイン中のユーザーの API トークンを発行する',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/AddApiTokenOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        201: {
+            description: 'API トークンを発行した',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/AddedApiToken',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,63 @@
+import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../../api/auth/IAuthApiModel';
+import { UserManageErrors } from '../../../../operator/user/IUserManageModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const del: Operation = async (req, res) => {
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
+
+    const authInfo = api.getAuthInfo(req);
+    if (typeof authInfo === 'undefined') {
+        api.responseError(res, {
+            code: 400,
+            message: 'authentication is disabled',
+        });
+
+        return;
+    }
+
+    try {
+        await authApiModel.deleteApiToken(authInfo.userId, parseInt(req.params.tokenId, 10));
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.TOKEN_NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'Token is not Found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+del.apiDoc = <api.ApiDoc>{
+    summary: 'API トークン削除',
+    tags: ['auth'],
+    'x-permission': 'viewer',
+    description: 'ログイン中のユーザーの API トークンを削除する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathUserTokenId',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'API トークンを削除しました',
+        },
+        404: {
+            description: '指定された id の API トークンがない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
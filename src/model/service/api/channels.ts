@@ -13,9 +13,10 @@ export const get: Operation = async (_req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '放送局情報取得',
     tags: ['channels'],
+    'x-permission': 'viewer',
     description: '放送局情報を取得する',
     responses: {
         200: {
@@ -23,9 +23,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '放送局ロゴ取得',
     tags: ['channels'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: '放送局のロゴを取得する',
     parameters: [
         {
@@ -13,9 +13,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'config 情報取得',
     tags: ['config'],
+    'x-permission': 'viewer',
     description: 'config 情報を取得する',
     responses: {
         200: {
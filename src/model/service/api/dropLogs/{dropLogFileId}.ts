@@ -32,9 +32,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ドロップログ',
     tags: ['dropLogs'],
+    'x-permission': 'viewer',
     description: 'ドロップログを取得する',
     parameters: [
         {
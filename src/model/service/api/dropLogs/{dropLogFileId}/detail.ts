@@ -0,0 +1,60 @@
+import { Operation } from 'express-openapi';
+import IDropLogApiModel from '../../../../api/dropLog/IDropLogApiModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const get: Operation = async (req, res) => {
+    const dropLogApiModel = container.get<IDropLogApiModel>('IDropLogApiModel');
+
+    try {
+        const detail = await dropLogApiModel.getIdDetail(parseInt(req.params.dropLogFileId, 10));
+
+        if (detail === null) {
+            api.responseError(res, {
+                code: 404,
+                message: 'drop log detail is not Found',
+            });
+        } else {
+            api.responseJSON(res, 200, detail);
+        }
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'ドロップログ詳細',
+    tags: ['dropLogs'],
+    'x-permission': 'viewer',
+    description: 'pid ごとのドロップ数と発生時刻を含むドロップログ詳細を取得する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathDropLogFileId',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'ドロップログ詳細を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/DropLogDetail',
+                    },
+                },
+            },
+        },
+        404: {
+            description: 'Not Found',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -13,9 +13,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'エンコード情報取得',
     tags: ['encode'],
+    'x-permission': 'viewer',
     description: 'エンコード情報を取得する',
     parameters: [
         {
@@ -58,9 +59,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'エンコード追加',
     tags: ['encode'],
+    'x-permission': 'reserver',
     description: 'エンコードを追加する',
     requestBody: {
         content: {
@@ -0,0 +1,37 @@
+import { Operation } from 'express-openapi';
+import IEncodeApiModel from '../../../api/encode/IEncodeApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const put: Operation = async (_req, res) => {
+    const encodeApiModel = container.get<IEncodeApiModel>('IEncodeApiModel');
+
+    try {
+        await encodeApiModel.pauseQueue();
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'エンコード queue 一時停止',
+    tags: ['encode'],
+    'x-permission': 'reserver',
+    description: '新たなエンコードの開始を止め、実行中のエンコードプロセスを一時停止する',
+    responses: {
+        200: {
+            description: 'エンコード queue を一時停止しました',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
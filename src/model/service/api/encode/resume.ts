@@ -0,0 +1,37 @@
+import { Operation } from 'express-openapi';
+import IEncodeApiModel from '../../../api/encode/IEncodeApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const put: Operation = async (_req, res) => {
+    const encodeApiModel = container.get<IEncodeApiModel>('IEncodeApiModel');
+
+    try {
+        await encodeApiModel.resumeQueue();
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'エンコード queue 再開',
+    tags: ['encode'],
+    'x-permission': 'reserver',
+    description: 'エンコード queue と一時停止中のエンコードプロセスを再開する',
+    responses: {
+        200: {
+            description: 'エンコード queue を再開しました',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -14,9 +14,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'エンコードをキャンセル',
     tags: ['encode'],
+    'x-permission': 'reserver',
     description: 'エンコードをキャンセルする',
     parameters: [
         {
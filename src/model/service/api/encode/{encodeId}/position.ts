@@ -0,0 +1,71 @@
+import { Operation } from 'express-openapi';
+import IEncodeApiModel from '../../../../api/encode/IEncodeApiModel';
+import { EncodeManageErrors } from '../../../../service/encode/IEncodeManageModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const put: Operation = async (req, res) => {
+    const encodeApiModel = container.get<IEncodeApiModel>('IEncodeApiModel');
+
+    try {
+        await encodeApiModel.move(parseInt(req.params.encodeId, 10), req.body);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === EncodeManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'Encode is not Found',
+            });
+        } else if (err.message === EncodeManageErrors.NOT_WAITING) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Encode is not waiting',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'エンコード待ち順序変更',
+    tags: ['encode'],
+    'x-permission': 'reserver',
+    description: 'エンコード待ちのエンコードを queue 内の指定した位置へ移動する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathEncodeId',
+        },
+    ],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/EncodeQueuePositionOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'エンコード待ち順序を変更しました',
+        },
+        404: {
+            description: '指定された id のエンコードがない',
+        },
+        409: {
+            description: '指定された id のエンコードはエンコード待ちではない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,61 @@
+import { Operation } from 'express-openapi';
+import IEncodeApiModel from '../../../../api/encode/IEncodeApiModel';
+import { EncodeManageErrors } from '../../../../service/encode/IEncodeManageModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const put: Operation = async (req, res) => {
+    const encodeApiModel = container.get<IEncodeApiModel>('IEncodeApiModel');
+
+    try {
+        await encodeApiModel.resume(parseInt(req.params.encodeId, 10));
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === EncodeManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'Encode is not Found',
+            });
+        } else if (err.message === EncodeManageErrors.NOT_RUNNING) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Encode is not running',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'エンコード再開',
+    tags: ['encode'],
+    'x-permission': 'reserver',
+    description: '一時停止中のエンコードプロセスを再開する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathEncodeId',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'エンコードを再開しました',
+        },
+        404: {
+            description: '指定された id のエンコードがない',
+        },
+        409: {
+            description: '指定された id のエンコードは実行中ではない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,44 @@
+import { Operation } from 'express-openapi';
+import ServerEventUtil from '../../../util/ServerEventUtil';
+import container from '../../ModelContainer';
+import ISSEManageModel from '../sse/ISSEManageModel';
+import * as api from '../api';
+
+export const get: Operation = async (req, res) => {
+    const sseManageModel = container.get<ISSEManageModel>('ISSEManageModel');
+
+    const categories = ServerEventUtil.parseCategories(req.query.categories);
+    sseManageModel.addClient(res, categories.length === 0 ? ServerEventUtil.CATEGORIES : categories);
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'イベントストリーム',
+    tags: ['events'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
+    description:
+        '予約, 録画, エンコード等の変更内容を Server-Sent Events で受信する。event にはイベントの種類, data には ServerEvent の JSON が格納される',
+    parameters: [
+        {
+            $ref: '#/components/parameters/QueryServerEventCategories',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'イベントストリーム',
+            content: {
+                'text/event-stream': {},
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
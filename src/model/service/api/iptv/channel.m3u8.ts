@@ -1,4 +1,5 @@
 import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../api/auth/IAuthApiModel';
 import IIPTVApiModel from '../../../api/iptv/IIPTVApiModel';
 import IConfiguration from '../../../IConfiguration';
 import container from '../../../ModelContainer';
@@ -6,6 +7,7 @@ import * as api from '../../api';
 
 export const get: Operation = async (req, res) => {
     const iptvApiModel = container.get<IIPTVApiModel>('IIPTVApiModel');
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
     const configuration = container.get<IConfiguration>('IConfiguration');
 
     try {
@@ -19,6 +21,7 @@ export const get: Operation = async (req, res) => {
             parseInt(req.query.mode as any, 10),
             req.query.isHalfWidth as any,
             configuration.getConfig().subDirectory,
+            await authApiModel.getStreamToken(api.getAuthInfo(req)),
         );
         res.setHeader('Content-Type', 'application/x-mpegURL; charset="UTF-8"');
         res.status(200);
@@ -28,9 +31,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'IPTV channel list を取得',
     tags: ['iptv'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'IPTV channel list を取得する',
     parameters: [
         {
@@ -16,9 +16,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'IPTV epg を取得',
     tags: ['iptv'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'IPTV epg を取得する',
     parameters: [
         {
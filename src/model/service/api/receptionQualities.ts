@@ -0,0 +1,59 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../api';
+import IReceptionQualityApiModel from '../../api/receptionQuality/IReceptionQualityApiModel';
+import container from '../../ModelContainer';
+import * as api from '../api';
+
+export const get: Operation = async (req, res) => {
+    const receptionQualityApiModel = container.get<IReceptionQualityApiModel>('IReceptionQualityApiModel');
+
+    try {
+        const option: apid.GetReceptionQualityOption = {
+            days: parseInt(req.query.days as any, 10),
+        };
+        if (typeof req.query.groupBy !== 'undefined') {
+            option.groupBy = req.query.groupBy as any;
+        }
+        api.responseJSON(res, 200, await receptionQualityApiModel.getDaily(option));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: '受信品質取得',
+    tags: ['receptionQualities'],
+    'x-permission': 'viewer',
+    description:
+        '録画時のドロップ数を放送局またはチューナー毎に日単位で集計した受信品質を取得する。チューナーは EPGStation が予約に割り当てたものであり, Mirakurun が実際に使用したチューナーとは異なる場合がある',
+    parameters: [
+        {
+            $ref: '#/components/parameters/Days',
+        },
+        {
+            $ref: '#/components/parameters/QueryReceptionQualityGroupBy',
+        },
+    ],
+    responses: {
+        200: {
+            description: '受信品質を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/ReceptionQualityItems',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
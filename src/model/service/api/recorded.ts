@@ -35,6 +35,9 @@ export const get: Operation = async (req, res) => {
         if (typeof req.query.hasOriginalFile !== 'undefined') {
             option.hasOriginalFile = req.query.hasOriginalFile as any;
         }
+        if (typeof req.query.sortByRelevance !== 'undefined') {
+            option.sortByRelevance = req.query.sortByRelevance as any;
+        }
 
         api.responseJSON(res, 200, await recordedApiModel.gets(option));
     } catch (err: any) {
@@ -42,9 +45,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画情報取得',
     tags: ['recorded'],
+    'x-permission': 'viewer',
     description: '録画情報を取得する',
     parameters: [
         {
@@ -74,6 +78,9 @@ get.apiDoc = {
         {
             $ref: '#/components/parameters/QueryHasOriginalFile',
         },
+        {
+            $ref: '#/components/parameters/QuerySortByRelevance',
+        },
     ],
     responses: {
         200: {
@@ -111,9 +118,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '録画番組情報の新規作成',
     tags: ['recorded'],
+    'x-permission': 'admin',
     description: '録画番組情報を新規作成する',
     requestBody: {
         content: {
@@ -13,9 +13,10 @@ export const post: Operation = async (_req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '録画をクリーンアップ',
     tags: ['recorded'],
+    'x-permission': 'admin',
     description: '録画をクリーンアップする',
     responses: {
         200: {
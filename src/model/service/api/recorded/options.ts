@@ -14,9 +14,10 @@ export const get: Operation = async (_req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画検索オプションを取得',
     tags: ['recorded'],
+    'x-permission': 'viewer',
     description: '録画検索オプションを取得する',
     responses: {
         200: {
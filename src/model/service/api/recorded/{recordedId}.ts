@@ -24,9 +24,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画詳細情報を取得',
     tags: ['recorded'],
+    'x-permission': 'viewer',
     description: '録画詳細情報を取得する',
     parameters: [
         {
@@ -63,25 +64,84 @@ get.apiDoc = {
     },
 };
 
+export const put: Operation = async (req, res) => {
+    const recordedApiModel = container.get<IRecordedApiModel>('IRecordedApiModel');
+
+    try {
+        await recordedApiModel.edit(parseInt(req.params.recordedId, 10), req.body);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === 'RecordedIsNotFound') {
+            api.responseError(res, {
+                code: 404,
+                message: 'recorded is not found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: '録画番組情報を編集',
+    tags: ['recorded'],
+    'x-permission': 'admin',
+    description: '録画番組の番組名, 詳細, ジャンル, 放送局を編集する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathRecordedId',
+        },
+    ],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/EditRecordedOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: '録画番組情報を編集しました',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
+
 export const del: Operation = async (req, res) => {
     const recordedApiModel = container.get<IRecordedApiModel>('IRecordedApiModel');
 
     try {
-        await recordedApiModel.delete(parseInt(req.params.recordedId, 10));
+        await recordedApiModel.delete(parseInt(req.params.recordedId, 10), req.query.forgetHistory as any);
         api.responseJSON(res, 200, { code: 200 });
     } catch (err: any) {
         api.responseServerError(res, err.message);
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '録画を削除',
     tags: ['recorded'],
+    'x-permission': 'admin',
     description: '録画を削除する',
     parameters: [
         {
             $ref: '#/components/parameters/PathRecordedId',
         },
+        {
+            $ref: '#/components/parameters/QueryForgetHistory',
+        },
     ],
     responses: {
         200: {
@@ -14,9 +14,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'エンコード停止',
     tags: ['recorded'],
+    'x-permission': 'reserver',
     description: 'エンコードを停止する',
     parameters: [
         {
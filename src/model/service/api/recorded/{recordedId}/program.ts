@@ -0,0 +1,59 @@
+import { Operation } from 'express-openapi';
+import IRecordedApiModel from '../../../../api/recorded/IRecordedApiModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const put: Operation = async (req, res) => {
+    const recordedApiModel = container.get<IRecordedApiModel>('IRecordedApiModel');
+
+    try {
+        await recordedApiModel.updateProgramInfo(parseInt(req.params.recordedId, 10), req.body);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === 'RecordedIsNotFound' || err.message === 'ProgramIsNotFound') {
+            api.responseError(res, {
+                code: 404,
+                message: err.message === 'RecordedIsNotFound' ? 'recorded is not found' : 'program is not found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: '録画番組情報を番組表から再取得',
+    tags: ['recorded'],
+    'x-permission': 'admin',
+    description: 'programId または channelId と startAt で指定した番組表の情報で録画番組情報を更新する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathRecordedId',
+        },
+    ],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/UpdateRecordedProgramOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: '録画番組情報を更新しました',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -14,9 +14,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: '録画を自動削除対象に戻す',
     tags: ['recorded'],
+    'x-permission': 'reserver',
     description: '録画を自動削除対象に戻す',
     parameters: [
         {
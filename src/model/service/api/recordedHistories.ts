@@ -0,0 +1,71 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../api';
+import IRecordedHistoryApiModel from '../../api/recordedHistory/IRecordedHistoryApiModel';
+import container from '../../ModelContainer';
+import * as api from '../api';
+
+export const get: Operation = async (req, res) => {
+    const recordedHistoryApiModel = container.get<IRecordedHistoryApiModel>('IRecordedHistoryApiModel');
+
+    try {
+        const option: apid.GetRecordedHistoryOption = {};
+        if (typeof req.query.offset !== 'undefined') {
+            option.offset = parseInt(req.query.offset as any, 10);
+        }
+        if (typeof req.query.limit !== 'undefined') {
+            option.limit = parseInt(req.query.limit as any, 10);
+        }
+        if (typeof req.query.name === 'string') {
+            option.name = req.query.name;
+        }
+        if (typeof req.query.channelId !== 'undefined') {
+            option.channelId = parseInt(req.query.channelId as any, 10);
+        }
+        api.responseJSON(res, 200, await recordedHistoryApiModel.gets(option));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: '録画履歴取得',
+    tags: ['recordedHistories'],
+    'x-permission': 'viewer',
+    description: '重複番組の判定に使用する録画履歴を新しい順に取得する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/Offset',
+        },
+        {
+            $ref: '#/components/parameters/Limit',
+        },
+        {
+            $ref: '#/components/parameters/QueryName',
+        },
+        {
+            $ref: '#/components/parameters/QueryChannelId',
+        },
+    ],
+    responses: {
+        200: {
+            description: '録画履歴を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/RecordedHistories',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
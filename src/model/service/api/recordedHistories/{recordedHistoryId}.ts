@@ -0,0 +1,51 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IRecordedHistoryApiModel from '../../../api/recordedHistory/IRecordedHistoryApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const del: Operation = async (req, res) => {
+    const recordedHistoryApiModel = container.get<IRecordedHistoryApiModel>('IRecordedHistoryApiModel');
+
+    try {
+        const historyId: apid.RecordedHistoryId = parseInt(req.params.recordedHistoryId, 10);
+        await recordedHistoryApiModel.delete(historyId);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === 'RecordedHistoryIdIsNotFound') {
+            api.responseError(res, {
+                code: 404,
+                message: 'recorded history is not found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+del.apiDoc = <api.ApiDoc>{
+    summary: '録画履歴削除',
+    tags: ['recordedHistories'],
+    'x-permission': 'reserver',
+    description: '録画履歴を削除する. 削除した履歴は重複番組の判定に使用されなくなる',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathRecordedHistoryId',
+        },
+    ],
+    responses: {
+        200: {
+            description: '録画履歴を削除しました',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
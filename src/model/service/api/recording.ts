@@ -38,9 +38,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画中情報取得',
     tags: ['recording'],
+    'x-permission': 'viewer',
     description: '録画中情報を取得する',
     parameters: [
         {
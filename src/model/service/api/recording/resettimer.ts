@@ -13,9 +13,10 @@ export const post: Operation = async (_req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '予約タイマー再設定',
     tags: ['recording'],
+    'x-permission': 'reserver',
     description: '予約タイマーを再設定する',
     responses: {
         200: {
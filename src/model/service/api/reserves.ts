@@ -30,9 +30,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '予約情報取得',
     tags: ['reserves'],
+    'x-permission': 'viewer',
     description: '予約情報を取得する',
     parameters: [
         {
@@ -87,9 +88,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '予約追加',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '予約を追加する',
     requestBody: {
         content: {
@@ -13,9 +13,10 @@ export const get: Operation = async (_req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '予約数取得',
     tags: ['reserves'],
+    'x-permission': 'viewer',
     description: '予約数を取得する',
     responses: {
         200: {
@@ -20,9 +20,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '予約リスト情報取得',
     tags: ['reserves'],
+    'x-permission': 'viewer',
     description: '予約リスト情報を取得する',
     parameters: [
         {
@@ -14,9 +14,10 @@ export const post: Operation = async (_req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '予約情報の更新開始',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '予約情報の更新を開始する',
     responses: {
         200: {
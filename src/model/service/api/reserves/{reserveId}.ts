@@ -21,9 +21,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '指定された予約情報の取得',
     tags: ['reserves'],
+    'x-permission': 'viewer',
     description: '指定された予約情報を取得する',
     parameters: [
         {
@@ -70,9 +71,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '予約削除',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '予約を削除する',
     parameters: [
         {
@@ -110,9 +112,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: '手動予約更新',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '手動予約を更新する',
     parameters: [
         {
@@ -1,8 +1,61 @@
 import { Operation } from 'express-openapi';
+import IRecordedHistoryApiModel from '../../../../api/recordedHistory/IRecordedHistoryApiModel';
 import IReserveApiModel from '../../../../api/reserve/IReserveApiModel';
 import container from '../../../../ModelContainer';
 import * as api from '../../../api';
 
+export const get: Operation = async (req, res) => {
+    const recordedHistoryApiModel = container.get<IRecordedHistoryApiModel>('IRecordedHistoryApiModel');
+
+    try {
+        const overlap = await recordedHistoryApiModel.getReserveOverlap(parseInt(req.params.reserveId, 10));
+        if (overlap === null) {
+            api.responseError(res, {
+                code: 404,
+                message: 'reserve is not found',
+            });
+        } else {
+            api.responseJSON(res, 200, overlap);
+        }
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: '予約の重複理由を取得',
+    tags: ['reserves'],
+    'x-permission': 'viewer',
+    description: '予約が重複と判定された理由となる録画履歴を取得する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathReserveId',
+        },
+    ],
+    responses: {
+        200: {
+            description: '予約の重複理由を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/ReserveOverlap',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
+
 export const del: Operation = async (req, res) => {
     const reserveApiModel = container.get<IReserveApiModel>('IReserveApiModel');
 
@@ -13,9 +66,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '予約の重複状態を解除',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '予約の重複状態を解除する',
     parameters: [
         {
@@ -13,9 +13,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '予約の除外状態を解除',
     tags: ['reserves'],
+    'x-permission': 'reserver',
     description: '予約の除外状態を解除する',
     parameters: [
         {
@@ -28,9 +28,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ルール情報取得',
     tags: ['rules'],
+    'x-permission': 'viewer',
     description: 'ルール情報を取得する',
     parameters: [
         {
@@ -82,9 +83,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'ルール追加',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを追加する',
     requestBody: {
         content: {
@@ -0,0 +1,65 @@
+import { Operation } from 'express-openapi';
+import IRuleApiModel from '../../../api/rule/IRuleApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const post: Operation = async (req, res) => {
+    const ruleApiModel = container.get<IRuleApiModel>('IRuleApiModel');
+
+    try {
+        api.responseJSON(res, 200, await ruleApiModel.dryRun(req.body));
+    } catch (err: any) {
+        if (err.message === 'RuleIsNotFound') {
+            api.responseError(res, {
+                code: 404,
+                message: 'rule is not found',
+            });
+        } else if (err.message === 'RuleIsNotSpecified' || err.message === 'RuleOptionCheckError') {
+            api.responseError(res, {
+                code: 400,
+                message: err.message === 'RuleIsNotSpecified' ? 'rule is not specified' : 'rule option is invalid',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ルールの dry run',
+    tags: ['rules'],
+    'x-permission': 'reserver',
+    description: 'ルールの予約情報を保存せずに計算し, 追加, 更新, 削除される予約と競合する予約を返す',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/DryRunRuleOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'ルールの dry run 結果を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/RuleDryRunResult',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
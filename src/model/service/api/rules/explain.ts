@@ -0,0 +1,74 @@
+import { Operation } from 'express-openapi';
+import IRuleApiModel from '../../../api/rule/IRuleApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const post: Operation = async (req, res) => {
+    const ruleApiModel = container.get<IRuleApiModel>('IRuleApiModel');
+
+    try {
+        api.responseJSON(res, 200, await ruleApiModel.explain(req.body));
+    } catch (err: any) {
+        if (err.message === 'RuleIsNotFound' || err.message === 'ProgramIsNotFound') {
+            api.responseError(res, {
+                code: 404,
+                message: err.message === 'RuleIsNotFound' ? 'rule is not found' : 'program is not found',
+            });
+        } else if (
+            err.message === 'RuleIsNotSpecified' ||
+            err.message === 'RuleOptionCheckError' ||
+            err.message === 'RuleIsTimeSpecification'
+        ) {
+            api.responseError(res, {
+                code: 400,
+                message:
+                    err.message === 'RuleIsNotSpecified'
+                        ? 'rule is not specified'
+                        : err.message === 'RuleOptionCheckError'
+                          ? 'rule option is invalid'
+                          : 'time specification rule is not supported',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ルールと番組の判定',
+    tags: ['rules'],
+    'x-permission': 'viewer',
+    description: '指定した番組がルールの各検索条件を満たすか, 重複, スキップ, 競合により録画されないかを判定する',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/RuleMatchOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'ルールと番組の判定結果を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/RuleMatchExplanation',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -27,9 +27,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ルールをキーワード検索',
     tags: ['rules'],
+    'x-permission': 'viewer',
     description: 'ルールをキーワード検索する',
     parameters: [
         {
@@ -78,9 +79,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'ルール追加',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを追加する',
     requestBody: {
         content: {
@@ -0,0 +1,53 @@
+import { Operation } from 'express-openapi';
+import IRuleApiModel from '../../../../api/rule/IRuleApiModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const post: Operation = async (req, res) => {
+    const ruleApiModel = container.get<IRuleApiModel>('IRuleApiModel');
+
+    try {
+        api.responseJSON(res, 200, ruleApiModel.validateKeywordQuery(req.body));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ルール検索クエリの構文チェック',
+    tags: ['rules'],
+    'x-permission': 'reserver',
+    description: 'ルール検索クエリの構文をチェックし, エラーがあれば位置と内容を返す',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/ValidateRuleKeywordQueryOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'ルール検索クエリの構文チェック結果を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/RuleKeywordQueryValidationResult',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
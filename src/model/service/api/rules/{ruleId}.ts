@@ -21,9 +21,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ルール取得',
     tags: ['rules'],
+    'x-permission': 'viewer',
     description: 'ルールを取得する',
     parameters: [
         {
@@ -70,9 +71,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'ルール削除',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを削除する',
     parameters: [
         {
@@ -111,9 +113,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: 'ルール更新',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを更新する',
     parameters: [
         {
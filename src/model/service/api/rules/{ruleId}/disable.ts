@@ -15,9 +15,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: 'ルール無効化',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを無効化する',
     parameters: [
         {
@@ -15,9 +15,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: 'ルール有効化',
     tags: ['rules'],
+    'x-permission': 'reserver',
     description: 'ルールを有効化する',
     parameters: [
         {
@@ -27,9 +27,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '番組表情報取得',
     tags: ['schedules'],
+    'x-permission': 'viewer',
     description: '番組表情報を取得する',
     parameters: [
         {
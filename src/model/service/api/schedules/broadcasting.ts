@@ -21,9 +21,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '放映中の番組情報取得',
     tags: ['schedules'],
+    'x-permission': 'viewer',
     description: '放映中の番組情報を取得する',
     parameters: [
         {
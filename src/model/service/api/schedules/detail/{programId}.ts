@@ -24,9 +24,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '指定された番組表情報取得',
     tags: ['schedules'],
+    'x-permission': 'viewer',
     description: '指定された番組表情報を取得する',
     parameters: [
         {
@@ -10,16 +10,22 @@ export const post: Operation = async (req, res) => {
         api.responseJSON(
             res,
             200,
-            await scheduleApiModel.search(req.body.option, req.body.isHalfWidth, req.body.limit),
+            await scheduleApiModel.search(
+                req.body.option,
+                req.body.isHalfWidth,
+                req.body.limit,
+                req.body.sortByRelevance,
+            ),
         );
     } catch (err: any) {
         api.responseServerError(res, err.message);
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: '番組検索結果を取得',
     tags: ['schedules'],
+    'x-permission': 'viewer',
     description: '番組検索結果を取得する',
     requestBody: {
         content: {
@@ -14,9 +14,10 @@ export const get: Operation = async (_req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ストレージ情報取得',
     tags: ['storages'],
+    'x-permission': 'viewer',
     description: 'ストレージ情報を取得する',
     responses: {
         200: {
@@ -14,9 +14,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ストリーム情報を取得',
     tags: ['streams'],
+    'x-permission': 'viewer',
     description: 'ストリーム情報を取得する',
     parameters: [
         {
@@ -60,9 +61,10 @@ export const del: Operation = async (_req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '全てのストリームを停止',
     tags: ['streams'],
+    'x-permission': 'reserver',
     description: '全てのストリームを停止する',
     responses: {
         200: {
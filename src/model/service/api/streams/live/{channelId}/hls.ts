@@ -19,9 +19,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ライブ HLS ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
     description: 'ライブ HLS ストリームを開始する',
     parameters: [
         {
@@ -1,20 +1,27 @@
 import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../../../../api/auth/IAuthApiModel';
 import IStreamApiModel from '../../../../../../api/stream/IStreamApiModel';
 import container from '../../../../../../ModelContainer';
 import * as api from '../../../../../api';
 
 export const get: Operation = async (req, res) => {
     const streamApiModel = container.get<IStreamApiModel>('IStreamApiModel');
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
 
     try {
         if (typeof req.headers.host === 'undefined') {
             throw new Error('HostIsUndefined');
         }
 
-        const playlist = await streamApiModel.getLiveM2TsStreamM3u8(req.headers.host, api.isSecureProtocol(req), {
-            channelId: parseInt(req.params.channelId, 10),
-            mode: parseInt(req.query.mode as string, 10),
-        });
+        const playlist = await streamApiModel.getLiveM2TsStreamM3u8(
+            req.headers.host,
+            api.isSecureProtocol(req),
+            {
+                channelId: parseInt(req.params.channelId, 10),
+                mode: parseInt(req.query.mode as string, 10),
+            },
+            await authApiModel.getStreamToken(api.getAuthInfo(req)),
+        );
 
         if (playlist === null) {
             api.responseError(res, {
@@ -29,9 +36,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ライブ M2TS ストリームプレイリスト',
     tags: ['streams'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ライブ M2TS ストリームプレイリストを取得する',
     parameters: [
         {
@@ -61,9 +61,11 @@ export const get: Operation = async (req, res) => {
     result.stream.pipe(res);
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ライブ M2TS Low Latency (mpegts.js 用) ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ライブ M2TS Low Latency ストリームを取得する',
     parameters: [
         {
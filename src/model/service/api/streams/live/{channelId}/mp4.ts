@@ -61,9 +61,11 @@ export const get: Operation = async (req, res) => {
     result.stream.pipe(res);
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ライブ mp4 ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ライブ mp4 ストリームを取得する',
     parameters: [
         {
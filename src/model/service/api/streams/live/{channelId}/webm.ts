@@ -61,9 +61,11 @@ export const get: Operation = async (req, res) => {
     result.stream.pipe(res);
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ライブ WebM ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ライブ WebM ストリームを取得する',
     parameters: [
         {
@@ -20,9 +20,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画 HLS ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
     description: '録画 HLS ストリームを開始する',
     parameters: [
         {
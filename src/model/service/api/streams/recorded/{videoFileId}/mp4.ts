@@ -62,9 +62,11 @@ export const get: Operation = async (req, res) => {
     result.stream.pipe(res);
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '録画 mp4 ストリーム',
     tags: ['streams'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: '録画 mp4 ストリームを取得する',
     parameters: [
         {
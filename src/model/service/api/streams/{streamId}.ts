@@ -16,9 +16,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'ストリームを停止',
     tags: ['streams'],
+    'x-permission': 'viewer',
     description: 'ストリームを停止する',
     parameters: [
         {
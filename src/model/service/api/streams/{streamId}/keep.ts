@@ -16,9 +16,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: 'ストリーム停止タイマーを更新する',
     tags: ['streams'],
+    'x-permission': 'viewer',
     description: 'ストリーム停止タイマーを更新する',
     parameters: [
         {
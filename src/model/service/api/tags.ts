@@ -29,9 +29,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'タグ情報取得',
     tags: ['tags'],
+    'x-permission': 'viewer',
     description: 'タグ情報を取得する',
     parameters: [
         {
@@ -86,9 +87,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'タグ追加',
     tags: ['tags'],
+    'x-permission': 'reserver',
     description: 'タグを追加する',
     requestBody: {
         content: {
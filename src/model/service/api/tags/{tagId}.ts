@@ -16,9 +16,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'タグ削除',
     tags: ['tags'],
+    'x-permission': 'reserver',
     description: 'タグを削除する',
     parameters: [
         {
@@ -58,9 +59,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: 'タグ名変更',
     tags: ['tags'],
+    'x-permission': 'reserver',
     description: 'タグ名を変更する',
     parameters: [
         {
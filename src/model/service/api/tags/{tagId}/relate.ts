@@ -17,9 +17,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: '録画番組とタグの関連付けを削除',
     tags: ['tags'],
+    'x-permission': 'reserver',
     description: '録画番組とタグの関連付けを削除する',
     parameters: [
         {
@@ -59,9 +60,10 @@ export const put: Operation = async (req, res) => {
     }
 };
 
-put.apiDoc = {
+put.apiDoc = <api.ApiDoc>{
     summary: '録画番組とタグを関連付ける',
     tags: ['tags'],
+    'x-permission': 'reserver',
     description: '録画番組とタグを関連付けする',
     parameters: [
         {
@@ -13,9 +13,10 @@ export const post: Operation = async (_req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'サムネイル再生成',
     tags: ['thumbnails'],
+    'x-permission': 'admin',
     description: 'サムネイルの追加で再生成を開始する',
     responses: {
         200: {
@@ -13,9 +13,10 @@ export const post: Operation = async (_req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'サムネイルをクリーンアップ',
     tags: ['thumbnails'],
+    'x-permission': 'admin',
     description: 'サムネイルをクリーンアップする',
     responses: {
         200: {
@@ -14,9 +14,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'サムネイル追加',
     tags: ['thumbnails'],
+    'x-permission': 'admin',
     description: 'サムネイルの生成を開始させる',
     parameters: [
         {
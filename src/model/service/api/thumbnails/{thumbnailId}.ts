@@ -22,9 +22,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'サムネイル',
     tags: ['thumbnails'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'サムネイルを取得する',
     parameters: [
         {
@@ -63,9 +65,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'サムネイル',
     tags: ['thumbnails'],
+    'x-permission': 'admin',
     description: 'サムネイルを削除する',
     parameters: [
         {
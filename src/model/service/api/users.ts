@@ -0,0 +1,107 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../api';
+import IUserApiModel from '../../api/user/IUserApiModel';
+import { UserManageErrors } from '../../operator/user/IUserManageModel';
+import container from '../../ModelContainer';
+import * as api from '../api';
+
+export const get: Operation = async (_req, res) => {
+    const userApiModel = container.get<IUserApiModel>('IUserApiModel');
+
+    try {
+        api.responseJSON(res, 200, await userApiModel.gets());
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'ユーザー一覧取得',
+    tags: ['users'],
+    'x-permission': 'admin',
+    description: 'ユーザー一覧を取得する',
+    responses: {
+        200: {
+            description: 'ユーザー一覧を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Users',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
+
+export const post: Operation = async (req, res) => {
+    const userApiModel = container.get<IUserApiModel>('IUserApiModel');
+
+    try {
+        const userId = await userApiModel.add(<apid.AddUserOption>req.body);
+        api.responseJSON(res, 201, {
+            userId: userId,
+        });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.DUPLICATE_NAME) {
+            api.responseError(res, {
+                code: 409,
+                message: 'user name is duplicated',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ユーザー追加',
+    tags: ['users'],
+    'x-permission': 'admin',
+    description: 'ユーザーを追加する',
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/AddUserOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        201: {
+            description: 'ユーザーの追加に成功した',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/AddedUser',
+                    },
+                },
+            },
+        },
+        409: {
+            description: '同名のユーザーが既に存在する',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,61 @@
+import { Operation } from 'express-openapi';
+import IUserApiModel from '../../../api/user/IUserApiModel';
+import { UserManageErrors } from '../../../operator/user/IUserManageModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const del: Operation = async (req, res) => {
+    const userApiModel = container.get<IUserApiModel>('IUserApiModel');
+
+    try {
+        await userApiModel.delete(parseInt(req.params.userId, 10));
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'User is not Found',
+            });
+        } else if (err.message === UserManageErrors.LAST_ADMIN) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Last admin user cannot be deleted',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+del.apiDoc = <api.ApiDoc>{
+    summary: 'ユーザー削除',
+    tags: ['users'],
+    'x-permission': 'admin',
+    description: 'ユーザーを削除する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathUserId',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'ユーザーを削除しました',
+        },
+        404: {
+            description: '指定された id のユーザーがない',
+        },
+        409: {
+            description: '最後の管理者は削除できない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
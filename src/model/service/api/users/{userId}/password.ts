@@ -0,0 +1,63 @@
+import { Operation } from 'express-openapi';
+import IUserApiModel from '../../../../api/user/IUserApiModel';
+import { UserManageErrors } from '../../../../operator/user/IUserManageModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const put: Operation = async (req, res) => {
+    const userApiModel = container.get<IUserApiModel>('IUserApiModel');
+
+    try {
+        await userApiModel.updatePassword(parseInt(req.params.userId, 10), req.body.password);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'User is not Found',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: 'パスワード更新',
+    tags: ['users'],
+    'x-permission': 'admin',
+    description: 'ユーザーのパスワードを更新する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathUserId',
+        },
+    ],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/UpdateUserPasswordOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: 'パスワードを更新しました',
+        },
+        404: {
+            description: '指定された id のユーザーがない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,71 @@
+import { Operation } from 'express-openapi';
+import IUserApiModel from '../../../../api/user/IUserApiModel';
+import { UserManageErrors } from '../../../../operator/user/IUserManageModel';
+import container from '../../../../ModelContainer';
+import * as api from '../../../api';
+
+export const put: Operation = async (req, res) => {
+    const userApiModel = container.get<IUserApiModel>('IUserApiModel');
+
+    try {
+        await userApiModel.updateRole(parseInt(req.params.userId, 10), req.body.role);
+        api.responseJSON(res, 200, { code: 200 });
+    } catch (err: any) {
+        if (err.message === UserManageErrors.NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'User is not Found',
+            });
+        } else if (err.message === UserManageErrors.LAST_ADMIN) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Last admin user role cannot be changed',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+put.apiDoc = <api.ApiDoc>{
+    summary: '権限更新',
+    tags: ['users'],
+    'x-permission': 'admin',
+    description: 'ユーザーの権限を更新する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathUserId',
+        },
+    ],
+    requestBody: {
+        content: {
+            'application/json': {
+                schema: {
+                    $ref: '#/components/schemas/UpdateUserRoleOption',
+                },
+            },
+        },
+        required: true,
+    },
+    responses: {
+        200: {
+            description: '権限を更新しました',
+        },
+        404: {
+            description: '指定された id のユーザーがない',
+        },
+        409: {
+            description: '最後の管理者の権限は変更できない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -14,9 +14,10 @@ export const get: Operation = async (_req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'バージョン情報取得',
     tags: ['version'],
+    'x-permission': 'viewer',
     description: 'バージョン情報を取得する',
     responses: {
         200: {
@@ -32,9 +32,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'アップロードしたビデオファイルを追加',
     tags: ['videos'],
+    'x-permission': 'admin',
     description: 'アップロードしたビデオファイルを追加する',
     requestBody: {
         content: {
@@ -22,9 +22,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ビデオファイル',
     tags: ['videos'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ビデオファイルを取得する',
     parameters: [
         {
@@ -69,9 +71,10 @@ export const del: Operation = async (req, res) => {
     }
 };
 
-del.apiDoc = {
+del.apiDoc = <api.ApiDoc>{
     summary: 'ビデオファイル',
     tags: ['videos'],
+    'x-permission': 'admin',
     description: 'ビデオファイルを削除する',
     parameters: [
         {
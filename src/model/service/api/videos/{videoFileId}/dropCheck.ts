@@ -0,0 +1,130 @@
+import { Operation } from 'express-openapi';
+import IVideoApiModel from '../../../../api/video/IVideoApiModel';
+import container from '../../../../ModelContainer';
+import { DropCheckManageErrors } from '../../../../operator/dropCheck/IDropCheckManageModel';
+import * as api from '../../../api';
+
+export const get: Operation = async (req, res) => {
+    const videoApiModel = container.get<IVideoApiModel>('IVideoApiModel');
+
+    try {
+        const progress = await videoApiModel.getDropCheckProgress(parseInt(req.params.videoFileId, 10));
+        if (progress === null) {
+            api.responseError(res, {
+                code: 404,
+                message: 'Drop check is not found',
+            });
+        } else {
+            api.responseJSON(res, 200, progress);
+        }
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'ドロップチェック進捗取得',
+    tags: ['videos'],
+    'x-permission': 'viewer',
+    description: 'ビデオファイルのドロップチェックの進捗を取得する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathVideoFileId',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'ドロップチェックの進捗を取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/DropCheckProgress',
+                    },
+                },
+            },
+        },
+        404: {
+            description: 'ドロップチェック待ち, 実行中ではない',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
+
+export const post: Operation = async (req, res) => {
+    const videoApiModel = container.get<IVideoApiModel>('IVideoApiModel');
+
+    try {
+        await videoApiModel.startDropCheck(parseInt(req.params.videoFileId, 10));
+        api.responseJSON(res, 202, { code: 202 });
+    } catch (err: any) {
+        if (err.message === DropCheckManageErrors.VIDEO_FILE_NOT_FOUND) {
+            api.responseError(res, {
+                code: 404,
+                message: 'Video file is not found',
+            });
+        } else if (err.message === DropCheckManageErrors.NOT_TS) {
+            api.responseError(res, {
+                code: 400,
+                message: 'Video file is not ts',
+            });
+        } else if (err.message === DropCheckManageErrors.RECORDING) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Recorded is recording',
+            });
+        } else if (err.message === DropCheckManageErrors.ALREADY_ADDED) {
+            api.responseError(res, {
+                code: 409,
+                message: 'Drop check is already added',
+            });
+        } else {
+            api.responseServerError(res, err.message);
+        }
+    }
+};
+
+post.apiDoc = <api.ApiDoc>{
+    summary: 'ドロップチェック開始',
+    tags: ['videos'],
+    'x-permission': 'admin',
+    description:
+        'ビデオファイル (ts) のドロップチェックをバックグラウンドで開始する。完了するとドロップログが作成 (置き換え) される',
+    parameters: [
+        {
+            $ref: '#/components/parameters/PathVideoFileId',
+        },
+    ],
+    responses: {
+        202: {
+            description: 'ドロップチェックを開始しました',
+        },
+        400: {
+            description: 'ts ファイルではない',
+        },
+        404: {
+            description: '指定された id のビデオファイルがない',
+        },
+        409: {
+            description: '録画中またはドロップチェック待ち, 実行中',
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -16,9 +16,10 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: '動画の長さ',
     tags: ['videos'],
+    'x-permission': 'viewer',
     description: '動画の長さを取得する',
     parameters: [
         {
@@ -1,10 +1,12 @@
 import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../../api/auth/IAuthApiModel';
 import IVideoApiModel from '../../../../api/video/IVideoApiModel';
 import container from '../../../../ModelContainer';
 import * as api from '../../../api';
 
 export const post: Operation = async (req, res) => {
     const videoApiModel = container.get<IVideoApiModel>('IVideoApiModel');
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
 
     try {
         if (typeof req.headers.host === 'undefined') {
@@ -16,6 +18,7 @@ export const post: Operation = async (req, res) => {
             api.isSecureProtocol(req),
             req.body.kodiName,
             parseInt(req.params.videoFileId, 10),
+            await authApiModel.getStreamToken(api.getAuthInfo(req)),
         );
         api.responseJSON(res, 200, { code: 200 });
     } catch (err: any) {
@@ -23,9 +26,10 @@ export const post: Operation = async (req, res) => {
     }
 };
 
-post.apiDoc = {
+post.apiDoc = <api.ApiDoc>{
     summary: 'ビデオリンクを kodi へ送信',
     tags: ['videos'],
+    'x-permission': 'viewer',
     description: 'ビデオリンクを kodi へ送信する',
     parameters: [
         {
@@ -1,10 +1,12 @@
 import { Operation } from 'express-openapi';
+import IAuthApiModel from '../../../../api/auth/IAuthApiModel';
 import IVideoApiModel from '../../../../api/video/IVideoApiModel';
 import container from '../../../../ModelContainer';
 import * as api from '../../../api';
 
 export const get: Operation = async (req, res) => {
     const videoFileApiModel = container.get<IVideoApiModel>('IVideoApiModel');
+    const authApiModel = container.get<IAuthApiModel>('IAuthApiModel');
 
     try {
         if (typeof req.headers.host === 'undefined') {
@@ -15,6 +17,7 @@ export const get: Operation = async (req, res) => {
             req.headers.host,
             api.isSecureProtocol(req),
             parseInt(req.params.videoFileId, 10),
+            await authApiModel.getStreamToken(api.getAuthInfo(req)),
         );
 
         if (playlist === null) {
@@ -30,9 +33,11 @@ export const get: Operation = async (req, res) => {
     }
 };
 
-get.apiDoc = {
+get.apiDoc = <api.ApiDoc>{
     summary: 'ビデオプレイリスト',
     tags: ['videos'],
+    'x-permission': 'viewer',
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
     description: 'ビデオプレイリストを取得する',
     parameters: [
         {
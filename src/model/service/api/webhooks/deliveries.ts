@@ -0,0 +1,71 @@
+import { Operation } from 'express-openapi';
+import * as apid from '../../../../../api';
+import IWebhookApiModel from '../../../api/webhook/IWebhookApiModel';
+import container from '../../../ModelContainer';
+import * as api from '../../api';
+
+export const get: Operation = async (req, res) => {
+    const webhookApiModel = container.get<IWebhookApiModel>('IWebhookApiModel');
+
+    try {
+        const option: apid.GetWebhookDeliveriesOption = {};
+        if (typeof req.query.offset !== 'undefined') {
+            option.offset = parseInt(req.query.offset as any, 10);
+        }
+        if (typeof req.query.limit !== 'undefined') {
+            option.limit = parseInt(req.query.limit as any, 10);
+        }
+        if (typeof req.query.event === 'string') {
+            option.event = req.query.event;
+        }
+        if (typeof req.query.state === 'string') {
+            option.state = <apid.WebhookDeliveryState>req.query.state;
+        }
+        api.responseJSON(res, 200, await webhookApiModel.getDeliveries(option));
+    } catch (err: any) {
+        api.responseServerError(res, err.message);
+    }
+};
+
+get.apiDoc = <api.ApiDoc>{
+    summary: 'webhook 送信ログ取得',
+    tags: ['webhooks'],
+    'x-permission': 'admin',
+    description: 'webhook の送信ログを新しい順に取得する',
+    parameters: [
+        {
+            $ref: '#/components/parameters/Offset',
+        },
+        {
+            $ref: '#/components/parameters/Limit',
+        },
+        {
+            $ref: '#/components/parameters/QueryWebhookEvent',
+        },
+        {
+            $ref: '#/components/parameters/QueryWebhookDeliveryState',
+        },
+    ],
+    responses: {
+        200: {
+            description: 'webhook 送信ログを取得しました',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/WebhookDeliveries',
+                    },
+                },
+            },
+        },
+        default: {
+            description: '予期しないエラー',
+            content: {
+                'application/json': {
+                    schema: {
+                        $ref: '#/components/schemas/Error',
+                    },
+                },
+            },
+        },
+    },
+};
@@ -0,0 +1,68 @@
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import AuthUtil from '../../../util/AuthUtil';
+import IUserDB from '../../db/IUserDB';
+import IUserTokenDB from '../../db/IUserTokenDB';
+import IConfigFile from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import IAuthenticationModel, { AuthInfo } from './IAuthenticationModel';
+
+@injectable()
+export default class AuthenticationModel implements IAuthenticationModel {
+    private config: IConfigFile;
+    private userDB: IUserDB;
+    private userTokenDB: IUserTokenDB;
+
+    constructor(
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IUserDB') userDB: IUserDB,
+        @inject('IUserTokenDB') userTokenDB: IUserTokenDB,
+    ) {
+        this.config = configuration.getConfig();
+        this.userDB = userDB;
+        this.userTokenDB = userTokenDB;
+    }
+
+    /**
+     * 認証が有効か
+     * @return boolean
+     */
+    public isEnabled(): boolean {
+        return this.config.isEnabledAuthentication === true;
+    }
+
+    /**
+     * トークンを検証する
+     * @param token: string
+     * @return Promise<AuthInfo | null> 無効なトークンの場合は null を返す
+     */
+    public async authenticate(token: string): Promise<AuthInfo | null> {
+        if (token.length === 0) {
+            return null;
+        }
+
+        const userToken = await this.userTokenDB.findTokenHash(AuthUtil.hashToken(token));
+        if (userToken === null) {
+            return null;
+        }
+
+        // 有効期限チェック
+        if (userToken.expiresAt !== null && userToken.expiresAt <= new Date().getTime()) {
+            return null;
+        }
+
+        const user = await this.userDB.findId(userToken.userId);
+        if (user === null) {
+            return null;
+        }
+
+        return {
+            userId: user.id,
+            userName: user.name,
+            role: <apid.UserRole>user.role,
+            tokenId: userToken.id,
+            tokenType: userToken.type,
+            token: token,
+        };
+    }
+}
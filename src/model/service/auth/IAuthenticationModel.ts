@@ -0,0 +1,18 @@
+import * as apid from '../../../../api';
+
+/**
+ * 認証済みリクエストの情報
+ */
+export interface AuthInfo {
+    userId: apid.UserId;
+    userName: string;
+    role: apid.UserRole;
+    tokenId: apid.UserTokenId;
+    tokenType: string; // 'session' | 'api' | 'stream'
+    token: string;
+}
+
+export default interface IAuthenticationModel {
+    isEnabled(): boolean;
+    authenticate(token: string): Promise<AuthInfo | null>;
+}
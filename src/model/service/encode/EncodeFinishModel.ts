@@ -1,6 +1,6 @@
 import { inject, injectable } from 'inversify';
 import * as apid from '../../../../api';
-import IEncodeEvent, { FinishEncodeInfo } from '../../event/IEncodeEvent';
+import IEncodeEvent, { ErrorEncodeInfo, FinishEncodeInfo } from '../../event/IEncodeEvent';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
 import IIPCClient from '../../ipc/IIPCClient';
@@ -32,22 +32,31 @@ export default class EncodeFinishModel implements IEncodeFinishModel {
         this.encodeEvent.setFinishEncode(this.finishEncode.bind(this));
         this.encodeEvent.setErrorEncode(this.errorEncode.bind(this));
         this.encodeEvent.setUpdateEncodeProgress(this.updateEncodeProgress.bind(this));
+        this.encodeEvent.setUpdateEncode(this.updateEncode.bind(this));
     }
 
     /**
      * エンコード追加処理
      * @param encodeId
      */
-    private addEncode(_encodeId: apid.EncodeId): void {
-        this.socket.notifyClient();
+    private addEncode(encodeId: apid.EncodeId): void {
+        this.socket.notifyClient({
+            category: 'encode',
+            type: 'added',
+            encodeId: encodeId,
+        });
     }
 
     /**
      * エンコードキャンセル処理
      * @param encodeId
      */
-    private cancelEncode(_encodeId: apid.EncodeId): void {
-        this.socket.notifyClient();
+    private cancelEncode(encodeId: apid.EncodeId): void {
+        this.socket.notifyClient({
+            category: 'encode',
+            type: 'canceled',
+            encodeId: encodeId,
+        });
     }
 
     /**
@@ -81,7 +90,12 @@ export default class EncodeFinishModel implements IEncodeFinishModel {
             await this.ipc.recorded.deleteVideoFile(info.videoFileId, true);
         }
 
-        this.socket.notifyClient();
+        this.socket.notifyClient({
+            category: 'encode',
+            type: 'finished',
+            encodeId: info.encodeId,
+            recordedId: info.recordedId,
+        });
 
         // Operator にイベントを転送
         await this.ipc.encodeEvent.emitFinishEncode({
@@ -93,15 +107,39 @@ export default class EncodeFinishModel implements IEncodeFinishModel {
 
     /**
      * エンコード失敗処理
+     * @param info: ErrorEncodeInfo
      */
-    private errorEncode(): void {
-        this.socket.notifyClient();
+    private async errorEncode(info: ErrorEncodeInfo): Promise<void> {
+        this.socket.notifyClient({
+            category: 'encode',
+            type: 'failed',
+            encodeId: info.encodeId,
+            recordedId: info.recordedId,
+        });
+
+        // Operator にイベントを転送
+        await this.ipc.encodeEvent.emitErrorEncode({
+            recordedId: info.recordedId,
+            videoFileId: info.videoFileId,
+            mode: info.mode,
+        });
     }
 
     /**
      * エンコード進捗情報更新
+     * @param item: apid.EncodeProgressItem
+     */
+    private updateEncodeProgress(item: apid.EncodeProgressItem): void {
+        this.socket.notifyEncodeProgress(item);
+    }
+
+    /**
+     * エンコード状態 (一時停止, 並び順) 更新
      */
-    private updateEncodeProgress(): void {
-        this.socket.notifyUpdateEncodeProgress();
+    private updateEncode(): void {
+        this.socket.notifyUpdateEncode({
+            category: 'encode',
+            type: 'updated',
+        });
     }
 }
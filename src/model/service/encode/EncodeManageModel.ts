@@ -3,13 +3,22 @@ import * as events from 'events';
 import { inject, injectable } from 'inversify';
 import { cloneDeep } from 'lodash';
 import * as apid from '../../../../api';
+import EncodeQueueItem from '../../../db/entities/EncodeQueueItem';
+import IEncodeQueueItemDB, { EncodeQueueItemState } from '../../db/IEncodeQueueItemDB';
+import IVideoFileDB from '../../db/IVideoFileDB';
 import IEncodeEvent from '../../event/IEncodeEvent';
 import IConfiguration from '../../IConfiguration';
 import IExecutionManagementModel from '../../IExecutionManagementModel';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
-import IEncodeManageModel, { EncodeInfoItem, EncodeQueueInfo, EncodeRecordedIdIndex } from './IEncodeManageModel';
+import IEncodeManageModel, {
+    EncodeInfoItem,
+    EncodeManageErrors,
+    EncodeQueueInfo,
+    EncodeRecordedIdIndex,
+} from './IEncodeManageModel';
 import { EncodeOption, EncoderModelProvider, IEncoderModel } from './IEncoderModel';
+import IEncodeScheduleModel, { EncodeScheduleStatus } from './IEncodeScheduleModel';
 
 @injectable()
 class EncodeManageModel implements IEncodeManageModel {
@@ -17,10 +26,14 @@ class EncodeManageModel implements IEncodeManageModel {
     private executeManagementModel: IExecutionManagementModel;
     private encoderModelProvider: EncoderModelProvider;
     private encodeEvent: IEncodeEvent;
+    private scheduleModel: IEncodeScheduleModel;
+    private encodeQueueItemDB: IEncodeQueueItemDB;
+    private videoFileDB: IVideoFileDB;
     private concurrentEncodeNum: number;
     private waitQueue: IEncoderModel[] = [];
     private runningQueue: IEncoderModel[] = [];
-    private idCnt: number = 1;
+    private isQueuePaused: boolean = false;
+    private scheduleCheckTimerId: NodeJS.Timeout | null = null;
 
     private listener: events.EventEmitter = new events.EventEmitter();
 
@@ -30,12 +43,18 @@ class EncodeManageModel implements IEncodeManageModel {
         @inject('IExecutionManagementModel') executeManagementModel: IExecutionManagementModel,
         @inject('EncoderModelProvider') encoderModelProvider: EncoderModelProvider,
         @inject('IEncodeEvent') encodeEvent: IEncodeEvent,
+        @inject('IEncodeScheduleModel') scheduleModel: IEncodeScheduleModel,
+        @inject('IEncodeQueueItemDB') encodeQueueItemDB: IEncodeQueueItemDB,
+        @inject('IVideoFileDB') videoFileDB: IVideoFileDB,
     ) {
         this.log = logger.getLogger();
         this.executeManagementModel = executeManagementModel;
         this.concurrentEncodeNum = configure.getConfig().concurrentEncodeNum;
         this.encoderModelProvider = encoderModelProvider;
         this.encodeEvent = encodeEvent;
+        this.scheduleModel = scheduleModel;
+        this.encodeQueueItemDB = encodeQueueItemDB;
+        this.videoFileDB = videoFileDB;
 
         this.listener.on(EncodeManageModel.NEEDS_CHECK_QUEUE_EVENT, this.checkQueue.bind(this));
     }
@@ -53,13 +72,37 @@ class EncodeManageModel implements IEncodeManageModel {
         // 実行権取得
         const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.ADD_ENCODE_PRIPORITY);
 
+        // queue 情報を DB に保存する
+        let encodeId: apid.EncodeId;
+        try {
+            encodeId = await this.encodeQueueItemDB.insertOnce(this.createQueueItem(addOption));
+        } catch (err: any) {
+            // 実行権開放
+            this.executeManagementModel.unLockExecution(exeId);
+            this.log.encode.error(`add encode queue item error: ${addOption.recordedId}`);
+            throw err;
+        }
+
         // encoder を生成する
-        const encoder = await this.encoderModelProvider();
-        const option = this.createEncodeOption(addOption);
-        encoder.setOption(option);
+        let encoder: IEncoderModel;
+        const option = this.createEncodeOption(addOption, encodeId);
+        try {
+            encoder = await this.encoderModelProvider();
+            encoder.setOption(option);
+        } catch (err: any) {
+            // 実行できない queue 情報を削除して実行権開放
+            await this.encodeQueueItemDB.deleteOnce(encodeId).catch(e => {
+                this.log.encode.error(`delete encode queue item error: ${encodeId}`);
+                this.log.encode.error(e);
+            });
+            this.executeManagementModel.unLockExecution(exeId);
+            this.log.encode.error(`create encoder error: ${addOption.recordedId}`);
+            throw err;
+        }
 
-        // queue に積む
-        this.waitQueue.push(encoder);
+        // 優先度に従って queue に積む
+        this.insertWaitQueue(encoder);
+        await this.saveWaitQueuePositions();
         this.emitNeedsCheckQueue();
 
         this.log.encode.info(`add new encode: ${option.encodeId}`);
@@ -73,26 +116,244 @@ class EncodeManageModel implements IEncodeManageModel {
         return option.encodeId;
     }
 
+    /**
+     * DB に保存された queue 情報からエンコードを復元する
+     * 再起動により中断された実行中のエンコードは待機状態に戻して再度 queue に積む
+     * queue の一時停止状態も復元する
+     * エンコードが無効 (concurrentEncodeNum <= 0) な場合は queue 情報を保持したまま復元しない
+     * @return Promise<void>
+     */
+    public async restore(): Promise<void> {
+        if (this.concurrentEncodeNum <= 0) {
+            this.log.encode.warn('concurrentEncodeNum is zero. encode queue items are not restored');
+
+            return;
+        }
+
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.ADD_ENCODE_PRIPORITY);
+
+        try {
+            this.isQueuePaused = await this.encodeQueueItemDB.findQueuePaused();
+        } catch (err: any) {
+            this.log.encode.error('get encode queue state error');
+            this.log.encode.error(err);
+        }
+        if (this.isQueuePaused === true) {
+            this.log.encode.info('encode queue is paused');
+        }
+
+        let items: EncodeQueueItem[] = [];
+        try {
+            items = await this.encodeQueueItemDB.findAll();
+        } catch (err: any) {
+            this.log.encode.error('get encode queue items error');
+            this.log.encode.error(err);
+        }
+
+        // 中断された実行中のエンコードを先頭にする
+        items = items
+            .filter(i => {
+                return i.state !== 'wait';
+            })
+            .concat(
+                items.filter(i => {
+                    return i.state === 'wait';
+                }),
+            );
+
+        const restored: IEncoderModel[] = [];
+        for (const item of items) {
+            // 既に queue に積まれている
+            if (this.hasQueueItem(item.id) === true) {
+                continue;
+            }
+
+            try {
+                if ((await this.videoFileDB.findId(item.sourceVideoFileId)) === null) {
+                    // エンコードできないので queue 情報を削除する
+                    this.log.encode.warn(`drop encode queue item: ${item.id}`);
+                    await this.encodeQueueItemDB.deleteOnce(item.id);
+                    continue;
+                }
+
+                if (item.state !== 'wait') {
+                    await this.encodeQueueItemDB.updateState(item.id, 'wait');
+                }
+
+                const encoder = await this.encoderModelProvider();
+                encoder.setOption(this.createEncodeOption(this.convertQueueItemToOption(item), item.id));
+                restored.push(encoder);
+            } catch (err: any) {
+                this.log.encode.error(`restore encode queue item error: ${item.id}`);
+                this.log.encode.error(err);
+                continue;
+            }
+
+            this.log.encode.info(`restore encode: ${item.id}`);
+        }
+
+        // 復元したエンコードを優先度に従って積む
+        // 同じ優先度の中では復元したエンコードを既存のものよりも前に積み, 復元したもの同士の順序は保持する
+        for (let i = restored.length - 1; i >= 0; i--) {
+            this.insertWaitQueue(restored[i], true);
+        }
+        await this.saveWaitQueuePositions();
+
+        // 実行権開放
+        this.executeManagementModel.unLockExecution(exeId);
+
+        if (restored.length > 0) {
+            this.emitNeedsCheckQueue();
+        }
+    }
+
+    /**
+     * 指定した encodeId が queue に積まれているか
+     * @param encodeId: apid.EncodeId
+     * @return boolean
+     */
+    private hasQueueItem(encodeId: apid.EncodeId): boolean {
+        return (
+            this.runningQueue.some(q => {
+                return q.getEncodeId() === encodeId;
+            }) ||
+            this.waitQueue.some(q => {
+                return q.getEncodeId() === encodeId;
+            })
+        );
+    }
+
+    /**
+     * DB 保存用の queue 情報を生成する
+     * @param option: apid.AddEncodeProgramOption
+     * @return EncodeQueueItem
+     */
+    private createQueueItem(option: apid.AddEncodeProgramOption): EncodeQueueItem {
+        const item = new EncodeQueueItem();
+        item.recordedId = option.recordedId;
+        item.sourceVideoFileId = option.sourceVideoFileId;
+        item.parentDir = option.parentDir;
+        item.directory = typeof option.directory === 'undefined' ? null : option.directory;
+        item.mode = option.mode;
+        item.removeOriginal = option.removeOriginal;
+        item.priority = typeof option.priority === 'undefined' ? 0 : option.priority;
+        item.position = 0;
+        item.state = 'wait';
+        item.createdAt = new Date().getTime();
+
+        return item;
+    }
+
+    /**
+     * DB に保存された queue 情報を apid.AddEncodeProgramOption に変換する
+     * @param item: EncodeQueueItem
+     * @return apid.AddEncodeProgramOption
+     */
+    private convertQueueItemToOption(item: EncodeQueueItem): apid.AddEncodeProgramOption {
+        const option: apid.AddEncodeProgramOption = {
+            recordedId: item.recordedId,
+            sourceVideoFileId: item.sourceVideoFileId,
+            parentDir: item.parentDir,
+            mode: item.mode,
+            removeOriginal: !!item.removeOriginal,
+            priority: item.priority,
+        };
+        if (item.directory !== null) {
+            option.directory = item.directory;
+        }
+
+        return option;
+    }
+
+    /**
+     * 優先度に従い waitQueue に encoder を挿入する
+     * 同じ優先度の場合は後ろに積む (isHead が true の場合は前に積む)
+     * @param encoder: IEncoderModel
+     * @param isHead: boolean
+     */
+    private insertWaitQueue(encoder: IEncoderModel, isHead: boolean = false): void {
+        const priority = this.getPriority(encoder);
+        const index = this.waitQueue.findIndex(q => {
+            return isHead === true ? this.getPriority(q) <= priority : this.getPriority(q) < priority;
+        });
+
+        if (index === -1) {
+            this.waitQueue.push(encoder);
+        } else {
+            this.waitQueue.splice(index, 0, encoder);
+        }
+    }
+
+    /**
+     * encoder の優先度を返す
+     * @param encoder: IEncoderModel
+     * @return number
+     */
+    private getPriority(encoder: IEncoderModel): number {
+        const option = encoder.getEncodeOption();
+
+        return option === null || typeof option.priority === 'undefined' ? 0 : option.priority;
+    }
+
+    /**
+     * waitQueue の並び順を DB に保存する
+     * @return Promise<void>
+     */
+    private async saveWaitQueuePositions(): Promise<void> {
+        const encodeIds: apid.EncodeId[] = [];
+        for (const q of this.waitQueue) {
+            const encodeId = q.getEncodeId();
+            if (encodeId !== null) {
+                encodeIds.push(encodeId);
+            }
+        }
+
+        await this.encodeQueueItemDB.updatePositions(encodeIds).catch(err => {
+            this.log.encode.error('update encode queue positions error');
+            this.log.encode.error(err);
+        });
+    }
+
     /**
      * エンコードオプションを生成する
      * @param baseOption: apid.AddEncodeProgramOption
+     * @param encodeId: apid.EncodeId
      * @returns EncodeOption
      */
-    private createEncodeOption(baseOption: apid.AddEncodeProgramOption): EncodeOption {
+    private createEncodeOption(baseOption: apid.AddEncodeProgramOption, encodeId: apid.EncodeId): EncodeOption {
         // encoder のオプションを生成
         const encodeOption: EncodeOption = cloneDeep(baseOption) as any;
-        const encodeId = this.idCnt;
         encodeOption.encodeId = encodeId;
 
-        // idCnt をインクリメント
-        if (this.idCnt === Number.MAX_SAFE_INTEGER) {
-            this.idCnt = 0;
-        }
-        this.idCnt++;
-
         return encodeOption;
     }
 
+    /**
+     * DB に保存された queue 情報の状態を更新する
+     * @param encodeId: apid.EncodeId
+     * @param state: EncodeQueueItemState
+     * @return Promise<void>
+     */
+    private async updateQueueItemState(encodeId: apid.EncodeId, state: EncodeQueueItemState): Promise<void> {
+        await this.encodeQueueItemDB.updateState(encodeId, state).catch(err => {
+            this.log.encode.error(`update encode queue item state error: ${encodeId}`);
+            this.log.encode.error(err);
+        });
+    }
+
+    /**
+     * DB に保存された queue 情報を削除する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    private async deleteQueueItem(encodeId: apid.EncodeId): Promise<void> {
+        await this.encodeQueueItemDB.deleteOnce(encodeId).catch(err => {
+            this.log.encode.error(`delete encode queue item error: ${encodeId}`);
+            this.log.encode.error(err);
+        });
+    }
+
     /**
      * queue の状態をチェックする必要がある場合に呼ぶ
      */
@@ -110,22 +371,41 @@ class EncodeManageModel implements IEncodeManageModel {
             EncodeManageModel.CREATE_ENCODING_PROCESS_PRIPORITY,
         );
 
-        // runningQueue がロック中 or 同時エンコード最大数に達している or waitQueue が空の場合はスルー
-        if (this.runningQueue.length >= this.concurrentEncodeNum || this.waitQueue.length === 0) {
+        // queue が一時停止中 or 同時エンコード最大数に達している or waitQueue が空の場合はスルー
+        if (
+            this.isQueuePaused === true ||
+            this.runningQueue.length >= this.concurrentEncodeNum ||
+            this.waitQueue.length === 0
+        ) {
             // 実行権開放
             this.executeManagementModel.unLockExecution(exeId);
 
             return;
         }
 
-        // waitQueue から取り出す
-        const encoder = this.waitQueue.shift();
-        if (typeof encoder === 'undefined') {
+        // 開始条件を満たす要素を waitQueue から取り出す
+        let status: EncodeScheduleStatus | null = null;
+        try {
+            status = await this.scheduleModel.getStatus();
+        } catch (err: any) {
+            this.log.encode.error('get encode schedule status error');
+            this.log.encode.error(err);
+        }
+        const index = this.waitQueue.findIndex(q => {
+            const option = q.getEncodeOption();
+
+            return status === null || option === null || this.scheduleModel.check(option.mode, status).isAllowed;
+        });
+        if (index === -1) {
             // 実行権開放
             this.executeManagementModel.unLockExecution(exeId);
 
+            // 開始条件を満たすまで待つ
+            this.setScheduleCheckTimer();
+
             return;
         }
+        const [encoder] = this.waitQueue.splice(index, 1);
 
         // encodeOption が無い場合は何もしない
         const encodeOption = encoder.getEncodeOption();
@@ -139,6 +419,7 @@ class EncodeManageModel implements IEncodeManageModel {
 
         // runningQueue に積む
         this.runningQueue.push(encoder);
+        await this.updateQueueItemState(encodeOption.encodeId, 'running');
 
         // エンコード終了時の処理をセット
         encoder.setOnFinish((isError, outputFilePath) => {
@@ -156,7 +437,12 @@ class EncodeManageModel implements IEncodeManageModel {
             needsFinalize = true;
 
             // エラー通知
-            this.encodeEvent.emitErrorEncode();
+            this.encodeEvent.emitErrorEncode({
+                encodeId: encodeOption.encodeId,
+                recordedId: encodeOption.recordedId,
+                videoFileId: encodeOption.sourceVideoFileId,
+                mode: encodeOption.mode,
+            });
         }
 
         // 実行権開放
@@ -164,7 +450,26 @@ class EncodeManageModel implements IEncodeManageModel {
 
         if (needsFinalize === true) {
             this.finalize(encodeOption.encodeId);
+        } else {
+            // 同時エンコード数に空きがあれば続けて開始する
+            process.nextTick(() => {
+                this.emitNeedsCheckQueue();
+            });
+        }
+    }
+
+    /**
+     * 開始条件を満たしていないエンコードのために queue の再チェック用タイマーをセットする
+     */
+    private setScheduleCheckTimer(): void {
+        if (this.scheduleCheckTimerId !== null || this.waitQueue.length === 0) {
+            return;
         }
+
+        this.scheduleCheckTimerId = setTimeout(() => {
+            this.scheduleCheckTimerId = null;
+            this.emitNeedsCheckQueue();
+        }, EncodeManageModel.SCHEDULE_CHECK_INTERVAL);
     }
 
     /**
@@ -176,7 +481,12 @@ class EncodeManageModel implements IEncodeManageModel {
     private onFinish(isError: boolean, outputFilePath: string | null, encodeOption: EncodeOption): void {
         if (isError) {
             // エラー通知
-            this.encodeEvent.emitErrorEncode();
+            this.encodeEvent.emitErrorEncode({
+                encodeId: encodeOption.encodeId,
+                recordedId: encodeOption.recordedId,
+                videoFileId: encodeOption.sourceVideoFileId,
+                mode: encodeOption.mode,
+            });
         } else {
             // 終了通知 DB に登録を依頼
             const fileName = outputFilePath === null ? null : path.basename(outputFilePath);
@@ -189,6 +499,7 @@ class EncodeManageModel implements IEncodeManageModel {
             }
 
             this.encodeEvent.emitFinishEncode({
+                encodeId: encodeOption.encodeId,
                 recordedId: encodeOption.recordedId,
                 videoFileId: encodeOption.sourceVideoFileId,
                 parentDirName: encodeOption.parentDir,
@@ -252,6 +563,8 @@ class EncodeManageModel implements IEncodeManageModel {
         // 実行権開放
         this.executeManagementModel.unLockExecution(exeId);
 
+        await this.deleteQueueItem(encodeId);
+
         process.nextTick(() => {
             this.emitNeedsCheckQueue();
         });
@@ -276,6 +589,7 @@ class EncodeManageModel implements IEncodeManageModel {
             this.waitQueue = this.waitQueue.filter(q => {
                 return q.getEncodeId() !== encodeId;
             });
+            await this.deleteQueueItem(encodeId);
 
             process.nextTick(() => {
                 this.emitNeedsCheckQueue();
@@ -288,6 +602,190 @@ class EncodeManageModel implements IEncodeManageModel {
         this.encodeEvent.emitCancelEncode(encodeId);
     }
 
+    /**
+     * 指定した encode id を waitQueue 内の指定した位置へ移動する
+     * @param encodeId: apid.EncodeId
+     * @param position: number 移動先の位置 (0 が先頭)
+     * @return Promise<void>
+     */
+    public async move(encodeId: apid.EncodeId, position: number): Promise<void> {
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.UPDATE_QUEUE_PRIPORITY);
+
+        const index = this.waitQueue.findIndex(q => {
+            return q.getEncodeId() === encodeId;
+        });
+        if (index === -1) {
+            this.executeManagementModel.unLockExecution(exeId);
+            throw new Error(
+                typeof this.getRunnginQueueItem(encodeId) === 'undefined'
+                    ? EncodeManageErrors.NOT_FOUND
+                    : EncodeManageErrors.NOT_WAITING,
+            );
+        }
+
+        this.log.encode.info(`move encode: ${encodeId} to ${position}`);
+
+        const [encoder] = this.waitQueue.splice(index, 1);
+        this.waitQueue.splice(Math.min(Math.max(position, 0), this.waitQueue.length), 0, encoder);
+        await this.saveWaitQueuePositions();
+
+        this.executeManagementModel.unLockExecution(exeId);
+
+        // イベント発行
+        this.encodeEvent.emitUpdateEncode();
+    }
+
+    /**
+     * 指定した encode id のエンコードプロセスを一時停止する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async pause(encodeId: apid.EncodeId): Promise<void> {
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.UPDATE_QUEUE_PRIPORITY);
+
+        try {
+            await this.pauseEncoder(this.getRunningEncoder(encodeId));
+        } finally {
+            this.executeManagementModel.unLockExecution(exeId);
+        }
+
+        // イベント発行
+        this.encodeEvent.emitUpdateEncode();
+    }
+
+    /**
+     * 指定した encode id の一時停止中のエンコードプロセスを再開する
+     * @param encodeId: apid.EncodeId
+     * @return Promise<void>
+     */
+    public async resume(encodeId: apid.EncodeId): Promise<void> {
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.UPDATE_QUEUE_PRIPORITY);
+
+        try {
+            await this.resumeEncoder(this.getRunningEncoder(encodeId));
+        } finally {
+            this.executeManagementModel.unLockExecution(exeId);
+        }
+
+        // イベント発行
+        this.encodeEvent.emitUpdateEncode();
+    }
+
+    /**
+     * queue を一時停止する
+     * 新たなエンコードの開始を止め、実行中のエンコードプロセスも一時停止する
+     * @return Promise<void>
+     */
+    public async pauseQueue(): Promise<void> {
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.UPDATE_QUEUE_PRIPORITY);
+
+        this.log.encode.info('pause encode queue');
+        this.isQueuePaused = true;
+        await this.saveQueuePaused();
+
+        for (const encoder of this.runningQueue) {
+            await this.pauseEncoder(encoder).catch(err => {
+                this.log.encode.error(`pause encode failed: ${encoder.getEncodeId()}`);
+                this.log.encode.error(err);
+            });
+        }
+
+        this.executeManagementModel.unLockExecution(exeId);
+
+        // イベント発行
+        this.encodeEvent.emitUpdateEncode();
+    }
+
+    /**
+     * queue を再開する
+     * 一時停止中のエンコードプロセスは全て再開する
+     * @return Promise<void>
+     */
+    public async resumeQueue(): Promise<void> {
+        // 実行権取得
+        const exeId = await this.executeManagementModel.getExecution(EncodeManageModel.UPDATE_QUEUE_PRIPORITY);
+
+        this.log.encode.info('resume encode queue');
+        this.isQueuePaused = false;
+        await this.saveQueuePaused();
+
+        for (const encoder of this.runningQueue) {
+            await this.resumeEncoder(encoder).catch(err => {
+                this.log.encode.error(`resume encode failed: ${encoder.getEncodeId()}`);
+                this.log.encode.error(err);
+            });
+        }
+
+        this.executeManagementModel.unLockExecution(exeId);
+
+        this.emitNeedsCheckQueue();
+
+        // イベント発行
+        this.encodeEvent.emitUpdateEncode();
+    }
+
+    /**
+     * queue の一時停止状態を DB に保存する
+     * @return Promise<void>
+     */
+    private async saveQueuePaused(): Promise<void> {
+        await this.encodeQueueItemDB.updateQueuePaused(this.isQueuePaused).catch(err => {
+            this.log.encode.error('update encode queue state error');
+            this.log.encode.error(err);
+        });
+    }
+
+    /**
+     * 指定した encode id の実行中の encoder を返す
+     * @param encodeId: apid.EncodeId
+     * @return IEncoderModel
+     */
+    private getRunningEncoder(encodeId: apid.EncodeId): IEncoderModel {
+        const encoder = this.getRunnginQueueItem(encodeId);
+        if (typeof encoder !== 'undefined') {
+            return encoder;
+        }
+
+        const isWaiting = this.waitQueue.some(q => {
+            return q.getEncodeId() === encodeId;
+        });
+        throw new Error(isWaiting === true ? EncodeManageErrors.NOT_RUNNING : EncodeManageErrors.NOT_FOUND);
+    }
+
+    /**
+     * encoder を一時停止して DB の状態を更新する
+     * @param encoder: IEncoderModel
+     * @return Promise<void>
+     */
+    private async pauseEncoder(encoder: IEncoderModel): Promise<void> {
+        const encodeId = encoder.getEncodeId();
+        if (encodeId === null || encoder.isPaused() === true) {
+            return;
+        }
+
+        encoder.pause();
+        await this.updateQueueItemState(encodeId, 'paused');
+    }
+
+    /**
+     * 一時停止中の encoder を再開して DB の状態を更新する
+     * @param encoder: IEncoderModel
+     * @return Promise<void>
+     */
+    private async resumeEncoder(encoder: IEncoderModel): Promise<void> {
+        const encodeId = encoder.getEncodeId();
+        if (encodeId === null || encoder.isPaused() === false) {
+            return;
+        }
+
+        encoder.resume();
+        await this.updateQueueItemState(encodeId, 'running');
+    }
+
     /**
      * 指定した encodeId を runningQueue から取り出す
      * @param encodeId: apid.EncodeId
@@ -389,28 +887,42 @@ class EncodeManageModel implements IEncodeManageModel {
 
     /**
      * queue に積まれているエンコード情報を返す
-     * @return EncodeQueueInfo
+     * DB に保存された queue 情報を元に生成し、実行中のものには進捗情報を付与する
+     * @return Promise<EncodeQueueInfo>
      */
-    public getEncodeInfo(): EncodeQueueInfo {
+    public async getEncodeInfo(): Promise<EncodeQueueInfo> {
         const queueInfo: EncodeQueueInfo = {
             runningQueue: [],
             waitQueue: [],
+            isPaused: this.isQueuePaused,
         };
 
-        // running queue
-        for (const i of this.runningQueue) {
-            const option = i.getEncodeOption();
-            if (option === null) {
-                continue;
-            }
-
+        const items = await this.encodeQueueItemDB.findAll();
+        const status = await this.scheduleModel.getStatus();
+        for (const item of items) {
             const result: EncodeInfoItem = {
-                id: option.encodeId,
-                mode: option.mode,
-                recordedId: option.recordedId,
+                id: item.id,
+                mode: item.mode,
+                recordedId: item.recordedId,
+                priority: item.priority,
+                isPaused: item.state === 'paused',
+                isScheduled: false,
             };
 
-            const progress = i.getProgressInfo();
+            if (item.state === 'wait') {
+                // 開始条件を満たしていなければ開始予定時刻を付与する
+                const schedule = this.scheduleModel.check(item.mode, status);
+                if (schedule.isAllowed === false) {
+                    result.isScheduled = true;
+                    result.scheduledStartAt = schedule.startAt;
+                }
+
+                queueInfo.waitQueue.push(result);
+                continue;
+            }
+
+            const encoder = this.getRunnginQueueItem(item.id);
+            const progress = typeof encoder === 'undefined' ? null : encoder.getProgressInfo();
             if (progress !== null) {
                 result.percent = progress.percent;
                 result.log = progress.log;
@@ -419,20 +931,6 @@ class EncodeManageModel implements IEncodeManageModel {
             queueInfo.runningQueue.push(result);
         }
 
-        // wait queue
-        for (const i of this.waitQueue) {
-            const option = i.getEncodeOption();
-            if (option === null) {
-                continue;
-            }
-
-            queueInfo.waitQueue.push({
-                id: option.encodeId,
-                mode: option.mode,
-                recordedId: option.recordedId,
-            });
-        }
-
         return queueInfo;
     }
 }
@@ -444,6 +942,8 @@ namespace EncodeManageModel {
     export const ADD_ENCODE_PRIPORITY = 2;
     export const CREATE_ENCODING_PROCESS_PRIPORITY = 2;
     export const CLEAR_QUEUE_PRIPORITY = 3;
+    export const UPDATE_QUEUE_PRIPORITY = 3;
+    export const SCHEDULE_CHECK_INTERVAL = 1000 * 60;
     export const NEEDS_CHECK_QUEUE_EVENT = 'needsCheckQueue';
     export const ENCODE_PRIPORITY = 10;
     export const DEFAULT_TIMEOUT_RATE = 4.0;
@@ -11,6 +11,7 @@ interface ChildProcessInfo {
     child: ChildProcess;
     priority: number;
     processId: number;
+    isProcessGroup: boolean; // detached で生成したか
 }
 
 @injectable()
@@ -69,6 +70,25 @@ class EncodeProcessManageModel implements IEncodeProcessManageModel {
         });
     }
 
+    /**
+     * 全てのエンコードプロセスを終了させる
+     * プロセスグループを分けたプロセスは親プロセスが終了しても残るため, 終了時に同期的に呼び出す
+     */
+    public killAll(): void {
+        for (const info of this.childs) {
+            this.log.encode.info(`kill child: ${info.processId}`);
+            try {
+                // 一時停止中のプロセスはシグナルを処理できないので再開させる
+                if (info.isProcessGroup === true) {
+                    ProcessUtil.sendSignal(info.child, 'SIGCONT', true);
+                }
+                ProcessUtil.sendSignal(info.child, 'SIGTERM', info.isProcessGroup);
+            } catch (err: any) {
+                this.log.encode.error(err);
+            }
+        }
+    }
+
     /**
      * 指定された processId のプロセスを殺して、option で指定されたコマンドのプロセスを生成する
      * @param planToKillProcessId; number
@@ -165,7 +185,7 @@ class EncodeProcessManageModel implements IEncodeProcessManageModel {
                 try {
                     if (isRemoveOnly === false) {
                         this.log.encode.info(`kill child: ${processId}`);
-                        await ProcessUtil.kill(this.childs[i].child);
+                        await ProcessUtil.kill(this.childs[i].child, undefined, this.childs[i].isProcessGroup);
                     }
                 } catch (err: any) {
                     this.log.encode.error(err);
@@ -250,6 +270,7 @@ class EncodeProcessManageModel implements IEncodeProcessManageModel {
             child: child,
             priority: option.priority,
             processId: processId,
+            isProcessGroup: typeof option.spawnOption !== 'undefined' && option.spawnOption.detached === true,
         };
     }
 
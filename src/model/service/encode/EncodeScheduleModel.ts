@@ -0,0 +1,230 @@
+import { inject, injectable } from 'inversify';
+import * as os from 'os';
+import * as apid from '../../../../api';
+import IRecordedDB from '../../db/IRecordedDB';
+import IConfigFile, { EncodeScheduleConfig, EncodeWindow } from '../../IConfigFile';
+import IConfiguration from '../../IConfiguration';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import IStreamManageModel from '../stream/manager/IStreamManageModel';
+import IEncodeScheduleModel, { EncodeScheduleResult, EncodeScheduleStatus } from './IEncodeScheduleModel';
+
+/**
+ * 時間帯, 録画, ストリーミング, 負荷状況からエンコードを開始できるか判定する
+ */
+@injectable()
+export default class EncodeScheduleModel implements IEncodeScheduleModel {
+    private log: ILogger;
+    private config: IConfigFile;
+    private recordedDB: IRecordedDB;
+    private streamManage: IStreamManageModel;
+
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IRecordedDB') recordedDB: IRecordedDB,
+        @inject('IStreamManageModel') streamManage: IStreamManageModel,
+    ) {
+        this.log = logger.getLogger();
+        this.config = configuration.getConfig();
+        this.recordedDB = recordedDB;
+        this.streamManage = streamManage;
+    }
+
+    /**
+     * エンコード開始条件の判定に使用する現在の状態を取得する
+     * @return Promise<EncodeScheduleStatus>
+     */
+    public async getStatus(): Promise<EncodeScheduleStatus> {
+        const status: EncodeScheduleStatus = {
+            now: new Date().getTime(),
+            recordingEndAt: null,
+            isStreaming: false,
+            loadAverage: os.loadavg()[0],
+        };
+
+        const schedules = this.getAllSchedules();
+
+        // 録画中の番組の終了時刻を取得する
+        const needsRecording = schedules.some(s => {
+            return s.isHoldWhileRecording === true;
+        });
+        if (needsRecording === true) {
+            try {
+                const [recordings] = await this.recordedDB.findAll(
+                    {
+                        isHalfWidth: false,
+                        isRecording: true,
+                    },
+                    {
+                        isNeedVideoFiles: false,
+                        isNeedThumbnails: false,
+                        isNeedsDropLog: false,
+                        isNeedTags: false,
+                    },
+                );
+                for (const r of recordings) {
+                    if (status.recordingEndAt === null || status.recordingEndAt < r.endAt) {
+                        status.recordingEndAt = r.endAt;
+                    }
+                }
+            } catch (err: any) {
+                this.log.encode.error('get recording items error');
+                this.log.encode.error(err);
+            }
+        }
+
+        status.isStreaming = this.streamManage.getStreamInfos().length > 0;
+
+        return status;
+    }
+
+    /**
+     * 指定したエンコードモードのエンコードを開始できるか判定する
+     * @param mode: string config encode の name
+     * @param status: EncodeScheduleStatus
+     * @return EncodeScheduleResult
+     */
+    public check(mode: string, status: EncodeScheduleStatus): EncodeScheduleResult {
+        const schedule = this.getSchedule(mode);
+        if (schedule === null) {
+            return {
+                isAllowed: true,
+            };
+        }
+
+        let isAllowed = true;
+        let isUnpredictable = false;
+        let startAt: apid.UnixtimeMS = status.now;
+
+        // 時間帯
+        if (typeof schedule.windows !== 'undefined' && schedule.windows.length > 0) {
+            const windowStartAt = this.getWindowStartAt(schedule.windows, status.now);
+            if (windowStartAt !== null && windowStartAt > status.now) {
+                isAllowed = false;
+                startAt = windowStartAt;
+            }
+        }
+
+        // 録画中
+        if (schedule.isHoldWhileRecording === true && status.recordingEndAt !== null) {
+            isAllowed = false;
+            startAt = Math.max(startAt, status.recordingEndAt);
+        }
+
+        // ストリーミング中
+        if (schedule.isHoldWhileStreaming === true && status.isStreaming === true) {
+            isAllowed = false;
+            isUnpredictable = true;
+        }
+
+        // 負荷
+        if (typeof schedule.maxLoadAverage !== 'undefined' && status.loadAverage >= schedule.maxLoadAverage) {
+            isAllowed = false;
+            isUnpredictable = true;
+        }
+
+        const result: EncodeScheduleResult = {
+            isAllowed: isAllowed,
+        };
+        if (isAllowed === false && isUnpredictable === false) {
+            result.startAt = startAt;
+        }
+
+        return result;
+    }
+
+    /**
+     * 指定したエンコードモードに適用される開始条件を返す
+     * @param mode: string
+     * @return EncodeScheduleConfig | null 条件がない場合は null
+     */
+    private getSchedule(mode: string): EncodeScheduleConfig | null {
+        const encodeCmd = this.config.encode.find(enc => {
+            return enc.name === mode;
+        });
+        if (typeof encodeCmd !== 'undefined' && typeof encodeCmd.schedule !== 'undefined') {
+            return encodeCmd.schedule;
+        }
+
+        return typeof this.config.encodeSchedule === 'undefined' ? null : this.config.encodeSchedule;
+    }
+
+    /**
+     * 設定されている全ての開始条件を返す
+     * @return EncodeScheduleConfig[]
+     */
+    private getAllSchedules(): EncodeScheduleConfig[] {
+        const schedules: EncodeScheduleConfig[] = [];
+        if (typeof this.config.encodeSchedule !== 'undefined') {
+            schedules.push(this.config.encodeSchedule);
+        }
+        for (const enc of this.config.encode) {
+            if (typeof enc.schedule !== 'undefined') {
+                schedules.push(enc.schedule);
+            }
+        }
+
+        return schedules;
+    }
+
+    /**
+     * 指定した時刻以降で最初にエンコード可能な時間帯に入る時刻を返す
+     * @param windows: EncodeWindow[]
+     * @param now: apid.UnixtimeMS
+     * @return apid.UnixtimeMS | null 時間帯内の場合は now を返す. 有効な時間帯の設定がない場合は null
+     */
+    private getWindowStartAt(windows: EncodeWindow[], now: apid.UnixtimeMS): apid.UnixtimeMS | null {
+        const date = new Date(now);
+        const current = date.getHours() * 60 + date.getMinutes();
+        const todayBase = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+        let result: apid.UnixtimeMS | null = null;
+        for (const w of windows) {
+            const start = this.parseTime(w.start);
+            const end = this.parseTime(w.end);
+            if (start === null || end === null) {
+                this.log.encode.warn(`invalid encode window: ${w.start} - ${w.end}`);
+                continue;
+            }
+
+            const isInWindow =
+                start === end ||
+                (start < end && start <= current && current < end) ||
+                (start > end && (current >= start || current < end));
+            if (isInWindow === true) {
+                return now;
+            }
+
+            let startAt = new Date(todayBase).setMinutes(start);
+            if (startAt <= now) {
+                startAt = new Date(todayBase + 24 * 60 * 60 * 1000).setMinutes(start);
+            }
+            if (result === null || startAt < result) {
+                result = startAt;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * HH:mm 形式の時刻を 0 時からの経過分に変換する
+     * @param time: string
+     * @return number | null 不正な形式の場合は null
+     */
+    private parseTime(time: string): number | null {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+        if (match === null) {
+            return null;
+        }
+
+        const hours = parseInt(match[1], 10);
+        const minutes = parseInt(match[2], 10);
+        if (hours > 23 || minutes > 59) {
+            return null;
+        }
+
+        return hours * 60 + minutes;
+    }
+}
@@ -37,7 +37,11 @@ class EncoderModel implements IEncoderModel {
     private encodeOption: EncodeOption | null = null; // エンコード情報
     private childProcess: ChildProcess | null = null; // エンコードプロセス
     private timerId: NodeJS.Timer | null = null; // タイムアウト検知用タイマーid
+    private timeoutAt: apid.UnixtimeMS = 0; // タイムアウト時刻
+    private remainingTimeout: number | null = null; // 一時停止時のタイムアウトまでの残り時間
+    private onTimeout: (() => Promise<void>) | null = null; // タイムアウト時の処理
     private isCanceld: boolean = false; // キャンセルが呼び出されたか?
+    private isPausedProcess: boolean = false; // エンコードプロセスを一時停止しているか
     private progressInfo: EncodeProgressInfo | null = null;
 
     constructor(
@@ -182,6 +186,8 @@ class EncoderModel implements IEncoderModel {
             cmd: encodeCmd.cmd,
             priority: EncoderModel.ENCODE_PRIPORITY,
             spawnOption: {
+                // enc.js 等のラッパーから起動された孫プロセスにもシグナルが届くようにプロセスグループを分ける
+                detached: ProcessUtil.canCreateProcessGroup(),
                 env: {
                     ...process.env,
                     RECORDEDID: recorded.id.toString(10),
@@ -228,15 +234,15 @@ class EncoderModel implements IEncoderModel {
         });
 
         // タイムアウト設定
-        this.timerId = setTimeout(
-            async () => {
-                if (this.encodeOption === null) {
-                    return;
-                }
+        this.onTimeout = async () => {
+            if (this.encodeOption === null) {
+                return;
+            }
 
-                this.log.encode.error(`encode process is time out: ${this.encodeOption.encodeId} ${outputFilePath}`);
-                await this.cancel();
-            },
+            this.log.encode.error(`encode process is time out: ${this.encodeOption.encodeId} ${outputFilePath}`);
+            await this.cancel();
+        };
+        this.setTimeoutTimer(
             recorded.duration *
                 (typeof encodeCmd.rate === 'undefined' ? EncoderModel.DEFAULT_TIMEOUT_RATE : encodeCmd.rate),
         );
@@ -284,6 +290,19 @@ class EncoderModel implements IEncoderModel {
         }
     }
 
+    /**
+     * タイムアウト検知用タイマーをセットする
+     * @param timeout: number タイムアウトまでの時間 (ms)
+     */
+    private setTimeoutTimer(timeout: number): void {
+        this.timeoutAt = new Date().getTime() + timeout;
+        this.timerId = setTimeout(async () => {
+            if (this.onTimeout !== null) {
+                await this.onTimeout();
+            }
+        }, timeout);
+    }
+
     /**
      * queueItem で指定された dir パスを取得する
      * @param queueItem: EncodeOption
@@ -328,7 +347,11 @@ class EncoderModel implements IEncoderModel {
                     };
 
                     // エンコード進捗変更通知
-                    this.encodeEvent.emitUpdateEncodeProgress();
+                    this.encodeEvent.emitUpdateEncodeProgress({
+                        encodeId: this.encodeOption.encodeId,
+                        percent: log.percent,
+                        log: log.log,
+                    });
                 }
             }
         }
@@ -353,6 +376,8 @@ class EncoderModel implements IEncoderModel {
         if (this.timerId !== null) {
             clearTimeout(this.timerId);
         }
+        this.remainingTimeout = null;
+        this.isPausedProcess = false;
 
         // ファイルパスの登録を削除
         if (outputFilePath !== null) {
@@ -413,14 +438,78 @@ class EncoderModel implements IEncoderModel {
                 `kill encode process encodeId: ${this.encodeOption.encodeId}, pid: ${this.childProcess.pid}`,
             );
 
+            // 一時停止中のプロセスはシグナルを処理できないので再開させる
+            if (this.isPausedProcess === true) {
+                ProcessUtil.sendSignal(this.childProcess, 'SIGCONT', this.isProcessGroup());
+                this.isPausedProcess = false;
+            }
+
             this.isCanceld = true;
-            await ProcessUtil.kill(this.childProcess).catch(err => {
+            await ProcessUtil.kill(this.childProcess, undefined, this.isProcessGroup()).catch(err => {
                 this.log.encode.error(`kill encode process failed: ${this.encodeOption?.encodeId}`);
                 this.log.encode.error(err);
             });
         }
     }
 
+    /**
+     * エンコードプロセスを一時停止する (SIGSTOP)
+     * 一時停止中はタイムアウト検知を止める
+     */
+    public pause(): void {
+        if (this.childProcess === null || this.isPausedProcess === true || this.isCanceld === true) {
+            return;
+        }
+
+        this.log.encode.info(`pause encode: ${this.encodeOption?.encodeId}, pid: ${this.childProcess.pid}`);
+        if (ProcessUtil.sendSignal(this.childProcess, 'SIGSTOP', this.isProcessGroup()) === false) {
+            throw new Error('PauseEncodeProcessError');
+        }
+        this.isPausedProcess = true;
+
+        if (this.timerId !== null) {
+            clearTimeout(this.timerId);
+            this.timerId = null;
+            this.remainingTimeout = Math.max(this.timeoutAt - new Date().getTime(), 0);
+        }
+    }
+
+    /**
+     * 一時停止中のエンコードプロセスを再開する (SIGCONT)
+     */
+    public resume(): void {
+        if (this.childProcess === null || this.isPausedProcess === false) {
+            return;
+        }
+
+        this.log.encode.info(`resume encode: ${this.encodeOption?.encodeId}, pid: ${this.childProcess.pid}`);
+        if (ProcessUtil.sendSignal(this.childProcess, 'SIGCONT', this.isProcessGroup()) === false) {
+            throw new Error('ResumeEncodeProcessError');
+        }
+        this.isPausedProcess = false;
+
+        if (this.remainingTimeout !== null) {
+            this.setTimeoutTimer(this.remainingTimeout);
+            this.remainingTimeout = null;
+        }
+    }
+
+    /**
+     * エンコードプロセスをプロセスグループごと操作するか
+     * @return boolean
+     */
+    private isProcessGroup(): boolean {
+        return ProcessUtil.canCreateProcessGroup();
+    }
+
+    /**
+     * エンコードプロセスが一時停止中か
+     * @return boolean
+     */
+    public isPaused(): boolean {
+        return this.isPausedProcess;
+    }
+
     /**
      * セットされたエンコードオプションを返す
      * @returns EncodeOption | null
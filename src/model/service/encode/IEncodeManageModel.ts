@@ -1,5 +1,11 @@
 import * as apid from '../../../../api';
 
+export namespace EncodeManageErrors {
+    export const NOT_FOUND = 'EncodeIsNotFound';
+    export const NOT_WAITING = 'EncodeIsNotWaiting';
+    export const NOT_RUNNING = 'EncodeIsNotRunning';
+}
+
 export interface EncodeRecordedIdIndex {
     [recordedId: number]: {
         encodeId: apid.EncodeId;
@@ -10,20 +16,31 @@ export interface EncodeRecordedIdIndex {
 export interface EncodeQueueInfo {
     runningQueue: EncodeInfoItem[];
     waitQueue: EncodeInfoItem[];
+    isPaused: boolean;
 }
 
 export interface EncodeInfoItem {
     id: apid.EncodeId;
     mode: string;
     recordedId: apid.RecordedId;
+    priority: number;
+    isPaused: boolean;
+    isScheduled: boolean; // 開始条件を満たすまで待機中か
+    scheduledStartAt?: apid.UnixtimeMS; // 開始予定時刻
     percent?: number;
     log?: string;
 }
 
 export default interface IEncodeManageModel {
     push(addOption: apid.AddEncodeProgramOption): Promise<apid.EncodeId>;
+    restore(): Promise<void>;
     cancel(encodeId: apid.EncodeId): Promise<void>;
+    move(encodeId: apid.EncodeId, position: number): Promise<void>;
+    pause(encodeId: apid.EncodeId): Promise<void>;
+    resume(encodeId: apid.EncodeId): Promise<void>;
+    pauseQueue(): Promise<void>;
+    resumeQueue(): Promise<void>;
     getRecordedIndex(): EncodeRecordedIdIndex;
     cancelEncodeByRecordedId(recordedId: apid.RecordedId): Promise<void>;
-    getEncodeInfo(): EncodeQueueInfo;
+    getEncodeInfo(): Promise<EncodeQueueInfo>;
 }
@@ -0,0 +1,24 @@
+import * as apid from '../../../../api';
+
+/**
+ * エンコード開始条件の判定に使用する現在の状態
+ */
+export interface EncodeScheduleStatus {
+    now: apid.UnixtimeMS;
+    recordingEndAt: apid.UnixtimeMS | null; // 録画中の番組の終了時刻 (録画中でない場合は null)
+    isStreaming: boolean;
+    loadAverage: number;
+}
+
+/**
+ * エンコード開始条件の判定結果
+ */
+export interface EncodeScheduleResult {
+    isAllowed: boolean; // エンコードを開始できるか
+    startAt?: apid.UnixtimeMS; // 開始できない場合の開始予定時刻 (予測できない場合は undefined)
+}
+
+export default interface IEncodeScheduleModel {
+    getStatus(): Promise<EncodeScheduleStatus>;
+    check(mode: string, status: EncodeScheduleStatus): EncodeScheduleResult;
+}
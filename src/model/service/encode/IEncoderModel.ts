@@ -16,6 +16,9 @@ export interface IEncoderModel {
     setOnFinish(callback: (isError: boolean, outputFilePath: string | null) => void): void;
     start(): Promise<void>;
     cancel(): Promise<void>;
+    pause(): void;
+    resume(): void;
+    isPaused(): boolean;
     getEncodeOption(): EncodeOption | null;
     getProgressInfo(): EncodeProgressInfo | null;
     getEncodeId(): apid.EncodeId | null;
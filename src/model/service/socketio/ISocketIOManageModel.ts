@@ -1,7 +1,9 @@
 import * as http from 'http';
+import * as apid from '../../../../api';
 
 export default interface ISocketIOManageModel {
     initialize(servers: http.Server[]): void;
-    notifyClient(): void;
-    notifyUpdateEncodeProgress(): void;
+    notifyClient(event?: apid.ServerEvent): void;
+    notifyUpdateEncode(event?: apid.EncodeServerEvent): void;
+    notifyEncodeProgress(item: apid.EncodeProgressItem): void;
 }
@@ -2,23 +2,38 @@ import * as http from 'http';
 import { inject, injectable } from 'inversify';
 import * as SocketIO from 'socket.io';
 import urljoin from 'url-join';
+import * as apid from '../../../../api';
+import ServerEventUtil from '../../../util/ServerEventUtil';
 import IConfigFile from '../../IConfigFile';
 import IConfiguration from '../../IConfiguration';
 import ILogger from '../../ILogger';
 import ILoggerModel from '../../ILoggerModel';
+import IAuthenticationModel from '../auth/IAuthenticationModel';
+import ISSEManageModel from '../sse/ISSEManageModel';
 import ISocketIOManageModel from './ISocketIOManageModel';
 
 @injectable()
-export default class SocketIOManageModel implements ISocketIOManageModel {
+class SocketIOManageModel implements ISocketIOManageModel {
     private log: ILogger;
     private config: IConfigFile;
+    private authenticationModel: IAuthenticationModel;
+    private sseManage: ISSEManageModel;
     private ios: SocketIO.Server[] = [];
+    private eventNamespaces: SocketIO.Namespace[] = [];
     private callTimer: NodeJS.Timer | null = null;
     private encodeProgressCallTimer: NodeJS.Timer | null = null;
+    private encodeProgressItems: { [encodeId: number]: apid.EncodeProgressItem } = {};
 
-    constructor(@inject('ILoggerModel') logger: ILoggerModel, @inject('IConfiguration') configuration: IConfiguration) {
+    constructor(
+        @inject('ILoggerModel') logger: ILoggerModel,
+        @inject('IConfiguration') configuration: IConfiguration,
+        @inject('IAuthenticationModel') authenticationModel: IAuthenticationModel,
+        @inject('ISSEManageModel') sseManage: ISSEManageModel,
+    ) {
         this.log = logger.getLogger();
         this.config = configuration.getConfig();
+        this.authenticationModel = authenticationModel;
+        this.sseManage = sseManage;
     }
 
     /**
@@ -27,26 +42,111 @@ export default class SocketIOManageModel implements ISocketIOManageModel {
      */
     public initialize(servers: http.Server[]): void {
         for (const s of servers) {
-            this.ios.push(
-                new SocketIO.Server(s, {
-                    path:
-                        typeof this.config.subDirectory === 'undefined'
-                            ? '/socket.io'
-                            : urljoin(this.config.subDirectory, '/socket.io'),
-                    cors: {
-                        origin: '*',
-                    },
-                }),
-            );
+            const io = new SocketIO.Server(s, {
+                path:
+                    typeof this.config.subDirectory === 'undefined'
+                        ? '/socket.io'
+                        : urljoin(this.config.subDirectory, '/socket.io'),
+                cors: {
+                    origin: '*',
+                },
+            });
+            io.use((socket, next) => {
+                this.authenticate(socket, next);
+            });
+            this.ios.push(io);
+
+            // 変更内容を通知する namespace
+            const eventNamespace = io.of(SocketIOManageModel.EVENT_NAMESPACE);
+            eventNamespace.use((socket, next) => {
+                this.authenticate(socket, next);
+            });
+            eventNamespace.on('connection', socket => {
+                this.onConnectEventNamespace(socket);
+            });
+            this.eventNamespaces.push(eventNamespace);
         }
 
         this.log.system.info('SocketIO Server has started.');
     }
 
+    /**
+     * 接続時の認証
+     * トークンは auth.token もしくは query の token で受け取る
+     * @param socket: SocketIO.Socket
+     * @param next: (err?: Error) => void
+     */
+    private async authenticate(socket: SocketIO.Socket, next: (err?: Error) => void): Promise<void> {
+        if (this.authenticationModel.isEnabled() === false) {
+            next();
+
+            return;
+        }
+
+        // query のトークンはストリーミング用トークンのみ受け付ける
+        let token: string | null = null;
+        let isQueryToken = false;
+        if (typeof socket.handshake.auth.token === 'string') {
+            token = socket.handshake.auth.token;
+        } else if (typeof socket.handshake.query.token === 'string') {
+            token = socket.handshake.query.token;
+            isQueryToken = true;
+        }
+
+        try {
+            const authInfo = token === null ? null : await this.authenticationModel.authenticate(token);
+            if (authInfo !== null && (authInfo.tokenType === 'stream') === isQueryToken) {
+                next();
+
+                return;
+            }
+        } catch (err: any) {
+            this.log.system.error('socket.io authentication error');
+            this.log.system.error(err);
+        }
+
+        next(new Error('Unauthorized'));
+    }
+
+    /**
+     * イベント通知用 namespace 接続時の処理
+     * auth.categories もしくは query の categories で指定されたイベントの種類の room に参加させる
+     * 未指定の場合は全ての room に参加させる
+     * @param socket: SocketIO.Socket
+     */
+    private onConnectEventNamespace(socket: SocketIO.Socket): void {
+        let categories = ServerEventUtil.parseCategories(
+            typeof socket.handshake.auth.categories !== 'undefined'
+                ? socket.handshake.auth.categories
+                : socket.handshake.query.categories,
+        );
+        if (categories.length === 0) {
+            categories = ServerEventUtil.CATEGORIES;
+        }
+        socket.join(categories);
+
+        // 購読の追加
+        socket.on(SocketIOManageModel.SUBSCRIBE_EVENT, (value: unknown) => {
+            socket.join(ServerEventUtil.parseCategories(value));
+        });
+
+        // 購読の解除
+        socket.on(SocketIOManageModel.UNSUBSCRIBE_EVENT, (value: unknown) => {
+            for (const category of ServerEventUtil.parseCategories(value)) {
+                socket.leave(category);
+            }
+        });
+    }
+
     /**
      * client へ状態変更通知
+     * @param event?: apid.ServerEvent 変更内容
      */
-    public notifyClient(): void {
+    public notifyClient(event?: apid.ServerEvent): void {
+        if (typeof event !== 'undefined') {
+            this.emitServerEvent(event);
+        }
+
         if (this.callTimer === null) {
             this.callTimer = setTimeout(() => {
                 this.callTimer = null;
@@ -56,16 +156,39 @@ export default class SocketIOManageModel implements ISocketIOManageModel {
                 }
 
                 for (const io of this.ios) {
-                    io.sockets.emit('updateStatus');
+                    io.sockets.emit(SocketIOManageModel.UPDATE_STATUS_EVENT);
                 }
             }, 200);
         }
     }
 
     /**
-     * エンコードの進捗情報更新を通知
+     * エンコードの一時停止状態, 並び順の更新を通知
+     * @param event?: apid.EncodeServerEvent 変更内容
      */
-    public notifyUpdateEncodeProgress(): void {
+    public notifyUpdateEncode(event?: apid.EncodeServerEvent): void {
+        if (typeof event !== 'undefined') {
+            this.emitServerEvent(event);
+        }
+
+        this.setEncodeProgressCallTimer();
+    }
+
+    /**
+     * エンコードの進捗情報の更新を通知
+     * 進捗情報は頻繁に更新されるため, まとめて通知する
+     * @param item: apid.EncodeProgressItem
+     */
+    public notifyEncodeProgress(item: apid.EncodeProgressItem): void {
+        this.encodeProgressItems[item.encodeId] = item;
+
+        this.setEncodeProgressCallTimer();
+    }
+
+    /**
+     * エンコード状態の更新通知用タイマーをセットする
+     */
+    private setEncodeProgressCallTimer(): void {
         if (this.encodeProgressCallTimer === null) {
             this.encodeProgressCallTimer = setTimeout(() => {
                 this.encodeProgressCallTimer = null;
@@ -74,10 +197,43 @@ export default class SocketIOManageModel implements ISocketIOManageModel {
                     throw new Error('must call SocketIoManageModel initialize');
                 }
 
+                const items = Object.values(this.encodeProgressItems);
+                this.encodeProgressItems = {};
+                if (items.length > 0) {
+                    this.emitServerEvent({
+                        category: 'encode',
+                        type: 'progress',
+                        items: items,
+                    });
+                }
+
                 for (const io of this.ios) {
-                    io.sockets.emit('updateEncode');
+                    io.sockets.emit(SocketIOManageModel.UPDATE_ENCODE_EVENT);
                 }
             }, 200);
         }
     }
+
+    /**
+     * 変更内容を購読しているクライアントへ送信する
+     * @param event: apid.ServerEvent
+     */
+    private emitServerEvent(event: apid.ServerEvent): void {
+        for (const namespace of this.eventNamespaces) {
+            namespace.to(event.category).emit(SocketIOManageModel.SERVER_EVENT, event);
+        }
+
+        this.sseManage.notify(event);
+    }
 }
+
+namespace SocketIOManageModel {
+    export const EVENT_NAMESPACE = '/events';
+    export const UPDATE_STATUS_EVENT = 'updateStatus';
+    export const UPDATE_ENCODE_EVENT = 'updateEncode';
+    export const SERVER_EVENT = 'event';
+    export const SUBSCRIBE_EVENT = 'subscribe';
+    export const UNSUBSCRIBE_EVENT = 'unsubscribe';
+}
+
+export default SocketIOManageModel;
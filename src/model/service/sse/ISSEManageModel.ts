@@ -0,0 +1,7 @@
+import * as express from 'express';
+import * as apid from '../../../../api';
+
+export default interface ISSEManageModel {
+    addClient(res: express.Response, categories: apid.ServerEventCategory[]): void;
+    notify(event: apid.ServerEvent): void;
+}
@@ -0,0 +1,85 @@
+import * as express from 'express';
+import { inject, injectable } from 'inversify';
+import * as apid from '../../../../api';
+import ILogger from '../../ILogger';
+import ILoggerModel from '../../ILoggerModel';
+import ISSEManageModel from './ISSEManageModel';
+
+interface SSEClient {
+    res: express.Response;
+    categories: apid.ServerEventCategory[];
+}
+
+@injectable()
+class SSEManageModel implements ISSEManageModel {
+    private log: ILogger;
+    private clients: SSEClient[] = [];
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+
+    constructor(@inject('ILoggerModel') logger: ILoggerModel) {
+        this.log = logger.getLogger();
+    }
+
+    /**
+     * Server-Sent Events の接続を追加する
+     * 接続が閉じられるまで res は開いたままになる
+     * @param res: express.Response
+     * @param categories: apid.ServerEventCategory[] 購読するイベントの種類
+     */
+    public addClient(res: express.Response, categories: apid.ServerEventCategory[]): void {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no'); // nginx のバッファリングを無効化する
+        res.flushHeaders();
+        res.write(`retry: ${SSEManageModel.RETRY_INTERVAL}\n\n`);
+
+        const client: SSEClient = {
+            res: res,
+            categories: categories,
+        };
+        this.clients.push(client);
+        this.log.system.info(`add sse client: ${categories.join(',')}`);
+
+        res.on('close', () => {
+            this.clients = this.clients.filter(c => {
+                return c !== client;
+            });
+
+            if (this.clients.length === 0 && this.heartbeatTimer !== null) {
+                clearInterval(this.heartbeatTimer);
+                this.heartbeatTimer = null;
+            }
+        });
+
+        // プロキシ等で切断されないように定期的にコメントを送信する
+        if (this.heartbeatTimer === null) {
+            this.heartbeatTimer = setInterval(() => {
+                for (const c of this.clients) {
+                    c.res.write(': heartbeat\n\n');
+                }
+            }, SSEManageModel.HEARTBEAT_INTERVAL);
+        }
+    }
+
+    /**
+     * 購読しているクライアントへイベントを送信する
+     * @param event: apid.ServerEvent
+     */
+    public notify(event: apid.ServerEvent): void {
+        const data = `event: ${event.category}\ndata: ${JSON.stringify(event)}\n\n`;
+        for (const c of this.clients) {
+            if (c.categories.includes(event.category) === true) {
+                c.res.write(data);
+            }
+        }
+    }
+}
+
+namespace SSEManageModel {
+    export const RETRY_INTERVAL = 3 * 1000;
+    export const HEARTBEAT_INTERVAL = 30 * 1000;
+}
+
+export default SSEManageModel;
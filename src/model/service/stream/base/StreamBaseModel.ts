@@ -199,7 +199,11 @@ abstract class StreamBaseModel<T> implements IStreamBaseModel<T> {
                 }
                 this.isEnableStream = true;
                 this.log.stream.info(`enable stream: ${streamId}`);
-                this.socketIO.notifyClient();
+                this.socketIO.notifyClient({
+                    category: 'stream',
+                    type: 'enabled',
+                    streamId: streamId,
+                });
             }
         }, 100);
     }
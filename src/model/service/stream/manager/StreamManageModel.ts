@@ -58,7 +58,11 @@ class StreamManageModel implements IStreamManageModel {
         });
 
         finalize();
-        this.socketIO.notifyClient();
+        this.socketIO.notifyClient({
+            category: 'stream',
+            type: 'started',
+            streamId: streamId,
+        });
 
         return streamId;
     }
@@ -107,7 +111,11 @@ class StreamManageModel implements IStreamManageModel {
         delete this.streams[streamId];
 
         finalize();
-        this.socketIO.notifyClient();
+        this.socketIO.notifyClient({
+            category: 'stream',
+            type: 'stopped',
+            streamId: streamId,
+        });
 
         this.log.stream.info(`stop stream ${streamId}`);
     }
@@ -0,0 +1,106 @@
+import * as crypto from 'crypto';
+import * as apid from '../../api';
+
+/**
+ * 認証周りの Util
+ */
+namespace AuthUtil {
+    const HASH_ALGORITHM = 'scrypt';
+    const SALT_LENGTH = 16;
+    const KEY_LENGTH = 64;
+    const TOKEN_LENGTH = 32;
+
+    /**
+     * 権限の強さ順
+     */
+    export const ROLES: apid.UserRole[] = ['viewer', 'reserver', 'admin'];
+
+    /**
+     * scrypt
+     * @param password: string
+     * @param salt: string
+     * @return Promise<Buffer>
+     */
+    const scrypt = (password: string, salt: string): Promise<Buffer> => {
+        return new Promise<Buffer>((resolve: (key: Buffer) => void, reject: (error: Error) => void) => {
+            crypto.scrypt(password, salt, KEY_LENGTH, (err, key) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(key);
+                }
+            });
+        });
+    };
+
+    /**
+     * パスワードをハッシュ化する
+     * @param password: string
+     * @return Promise<string> `scrypt$salt$hash` 形式の文字列
+     */
+    export const hashPassword = async (password: string): Promise<string> => {
+        const salt = crypto.randomBytes(SALT_LENGTH).toString('hex');
+        const key = await scrypt(password, salt);
+
+        return `${HASH_ALGORITHM}$${salt}$${key.toString('hex')}`;
+    };
+
+    /**
+     * パスワードがハッシュ値と一致するか検証する
+     * @param password: string
+     * @param passwordHash: string hashPassword で生成した文字列
+     * @return Promise<boolean> 一致する場合は true を返す
+     */
+    export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+        const [algorithm, salt, hash] = passwordHash.split('$');
+        if (algorithm !== HASH_ALGORITHM || typeof salt === 'undefined' || typeof hash === 'undefined') {
+            return false;
+        }
+
+        const expected = Buffer.from(hash, 'hex');
+        const key = await scrypt(password, salt);
+
+        return expected.length === key.length && crypto.timingSafeEqual(expected, key);
+    };
+
+    /**
+     * ランダムなトークンを生成する
+     * @return string
+     */
+    export const createToken = (): string => {
+        return crypto.randomBytes(TOKEN_LENGTH).toString('hex');
+    };
+
+    /**
+     * トークンのハッシュ値を返す
+     * DB にはトークン自体ではなくこの値を保存する
+     * @param token: string
+     * @return string
+     */
+    export const hashToken = (token: string): string => {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    };
+
+    /**
+     * 指定した権限が必要な操作を実行可能か
+     * @param role: apid.UserRole ユーザーの権限
+     * @param permission: apid.UserRole 操作に必要な権限
+     * @return boolean
+     */
+    export const hasPermission = (role: apid.UserRole, permission: apid.UserRole): boolean => {
+        return ROLES.indexOf(role) >= ROLES.indexOf(permission);
+    };
+
+    /**
+     * 指定した権限で実行可能な操作の権限一覧を返す
+     * @param role: apid.UserRole
+     * @return apid.UserRole[]
+     */
+    export const getPermissions = (role: apid.UserRole): apid.UserRole[] => {
+        return ROLES.filter(permission => {
+            return hasPermission(role, permission);
+        });
+    };
+}
+
+export default AuthUtil;
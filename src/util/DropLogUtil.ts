@@ -0,0 +1,24 @@
+import * as path from 'path';
+
+/**
+ * ドロップログ周りの Util
+ */
+namespace DropLogUtil {
+    /**
+     * ドロップログ詳細ファイルの拡張子
+     */
+    export const DETAIL_FILE_EXTENSION = '.json';
+
+    /**
+     * ドロップログファイルパスから対応するドロップログ詳細ファイルのパスを返す
+     * @param logFilePath: string ドロップログファイルパス
+     * @return string
+     */
+    export const getDetailFilePath = (logFilePath: string): string => {
+        const ext = path.extname(logFilePath);
+
+        return logFilePath.slice(0, logFilePath.length - ext.length) + DETAIL_FILE_EXTENSION;
+    };
+}
+
+export default DropLogUtil;
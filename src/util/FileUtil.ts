@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import { mkdirp } from 'mkdirp';
 import * as path from 'path';
+import { pipeline } from 'stream';
 
 namespace FileUtil {
     /**
@@ -219,6 +220,24 @@ namespace FileUtil {
         });
     };
 
+    /**
+     * 指定したファイルの末尾に別のファイルの内容を追加
+     * @param src: string 追加するファイルのパス
+     * @param dest: string 追加先のファイルのパス
+     * @return Promise<void>
+     */
+    export const concatFile = (src: string, dest: string): Promise<void> => {
+        return new Promise<void>((resolve, reject) => {
+            pipeline(fs.createReadStream(src), fs.createWriteStream(dest, { flags: 'a' }), err => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    };
+
     /**
      * FileList 定義
      */
@@ -0,0 +1,407 @@
+import * as apid from '../../api';
+import StrUtil from './StrUtil';
+
+/**
+ * 検索クエリのフィールド
+ * default: フィールド指定なし (ルールの番組名, 概要, 詳細の設定に従う)
+ */
+export type KeywordQueryField = 'default' | 'title' | 'desc' | 'ext' | 'ch' | 'genre';
+
+/**
+ * 検索クエリの構文木
+ */
+export type KeywordQueryNode =
+    | {
+          type: 'and' | 'or';
+          children: KeywordQueryNode[];
+      }
+    | {
+          type: 'not';
+          child: KeywordQueryNode;
+      }
+    | {
+          type: 'term';
+          field: KeywordQueryField;
+          value: string; // 半角変換済み
+      };
+
+/**
+ * 検索クエリのパース結果
+ * errors が空でない場合 node は null となる
+ */
+export interface KeywordQueryParseResult {
+    node: KeywordQueryNode | null;
+    errors: apid.RuleKeywordQueryError[];
+}
+
+type Token =
+    | {
+          type: 'lparen' | 'rparen' | 'and' | 'or' | 'not';
+          position: number;
+          length: number;
+      }
+    | {
+          type: 'term';
+          position: number;
+          length: number;
+          field: KeywordQueryField;
+          value: string;
+      };
+
+/**
+ * パース中のエラー
+ */
+class KeywordQuerySyntaxError extends Error {
+    public position: number;
+    public length: number;
+
+    constructor(message: string, position: number, length: number) {
+        super(message);
+        this.position = position;
+        this.length = length;
+    }
+}
+
+/**
+ * ルールの検索クエリ周りの Util
+ *
+ * 構文
+ * - スペース区切りで and 検索, OR で or 検索, 先頭に - もしくは NOT で否定
+ * - ( ) でグループ化, " " で囲むとスペースや記号を含むフレーズとして扱う
+ * - title:, desc:, ext:, ch:, genre: でフィールドを指定する (genre は 7 や 7.1 のようにジャンル, サブジャンルを数値で指定する)
+ * 例: title:"ドラマ" -desc:再放送 (ch:NHK OR genre:7)
+ */
+namespace KeywordQueryUtil {
+    /**
+     * フィールド名 (別名含む) とフィールドの対応
+     */
+    const fieldNames: { [name: string]: KeywordQueryField } = {
+        title: 'title',
+        name: 'title',
+        desc: 'desc',
+        description: 'desc',
+        ext: 'ext',
+        extended: 'ext',
+        ch: 'ch',
+        channel: 'ch',
+        genre: 'genre',
+    };
+
+    /**
+     * 検索クエリをパースする
+     * @param query: string
+     * @return KeywordQueryParseResult
+     */
+    export const parse = (query: string): KeywordQueryParseResult => {
+        // 全角英数記号は 1 文字ずつ半角へ変換されるため位置はずれない
+        const str = StrUtil.toHalf(query);
+
+        try {
+            const tokens = tokenize(str);
+            if (tokens.length === 0) {
+                throw new KeywordQuerySyntaxError('query is empty', 0, 0);
+            }
+
+            const parser = new Parser(tokens, str.length);
+
+            return {
+                node: parser.parse(),
+                errors: [],
+            };
+        } catch (err: any) {
+            if (err instanceof KeywordQuerySyntaxError) {
+                return {
+                    node: null,
+                    errors: [
+                        {
+                            position: err.position,
+                            length: err.length,
+                            message: err.message,
+                        },
+                    ],
+                };
+            }
+
+            throw err;
+        }
+    };
+
+    /**
+     * ジャンル指定の値をパースする
+     * @param value: string 7 もしくは 7.1 形式
+     * @return apid.Genre | null 不正な値の場合は null を返す
+     */
+    export const parseGenre = (value: string): apid.Genre | null => {
+        const result = /^([0-9]+)(\.([0-9]+))?$/.exec(value);
+        if (result === null) {
+            return null;
+        }
+
+        const genre: apid.Genre = {
+            genre: parseInt(result[1], 10),
+        };
+        if (typeof result[3] !== 'undefined') {
+            genre.subGenre = parseInt(result[3], 10);
+        }
+
+        if (genre.genre > 0xf || (typeof genre.subGenre !== 'undefined' && genre.subGenre > 0xf)) {
+            return null;
+        }
+
+        return genre;
+    };
+
+    /**
+     * 空白文字か
+     * @param c: string
+     * @return boolean
+     */
+    const isSpace = (c: string): boolean => {
+        return c === ' ' || c === '\t' || c === '\n' || c === '\r';
+    };
+
+    /**
+     * 単語の区切り文字か
+     * @param c: string
+     * @return boolean
+     */
+    const isDelimiter = (c: string): boolean => {
+        return isSpace(c) || c === '(' || c === ')' || c === '"';
+    };
+
+    /**
+     * 字句解析
+     * @param str: string 半角変換済みのクエリ
+     * @return Token[]
+     */
+    const tokenize = (str: string): Token[] => {
+        const tokens: Token[] = [];
+
+        let i = 0;
+        while (i < str.length) {
+            const c = str[i];
+            if (isSpace(c)) {
+                i++;
+                continue;
+            }
+
+            if (c === '(' || c === ')') {
+                tokens.push({
+                    type: c === '(' ? 'lparen' : 'rparen',
+                    position: i,
+                    length: 1,
+                });
+                i++;
+                continue;
+            }
+
+            // 否定 (直後に検索語が続く場合のみ)
+            if (c === '-' && i + 1 < str.length && isSpace(str[i + 1]) === false) {
+                tokens.push({
+                    type: 'not',
+                    position: i,
+                    length: 1,
+                });
+                i++;
+                continue;
+            }
+
+            const start = i;
+            let field: KeywordQueryField = 'default';
+
+            // フィールド指定
+            const fieldResult = /^([a-zA-Z]+):/.exec(str.slice(i));
+            if (fieldResult !== null && typeof fieldNames[fieldResult[1].toLowerCase()] !== 'undefined') {
+                field = fieldNames[fieldResult[1].toLowerCase()];
+                i += fieldResult[0].length;
+                if (i >= str.length || isSpace(str[i]) || str[i] === '(' || str[i] === ')') {
+                    throw new KeywordQuerySyntaxError(
+                        `value is missing for ${fieldResult[1]}:`,
+                        start,
+                        fieldResult[0].length,
+                    );
+                }
+            }
+
+            let value: string;
+            if (str[i] === '"') {
+                // フレーズ
+                const end = str.indexOf('"', i + 1);
+                if (end === -1) {
+                    throw new KeywordQuerySyntaxError('unterminated quote', i, str.length - i);
+                }
+                value = str.slice(i + 1, end);
+                if (value.trim().length === 0) {
+                    throw new KeywordQuerySyntaxError('phrase is empty', start, end + 1 - start);
+                }
+                i = end + 1;
+            } else {
+                const valueStart = i;
+                while (i < str.length && isDelimiter(str[i]) === false) {
+                    i++;
+                }
+                value = str.slice(valueStart, i);
+
+                // 演算子
+                if (field === 'default' && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+                    tokens.push({
+                        type: value === 'AND' ? 'and' : value === 'OR' ? 'or' : 'not',
+                        position: start,
+                        length: value.length,
+                    });
+                    continue;
+                }
+            }
+
+            if (field === 'genre' && parseGenre(value) === null) {
+                throw new KeywordQuerySyntaxError(`invalid genre: ${value}`, start, i - start);
+            }
+
+            tokens.push({
+                type: 'term',
+                position: start,
+                length: i - start,
+                field: field,
+                value: value,
+            });
+        }
+
+        return tokens;
+    };
+
+    /**
+     * 構文解析
+     *
+     * or   := and ( OR and )*
+     * and  := not ( [AND] not )*
+     * not  := ( - | NOT ) not | primary
+     * primary := ( or ) | term
+     */
+    class Parser {
+        private tokens: Token[];
+        private length: number;
+        private index: number = 0;
+
+        constructor(tokens: Token[], length: number) {
+            this.tokens = tokens;
+            this.length = length;
+        }
+
+        public parse(): KeywordQueryNode {
+            const node = this.parseOr();
+
+            const token = this.peek();
+            if (token !== null) {
+                // parseOr は ) でのみ止まる
+                throw new KeywordQuerySyntaxError('unmatched )', token.position, token.length);
+            }
+
+            return node;
+        }
+
+        private peek(): Token | null {
+            return this.index < this.tokens.length ? this.tokens[this.index] : null;
+        }
+
+        private next(): Token {
+            return this.tokens[this.index++];
+        }
+
+        /**
+         * 演算子の右側に検索語が存在するか確認する
+         * @param operator: Token
+         */
+        private checkOperand(operator: Token): void {
+            const token = this.peek();
+            if (token === null || token.type === 'rparen' || token.type === 'and' || token.type === 'or') {
+                throw new KeywordQuerySyntaxError('operand is missing', operator.position, operator.length);
+            }
+        }
+
+        private parseOr(): KeywordQueryNode {
+            const children = [this.parseAnd()];
+
+            let token = this.peek();
+            while (token !== null && token.type === 'or') {
+                this.checkOperand(this.next());
+                children.push(this.parseAnd());
+                token = this.peek();
+            }
+
+            return children.length === 1 ? children[0] : { type: 'or', children: children };
+        }
+
+        private parseAnd(): KeywordQueryNode {
+            const children = [this.parseNot()];
+
+            let token = this.peek();
+            while (token !== null && token.type !== 'or' && token.type !== 'rparen') {
+                if (token.type === 'and') {
+                    this.checkOperand(this.next());
+                }
+                children.push(this.parseNot());
+                token = this.peek();
+            }
+
+            return children.length === 1 ? children[0] : { type: 'and', children: children };
+        }
+
+        private parseNot(): KeywordQueryNode {
+            const token = this.peek();
+            if (token !== null && token.type === 'not') {
+                this.checkOperand(this.next());
+
+                return {
+                    type: 'not',
+                    child: this.parseNot(),
+                };
+            }
+
+            return this.parsePrimary();
+        }
+
+        private parsePrimary(): KeywordQueryNode {
+            const token = this.peek();
+            if (token === null) {
+                throw new KeywordQuerySyntaxError('operand is missing', this.length, 0);
+            }
+
+            switch (token.type) {
+                case 'term':
+                    this.next();
+
+                    return {
+                        type: 'term',
+                        field: token.field,
+                        value: token.value,
+                    };
+                case 'lparen': {
+                    this.next();
+                    const inner = this.peek();
+                    if (inner !== null && inner.type === 'rparen') {
+                        throw new KeywordQuerySyntaxError(
+                            'parentheses are empty',
+                            token.position,
+                            inner.position + 1 - token.position,
+                        );
+                    }
+
+                    const node = this.parseOr();
+                    const close = this.peek();
+                    if (close === null || close.type !== 'rparen') {
+                        throw new KeywordQuerySyntaxError('unmatched (', token.position, token.length);
+                    }
+                    this.next();
+
+                    return node;
+                }
+                case 'rparen':
+                    throw new KeywordQuerySyntaxError('unmatched )', token.position, token.length);
+                default:
+                    throw new KeywordQuerySyntaxError('operand is missing', token.position, token.length);
+            }
+        }
+    }
+}
+
+export default KeywordQueryUtil;
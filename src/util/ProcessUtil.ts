@@ -7,8 +7,9 @@ namespace ProcessUtil {
      * セットしたプロセスを前処理をしてから殺す
      * @param child: ChildProcess
      * @param wait: number default 500
+     * @param isProcessGroup: boolean true の場合はプロセスグループ全体に SIGINT を送る (detached で生成したプロセスのみ)
      */
-    export const kill = (child: ChildProcess, wait = 500): Promise<void> => {
+    export const kill = (child: ChildProcess, wait = 500, isProcessGroup = false): Promise<void> => {
         return new Promise<void>((resolve: () => void, reject: (err: Error) => void) => {
             try {
                 if (child.stdin !== null) {
@@ -26,7 +27,7 @@ namespace ProcessUtil {
                 }
 
                 setTimeout(() => {
-                    child.kill('SIGINT');
+                    sendSignal(child, 'SIGINT', isProcessGroup);
                     resolve();
                 }, wait);
             } catch (err: any) {
@@ -35,6 +36,37 @@ namespace ProcessUtil {
         });
     };
 
+    /**
+     * プロセスにシグナルを送る
+     * isProcessGroup が true の場合はプロセスグループ全体に送るため, 孫プロセス (enc.js から起動した ffmpeg 等) にも届く
+     * @param child: ChildProcess
+     * @param signal: NodeJS.Signals
+     * @param isProcessGroup: boolean true の場合はプロセスグループ全体に送る (detached で生成したプロセスのみ)
+     * @return boolean 送信できた場合は true を返す
+     */
+    export const sendSignal = (child: ChildProcess, signal: NodeJS.Signals, isProcessGroup = false): boolean => {
+        if (isProcessGroup === true && typeof child.pid === 'number') {
+            try {
+                process.kill(-child.pid, signal);
+
+                return true;
+            } catch (err: any) {
+                // プロセスグループが存在しない場合は子プロセスにのみ送る
+            }
+        }
+
+        return child.kill(signal);
+    };
+
+    /**
+     * プロセスグループを生成できるか (detached を指定して子プロセスを生成できるか)
+     * Windows では detached を指定すると別のコンソールが開かれるため false を返す
+     * @return boolean
+     */
+    export const canCreateProcessGroup = (): boolean => {
+        return process.platform !== 'win32';
+    };
+
     export interface Cmds {
         bin: string;
         args: string[];
@@ -0,0 +1,102 @@
+/**
+ * 予約の優先度判定に使用する情報
+ */
+export interface ReservePriorityColumns {
+    updateTime: number;
+    ruleId: number | null;
+    isTimeSpecified: boolean;
+    priority: number;
+    substituteReserveId: number | null;
+}
+
+/**
+ * 録画パディングの計算に使用する情報
+ */
+export interface ReservePaddingColumns {
+    startAt: number;
+    endAt: number;
+    appliedStartPadding: number;
+    appliedEndPadding: number;
+}
+
+/**
+ * 予約情報周りの Util
+ */
+namespace ReserveUtil {
+    /**
+     * 録画パディングの最大値 (秒)
+     */
+    export const MAX_PADDING = 10 * 60;
+
+    /**
+     * チューナー割り当て時の優先順で予約を比較するソート用関数
+     * priority が大きい > 競合の代替予約以外 > 時刻指定予約 > 手動予約 > ルール予約
+     * priority が同じ場合は updateTime が小さい手動予約 > ruleId が小さいルール予約の順で判定する
+     * @param a: ReservePriorityColumns
+     * @param b: ReservePriorityColumns
+     * @return number a が優先される場合は負の値を返す
+     */
+    export const comparePriority = (a: ReservePriorityColumns, b: ReservePriorityColumns): number => {
+        if (a.priority !== b.priority) {
+            return b.priority - a.priority;
+        }
+
+        // 代替予約は他の予約を押しのけないようにする
+        const aIsSubstitute = a.substituteReserveId !== null;
+        const bIsSubstitute = b.substituteReserveId !== null;
+        if (aIsSubstitute !== bIsSubstitute) {
+            return aIsSubstitute ? 1 : -1;
+        }
+
+        const aIsManual = a.ruleId === null;
+        const bIsManual = b.ruleId === null;
+
+        if (aIsManual && bIsManual) {
+            if (a.isTimeSpecified === b.isTimeSpecified) {
+                return a.updateTime - b.updateTime;
+            } else {
+                return a.isTimeSpecified && !b.isTimeSpecified ? -1 : 1;
+            }
+        }
+        if (aIsManual && !bIsManual) {
+            return -1; // // 手動予約を優先
+        }
+        if (!aIsManual && bIsManual) {
+            return 1; // // 手動予約を優先
+        }
+        if (!aIsManual && !bIsManual && a.ruleId !== null && b.ruleId !== null) {
+            return a.ruleId - b.ruleId;
+        }
+
+        return 0;
+    };
+
+    /**
+     * 録画パディングが適用されているか
+     * @param reserve: ReservePaddingColumns
+     * @return boolean
+     */
+    export const hasPadding = (reserve: ReservePaddingColumns): boolean => {
+        return reserve.appliedStartPadding > 0 || reserve.appliedEndPadding > 0;
+    };
+
+    /**
+     * 録画パディングを含めた録画開始時刻を返す
+     * @param reserve: ReservePaddingColumns
+     * @return number
+     */
+    export const getRecStartAt = (reserve: ReservePaddingColumns): number => {
+        return reserve.startAt - reserve.appliedStartPadding * 1000;
+    };
+
+    /**
+     * 録画パディングを含めた録画終了時刻を返す
+     * @param reserve: ReservePaddingColumns
+     * @return number
+     */
+    export const getRecEndAt = (reserve: ReservePaddingColumns): number => {
+        return reserve.endAt + reserve.appliedEndPadding * 1000;
+    };
+}
+
+export default ReserveUtil;
@@ -0,0 +1,65 @@
+import * as apid from '../../api';
+import StrUtil from './StrUtil';
+
+/**
+ * Program, Reserve, Recorded が持つシリーズ情報
+ */
+export interface SeriesColumns {
+    seriesId?: number | null;
+    seriesRepeat?: number | null;
+    seriesEpisode?: number | null;
+    seriesLastEpisode?: number | null;
+    seriesName?: string | null;
+}
+
+/**
+ * ARIB シリーズ情報周りの Util
+ */
+namespace SeriesUtil {
+    /**
+     * DB のシリーズ情報を apid.ProgramSeries へ変換する
+     * @param item: SeriesColumns
+     * @param isHalfWidth: boolean true 半角文字で返す, false: オリジナルのまま
+     * @return apid.ProgramSeries | null シリーズ情報が無い場合は null を返す
+     */
+    export const toProgramSeries = (item: SeriesColumns, isHalfWidth: boolean): apid.ProgramSeries | null => {
+        if (typeof item.seriesId === 'undefined' || item.seriesId === null) {
+            return null;
+        }
+
+        const series: apid.ProgramSeries = {
+            id: item.seriesId,
+            repeat: typeof item.seriesRepeat === 'number' ? item.seriesRepeat : 0,
+        };
+
+        if (typeof item.seriesEpisode === 'number') {
+            series.episode = item.seriesEpisode;
+        }
+
+        if (typeof item.seriesLastEpisode === 'number') {
+            series.lastEpisode = item.seriesLastEpisode;
+        }
+
+        if (typeof item.seriesName === 'string') {
+            series.name = isHalfWidth === true ? StrUtil.toHalf(item.seriesName) : item.seriesName;
+        }
+
+        return series;
+    };
+
+    /**
+     * シリーズの最終話か判定する
+     * @param item: SeriesColumns
+     * @return boolean
+     */
+    export const isLastEpisode = (item: SeriesColumns): boolean => {
+        return (
+            typeof item.seriesId === 'number' &&
+            typeof item.seriesEpisode === 'number' &&
+            typeof item.seriesLastEpisode === 'number' &&
+            item.seriesEpisode >= item.seriesLastEpisode
+        );
+    };
+}
+
+export default SeriesUtil;
@@ -0,0 +1,50 @@
+import * as apid from '../../api';
+
+/**
+ * リアルタイムイベント周りの Util
+ */
+namespace ServerEventUtil {
+    /**
+     * 全てのイベントの種類
+     */
+    export const CATEGORIES: apid.ServerEventCategory[] = [
+        'reserve',
+        'recording',
+        'recorded',
+        'rule',
+        'tag',
+        'encode',
+        'stream',
+    ];
+
+    /**
+     * 購読するイベントの種類を解析する
+     * カンマ区切りの文字列もしくは文字列の配列を受け付け, 不正な値は無視する
+     * @param value: unknown
+     * @return apid.ServerEventCategory[]
+     */
+    export const parseCategories = (value: unknown): apid.ServerEventCategory[] => {
+        let values: unknown[] = [];
+        if (typeof value === 'string') {
+            values = value.split(',');
+        } else if (Array.isArray(value)) {
+            values = value;
+        }
+
+        const result: apid.ServerEventCategory[] = [];
+        for (const v of values) {
+            const category = typeof v === 'string' ? v.trim() : null;
+            if (
+                category !== null &&
+                CATEGORIES.includes(<apid.ServerEventCategory>category) &&
+                result.includes(<apid.ServerEventCategory>category) === false
+            ) {
+                result.push(<apid.ServerEventCategory>category);
+            }
+        }
+
+        return result;
+    };
+}
+
+export default ServerEventUtil;